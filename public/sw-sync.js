@@ -74,7 +74,20 @@
 
   self.addEventListener('sync', function (event) {
     if (event.tag === 'mutation-queue') {
-      event.waitUntil(core.processMutations());
+      event.waitUntil(
+        core.processMutations().then(function () {
+          return core.processSnoozes();
+        }),
+      );
+    }
+  });
+
+  // ── Periodic Background Sync event ────────────────────────────────────
+  // Registered by snooze.js so snoozed messages come back while no tab is open.
+
+  self.addEventListener('periodicsync', function (event) {
+    if (event.tag === 'snooze-wake') {
+      event.waitUntil(core.processSnoozes());
     }
   });
 
@@ -111,4 +124,33 @@
       core.getSyncStatus(data.accountId, data.folderId);
     }
   });
+
+  // ── Notification clicks ───────────────────────────────────────────────
+  // Clicks and buttons go to an open tab (notification-bridge.js
+  // `onNotificationAction`). Without one, a click opens the app at the
+  // notification's `data.path`; other buttons (a reminder's snooze) need a
+  // tab, which is also what showed the notification.
+
+  self.addEventListener('notificationclick', function (event) {
+    var notification = event.notification;
+    var data = notification.data || {};
+    var action = typeof event.action === 'string' ? event.action : '';
+    var opens = !action || action === 'open';
+    notification.close();
+
+    event.waitUntil(
+      self.clients
+        .matchAll({ type: 'window', includeUncontrolled: true })
+        .then(function (clientList) {
+          var client = clientList[0];
+          if (client) {
+            client.postMessage({ type: 'notificationAction', action: action, data: data });
+            return opens && client.focus ? client.focus() : undefined;
+          }
+          if (!opens) return undefined;
+          var path = typeof data.path === 'string' && data.path.charAt(0) === '#' ? data.path : '';
+          return self.clients.openWindow(self.registration.scope + path);
+        }),
+    );
+  });
 })();
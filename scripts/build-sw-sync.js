@@ -9,7 +9,8 @@
  *
  * ─── How it works ────────────────────────────────────────────────────────
  *
- *   1. Reads `src/utils/sync-core.js` (ES module).
+ *   1. Reads `src/utils/sync-core.js` (ES module) and inlines the sibling
+ *      modules it imports, each in its own function scope.
  *   2. Strips the `export` keyword from `export function createSyncCore`
  *      so the function becomes a plain declaration visible in the IIFE scope
  *      of sw-sync.js.
@@ -43,6 +44,36 @@ const SW_SYNC_DIST = resolve(ROOT, 'dist', 'sw-sync.js');
 const START_MARKER = '// @BUILD_INJECT_SYNC_CORE_START';
 const END_MARKER = '// @BUILD_INJECT_SYNC_CORE_END';
 
+const IMPORT_PATTERN = /^import\s*\{([^}]+)\}\s*from\s*'\.\/([^']+)';?$/gm;
+
+/**
+ * Replace `import { a, b } from './module.js'` with the module's source,
+ * wrapped so that only the imported names reach the sync-core scope.
+ */
+function inlineImports(source) {
+  return source.replace(IMPORT_PATTERN, (statement, specifiers, file) => {
+    const modulePath = resolve(dirname(CORE_SRC), file);
+    if (!existsSync(modulePath)) {
+      console.error(`[build-sw-sync] ERROR: ${modulePath} not found`);
+      process.exit(1);
+    }
+    const moduleSource = readFileSync(modulePath, 'utf8');
+    if (/^\s*import\s/m.test(moduleSource)) {
+      console.error(`[build-sw-sync] ERROR: ${file} has imports and cannot be inlined`);
+      process.exit(1);
+    }
+    const names = specifiers
+      .split(',')
+      .map((name) => name.trim())
+      .filter(Boolean);
+    const body = moduleSource.replace(
+      /^export\s+(?=(async\s+)?(function|const|let|class)\s)/gm,
+      '',
+    );
+    return `const { ${names.join(', ')} } = (() => {\n${body}\nreturn { ${names.join(', ')} };\n})();`;
+  });
+}
+
 function main() {
   // 1. Read the sync-core ES module source
   if (!existsSync(CORE_SRC)) {
@@ -50,7 +81,7 @@ function main() {
     process.exit(1);
   }
 
-  let coreSource = readFileSync(CORE_SRC, 'utf8');
+  let coreSource = inlineImports(readFileSync(CORE_SRC, 'utf8'));
 
   // 2. Convert ES module → plain function declaration
   //    Strip `export` from `export function createSyncCore`
@@ -76,6 +76,10 @@ import {
 } from './utils/inactivity-timer.js';
 import { startOutboxProcessor, processOutbox } from './utils/outbox-service';
 import { initMutationQueue, processMutationQueue } from './utils/mutation-queue';
+import { initMailRules } from './utils/mail-rules';
+import { initCalendarReplies } from './utils/calendar-invitations';
+import { initCalendarReminders } from './utils/calendar-reminders';
+import { initSnooze } from './utils/snooze';
 import { syncPendingDrafts } from './utils/draft-service';
 import { setIndexToasts, searchStore } from './stores/searchStore';
 // Database initialization with recovery support
@@ -165,7 +169,9 @@ const updateShortcutState = (route) => {
   // Allow keyboard shortcuts when compose is in compact mode (user can interact with mailbox)
   const composeBlocking = composeOpen && !composeCompact;
 
-  keyboardShortcuts.setEnabled(inMailbox && !composeBlocking);
+  keyboardShortcuts.setEnabled(inMailbox);
+  // A full compose window only takes compose shortcuts (e.g. insert template)
+  keyboardShortcuts.setContextOnly(composeBlocking);
 
   if (composeOpen) {
     keyboardShortcuts.setContext('compose');
@@ -288,6 +294,7 @@ const toasts = toastsRoot
   ? createToastHost(toastsRoot)
   : {
       show: () => {},
+      update: () => {},
       dismiss: () => {},
       items: { subscribe: (run) => run([]) || (() => {}) },
     };
@@ -370,10 +377,21 @@ if (profileRoot) {
 
 const calendarRoot = document.getElementById('calendar-root');
 let _calendarApp = null;
-let calendarApi = {
+let calendarApi: {
+  reload: () => void;
+  refresh?: () => void;
+  prefillQuickEvent: (email?: string) => void;
+  openEvent?: (occurrenceId: string) => void;
+} = {
   reload: () => {},
   prefillQuickEvent: () => {},
 };
+// An event to open once the calendar has loaded (e.g. from a reminder)
+let pendingCalendarEvent = '';
+const openCalendarEvent = (occurrenceId: string) => {
+  if (calendarApi.openEvent) calendarApi.openEvent(occurrenceId);
+  else pendingCalendarEvent = occurrenceId;
+};
 
 const calendarActive = writable(currentRoute() === 'calendar');
 if (calendarRoot) {
@@ -392,6 +410,10 @@ if (calendarRoot) {
               if (currentRoute() === 'calendar') {
                 calendarApi.reload?.();
               }
+              if (pendingCalendarEvent) {
+                calendarApi.openEvent?.(pendingCalendarEvent);
+                pendingCalendarEvent = '';
+              }
             }
           },
         },
@@ -408,7 +430,7 @@ viewModel.calendarView = {
 };
 
 const contactsRoot = document.getElementById('contacts-root');
-let contactsApi = {
+let contactsApi: { reload: () => void; refresh?: () => void } = {
   reload: () => {},
 };
 
@@ -442,14 +464,16 @@ if (contactsRoot) {
 window.addEventListener('fe:calendar-changed', () => {
   calendarApi.reload?.();
 });
+// Single-event changes are already in the calendarEvents table (calendar-cache.js)
 window.addEventListener('fe:calendar-event-changed', () => {
-  calendarApi.reload?.();
+  calendarApi.refresh?.();
 });
 window.addEventListener('fe:contacts-changed', () => {
   contactsApi.reload?.();
 });
+// Single-contact changes are already in the contacts table (contact-cache.js)
 window.addEventListener('fe:contact-changed', () => {
-  contactsApi.reload?.();
+  contactsApi.refresh?.();
 });
 
 const composeRoot = document.getElementById('compose-root');
@@ -464,6 +488,7 @@ let composeApi = {
   isMinimized: () => false,
   setToList: () => {},
   saveDraft: () => {},
+  openTemplates: () => {},
 };
 
 const passphraseRoot = document.getElementById('passphrase-root');
@@ -653,6 +678,7 @@ viewModel.mailboxView.composeModal = {
   reply: (prefill) =>
     composeApi.reply({
       subject: prefill?.subject,
+      originalSubject: prefill?.originalSubject,
       from: prefill?.from,
       to: prefill?.to,
       cc: prefill?.cc,
@@ -784,6 +810,10 @@ function initKeyboardShortcuts() {
     }
   });
 
+  keyboardShortcuts.on('insert-template', () => {
+    if (composeApi?.isVisible?.()) composeApi.openTemplates?.();
+  });
+
   keyboardShortcuts.on('print', () => {
     window.print();
   });
@@ -1266,6 +1296,10 @@ async function bootstrap() {
     startOutboxProcessor();
     syncPendingDrafts();
     initMutationQueue();
+    initMailRules();
+    initCalendarReplies();
+    initCalendarReminders();
+    initSnooze();
 
     window.addEventListener('online', () => {
       processOutbox(); // New outbox service
@@ -1506,6 +1540,17 @@ handleHashActions = function () {
     }, 0);
     // clear hash to avoid repeat
     history.replaceState({}, '', window.location.pathname);
+  } else if (hash.startsWith('#event=')) {
+    // Event link, e.g. from a reminder notification (calendar-reminders.js)
+    const occurrenceId = decodeURIComponent(hash.replace('#event=', ''));
+    if (currentRoute() !== 'calendar') {
+      routeStore.set('calendar');
+    }
+    setTimeout(() => {
+      openCalendarEvent(occurrenceId);
+    }, 0);
+    // clear hash to avoid repeat
+    history.replaceState({}, '', window.location.pathname);
   } else if (hash.startsWith('#search=')) {
     const term = decodeURIComponent(hash.replace('#search=', ''));
     // Only set route if not already on mailbox
@@ -19,7 +19,14 @@ import {
   extractTextContent,
 } from '../utils/mime-utils.js';
 import { getCachedAttachmentBlob, cacheAttachmentBlob } from '../utils/attachment-cache.js';
-import type { Message, Attachment, PerfTracer, PgpKey } from '../types';
+import type {
+  Message,
+  Attachment,
+  PerfTracer,
+  PgpKey,
+  PgpSignatureStatus,
+  SmimeStatus,
+} from '../types';
 import { warn } from '../utils/logger.ts';
 
 export interface MessageDetailCallbacks {
@@ -43,6 +50,8 @@ export interface ImageStatus {
 
 export interface PgpStatus {
   locked: boolean;
+  signature?: PgpSignatureStatus | null;
+  smime?: SmimeStatus | null;
 }
 
 interface PgpContext {
@@ -67,6 +76,7 @@ interface DecryptResult {
   reason?: string;
   message?: string;
   keyCount?: number;
+  pgpSignature?: PgpSignatureStatus | null;
 }
 
 interface PassphraseModalRef {
@@ -80,8 +90,18 @@ interface CachedBody {
   attachments?: Attachment[];
   blockedRemoteImageCount?: number;
   trackingPixelCount?: number;
+  pgpSignature?: PgpSignatureStatus | null;
+  smime?: SmimeStatus | null;
 }
 
+interface SecurityStatus {
+  pgpSignature?: PgpSignatureStatus | null;
+  smime?: SmimeStatus | null;
+}
+
+const SMIME_LOCKED_MESSAGE =
+  'This message is S/MIME encrypted. Import the certificate it was sent to in Settings to read it.';
+
 // Quiet debug helpers (toggle to console.* if needed)
 const debugLog = (..._args: unknown[]): void => {};
 const debugWarn = (..._args: unknown[]): void => {};
@@ -239,6 +259,19 @@ export const clearPgpKeyCache = (): void => {
   recentCacheHits.clear(); // Allow immediate re-evaluation after key changes
 };
 
+/**
+ * Unlock the current account's private keys before signing outgoing mail.
+ * Returns the number of stored keys (0 means none are configured).
+ */
+export const ensurePgpKeysUnlocked = async (
+  options: { allowPrompt?: boolean } = {},
+): Promise<number> => {
+  const keys = await getStoredKeys();
+  if (!keys.length) return 0;
+  await unlockStoredKeys(keys, options.allowPrompt !== false);
+  return keys.length;
+};
+
 /**
  * Invalidate cached message bodies that contain PGP-encrypted content.
  * Called after PGP keys are added/removed so the next load re-attempts decryption.
@@ -321,7 +354,11 @@ async function handleCachedPgpRaw(
         const nowMs = Date.now();
         const isRecentHit = nowMs - lastHitTime < CACHE_HIT_DEBOUNCE_MS;
 
-        onPgpStatus?.({ locked: false });
+        onPgpStatus?.({
+          locked: false,
+          signature: freshCache.pgpSignature || null,
+          smime: freshCache.smime || null,
+        });
 
         if (isRecentHit) {
           debugLog('[PGP] Cache hit debounced for message', messageId);
@@ -355,7 +392,7 @@ async function handleCachedPgpRaw(
   const result = await tryDecrypt(pgpArmor, { allowPrompt: allowPgpPrompt });
   if (result.success) {
     debugLog('[PGP] Successfully decrypted cached message');
-    onPgpStatus?.({ locked: false });
+    onPgpStatus?.({ locked: false, signature: result.pgpSignature || null });
     abortIfNeeded(signal);
     const parsed = result;
     const parsedAttachments = sanitizeAttachments(parsed.attachments || []);
@@ -385,6 +422,7 @@ async function handleCachedPgpRaw(
       parsed.textContent || '',
       meta,
       account,
+      { pgpSignature: parsed.pgpSignature || null },
     );
 
     // Update debounce timestamp after successful decryption
@@ -455,7 +493,9 @@ export const mailService = {
       return;
     }
 
-    const account = Local.get('email') || 'default';
+    // Messages in All Inboxes may belong to another signed-in account
+    const account = message.account || Local.get('email') || 'default';
+    const isActiveAccount = account === (Local.get('email') || 'default');
     const folder = message.folder_path || message.folder;
     const messageId = getMessageApiId(message);
     if (!messageId) {
@@ -523,11 +563,16 @@ export const mailService = {
             '',
             cached.meta || null,
             account,
+            { pgpSignature: cached.pgpSignature || null, smime: cached.smime || null },
           ).catch(() => {});
           const hydrated = applyInlineAttachments(sanitized.html, cached.attachments || []);
           onBody?.(`<div class="fe-message-canvas">${hydrated}</div>`);
           hasRenderedBody = true;
-          onPgpStatus?.({ locked: false });
+          onPgpStatus?.({
+            locked: false,
+            signature: cached.pgpSignature || null,
+            smime: cached.smime || null,
+          });
           onImageStatus?.({
             hasBlockedImages: sanitized.hasBlockedImages,
             trackingPixelCount: sanitized.trackingPixelCount,
@@ -546,7 +591,11 @@ export const mailService = {
         const now = Date.now();
         const isRecentHit = now - lastHitTime < CACHE_HIT_DEBOUNCE_MS;
 
-        onPgpStatus?.({ locked: false });
+        onPgpStatus?.({
+          locked: false,
+          signature: cached.pgpSignature || null,
+          smime: cached.smime || null,
+        });
         tracer.stage('cache_hit', { fresh: true, cacheAge: 0, debounced: isRecentHit });
 
         if (isRecentHit) {
@@ -655,14 +704,20 @@ export const mailService = {
           body?: string;
           attachments?: Attachment[];
           pgpLocked?: boolean;
+          smimeLocked?: boolean;
           raw?: string;
+          pgpSignature?: PgpSignatureStatus | null;
+          smime?: SmimeStatus | null;
         } | null = null;
+        // The sync worker only holds the active account's credentials
         try {
-          workerResult = await sendSyncRequest('messageDetail', {
-            account,
-            folder,
-            message: messagePayload,
-          });
+          workerResult = isActiveAccount
+            ? await sendSyncRequest('messageDetail', {
+                account,
+                folder,
+                message: messagePayload,
+              })
+            : null;
         } catch {
           workerResult = null;
         }
@@ -675,6 +730,11 @@ export const mailService = {
           return { source: 'worker', workerResult };
         }
 
+        // S/MIME encrypted to a certificate we don't have; the network copy won't help
+        if (workerResult?.smimeLocked) {
+          return { source: 'worker', workerResult };
+        }
+
         // If worker returned raw PGP data, skip network fetch — main thread can attempt decryption
         if (workerResult?.pgpLocked && workerResult?.raw) {
           return { source: 'main', detailRes: { raw: workerResult.raw }, workerResult };
@@ -691,6 +751,7 @@ export const mailService = {
             method: 'GET',
             pathOverride: `/v1/messages/${encodeURIComponent(messageId)}?folder=${encodeURIComponent(folder || '')}&raw=true`,
             signal: compositeSignal,
+            account,
           },
         );
         tracer.stage('network_end');
@@ -703,7 +764,10 @@ export const mailService = {
         body?: string;
         attachments?: Attachment[];
         pgpLocked?: boolean;
+        smimeLocked?: boolean;
         raw?: string;
+        pgpSignature?: PgpSignatureStatus | null;
+        smime?: SmimeStatus | null;
       } | null = null;
       let source = 'main';
       try {
@@ -718,7 +782,11 @@ export const mailService = {
         inFlightRequests.delete(requestKey);
       }
       if (source === 'worker' && workerResult?.body) {
-        onPgpStatus?.({ locked: false });
+        onPgpStatus?.({
+          locked: false,
+          signature: workerResult.pgpSignature || null,
+          smime: workerResult.smime || null,
+        });
         const workerAttachments = sanitizeAttachments(workerResult.attachments || []);
         const hydrated = applyInlineAttachments(workerResult.body, workerAttachments);
         abortIfNeeded(compositeSignal);
@@ -747,10 +815,18 @@ export const mailService = {
           '',
           null,
           account,
+          { pgpSignature: workerResult.pgpSignature || null, smime: workerResult.smime || null },
         ).catch(() => {});
         tracer.end({ status: 'worker_rendered' });
         return;
       }
+      if (source === 'worker' && workerResult?.smimeLocked) {
+        onPgpStatus?.({ locked: false, smime: workerResult.smime || null });
+        onBody?.(`<pre style="white-space:pre-wrap">${SMIME_LOCKED_MESSAGE}</pre>`);
+        onAttachments?.([]);
+        tracer.end({ status: 'worker_smime_locked' });
+        return;
+      }
       if (workerResult?.pgpLocked) {
         tracer.stage('worker_pgp_locked');
       }
@@ -846,7 +922,7 @@ export const mailService = {
         });
         if (decryptResult.success) {
           debugLog('[PGP] Successfully decrypted');
-          onPgpStatus?.({ locked: false });
+          onPgpStatus?.({ locked: false, signature: decryptResult.pgpSignature || null });
           abortIfNeeded(compositeSignal);
           const parsed = decryptResult;
           const parsedAttachments = sanitizeAttachments(parsed.attachments || []);
@@ -875,6 +951,7 @@ export const mailService = {
             parsed.textContent || '',
             result,
             account,
+            { pgpSignature: parsed.pgpSignature || null },
           );
           tracer.stage('cache_write', { cached: true });
         } else {
@@ -897,8 +974,16 @@ export const mailService = {
         const parseResult = await requestParsing({
           raw: rawMime,
           existingAttachments: attachments,
+          account,
         });
         const parsed = parseResult.success ? parseResult : null;
+        if (parseResult.smimeLocked) {
+          onPgpStatus?.({ locked: false, smime: parseResult.smime || null });
+          onBody?.(`<pre style="white-space:pre-wrap">${SMIME_LOCKED_MESSAGE}</pre>`);
+          onAttachments?.([]);
+          tracer.end({ status: 'network_smime_locked' });
+          return;
+        }
         if (shouldMeasure) {
           tracer.stage('parse_end', {
             duration: now() - parseStart,
@@ -907,6 +992,11 @@ export const mailService = {
           });
         }
         if (parsed) {
+          onPgpStatus?.({
+            locked: false,
+            signature: parsed.pgpSignature || null,
+            smime: parsed.smime || null,
+          });
           const parsedAttachments = sanitizeAttachments(parsed.attachments || []);
           abortIfNeeded(compositeSignal);
           const sanitizeStart = shouldMeasure ? now() : 0;
@@ -933,6 +1023,7 @@ export const mailService = {
             parsed.textContent || '',
             result,
             account,
+            { pgpSignature: parsed.pgpSignature || null, smime: parsed.smime || null },
           );
           tracer.stage('cache_write', { cached: true });
         } else {
@@ -1322,6 +1413,7 @@ async function cacheMessageContent(
   textContent = '',
   meta: unknown = null,
   account?: string,
+  { pgpSignature = null, smime = null }: SecurityStatus = {},
 ): Promise<void> {
   const messageId = getMessageApiId(message);
   if (!messageId || !renderedBody) return;
@@ -1353,6 +1445,8 @@ async function cacheMessageContent(
     sanitizedAt: Date.now(),
     trackingPixelCount: sanitized.trackingPixelCount || 0,
     blockedRemoteImageCount: sanitized.blockedRemoteImageCount || 0,
+    pgpSignature,
+    smime,
   };
   try {
     await db.messageBodies.put(record);
@@ -1600,27 +1694,11 @@ async function showMissingKeyNotification(account?: string): Promise<void> {
 // Cache to track which keys need passphrases (to avoid repeated checks)
 const keyNeedsPassphraseCache = new Map<string, boolean>();
 
-async function tryDecrypt(
-  armored: string,
-  options: { allowPrompt?: boolean; messageId?: string; account?: string } = {},
-): Promise<DecryptResult> {
-  const allowPrompt = options.allowPrompt !== false;
-  if (!armored || typeof armored !== 'string') {
-    debugLog('[PGP] No armored message to decrypt');
-    return { success: false };
-  }
-
-  debugLog('[PGP] [WORKER] Detected PGP encrypted message, attempting to decrypt...');
-
-  const keys = await getStoredKeys();
-  if (!keys.length) {
-    debugWarn('[PGP] No PGP keys configured in settings');
-    if (allowPrompt) {
-      await showMissingKeyNotification(options.account);
-    }
-    return { success: false };
-  }
-
+/**
+ * Make sure every stored key is unlocked in the sync worker, prompting for
+ * passphrases through the passphrase modal when allowed.
+ */
+async function unlockStoredKeys(keys: PgpKey[], allowPrompt: boolean): Promise<void> {
   for (const key of keys) {
     let passphrase = passphraseCache.get(key.name);
     if (!passphrase) {
@@ -1704,6 +1782,30 @@ async function tryDecrypt(
       }
     }
   }
+}
+
+async function tryDecrypt(
+  armored: string,
+  options: { allowPrompt?: boolean; messageId?: string; account?: string } = {},
+): Promise<DecryptResult> {
+  const allowPrompt = options.allowPrompt !== false;
+  if (!armored || typeof armored !== 'string') {
+    debugLog('[PGP] No armored message to decrypt');
+    return { success: false };
+  }
+
+  debugLog('[PGP] [WORKER] Detected PGP encrypted message, attempting to decrypt...');
+
+  const keys = await getStoredKeys();
+  if (!keys.length) {
+    debugWarn('[PGP] No PGP keys configured in settings');
+    if (allowPrompt) {
+      await showMissingKeyNotification(options.account);
+    }
+    return { success: false };
+  }
+
+  await unlockStoredKeys(keys, allowPrompt);
 
   try {
     debugLog('[PGP] [WORKER] Requesting decryption from worker...');
@@ -1721,6 +1823,7 @@ async function tryDecrypt(
         body: result.body,
         textContent: result.textContent,
         attachments: result.attachments,
+        pgpSignature: result.pgpSignature || null,
       };
     } else {
       debugWarn('[PGP] [WORKER] Decryption failed:', result.reason, result.message);
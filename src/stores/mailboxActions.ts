@@ -333,8 +333,9 @@ export const toggleRead = async (msg) => {
     return;
   }
 
-  // Update IDB cache immediately (optimistic)
-  const account = Local.get('email') || 'default';
+  // Update IDB cache immediately (optimistic); in All Inboxes the message may
+  // belong to another signed-in account
+  const account = msg.account || Local.get('email') || 'default';
   await db.messages
     .where('[account+id]')
     .equals([account, msg.id])
@@ -352,7 +353,7 @@ export const toggleRead = async (msg) => {
   };
 
   if (!navigator.onLine) {
-    await queueMutation('toggleRead', mutationPayload);
+    await queueMutation('toggleRead', mutationPayload, { account });
     return;
   }
 
@@ -360,11 +361,11 @@ export const toggleRead = async (msg) => {
     await Remote.request(
       'MessageUpdate',
       { flags: newFlags, folder: msg.folder },
-      { method: 'PUT', pathOverride: `/v1/messages/${encodeURIComponent(apiId)}` },
+      { method: 'PUT', pathOverride: `/v1/messages/${encodeURIComponent(apiId)}`, account },
     );
   } catch (err) {
     warn('toggleRead failed, queuing for retry', err);
-    await queueMutation('toggleRead', mutationPayload);
+    await queueMutation('toggleRead', mutationPayload, { account });
   }
 };
 
@@ -411,7 +412,7 @@ export const toggleStar = async (msg) => {
   }
 
   // Update IDB cache immediately (optimistic)
-  const account = Local.get('email') || 'default';
+  const account = msg.account || Local.get('email') || 'default';
   await db.messages
     .where('[account+id]')
     .equals([account, msg.id])
@@ -427,7 +428,7 @@ export const toggleStar = async (msg) => {
   };
 
   if (!navigator.onLine) {
-    await queueMutation('toggleStar', mutationPayload);
+    await queueMutation('toggleStar', mutationPayload, { account });
     return;
   }
 
@@ -435,11 +436,11 @@ export const toggleStar = async (msg) => {
     await Remote.request(
       'MessageUpdate',
       { flags: Array.from(newFlags), folder: msg.folder },
-      { method: 'PUT', pathOverride: `/v1/messages/${encodeURIComponent(apiId)}` },
+      { method: 'PUT', pathOverride: `/v1/messages/${encodeURIComponent(apiId)}`, account },
     );
   } catch (err) {
     warn('toggleStar failed, queuing for retry', err);
-    await queueMutation('toggleStar', mutationPayload);
+    await queueMutation('toggleStar', mutationPayload, { account });
   }
 };
 
@@ -510,7 +511,7 @@ const getMessageBodyForReply = async (msg) => {
   }
 
   // Otherwise fetch from the database cache
-  const account = Local.get('email') || 'default';
+  const account = msg.account || Local.get('email') || 'default';
   try {
     const cached = await db.messageBodies.get([account, msgId]);
     if (cached?.body) {
@@ -604,6 +605,16 @@ const addForwardPrefix = (subject) => {
   return `Fwd: ${trimmed}`;
 };
 
+/**
+ * Send replies and forwards from the account that received the message
+ * (All Inboxes shows every signed-in account's mail)
+ */
+const owningAccountPrefill = (msg: { account?: string } | null | undefined) => {
+  const account = msg?.account;
+  const active = Local.get('email') || 'default';
+  return account && account !== 'default' && account !== active ? { fromAddress: account } : {};
+};
+
 /**
  * Reply to a message
  * Opens compose immediately and loads body asynchronously
@@ -629,7 +640,9 @@ export const replyTo = async (msg, options = {}) => {
 
   // Open compose immediately with loading state
   composeModalRef.reply?.({
+    ...owningAccountPrefill(msg),
     subject: addReplyPrefix(msg?.subject),
+    originalSubject: msg?.subject,
     from: msg?.from,
     to: targets.to,
     cc: targets.cc,
@@ -669,6 +682,7 @@ export const forwardMessage = async (msg) => {
   const quotedBody = buildForwardQuotedBody(msg, bodyToUse);
 
   composeModalRef.forward?.({
+    ...owningAccountPrefill(msg),
     subject: addForwardPrefix(msg?.subject),
     html: quotedBody,
   });
@@ -1381,10 +1395,11 @@ export const resetSessionState = () => {
 };
 
 const clearSensitiveClientStorage = (account?: string) => {
-  // Clear per-account PGP material before removing the email key
+  // Clear per-account PGP and S/MIME material before removing the email key
   if (account) {
     Local.remove(`pgp_passphrases_${account}`);
     Local.remove(`pgp_keys_${account}`);
+    Local.remove(`smime_keys_${account}`);
   }
 
   Local.remove('alias_auth');
@@ -13,10 +13,13 @@ import { sendSyncRequest, onSyncTaskComplete } from '../utils/sync-worker-client
 import { createPerfTracer } from '../utils/perf-logger.ts';
 import { memoize } from '../utils/store-utils.ts';
 import { getEffectiveSettingValue } from './settingsStore';
-import { sortMessages, normalizeSortDate, getMessageUidValue } from '../utils/message-sort.ts';
+import { sortMessages, messageSortDate, getMessageUidValue } from '../utils/message-sort.ts';
 import { decodeMimeHeader } from '../utils/mime-utils.js';
 import { validateFolderName } from '../utils/folder-validation.ts';
 import { queueMutation } from '../utils/mutation-queue';
+import { addSnoozes, removeSnooze, SNOOZE_FOLDER } from '../utils/snooze.js';
+import { isUnifiedFolder, readUnifiedPage, refreshUnifiedPage } from '../utils/unified-inbox.js';
+import { resolveSourceFolder } from '../utils/unified-inbox-helpers';
 import {
   folders,
   selectedFolder,
@@ -59,6 +62,7 @@ import {
 import { effectiveLayoutMode } from './settingsStore';
 import { normalizeLayoutMode } from './settingsRegistry';
 import { warn } from '../utils/logger.ts';
+import type { Folder, Message } from '../types';
 
 // Folders that are always protected from rename/delete
 const ALWAYS_PROTECTED = new Set(['INBOX', 'OUTBOX']);
@@ -218,6 +222,24 @@ const mergeMissingFrom = async (account, list = []) => {
   }
 };
 
+// Fields only this client sets on a cached message (snooze wake-ups and list
+// headers seen when the message was opened); server records don't carry them
+const mergeLocalFields = async (account: string, list: Message[] = []): Promise<Message[]> => {
+  try {
+    const existing = await db.messages.bulkGet(list.map((msg) => [account, msg.id]));
+    return list.map((msg, idx) => {
+      const record = existing?.[idx];
+      if (!record) return msg;
+      const next = { ...msg };
+      if (record.wokenAt && !msg.wokenAt) next.wokenAt = record.wokenAt;
+      if (record.list && !msg.list) next.list = record.list;
+      return next;
+    });
+  } catch {
+    return list;
+  }
+};
+
 const getMessageKey = (msg) =>
   msg?.id ??
   msg?.message_id ??
@@ -373,13 +395,16 @@ const createMailboxStore = () => {
     searching.set(true);
     try {
       const folder = get(selectedFolder);
+      // All Inboxes has no index of its own, so it searches every account
+      const unified = isUnifiedFolder(folder);
       const results =
         (await searchStore.actions.search(searchQuery, {
-          folder,
+          folder: unified ? null : folder,
           crossFolder: false,
           limit: 200,
           // Force indexed search across the folder, not just the visible page
           candidates: [],
+          ...(unified ? { scope: 'all' as const } : {}),
         })) || [];
 
       searchResults.set(results);
@@ -685,9 +710,63 @@ const createMailboxStore = () => {
     return mapped;
   };
 
+  // All Inboxes: a page merged from every account's cache, shown at once and
+  // again after each account is refreshed from the API (unified-inbox.js)
+  const loadUnifiedMessages = async () => {
+    const currentPage = get(page);
+    const limit = getLimit();
+    const currentSort = get(sortOrder);
+    const shouldAppend = isMobileViewport() && currentPage > 1;
+    const show = ({
+      messages: list,
+      hasNextPage: more,
+    }: {
+      messages: Record<string, unknown>[];
+      hasNextPage: boolean;
+    }) => {
+      if (!isUnifiedFolder(get(selectedFolder)) || get(page) !== currentPage) return;
+      const mapped = list.map((msg) => {
+        const decodedSubject = decodeMimeHeader((msg.subject as string) || '(No subject)');
+        return {
+          ...msg,
+          subject: decodedSubject,
+          normalizedSubject:
+            (msg.normalizedSubject as string) || normalizeSubjectMemoized(decodedSubject),
+          is_starred:
+            msg.is_starred ?? (Array.isArray(msg.flags) ? msg.flags.includes('\\Flagged') : false),
+        };
+      });
+      messages.set(shouldAppend ? mergeMessagePages(get(messages), mapped) : mapped);
+      hasNextPage.set(Boolean(more));
+      loading.set(false);
+    };
+
+    error.set('');
+    try {
+      const cached = await readUnifiedPage({ sort: currentSort, page: currentPage, limit });
+      if (cached.messages.length) show(cached);
+      else loading.set(true);
+      await refreshUnifiedPage({ page: currentPage, limit });
+      show(await readUnifiedPage({ sort: currentSort, page: currentPage, limit }));
+      // The app badge counts every account's unread mail
+      import('../utils/notification-manager')
+        .then(({ initBadgeFromStore }) => initBadgeFromStore())
+        .catch(() => {});
+    } catch (err) {
+      warn('unified load failed', err);
+      if (isUnifiedFolder(get(selectedFolder))) {
+        loading.set(false);
+        error.set('Unable to load messages.');
+      }
+    }
+  };
+
   const loadMessages = async () => {
     const account = Local.get('email') || 'default';
     const folder = get(selectedFolder);
+    if (isUnifiedFolder(folder)) {
+      return loadUnifiedMessages();
+    }
     const currentPage = get(page);
     const limit = getLimit();
     const startIdx = (currentPage - 1) * limit;
@@ -747,6 +826,17 @@ const createMailboxStore = () => {
           .between([account, folder, Dexie.minKey], [account, folder, Dexie.maxKey], true, true);
         const ordered = currentSort === 'newest' ? range.reverse() : range;
         pageSlice = await ordered.offset(startIdx).limit(limit).toArray();
+        if (currentSort === 'newest' && startIdx === 0) {
+          // Messages woken from a snooze sort by wokenAt, not by date
+          const woken = await db.messages
+            .where('[account+folder+wokenAt]')
+            .between([account, folder, Dexie.minKey], [account, folder, Dexie.maxKey], true, true)
+            .toArray();
+          if (woken.length) {
+            const merged = mergeMessagePages(woken, pageSlice);
+            pageSlice = sortMessages(merged, 'newest').slice(0, limit);
+          }
+        }
       } else {
         const cached = await db.messages
           .where('[account+folder]')
@@ -996,14 +1086,30 @@ const createMailboxStore = () => {
       if (mapped.length) {
         merged = await mergeMissingLabels(account, mapped, labelPresence);
         merged = await mergeMissingFrom(account, merged);
+        merged = await mergeLocalFields(account, merged);
       }
 
       // Always prune stale cache entries on page 1 when we have fresh server data
       // This ensures deleted/moved messages don't reappear from cache
       const shouldPrune = !shouldAppend && currentPage === 1 && cachedPage.length && merged.length;
 
+      // Woken messages sort by wokenAt, and page 1 keeps the ones the server
+      // lists further down (see the cache read above)
+      let display = merged;
+      if (currentSort === 'newest') {
+        const woken: Message[] =
+          !shouldAppend && currentPage === 1
+            ? cachedPage.filter((msg: Message) => msg?.wokenAt)
+            : [];
+        const serverIds = new Set(merged.map((msg) => msg.id));
+        display = sortMessages(
+          [...merged, ...woken.filter((msg) => !serverIds.has(msg.id))],
+          'newest',
+        );
+      }
+
       if (!isStaleRequest) {
-        const nextMessages = shouldAppend ? mergeMessagePages(get(messages), merged) : merged;
+        const nextMessages = shouldAppend ? mergeMessagePages(get(messages), display) : display;
         messages.set(nextMessages);
         if (
           allowAutoSelect &&
@@ -1031,7 +1137,7 @@ const createMailboxStore = () => {
             tracer.stage('cache_prune_start');
             const serverIds = new Set(merged.map((msg) => msg.id).filter(Boolean));
             const staleKeys = cachedPage
-              .filter((msg) => msg?.id && !serverIds.has(msg.id))
+              .filter((msg: Message) => msg?.id && !msg.wokenAt && !serverIds.has(msg.id))
               .map((msg) => [account, msg.id]);
             if (staleKeys.length) {
               await db.messages.bulkDelete(staleKeys);
@@ -1044,7 +1150,7 @@ const createMailboxStore = () => {
       // Update in-memory cache with fresh network data
       if (merged.length) {
         folderMessageCache.set(`${account}:${folder}:${currentPage}`, {
-          messages: merged,
+          messages: display,
           hasNextPage: Boolean(hasMore),
         });
       }
@@ -1136,6 +1242,15 @@ const createMailboxStore = () => {
   };
 
   onSyncTaskComplete((data) => {
+    if (data?.taskType === 'snoozes' && data.woken?.length) {
+      // Woken messages are back in their folders with a new date
+      const account = data.account || Local.get('email') || 'default';
+      for (const folder of data.folders || []) invalidateFolderInMemCache(account, folder);
+      if ((data.folders || []).includes(get(selectedFolder))) {
+        scheduleSyncRefresh(get(selectedFolder), account);
+      }
+      return;
+    }
     if (data?.taskType !== 'metadata' || !data?.folder) return;
     const account = data.account || Local.get('email') || 'default';
     if ((Local.get('email') || 'default') !== account) return;
@@ -1254,9 +1369,68 @@ const createMailboxStore = () => {
     selectedMessage.set(msg || null);
   };
 
+  // Messages in All Inboxes can belong to any signed-in account; actions go
+  // to the owning account and its own special folders
+  const messageAccount = (msg: Partial<Message> | null | undefined): string =>
+    msg?.account || Local.get('email') || 'default';
+
+  const otherAccountFolderPath = async (
+    account: string,
+    specialUse: string,
+    settingKey: string | null,
+    fallback: string,
+  ): Promise<string> => {
+    const customFolder = settingKey ? getEffectiveSettingValue(settingKey, { account }) : null;
+    if (customFolder) return customFolder as string;
+    const cached = await db.folders
+      .where('account')
+      .equals(account)
+      .toArray()
+      .catch(() => []);
+    return resolveSourceFolder(cached, specialUse) || fallback;
+  };
+
+  const isActiveAccount = (account: string) => account === (Local.get('email') || 'default');
+
+  const getAccountArchiveFolderPath = async (account: string): Promise<string> =>
+    isActiveAccount(account)
+      ? (getArchiveFolderPath() as string)
+      : otherAccountFolderPath(account, '\\Archive', 'archive_folder', 'Archive');
+
+  const getAccountTrashFolderPath = async (account: string): Promise<string> =>
+    isActiveAccount(account)
+      ? getTrashFolderPath()
+      : otherAccountFolderPath(account, '\\Trash', null, 'Trash');
+
+  const getAccountSentFolderPath = async (account: string): Promise<string> =>
+    isActiveAccount(account)
+      ? (getSentFolderPath() as string)
+      : otherAccountFolderPath(account, '\\Sent', 'sent_folder', 'Sent');
+
+  const groupByAccount = <T extends Partial<Message>>(list: T[] = []): T[][] => {
+    const groups = new Map<string, T[]>();
+    for (const msg of list) {
+      const account = messageAccount(msg);
+      if (!groups.has(account)) groups.set(account, []);
+      groups.get(account)?.push(msg);
+    }
+    return [...groups.values()];
+  };
+
+  type BulkResult = { success: number; failed: number };
+
+  const sumBulkResults = (results: BulkResult[]): BulkResult =>
+    results.reduce(
+      (total, result) => ({
+        success: total.success + result.success,
+        failed: total.failed + result.failed,
+      }),
+      { success: 0, failed: 0 },
+    );
+
   const archiveMessage = async (msg) => {
     if (!msg?.id) return;
-    const target = getArchiveFolderPath();
+    const target = await getAccountArchiveFolderPath(messageAccount(msg));
     if (!target) return;
     return moveMessage(msg, target, { stayInFolder: true });
   };
@@ -1264,7 +1438,8 @@ const createMailboxStore = () => {
   const deleteMessage = async (msg, { permanent = false } = {}) => {
     if (!msg?.id) return;
 
-    const trashPath = getTrashFolderPath();
+    const account = messageAccount(msg);
+    const trashPath = await getAccountTrashFolderPath(account);
     const msgFolder = (msg.folder || '').toUpperCase();
     const trashUpper = (trashPath || '').toUpperCase();
     const isInTrash =
@@ -1283,7 +1458,6 @@ const createMailboxStore = () => {
     // Permanent delete, already in trash, or trash folder not found - use DELETE API
     const apiId = getMessageApiId(msg);
     if (!apiId) return;
-    const account = Local.get('email') || 'default';
     const recordId = msg.id;
 
     // Save original state for rollback
@@ -1322,17 +1496,17 @@ const createMailboxStore = () => {
     };
 
     if (!navigator.onLine) {
-      await queueMutation('delete', mutationPayload);
+      await queueMutation('delete', mutationPayload, { account });
       return;
     }
 
     try {
       let path = `/v1/messages/${encodeURIComponent(apiId)}`;
       if (permanent) path += '?permanent=1';
-      await Remote.request('MessageDelete', {}, { method: 'DELETE', pathOverride: path });
+      await Remote.request('MessageDelete', {}, { method: 'DELETE', pathOverride: path, account });
     } catch (err) {
       warn('deleteMessage failed, queuing for retry', err);
-      await queueMutation('delete', mutationPayload);
+      await queueMutation('delete', mutationPayload, { account });
     }
   };
 
@@ -1344,7 +1518,17 @@ const createMailboxStore = () => {
   const bulkDeleteMessages = async (messagesToDelete, { permanent = false } = {}) => {
     if (!messagesToDelete?.length) return { success: 0, failed: 0 };
 
-    const trashPath = getTrashFolderPath();
+    const groups = groupByAccount(messagesToDelete);
+    if (groups.length > 1) {
+      const results: BulkResult[] = [];
+      for (const group of groups) {
+        results.push(await bulkDeleteMessages(group, { permanent }));
+      }
+      return sumBulkResults(results);
+    }
+
+    const account = messageAccount(messagesToDelete[0]);
+    const trashPath = await getAccountTrashFolderPath(account);
     const trashUpper = (trashPath || '').toUpperCase();
     const isTrashFolder = (folder) => {
       const folderUpper = (folder || '').toUpperCase();
@@ -1380,7 +1564,6 @@ const createMailboxStore = () => {
     }
 
     // Permanent delete - process with parallel API calls
-    const account = Local.get('email') || 'default';
     const validMessages = messagesToDelete.filter((msg) => msg?.id && getMessageApiId(msg));
 
     if (!validMessages.length) return { success: 0, failed: 0 };
@@ -1417,7 +1600,11 @@ const createMailboxStore = () => {
           const apiId = getMessageApiId(msg);
           let path = `/v1/messages/${encodeURIComponent(apiId)}`;
           if (permanent) path += '?permanent=1';
-          await Remote.request('MessageDelete', {}, { method: 'DELETE', pathOverride: path });
+          await Remote.request(
+            'MessageDelete',
+            {},
+            { method: 'DELETE', pathOverride: path, account },
+          );
           return msg;
         }),
       );
@@ -1464,14 +1651,15 @@ const createMailboxStore = () => {
     if (!apiId) return { success: false };
     const target = targetOverride;
     if (!target || target === msg.folder) return { success: false };
+    const account = messageAccount(msg);
 
     // Prevent moving messages out of the active Sent folder (except to Trash)
     if (!allowFromSent) {
-      const sentPath = getSentFolderPath();
+      const sentPath = await getAccountSentFolderPath(account);
       const msgFolder = (msg.folder || '').toUpperCase();
       const sentUpper = (sentPath || '').toUpperCase();
       if (sentUpper && msgFolder === sentUpper) {
-        const trashPath = getTrashFolderPath();
+        const trashPath = await getAccountTrashFolderPath(account);
         const trashUpper = (trashPath || '').toUpperCase();
         if (target.toUpperCase() !== trashUpper) {
           const toasts = get(toastsRef);
@@ -1481,10 +1669,14 @@ const createMailboxStore = () => {
       }
     }
 
-    const account = Local.get('email') || 'default';
     const recordId = msg.id;
     const result = { success: false };
 
+    // Moving a snoozed message out of Snoozed by hand cancels the snooze
+    if (msg.folder === SNOOZE_FOLDER && recordId != null) {
+      await removeSnooze(recordId, account).catch(() => {});
+    }
+
     // Save original state for rollback (only if staying in folder)
     const originalList = stayInFolder ? get(messages) : null;
     const originalSelected = stayInFolder ? get(selectedMessage) : null;
@@ -1540,7 +1732,7 @@ const createMailboxStore = () => {
     };
 
     if (!navigator.onLine) {
-      await queueMutation('move', mutationPayload);
+      await queueMutation('move', mutationPayload, { account });
       result.success = true;
       return result;
     }
@@ -1549,17 +1741,83 @@ const createMailboxStore = () => {
       await Remote.request(
         'MessageUpdate',
         { folder: target },
-        { method: 'PUT', pathOverride: `/v1/messages/${encodeURIComponent(apiId)}` },
+        { method: 'PUT', pathOverride: `/v1/messages/${encodeURIComponent(apiId)}`, account },
       );
       result.success = true;
     } catch (err) {
       warn('moveMessage failed, queuing for retry', err);
-      await queueMutation('move', mutationPayload);
+      await queueMutation('move', mutationPayload, { account });
       result.success = true; // Queued successfully, treat as success from UI perspective
     }
     return result;
   };
 
+  /**
+   * Snooze messages until a given time: remember where they came from, then
+   * move them to the Snoozed folder. They come back unread when the time is
+   * up (snooze.js).
+   */
+  const snoozeMessages = async (
+    messagesToSnooze: Message[],
+    until: number,
+  ): Promise<{ success: number }> => {
+    const groups = groupByAccount(messagesToSnooze || []);
+    if (groups.length > 1) {
+      let success = 0;
+      for (const group of groups) {
+        success += (await snoozeMessages(group, until)).success;
+      }
+      return { success };
+    }
+
+    const account = messageAccount(groups[0]?.[0]);
+    const sentUpper = String((await getAccountSentFolderPath(account)) || '').toUpperCase();
+    const targets = (messagesToSnooze || []).filter(
+      (msg) =>
+        msg?.id != null &&
+        getMessageApiId(msg) &&
+        msg.folder !== SNOOZE_FOLDER &&
+        (msg.folder || '').toUpperCase() !== sentUpper,
+    );
+    if (!targets.length) return { success: 0 };
+
+    // Validates `until` before anything moves
+    await addSnoozes(
+      targets.map((msg) => ({ message: msg, apiId: getMessageApiId(msg) })),
+      until,
+      { account },
+    );
+
+    const accountFolders = isActiveAccount(account)
+      ? get(folders) || []
+      : await db.folders
+          .where('account')
+          .equals(account)
+          .toArray()
+          .catch(() => []);
+    const hasFolder = accountFolders.some((f: Partial<Folder>) => f.path === SNOOZE_FOLDER);
+    if (!hasFolder) {
+      try {
+        await Remote.request(
+          'FolderCreate',
+          { path: SNOOZE_FOLDER },
+          { method: 'POST', pathOverride: '/v1/folders', account },
+        );
+        if (isActiveAccount(account)) await loadFolders({ force: true });
+      } catch (err) {
+        // Offline, or it already exists on the server; the moves are retried
+        warn('Failed to create the Snoozed folder', err);
+      }
+    }
+
+    let success = 0;
+    for (const msg of targets) {
+      const result = await moveMessage(msg, SNOOZE_FOLDER, { stayInFolder: true });
+      if (result?.success) success += 1;
+    }
+    return { success };
+  };
+
   /**
    * Bulk move messages - optimized for performance
    * Batches UI updates, API calls, DB writes, and search indexing
@@ -1567,10 +1825,19 @@ const createMailboxStore = () => {
   const bulkMoveMessages = async (messagesToMove, target) => {
     if (!target || !messagesToMove?.length) return { success: 0, failed: 0 };
 
-    const account = Local.get('email') || 'default';
-    const sentPath = getSentFolderPath();
+    const groups = groupByAccount(messagesToMove);
+    if (groups.length > 1) {
+      const results: BulkResult[] = [];
+      for (const group of groups) {
+        results.push(await bulkMoveMessages(group, target));
+      }
+      return sumBulkResults(results);
+    }
+
+    const account = messageAccount(messagesToMove[0]);
+    const sentPath = await getAccountSentFolderPath(account);
     const sentUpper = (sentPath || '').toUpperCase();
-    const trashPath = getTrashFolderPath();
+    const trashPath = await getAccountTrashFolderPath(account);
     const trashUpper = (trashPath || '').toUpperCase();
     const targetUpper = target.toUpperCase();
 
@@ -1620,7 +1887,7 @@ const createMailboxStore = () => {
           await Remote.request(
             'MessageUpdate',
             { folder: target },
-            { method: 'PUT', pathOverride: `/v1/messages/${encodeURIComponent(apiId)}` },
+            { method: 'PUT', pathOverride: `/v1/messages/${encodeURIComponent(apiId)}`, account },
           );
           return msg;
         }),
@@ -1678,6 +1945,18 @@ const createMailboxStore = () => {
     return { success, failed };
   };
 
+  /**
+   * Archive messages, each to its own account's archive folder
+   */
+  const bulkArchiveMessages = async (messagesToArchive: Message[]): Promise<BulkResult> => {
+    const results: BulkResult[] = [];
+    for (const group of groupByAccount(messagesToArchive || [])) {
+      const target = await getAccountArchiveFolderPath(messageAccount(group[0]));
+      results.push(await bulkMoveMessages(group, target));
+    }
+    return sumBulkResults(results);
+  };
+
   /**
    * Find the first message according to sort order without sorting the entire array
    * More efficient than sorting when you only need the first element
@@ -1686,10 +1965,9 @@ const createMailboxStore = () => {
     if (!Array.isArray(list) || list.length === 0) return null;
     if (list.length === 1) return list[0];
 
-    const dateValue = (msg) => normalizeSortDate(msg?.dateMs ?? msg?.date ?? msg?.Date);
     const compareByDate = (a, b, direction) => {
-      const aDate = dateValue(a);
-      const bDate = dateValue(b);
+      const aDate = messageSortDate(a);
+      const bDate = messageSortDate(b);
       if (aDate !== bDate) return direction * (aDate - bDate);
       const aUid = getMessageUidValue(a);
       const bUid = getMessageUidValue(b);
@@ -2185,6 +2463,8 @@ const createMailboxStore = () => {
       bulkDeleteMessages,
       moveMessage,
       bulkMoveMessages,
+      bulkArchiveMessages,
+      snoozeMessages,
       getArchiveFolderPath,
       getTrashFolderPath,
       getSentFolderPath,
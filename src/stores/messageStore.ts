@@ -2,6 +2,7 @@ import { writable, derived } from 'svelte/store';
 import type { Writable, Readable } from 'svelte/store';
 import { shallowArrayEqual } from '../utils/store-utils.ts';
 import { sortMessages } from '../utils/message-sort.ts';
+import { isUnifiedFolder } from '../utils/unified-inbox-helpers';
 import { selectedFolder } from './folderStore';
 import {
   query,
@@ -10,6 +11,7 @@ import {
   filterByLabel,
   starredOnly,
   sortOrder,
+  searchScope,
 } from './viewStore';
 import type { Message, Attachment } from '../types';
 
@@ -39,6 +41,7 @@ export const filteredMessages: Readable<Message[]> = derived(
     starredOnly,
     searchActive,
     sortOrder,
+    searchScope,
   ],
   ([
     $messages,
@@ -51,10 +54,17 @@ export const filteredMessages: Readable<Message[]> = derived(
     $starredOnly,
     $searchActive,
     $sortOrder,
+    $searchScope,
   ]) => {
+    // All Inboxes rows keep their real folder, so the virtual folder matches them all
+    const inFolder = (m: Message) =>
+      isUnifiedFolder($selectedFolder) || m.folder === $selectedFolder;
     const base = $searchActive
-      ? ($searchResults || []).filter((m) => !$selectedFolder || m.folder === $selectedFolder)
-      : ($messages || []).filter((m) => m.folder === $selectedFolder);
+      ? ($searchResults || []).filter(
+          // All-accounts results span every folder of every account
+          (m) => !$selectedFolder || $searchScope === 'all' || inFolder(m),
+        )
+      : ($messages || []).filter(inFolder);
     let list = base;
     if ($unreadOnly) list = list.filter((m) => m.is_unread);
     if ($hasAttachmentsOnly) list = list.filter((m) => m.has_attachment);
@@ -4,10 +4,23 @@ import { SearchService, SavedSearchService, setSearchDbClient } from '../utils/s
 import { mapMessageToDoc } from '../utils/search-mapping';
 import { Local } from '../utils/storage';
 import { db } from '../utils/db';
-import { parseSearchQuery, applySearchFilters } from '../utils/search-query';
+import {
+  parseSearchQuery,
+  applySearchFilters,
+  buildServerSearchParams,
+  mergeSearchResults,
+  mergeAccountSearchResults,
+} from '../utils/search-query';
 import { SearchWorkerClient } from '../utils/search-worker-client';
 import { connectSearchWorker } from '../utils/sync-controller';
+import { sendSyncRequest } from '../utils/sync-worker-client.js';
+import { pickFoldersForScope } from '../utils/sync-settings.js';
+import { normalizeMessageForCache } from '../utils/sync-helpers';
+import { Remote } from '../utils/remote';
 import { indexProgress } from './mailboxActions';
+import { searchScope } from './viewStore';
+import type { SearchScopeValue } from './viewStore';
+import { listUnifiedAccounts } from '../utils/unified-inbox.js';
 import { resolveSearchBodyIndexing } from '../utils/search-body-indexing.js';
 import type { Message, SearchStats, SearchResult } from '../types';
 import { warn } from '../utils/logger.ts';
@@ -33,6 +46,8 @@ export interface SearchOptions {
   crossFolder?: boolean;
   limit?: number;
   candidates?: Message[];
+  /** Overrides the stored scope; 'all' searches every signed-in account */
+  scope?: SearchScopeValue;
 }
 
 export interface RebuildOptions {
@@ -73,12 +88,22 @@ const health: Writable<SearchHealth> = writable({
 });
 const includeBody: Writable<boolean> = writable(resolveSearchBodyIndexing());
 
+const SCOPE_KEY = 'search_scope';
+searchScope.set(Local.get(SCOPE_KEY) === 'all' ? 'all' : 'account');
+
 let searchService: SearchService | null = null;
+// Main-thread fallback indexes of the other accounts, for all-accounts search
+const accountServices = new Map<string, SearchService>();
 let savedSearchService: SavedSearchService | null = null;
 let accountId: string = Local.get('email') || 'default';
 let workerClient: SearchWorkerClient | null = null;
 let syncWorkerConnected = false;
 let startupCheckDone = false;
+let searchSequence = 0;
+
+// Ask the server when the local index has fewer hits than this
+const SERVER_SEARCH_MIN_LOCAL_HITS = 10;
+const SERVER_SEARCH_LIMIT = 50;
 
 const refreshStats = (): void => {
   if (!searchService) return;
@@ -302,9 +327,191 @@ const removeFromIndex = async (ids: string[] = []): Promise<void> => {
   refreshStats();
 };
 
+// Folders outside sync_scope are never downloaded, so only the server can search them
+const isOutsideSyncScope = (folder: string | null, crossFolder: boolean): boolean => {
+  const scope = Local.get('sync_scope') || 'all';
+  if (scope === 'all') return false;
+  if (crossFolder || !folder) return true;
+  return pickFoldersForScope([{ path: folder }], scope).length === 0;
+};
+
+// Run the query against the API's message search. Results are written to the
+// cache and the search index (by the sync worker, or here on fallback) so the
+// next search finds them locally.
+const searchServer = async (
+  params: Record<string, unknown>,
+  folder: string | null,
+  account: string = accountId,
+): Promise<SearchResult[]> => {
+  const page = { page: 1, limit: SERVER_SEARCH_LIMIT, ...(folder ? { folder } : {}) };
+  // The sync worker only holds the active account's credentials
+  if (account === accountId) {
+    try {
+      const res = await sendSyncRequest('messagePage', { account, ...page, filters: params });
+      return res?.messages || [];
+    } catch {
+      // Worker unavailable, query the API directly
+    }
+  }
+
+  try {
+    const res = await Remote.request(
+      'MessageList',
+      { ...page, raw: false, attachments: false, ...params },
+      { method: 'GET', pathOverride: '/v1/messages', account },
+    );
+    const list = res?.Result?.List || res?.Result || res || [];
+    if (!Array.isArray(list)) return [];
+    const normalized = list
+      .map((item) => normalizeMessageForCache(item, folder || undefined, account))
+      .filter((msg) => msg?.id);
+    if (normalized.length) {
+      // Keep cached records (with labels and local flags) and only add new ones
+      const existing = await db.messages.bulkGet(normalized.map((msg) => [account, msg.id]));
+      const missing = normalized.filter((_msg, idx) => !existing?.[idx]);
+      if (missing.length) {
+        await db.messages.bulkPut(missing);
+        if (account === accountId) {
+          await indexMessages(missing);
+        } else {
+          await workerClient
+            ?.index({ account, includeBody: get(includeBody), messages: missing })
+            .catch(() => {});
+        }
+      }
+    }
+    return normalized as SearchResult[];
+  } catch (err) {
+    warn('[searchStore] server search failed', err);
+    return [];
+  }
+};
+
+// Replace index hits with their cached message records
+const hydrateHits = async (account: string, hits: SearchResult[]): Promise<SearchResult[]> => {
+  const ids = Array.from(new Set((hits || []).map((h) => h.id).filter(Boolean)));
+  if (!ids.length) return hits;
+  try {
+    const records = await db.messages.bulkGet(ids.map((id) => [account, id]));
+    const byId = new Map<string, SearchResult>();
+    records?.forEach((rec: SearchResult | undefined) => {
+      if (rec?.id) byId.set(rec.id, rec);
+    });
+    return hits.map((h) => {
+      const hydrated = byId.get(h.id);
+      if (hydrated) return hydrated;
+      const parsedDate =
+        typeof h.date === 'number'
+          ? h.date
+          : Number.isFinite(Date.parse(String(h.date) || ''))
+            ? Date.parse(String(h.date) || '')
+            : null;
+      return { ...h, dateMs: parsedDate, date: parsedDate || h.date || null } as SearchResult;
+    });
+  } catch (err) {
+    warn('[searchStore] hydrate results failed', err);
+    return hits;
+  }
+};
+
+const getAccountService = async (account: string): Promise<SearchService> => {
+  if (account === accountId) {
+    await ensureMainThreadService();
+    return searchService!;
+  }
+  let service = accountServices.get(account);
+  if (!service) {
+    service = new SearchService({ includeBody: get(includeBody), account });
+    await service.loadFromCache();
+    accountServices.set(account, service);
+  }
+  return service;
+};
+
+// One account's local hits for an all-accounts search. Folder paths differ
+// between accounts, so each index is searched across folders unless the
+// query names one with in:
+const searchAccountIndex = async (
+  account: string,
+  q: string,
+  limit: number,
+): Promise<SearchResult[]> => {
+  const { text, filters, ast } = parseSearchQuery(q);
+  if (workerClient) {
+    try {
+      const res = await workerClient.search({
+        account,
+        query: q,
+        folder: null,
+        crossFolder: false,
+        limit,
+        candidateIds: [],
+        includeBody: get(includeBody),
+      });
+      return res?.results || [];
+    } catch {
+      // ignore and fall back
+    }
+  }
+
+  let hits: SearchResult[] = [];
+  if (!text) {
+    hits = await db.messages.where('account').equals(account).toArray();
+  } else {
+    const service = await getAccountService(account);
+    hits = await hydrateHits(account, await service.searchAllFolders(text, limit));
+  }
+  return applySearchFilters(hits || [], { ...filters, ast }) || [];
+};
+
+// Search every signed-in account in parallel. Results are labelled with
+// their account, which routes opening, replying and flag changes to it.
+const searchAllAccounts = async (
+  q: string,
+  parsed: ReturnType<typeof parseSearchQuery>,
+  limit: number,
+  sequence: number,
+): Promise<SearchResult[]> => {
+  const accounts: string[] = listUnifiedAccounts();
+  const label = (account: string, list: SearchResult[]) =>
+    list.map((hit): SearchResult => ({ ...hit, account }));
+  const local = await Promise.all(
+    accounts.map(async (account) => {
+      try {
+        return label(account, await searchAccountIndex(account, q, limit));
+      } catch (err) {
+        warn('[searchStore] account search failed', { account }, err);
+        return [];
+      }
+    }),
+  );
+  const merged = mergeAccountSearchResults(local, limit);
+  results.set(merged);
+
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return merged;
+  const params = buildServerSearchParams(parsed);
+  if (!params) return merged;
+  const folder = parsed.filters.folder || null;
+  const outsideScope = isOutsideSyncScope(folder, !folder);
+  const thin = local.filter((list) => list.length < SERVER_SEARCH_MIN_LOCAL_HITS).length;
+  if (!thin && !outsideScope) return merged;
+
+  const combined = await Promise.all(
+    accounts.map(async (account, idx) => {
+      if (local[idx].length >= SERVER_SEARCH_MIN_LOCAL_HITS && !outsideScope) return local[idx];
+      const remote = await searchServer(params, folder, account);
+      const matching = applySearchFilters(remote, { ...parsed.filters, folder });
+      return mergeSearchResults(local[idx], label(account, matching), limit);
+    }),
+  );
+  const withServer = mergeAccountSearchResults(combined, limit);
+  if (sequence === searchSequence) results.set(withServer);
+  return withServer;
+};
+
 const search = async (
   q: string,
-  { folder = null, crossFolder = false, limit = 200, candidates = [] }: SearchOptions = {},
+  { folder = null, crossFolder = false, limit = 200, candidates = [], scope }: SearchOptions = {},
 ): Promise<SearchResult[]> => {
   await ensureInitialized();
   const parsed = parseSearchQuery(q || '');
@@ -332,6 +539,32 @@ const search = async (
 
   const effectiveFolder = filters.folder || folder;
   const useCrossFolder = crossFolder || filters.scope === 'all' || effectiveFolder === 'all';
+  const sequence = ++searchSequence;
+
+  if ((scope || get(searchScope)) === 'all') {
+    return searchAllAccounts(q, parsed, limit, sequence);
+  }
+
+  // Supplement local hits with the server's search when the local index is
+  // thin or can't cover the requested folders
+  const withServerResults = async (local: SearchResult[]): Promise<SearchResult[]> => {
+    results.set(local);
+    if (candidates?.length) return local;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return local;
+    const params = buildServerSearchParams(parsed);
+    if (!params) return local;
+    const outsideScope = isOutsideSyncScope(effectiveFolder, useCrossFolder);
+    if (local.length >= SERVER_SEARCH_MIN_LOCAL_HITS && !outsideScope) return local;
+
+    const remote = await searchServer(params, useCrossFolder ? null : effectiveFolder);
+    const matching = applySearchFilters(remote, {
+      ...filters,
+      folder: useCrossFolder ? null : effectiveFolder,
+    });
+    const merged = mergeSearchResults(local, matching, limit);
+    if (sequence === searchSequence) results.set(merged);
+    return merged;
+  };
 
   if (workerClient) {
     try {
@@ -347,8 +580,7 @@ const search = async (
         includeBody: get(includeBody),
       });
       if (res?.stats) stats.set(res.stats);
-      results.set(res?.results || []);
-      return res?.results || [];
+      return await withServerResults(res?.results || []);
     } catch {
       // ignore and fall back
     }
@@ -382,29 +614,7 @@ const search = async (
 
   // Hydrate from cache when we don't already have full message objects
   if (!candidates?.length) {
-    const ids = Array.from(new Set((hits || []).map((h) => h.id).filter(Boolean)));
-    if (ids.length) {
-      try {
-        const records = await db.messages.bulkGet(ids.map((id) => [accountId, id]));
-        const byId = new Map<string, SearchResult>();
-        records?.forEach((rec: SearchResult | undefined) => {
-          if (rec?.id) byId.set(rec.id, rec);
-        });
-        hits = hits.map((h) => {
-          const hydrated = byId.get(h.id);
-          if (hydrated) return hydrated;
-          const parsedDate =
-            typeof h.date === 'number'
-              ? h.date
-              : Number.isFinite(Date.parse(String(h.date) || ''))
-                ? Date.parse(String(h.date) || '')
-                : null;
-          return { ...h, dateMs: parsedDate, date: parsedDate || h.date || null } as SearchResult;
-        });
-      } catch (err) {
-        warn('[searchStore] hydrate results failed', err);
-      }
-    }
+    hits = await hydrateHits(accountId, hits);
   }
 
   const filtered = applySearchFilters(hits || [], {
@@ -413,8 +623,7 @@ const search = async (
     ast,
   });
 
-  results.set(filtered || []);
-  return filtered;
+  return withServerResults(filtered || []);
 };
 
 const rebuildFromCache = async (options: RebuildOptions = {}): Promise<{ count: number }> => {
@@ -541,6 +750,7 @@ const setIncludeBody = async (value: boolean): Promise<void> => {
 
   // Reinitialize search service so body flag propagates
   searchService = null;
+  accountServices.clear();
   if (workerClient) {
     try {
       await workerClient.init(accountId, next);
@@ -551,6 +761,12 @@ const setIncludeBody = async (value: boolean): Promise<void> => {
   await ensureInitialized(accountId);
 };
 
+const setScope = (value: SearchScopeValue): void => {
+  const next = value === 'all' ? 'all' : 'account';
+  searchScope.set(next);
+  Local.set(SCOPE_KEY, next);
+};
+
 /**
  * Reset search connection state - call when switching accounts or during recovery
  */
@@ -574,6 +790,7 @@ const terminateWorker = (): void => {
   syncWorkerConnected = false;
   startupCheckDone = false;
   searchService = null;
+  accountServices.clear();
 };
 
 export const searchStore = {
@@ -587,6 +804,7 @@ export const searchStore = {
     savedSearches,
     includeBody,
     health,
+    scope: searchScope,
   },
   actions: {
     ensureInitialized,
@@ -599,6 +817,7 @@ export const searchStore = {
     deleteSavedSearch,
     refreshSavedSearches,
     setIncludeBody,
+    setScope,
     checkHealth,
     getWorkerClient,
     resetSearchConnection,
@@ -1,3 +1,10 @@
+import {
+  DEFAULT_VACATION_RESPONDER,
+  normalizeVacationResponder,
+  serializeVacationResponder,
+} from '../utils/vacation-responder';
+import { normalizeTemplates } from '../utils/compose-templates';
+
 export const SETTING_SCOPES = {
   ACCOUNT: 'account',
   DEVICE: 'device',
@@ -46,6 +53,20 @@ export const serializeLayoutMode = (value: unknown): string => {
   return mode;
 };
 
+export const UNDO_SEND_DELAY_OPTIONS = [0, 5, 10, 20, 30];
+// Off until the user picks a delay: sending stays immediate
+export const DEFAULT_UNDO_SEND_DELAY = 0;
+
+/**
+ * Undo-send window in seconds: 0 (off) or 5–30.
+ */
+export const normalizeUndoSendDelay = (value: unknown): number => {
+  const seconds = Number.parseInt(String(value ?? ''), 10);
+  if (!Number.isFinite(seconds)) return DEFAULT_UNDO_SEND_DELAY;
+  if (seconds <= 0) return 0;
+  return Math.min(Math.max(seconds, 5), 30);
+};
+
 const parseBoolean = (raw: unknown, fallback = false): boolean => {
   if (raw === null || raw === undefined) return fallback;
   if (typeof raw === 'boolean') return raw;
@@ -126,6 +147,16 @@ export const SETTINGS_REGISTRY: Record<string, SettingDefinition> = {
     localParse: (raw) => parseBoolean(raw, true),
     localSerialize: (value) => serializeBoolean(Boolean(value)),
   },
+  undo_send_delay: {
+    id: 'undo_send_delay',
+    label: 'Undo Send',
+    scope: SETTING_SCOPES.DEVICE,
+    localKey: 'undo_send_delay',
+    valueType: 'number',
+    defaultValue: DEFAULT_UNDO_SEND_DELAY,
+    localParse: (raw) => normalizeUndoSendDelay(raw),
+    localSerialize: (value) => String(normalizeUndoSendDelay(value)),
+  },
   messages_per_page: {
     id: 'messages_per_page',
     label: 'Messages Per Page',
@@ -269,6 +300,47 @@ export const SETTINGS_REGISTRY: Record<string, SettingDefinition> = {
     localParse: (raw) => parseBoolean(raw, true),
     localSerialize: (value) => serializeBoolean(Boolean(value)),
   },
+  vacation_responder: {
+    id: 'vacation_responder',
+    label: 'Out of Office',
+    scope: SETTING_SCOPES.ACCOUNT,
+    remotePath: ['vacation_responder'],
+    valueType: 'json',
+    defaultValue: DEFAULT_VACATION_RESPONDER,
+    normalizeRemote: normalizeVacationResponder,
+    serializeRemote: serializeVacationResponder,
+  },
+  compose_templates: {
+    id: 'compose_templates',
+    label: 'Templates',
+    scope: SETTING_SCOPES.ACCOUNT,
+    remotePath: ['templates'],
+    valueType: 'json',
+    defaultValue: [],
+    normalizeRemote: normalizeTemplates,
+  },
+  templates_sync: {
+    id: 'templates_sync',
+    label: 'Sync Templates',
+    scope: SETTING_SCOPES.DEVICE,
+    localKey: (account) => `templates_sync_${account}`,
+    valueType: 'boolean',
+    defaultValue: false,
+    accountScoped: true,
+    localParse: (raw) => parseBoolean(raw, false),
+    localSerialize: (value) => serializeBoolean(Boolean(value)),
+  },
+  calendar_archive_replies: {
+    id: 'calendar_archive_replies',
+    label: 'Archive Calendar Replies',
+    scope: SETTING_SCOPES.DEVICE,
+    localKey: (account) => `calendar_archive_replies_${account}`,
+    valueType: 'boolean',
+    defaultValue: false,
+    accountScoped: true,
+    localParse: (raw) => parseBoolean(raw, false),
+    localSerialize: (value) => serializeBoolean(Boolean(value)),
+  },
   labels: {
     id: 'labels',
     label: 'Labels',
@@ -314,6 +386,18 @@ export const SETTINGS_REGISTRY: Record<string, SettingDefinition> = {
     localParse: (raw) => parseJson(raw, {}),
     localSerialize: (value) => serializeJson(value || {}),
   },
+  smime_keys: {
+    id: 'smime_keys',
+    label: 'S/MIME Certificates',
+    scope: SETTING_SCOPES.DEVICE,
+    localKey: (account) => `smime_keys_${account}`,
+    valueType: 'json',
+    defaultValue: [],
+    accountScoped: true,
+    sensitive: true,
+    localParse: (raw) => parseJson(raw, []),
+    localSerialize: (value) => serializeJson(Array.isArray(value) ? value : []),
+  },
 };
 
 export const getSettingDefinition = (id: string): SettingDefinition | null =>
@@ -8,14 +8,22 @@ import {
   SETTING_SCOPES,
   getSettingDefinition,
   normalizeLayoutMode,
+  normalizeUndoSendDelay,
   resolveLocalKey,
   resolveOverrideKey,
   parseLocalValue,
   serializeLocalValue,
   normalizeRemoteValue,
+  serializeRemoteValue,
 } from './settingsRegistry';
 import type { SettingDefinition } from './settingsRegistry';
-import type { Label, PgpKey } from '../types';
+import type { ComposeTemplate, Label, PgpKey, VacationResponder } from '../types';
+import {
+  DEFAULT_VACATION_RESPONDER,
+  isVacationResponderActive,
+  normalizeVacationResponder,
+} from '../utils/vacation-responder';
+import { normalizeTemplates } from '../utils/compose-templates';
 import { warn } from '../utils/logger.ts';
 
 export interface RemoteSettings {
@@ -28,6 +36,8 @@ export interface RemoteSettings {
   aliases: {
     defaults: Record<string, unknown>;
   };
+  vacation_responder: VacationResponder;
+  templates: ComposeTemplate[];
   [key: string]: unknown;
 }
 
@@ -74,6 +84,8 @@ const DEFAULT_REMOTE_SETTINGS: RemoteSettings = {
   aliases: {
     defaults: {},
   },
+  vacation_responder: { ...DEFAULT_VACATION_RESPONDER },
+  templates: [],
 };
 
 const ACCOUNT_CACHE_TTL = 15000;
@@ -169,8 +181,12 @@ interface AccountResponse {
     };
     labels?: Label[];
     label_settings?: Record<string, LabelSettingValue>;
+    vacation_responder?: unknown;
+    templates?: unknown;
   };
   label_settings?: Record<string, LabelSettingValue>;
+  vacation_responder?: unknown;
+  templates?: unknown;
   mail_archive_folder?: string | null;
   mail_sent_folder?: string | null;
   mail_drafts_folder?: string | null;
@@ -199,6 +215,10 @@ function extractSettingsFromAccount(response: AccountResponse = {}): RemoteSetti
     aliases: {
       defaults: aliases.defaults ?? DEFAULT_REMOTE_SETTINGS.aliases.defaults,
     },
+    vacation_responder: normalizeVacationResponder(
+      settings.vacation_responder ?? response.vacation_responder,
+    ),
+    templates: normalizeTemplates(settings.templates ?? response.templates),
   };
 }
 
@@ -212,6 +232,8 @@ interface SettingsChanges {
   aliases?: {
     defaults?: Record<string, unknown>;
   };
+  vacation_responder?: Partial<VacationResponder>;
+  templates?: ComposeTemplate[];
   [key: string]: unknown;
 }
 
@@ -249,6 +271,17 @@ function buildAccountUpdatePayload(changes: SettingsChanges = {}): {
     };
   }
 
+  if (changes.vacation_responder !== undefined) {
+    payload.settings.vacation_responder = serializeRemoteValue(
+      getSettingDefinition('vacation_responder'),
+      changes.vacation_responder,
+    );
+  }
+
+  if (changes.templates !== undefined) {
+    payload.settings.templates = normalizeTemplates(changes.templates);
+  }
+
   return Object.keys(payload.settings).length ? payload : {};
 }
 
@@ -323,6 +356,27 @@ export const attachmentReminder: Readable<boolean> = derived(
   [remoteSettings, localSettingsVersion],
   ([$remote]) => Boolean(getEffectiveSettingValue('attachment_reminder', { remote: $remote })),
 );
+export const undoSendDelay: Readable<number> = derived(
+  [remoteSettings, localSettingsVersion],
+  ([$remote]) =>
+    normalizeUndoSendDelay(getEffectiveSettingValue('undo_send_delay', { remote: $remote })),
+);
+export const vacationResponder: Readable<VacationResponder> = derived(
+  remoteSettings,
+  ($remote) =>
+    getEffectiveSettingValue('vacation_responder', { remote: $remote }) as VacationResponder,
+);
+// Re-checked every minute so the date range takes effect without a reload
+export const vacationResponderActive: Readable<boolean> = derived(
+  vacationResponder,
+  ($v, set) => {
+    const update = () => set(isVacationResponderActive($v));
+    update();
+    const timer = setInterval(update, 60_000);
+    return () => clearInterval(timer);
+  },
+  false,
+);
 
 const getAccountKey = (account?: string): string => account || Local.get('email') || 'default';
 
@@ -707,6 +761,8 @@ export function applySettings(response: RemoteSettings): RemoteSettings {
     mail: { ...DEFAULT_REMOTE_SETTINGS.mail, ...response.mail },
     labels: response.labels || DEFAULT_REMOTE_SETTINGS.labels,
     aliases: { ...DEFAULT_REMOTE_SETTINGS.aliases, ...response.aliases },
+    vacation_responder: normalizeVacationResponder(response.vacation_responder),
+    templates: normalizeTemplates(response.templates),
   };
   remoteSettings.set(merged);
   return merged;
@@ -894,6 +950,18 @@ export const settingsActions = {
   async setAttachmentReminder(enabled: boolean): Promise<boolean> {
     return setSettingValue('attachment_reminder', enabled);
   },
+
+  async setUndoSendDelay(seconds: number): Promise<boolean> {
+    return setSettingValue('undo_send_delay', normalizeUndoSendDelay(seconds));
+  },
+
+  async setVacationResponder(responder: VacationResponder): Promise<boolean> {
+    return setSettingValue('vacation_responder', responder);
+  },
+
+  async setComposeTemplates(templates: ComposeTemplate[]): Promise<boolean> {
+    return setSettingValue('compose_templates', templates);
+  },
 };
 
 /**
@@ -1154,6 +1222,9 @@ export const settingsStore = {
   aliasDefaults,
   rememberPassphrase,
   attachmentReminder,
+  undoSendDelay,
+  vacationResponder,
+  vacationResponderActive,
   effectiveTheme,
   effectiveLayoutMode,
   effectiveMessagesPerPage,
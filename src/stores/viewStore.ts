@@ -9,6 +9,8 @@ export type SortOrderValue =
   | 'subject-asc'
   | 'subject-desc';
 
+export type SearchScopeValue = 'account' | 'all';
+
 export const threadingEnabled: Writable<boolean> = writable(true);
 export const sidebarOpen: Writable<boolean> = writable(true);
 export const showFilters: Writable<boolean> = writable(false);
@@ -18,3 +20,4 @@ export const unreadOnly: Writable<boolean> = writable(false);
 export const hasAttachmentsOnly: Writable<boolean> = writable(false);
 export const filterByLabel: Writable<string[]> = writable([]);
 export const starredOnly: Writable<boolean> = writable(false);
+export const searchScope: Writable<SearchScopeValue> = writable('account');
@@ -120,3 +120,110 @@ export const formatSecurityStatus = (securityInfo) => {
 
   return parts.length ? parts.join(' · ') : 'Unknown';
 };
+
+/**
+ * Describe an OpenPGP signature verification result for the reader header
+ * @param {Object} signature - PgpSignatureStatus reported by the sync worker
+ * @returns {Object|null} { tone, label, detail } or null when the message is not signed
+ */
+export const getPgpSignatureInfo = (signature) => {
+  if (!signature?.status || signature.status === 'unsigned') return null;
+  const keyId = signature.keyId ? signature.keyId.toUpperCase() : '';
+
+  if (signature.status === 'signed') {
+    const signer = signature.signer || keyId;
+    if (signature.senderMatch === false) {
+      return {
+        tone: 'warning',
+        label: 'Signed by another key',
+        detail: `Valid signature from ${signer}, which does not match the sender address`,
+      };
+    }
+    const verified = signature.trust === 'verified' || signature.trust === 'trusted';
+    return {
+      tone: verified ? 'good' : 'neutral',
+      label: verified ? 'Verified signature' : 'Signed',
+      detail: `Valid signature from ${signer}${verified ? '' : ' (key not verified)'}`,
+    };
+  }
+
+  if (signature.status === 'unknown-key') {
+    return {
+      tone: 'neutral',
+      label: 'Signed (unknown key)',
+      detail: keyId
+        ? `Signed with key ${keyId}, which is not in your keyring`
+        : 'Signed with a key that is not in your keyring',
+    };
+  }
+
+  return {
+    tone: 'bad',
+    label: 'Bad signature',
+    detail: 'The PGP signature does not match the message content',
+  };
+};
+
+/**
+ * Describe an S/MIME result for the reader header
+ * @param {Object} smime - SmimeStatus reported by the sync worker
+ * @returns {Object|null} { tone, label, detail } or null for messages without S/MIME
+ */
+export const getSmimeInfo = (smime) => {
+  if (!smime) return null;
+  if (smime.locked) {
+    return {
+      tone: 'warning',
+      label: 'S/MIME encrypted',
+      detail: 'Encrypted to a certificate that is not imported on this device',
+    };
+  }
+
+  const encrypted = smime.encrypted ? 'Encrypted' : '';
+  const signer = smime.signer || smime.subject || 'unknown signer';
+
+  if (smime.signature === 'signed') {
+    const issuer = smime.issuer ? `, issued by ${smime.issuer}` : '';
+    if (smime.senderMatch === false) {
+      return {
+        tone: 'warning',
+        label: 'S/MIME: signed by someone else',
+        detail: `Valid signature from ${signer}${issuer}, which does not match the sender address`,
+      };
+    }
+    if (smime.chainValid === false || smime.expired) {
+      return {
+        tone: 'warning',
+        label: `${encrypted ? 'Encrypted, ' : ''}S/MIME signed`,
+        detail: `Valid signature from ${signer}${issuer}, but the certificate is ${
+          smime.expired ? 'expired' : 'not correctly chained'
+        }`,
+      };
+    }
+    return {
+      tone: smime.trusted ? 'good' : 'neutral',
+      label: `${encrypted ? 'Encrypted, ' : ''}S/MIME signed`,
+      detail: `Valid signature from ${signer}${issuer}${smime.trusted ? '' : ' (issuer not in your certificates)'}`,
+    };
+  }
+
+  if (smime.signature === 'unsupported') {
+    return {
+      tone: 'neutral',
+      label: `${encrypted ? 'Encrypted, ' : ''}S/MIME signed`,
+      detail: `Signed by ${signer} using an algorithm that cannot be checked here`,
+    };
+  }
+
+  if (smime.signature === 'bad') {
+    return {
+      tone: 'bad',
+      label: 'Bad S/MIME signature',
+      detail: smime.error || 'The S/MIME signature does not match the message content',
+    };
+  }
+
+  return smime.encrypted
+    ? { tone: 'good', label: 'S/MIME encrypted', detail: 'Decrypted with your S/MIME certificate' }
+    : null;
+};
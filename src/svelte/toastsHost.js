@@ -7,6 +7,7 @@ export function createToastHost(target) {
     console.warn('[toastsHost] No target element provided');
     return {
       show: () => {},
+      update: () => {},
       dismiss: () => {},
       destroy: () => {},
       items: {
@@ -63,6 +64,11 @@ export function createToastHost(target) {
     return id;
   };
 
+  // Change the text of a toast that is still showing (e.g. a countdown)
+  const update = (id, message) => {
+    items.update((list) => list.map((toast) => (toast.id === id ? { ...toast, message } : toast)));
+  };
+
   // Use Svelte 5 mount API
   const component = mount(Toasts, {
     target,
@@ -75,5 +81,5 @@ export function createToastHost(target) {
     unmount(component);
   };
 
-  return { show, dismiss, destroy, items };
+  return { show, update, dismiss, destroy, items };
 }
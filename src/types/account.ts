@@ -65,15 +65,44 @@ export interface Contact {
   lastName?: string;
   avatar?: string;
   company?: string;
+  jobTitle?: string;
   phone?: string;
   notes?: string;
+  timezone?: string;
+  website?: string;
+  birthday?: string;
+  photo?: string;
+  /** 'group' for a contact group (vCard 4 KIND:group) */
+  kind?: ContactKind;
+  /** Group members: email addresses, or `urn:uuid:` references to contacts */
+  members?: string[];
   groups?: string[];
   isFavorite?: boolean;
   lastContacted?: number;
+  /** Full vCard text */
+  content?: string;
+  /** Server version tag; changes whenever the server copy changes */
+  etag?: string;
+  /** Local change not yet sent to the server */
+  pending?: ContactPendingChange | null;
+  /** Server etag the pending change was made against */
+  baseEtag?: string;
+  /** Server copy that changed while a local change was pending */
+  conflict?: ContactConflict | null;
   createdAt?: number;
   updatedAt?: number;
 }
 
+export type ContactKind = 'individual' | 'group';
+
+export type ContactPendingChange = 'create' | 'update' | 'delete';
+
+export interface ContactConflict {
+  /** The server copy, or null when it was deleted on the server */
+  contact: Contact | null;
+  detectedAt: number;
+}
+
 export interface ContactGroup {
   id: string;
   account: string;
@@ -121,3 +150,91 @@ export interface PgpKey {
   name: string;
   value: string;
 }
+
+export type RecipientKeyTrust = 'never' | 'unknown' | 'trusted' | 'verified';
+
+export type RecipientKeySource = 'manual' | 'autocrypt' | 'attachment' | 'wkd';
+
+export interface RecipientKey {
+  fingerprint: string;
+  keyId?: string;
+  userIds: string[];
+  emails: string[];
+  armored: string;
+  createdAt?: number | null;
+  expiresAt: number | null;
+  revoked: boolean;
+  revokedAt?: number | null;
+  trust: RecipientKeyTrust;
+  sources: RecipientKeySource[];
+  preferEncrypt?: 'mutual' | 'nopreference';
+  lastSeenAt: number | null;
+  /** Discovered key for an address that has another one, not used until confirmed */
+  pendingConfirmation?: boolean;
+  addedAt: number;
+  updatedAt: number;
+}
+
+export interface VacationResponder {
+  enabled: boolean;
+  /** First day replies are sent (YYYY-MM-DD, local time); null for no start date */
+  startDate: string | null;
+  /** Last day replies are sent (YYYY-MM-DD, local time); null for no end date */
+  endDate: string | null;
+  subject: string;
+  /** Reply body as HTML */
+  message: string;
+  onlyContacts: boolean;
+  /** Days before the same sender gets another reply */
+  replyIntervalDays: number;
+}
+
+/**
+ * Reusable message (canned response) inserted from the composer
+ */
+export interface ComposeTemplate {
+  id: string;
+  name: string;
+  /** Used when the message has no subject yet */
+  subject: string;
+  /** HTML, or plain text when isPlainText is set; may contain {{placeholders}} */
+  body: string;
+  isPlainText: boolean;
+  createdAt: number;
+  updatedAt: number;
+  /** Tombstone so deletions carry over when synced lists are merged */
+  deleted?: boolean;
+}
+
+export type SignaturePlacement = 'above' | 'below';
+
+/**
+ * Named signature added by the composer
+ */
+export interface ComposeSignature {
+  id: string;
+  name: string;
+  /** From address this signature belongs to; empty for any address */
+  alias: string;
+  html: string;
+  /** Plain-text version, used when composing in plain text */
+  text: string;
+  /** Where it goes in replies and forwards, relative to the quoted message */
+  placement: SignaturePlacement;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Signature ids to add automatically for a From address ('' for none)
+ */
+export interface SignatureDefaults {
+  newMessage: string;
+  reply: string;
+}
+
+export interface SignatureSettings {
+  signatures: ComposeSignature[];
+  /** Keyed by lowercased From address */
+  defaults: Record<string, SignatureDefaults>;
+}
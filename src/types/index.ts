@@ -11,8 +11,15 @@ export type {
   ParsedEmail,
   ImageStatus,
   PgpStatus,
+  PgpSignatureState,
+  PgpSignatureStatus,
+  SmimeSignatureState,
+  SmimeStatus,
   Conversation,
+  SnoozeRecord,
   SortOrder,
+  MailingList,
+  Subscription,
 } from './message';
 
 // Folder types
@@ -31,11 +38,23 @@ export type {
   ThemeMode,
   Label,
   Contact,
+  ContactKind,
+  ContactPendingChange,
+  ContactConflict,
   ContactGroup,
   CalendarEvent,
   EventAttendee,
   EventReminder,
   PgpKey,
+  RecipientKey,
+  RecipientKeyTrust,
+  RecipientKeySource,
+  VacationResponder,
+  ComposeTemplate,
+  SignaturePlacement,
+  ComposeSignature,
+  SignatureDefaults,
+  SignatureSettings,
 } from './account';
 
 // Worker types
@@ -30,10 +30,43 @@ export interface Message {
   in_reply_to?: string | null;
   references?: string | null;
   labels: string[];
+  /** Mailing list headers, when the message came from a list */
+  list?: MailingList | null;
   bodyIndexed: boolean;
+  /** When the message came back from a snooze; lists sort it by this */
+  wokenAt?: number;
   updatedAt: number;
 }
 
+/**
+ * Mailing list headers of a message: List-Id (RFC 2919), List-Unsubscribe
+ * (RFC 2369) and List-Unsubscribe-Post (RFC 8058)
+ */
+export interface MailingList {
+  /** List-Id, lowercased; empty when the sender only sends List-Unsubscribe */
+  id: string;
+  name: string;
+  unsubscribeUrl: string | null;
+  unsubscribeMailto: string | null;
+  /** The sender accepts an RFC 8058 one-click POST to unsubscribeUrl */
+  oneClick: boolean;
+}
+
+/** Cached messages from one mailing list */
+export interface Subscription {
+  id: string;
+  name: string;
+  from: string;
+  /** Unsubscribe details from the most recent message */
+  list: MailingList;
+  count: number;
+  unread: number;
+  firstReceived: number;
+  lastReceived: number;
+  /** Average messages per 30 days since the first one received */
+  perMonth: number;
+}
+
 export interface MessageBody {
   id: string;
   account: string;
@@ -85,9 +118,45 @@ export interface ImageStatus {
   blockedRemoteImageCount: number;
 }
 
+export type PgpSignatureState = 'signed' | 'bad' | 'unknown-key' | 'unsigned';
+
+export interface PgpSignatureStatus {
+  status: PgpSignatureState;
+  keyId?: string;
+  fingerprint?: string;
+  signer?: string;
+  trust?: string;
+  signedAt?: number | null;
+  /** False when the signing key has no user ID for the From address */
+  senderMatch?: boolean;
+  error?: string;
+}
+
+export type SmimeSignatureState = 'signed' | 'bad' | 'unsupported' | 'unsigned';
+
+export interface SmimeStatus {
+  encrypted: boolean;
+  /** Encrypted to a certificate we have no private key for */
+  locked?: boolean;
+  signature: SmimeSignatureState;
+  signer?: string;
+  subject?: string;
+  issuer?: string;
+  signedAt?: number | null;
+  /** Every certificate in the embedded chain is signed by its issuer */
+  chainValid?: boolean;
+  /** The chain includes one of the user's imported certificates */
+  trusted?: boolean;
+  expired?: boolean;
+  senderMatch?: boolean;
+  error?: string;
+}
+
 export interface PgpStatus {
   locked: boolean;
   keyId?: string;
+  signature?: PgpSignatureStatus | null;
+  smime?: SmimeStatus | null;
 }
 
 export interface Conversation {
@@ -101,6 +170,24 @@ export interface Conversation {
   hasAttachment: boolean;
 }
 
+/**
+ * A snoozed message waiting to come back (see utils/snooze-helpers.js).
+ */
+export interface SnoozeRecord {
+  id: string;
+  messageId: string;
+  apiId: string;
+  /** Folder the message returns to */
+  folder: string;
+  /** Wake-up time (ms since epoch) */
+  until: number;
+  subject: string;
+  createdAt: number;
+  /** Stored so the service worker can wake the message with no tab open */
+  apiBase: string;
+  authHeader: string;
+}
+
 export type SortOrder =
   | 'date-desc'
   | 'date-asc'
@@ -140,10 +140,21 @@ export interface SearchResult {
   id: string;
   score: number;
   matches?: Record<string, string[]>;
+  /** Found by the server-side search fallback rather than the local index */
+  fromServer?: boolean;
+  /** Account the message belongs to, set on all-accounts search results */
+  account?: string;
+  folder?: string;
+  /** Message date as indexed (timestamp or date string) */
+  date?: number | string | null;
+  dateMs?: number | null;
 }
 
+/** SearchService.getStats() */
 export interface SearchStats {
-  documentCount: number;
-  indexSize: number;
-  lastUpdated: number;
+  count: number;
+  sizeBytes?: number;
+  includeBody?: boolean;
+  preset?: string;
+  account?: string;
 }
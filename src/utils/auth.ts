@@ -1,4 +1,4 @@
-import { Local } from './storage.js';
+import { Accounts, Local } from './storage.js';
 
 export interface AuthOptions {
   allowApiKey?: boolean;
@@ -33,3 +33,21 @@ export const getAuthHeader = ({
   if (required) throw new Error('Authorization required. Please sign in again.');
   return '';
 };
+
+/**
+ * Authorization for a signed-in account other than the active one, from its
+ * saved credentials. Uses the active account's header when `account` is the
+ * active account (or not given).
+ */
+export const getAccountAuthHeader = (
+  account: string | null | undefined,
+  { required = false }: Pick<AuthOptions, 'required'> = {},
+): string => {
+  if (!account || account === 'default' || account === Local.get('email')) {
+    return getAuthHeader({ allowApiKey: false, required });
+  }
+  const saved = (Accounts.getAll() as { email: string; aliasAuth?: string | null }[]).find(
+    (entry) => entry.email === account,
+  );
+  return buildAliasAuthHeader(saved?.aliasAuth, { required });
+};
@@ -0,0 +1,314 @@
+import { db } from './db';
+import { Local } from './storage';
+import { Remote } from './remote';
+import { queueMutation } from './mutation-queue';
+import { WS_EVENTS } from './websocket-client';
+import {
+  applyCalendarEventEdit,
+  calendarEventFromApi,
+  calendarEventPayload,
+  calendarFromApi,
+  planCalendarEventSync,
+} from './calendar-sync-helpers.ts';
+
+/**
+ * Calendar Cache
+ *
+ * Keeps each account's calendars and events in the IndexedDB `calendars` and
+ * `calendarEvents` tables, so the calendar opens and can be edited offline.
+ *
+ * Edits are written to the table first and sent through the mutation queue
+ * (calendarEventCreate/Update/Delete); an event edited again before its
+ * change is sent goes out once, in its latest state. The
+ * CALENDAR_EVENT_CREATED/UPDATED/DELETED websocket events update single
+ * events in between full syncs. Each change fires `fe:calendar-event-changed`
+ * so an open Calendar view re-reads the table.
+ */
+
+const EVENT_LIMIT = 500;
+const CALENDAR_LIMIT = 50;
+
+function getAccount() {
+  return Local.get('email') || 'default';
+}
+
+function eventPath(id) {
+  return `/v1/calendar-events/${encodeURIComponent(id)}`;
+}
+
+function mutationType(pending) {
+  if (pending === 'create') return 'calendarEventCreate';
+  return pending === 'delete' ? 'calendarEventDelete' : 'calendarEventUpdate';
+}
+
+function localId() {
+  return `local_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+const listOf = (res, key) => (Array.isArray(res) ? res : res?.Result || res?.[key] || []);
+
+/**
+ * Let an open Calendar view re-read the table.
+ */
+function notifyChanged(account) {
+  if (typeof window === 'undefined') return;
+  window.dispatchEvent(new CustomEvent('fe:calendar-event-changed', { detail: { account } }));
+}
+
+async function writePlan(account, { put, remove }) {
+  if (put.length) await db.calendarEvents.bulkPut(put);
+  if (remove.length) await db.calendarEvents.bulkDelete(remove.map((id) => [account, id]));
+  if (put.length || remove.length) notifyChanged(account);
+}
+
+/**
+ * Cached calendars of an account, in the server's order.
+ *
+ * @param {string} [account]
+ * @returns {Promise<Array<Object>>}
+ */
+export async function listCalendars(account = getAccount()) {
+  const records = await db.calendars
+    .where('account')
+    .equals(account)
+    .toArray()
+    .catch(() => []);
+  return records.sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+}
+
+/**
+ * Fetch the account's calendars and replace the cached list.
+ *
+ * @param {Object} [options]
+ * @param {string} [options.account]
+ * @returns {Promise<Array<Object>>} The calendars, in the server's order
+ */
+export async function syncCalendars({ account = getAccount() } = {}) {
+  const res = await Remote.request('Calendars', { limit: CALENDAR_LIMIT }, { account });
+  const calendars = listOf(res, 'calendars')
+    .map((raw) => calendarFromApi(raw, account))
+    .filter(Boolean)
+    .map((calendar, position) => ({ ...calendar, position }));
+  const ids = new Set(calendars.map((calendar) => calendar.id));
+  const cached = await listCalendars(account);
+  const removed = cached.filter((calendar) => !ids.has(calendar.id));
+  if (removed.length) {
+    await db.calendars.bulkDelete(removed.map((calendar) => [account, calendar.id]));
+  }
+  if (calendars.length) {
+    await db.calendars.bulkPut(calendars.map((calendar) => JSON.parse(JSON.stringify(calendar))));
+  }
+  return calendars;
+}
+
+async function readEvents(account, calendarId) {
+  const records = calendarId
+    ? db.calendarEvents.where('[account+calendarId]').equals([account, calendarId]).toArray()
+    : db.calendarEvents.where('account').equals(account).toArray();
+  return records.catch(() => []);
+}
+
+/**
+ * Cached events of an account (or of one calendar), without ones waiting to
+ * be deleted.
+ *
+ * @param {string} [account]
+ * @param {Object} [options]
+ * @param {string} [options.calendarId]
+ * @returns {Promise<Array<Object>>}
+ */
+export async function listCalendarEvents(account = getAccount(), { calendarId = '' } = {}) {
+  const records = await readEvents(account, calendarId);
+  return records.filter((event) => event.pending !== 'delete');
+}
+
+/**
+ * Fetch the events of all calendars (or of one) and store what changed.
+ *
+ * @param {Object} [options]
+ * @param {string} [options.account]
+ * @param {string} [options.calendarId]
+ * @returns {Promise<{ put: Array<Object>, remove: Array<string> }>}
+ */
+export async function syncCalendarEvents({ account = getAccount(), calendarId = '' } = {}) {
+  const params = calendarId
+    ? { calendar_id: calendarId, limit: EVENT_LIMIT }
+    : { limit: EVENT_LIMIT };
+  const [local, res] = await Promise.all([
+    readEvents(account, calendarId),
+    Remote.request('CalendarEvents', params, { account }),
+  ]);
+  const server = listOf(res, 'events')
+    .map((raw) => calendarEventFromApi(raw, account, calendarId))
+    .filter(Boolean);
+  const plan = planCalendarEventSync(local, server, { calendarId });
+  await writePlan(account, plan);
+  return plan;
+}
+
+async function fetchEvent(account, id, calendarId) {
+  try {
+    const res = await Remote.request(
+      'CalendarEvents',
+      {},
+      { method: 'GET', pathOverride: eventPath(id), account },
+    );
+    return calendarEventFromApi(res, account, calendarId);
+  } catch (err) {
+    if (err?.status === 404) return null;
+    throw err;
+  }
+}
+
+/**
+ * Apply a CALENDAR_EVENT_CREATED/UPDATED/DELETED websocket event to the
+ * cache. Events without the iCalendar text fetch the event.
+ *
+ * @param {string} event - WS_EVENTS.CALENDAR_EVENT_* value
+ * @param {Object} data - Event payload
+ */
+export async function applyCalendarEventChange(event, data = {}) {
+  const account = getAccount();
+  const id = data?.eventId || data?.id || data?.event?.id;
+  if (!id) return;
+  const local = await db.calendarEvents.get([account, String(id)]).catch(() => null);
+  if (local?.pending) return;
+
+  let server = null;
+  if (event !== WS_EVENTS.CALENDAR_EVENT_DELETED) {
+    server = data.event?.ical
+      ? calendarEventFromApi({ id, ...data.event }, account, data.calendarId)
+      : await fetchEvent(account, id, data.calendarId || local?.calendarId || '');
+    if (!server) return;
+  }
+
+  const plan = planCalendarEventSync(local ? [local] : [], server ? [server] : [], {
+    complete: !server,
+  });
+  await writePlan(account, plan);
+}
+
+/**
+ * Save a new or edited event. The table is updated at once and the change is
+ * queued for the server; an event that already has a queued change is sent
+ * in its latest state by that change.
+ *
+ * @param {Object} fields - Event fields (`id` for an existing event)
+ * @param {Object} [options]
+ * @param {string} [options.account]
+ * @returns {Promise<Object>} The stored record
+ */
+export async function saveCalendarEvent(fields, { account = getAccount() } = {}) {
+  const { id, ...changes } = fields || {};
+  const existing = id ? await db.calendarEvents.get([account, id]) : null;
+  const record = applyCalendarEventEdit(existing || null, changes, {
+    account,
+    localId: localId(),
+  });
+  await db.calendarEvents.put(JSON.parse(JSON.stringify(record)));
+  if (!existing?.pending) {
+    await queueMutation(mutationType(record.pending), { eventId: record.id }, { account });
+  }
+  notifyChanged(account);
+  return record;
+}
+
+/**
+ * Delete an event. It is hidden at once and deleted on the server through
+ * the mutation queue; an event that never reached the server is dropped
+ * (its queued create then finds nothing to send).
+ *
+ * @param {Object} event
+ * @param {Object} [options]
+ * @param {string} [options.account]
+ */
+export async function removeCalendarEvent(event, { account = getAccount() } = {}) {
+  const existing = event?.id ? await db.calendarEvents.get([account, event.id]) : null;
+  if (!existing) return;
+  if (existing.pending === 'create') {
+    await db.calendarEvents.delete([account, existing.id]);
+  } else {
+    await db.calendarEvents.put({ ...existing, pending: 'delete', updatedAt: Date.now() });
+    if (!existing.pending) {
+      await queueMutation(mutationType('delete'), { eventId: existing.id }, { account });
+    }
+  }
+  notifyChanged(account);
+}
+
+async function sendEvent(account, local) {
+  const payload = calendarEventPayload(local);
+  if (local.pending === 'update') {
+    try {
+      return await Remote.request(
+        'CalendarEventUpdate',
+        { id: local.id, ...payload },
+        { method: 'PUT', pathOverride: eventPath(local.id), account },
+      );
+    } catch (err) {
+      // Deleted on the server meanwhile: the edit creates it again
+      if (err?.status !== 404) throw err;
+    }
+  }
+  return Remote.request('CalendarEventCreate', payload, { method: 'POST', account });
+}
+
+/**
+ * Send an event's pending change (run by the mutation queue for the
+ * calendarEventCreate/calendarEventUpdate/calendarEventDelete mutations).
+ * A created event gets the id the server assigns.
+ *
+ * @param {Object} payload
+ * @param {string} payload.account
+ * @param {string} payload.eventId
+ */
+export async function pushCalendarEventChange({ account = getAccount(), eventId } = {}) {
+  const key = [account, eventId];
+  const local = await db.calendarEvents.get(key);
+  if (!local?.pending) return;
+
+  if (local.pending === 'delete') {
+    try {
+      await Remote.request(
+        'CalendarEventDelete',
+        { calendar_id: local.calendarId },
+        { method: 'DELETE', pathOverride: eventPath(eventId), account },
+      );
+    } catch (err) {
+      if (err?.status !== 404) throw err;
+    }
+    await db.calendarEvents.delete(key);
+    notifyChanged(account);
+    return;
+  }
+
+  const res = await sendEvent(account, local);
+  const server = calendarEventFromApi(res, account, local.calendarId);
+  // The server's copy may leave out the iCalendar text just sent
+  const stored = {
+    ...local,
+    ...(server?.ical ? server : {}),
+    id: server?.id || local.id,
+    pending: null,
+  };
+
+  const latest = await db.calendarEvents.get(key);
+  if (stored.id !== eventId) await db.calendarEvents.delete(key);
+  if (!latest) {
+    // A new event deleted while it was being created: delete the server's copy
+    await db.calendarEvents.put({ ...stored, pending: 'delete', updatedAt: Date.now() });
+    await queueMutation(mutationType('delete'), { eventId: stored.id }, { account });
+  } else if (latest.pending && latest.updatedAt !== local.updatedAt) {
+    // Edited again while the request was in flight: send that version next
+    const next = {
+      ...latest,
+      id: stored.id,
+      pending: latest.pending === 'create' ? 'update' : latest.pending,
+    };
+    await db.calendarEvents.put(next);
+    await queueMutation(mutationType(next.pending), { eventId: next.id }, { account });
+  } else {
+    await db.calendarEvents.put(stored);
+  }
+  notifyChanged(account);
+}
@@ -0,0 +1,259 @@
+import { db } from './db';
+import { Local } from './storage';
+import { queueEmail } from './outbox-service';
+import { queueMutation } from './mutation-queue';
+import {
+  listCalendarEvents,
+  listCalendars,
+  removeCalendarEvent,
+  saveCalendarEvent,
+  syncCalendars,
+} from './calendar-cache.js';
+import { onSyncCalendarReplies } from './sync-worker-client.js';
+import { getMessageApiId } from './sync-helpers.ts';
+import { extractEmail } from './address';
+import { getEffectiveSettingValue } from '../stores/settingsStore';
+import { warn } from './logger.ts';
+import {
+  RESPONSE_LABELS,
+  applyCancellation,
+  applyInvitation,
+  applyReply,
+  buildInvitationReply,
+  findAttendee,
+  findInvitationEvent,
+  organizedBy,
+  parseInvitation,
+  repliedBy,
+  storedResponse,
+} from './itip.ts';
+
+/**
+ * Calendar invitations in the message view
+ *
+ * Answers invitations (a METHOD:REPLY to the organizer, queued in the
+ * outbox) and keeps the calendar in step: accepting saves the event, a newer
+ * SEQUENCE replaces the stored copy and a CANCEL removes it. Events are
+ * looked up and saved in the `calendarEvents` table (calendar-cache.js), which
+ * sends the changes through the mutation queue.
+ *
+ * Replies to the user's own events come the other way: the sync worker finds
+ * them in new INBOX mail, their PARTSTAT is saved on the event and, when the
+ * `calendar_archive_replies` setting is on, the reply email is archived. A
+ * reply only counts when it comes from the attendee it answers for.
+ */
+
+// Calendar.svelte's selected calendars
+const calendarPrefsKey = (account) => `calendar_prefs_${account}`;
+
+function getAccount() {
+  return Local.get('email') || 'default';
+}
+
+const calendarIdOf = (calendar) => calendar?.id || calendar?.calendar_id || calendar?.uid || '';
+const eventCalendarId = (event) => event?.calendarId || event?.calendar_id || '';
+
+/**
+ * The user's addresses: the account, and the alias they send from
+ */
+export function ownAddresses(account) {
+  const aliasAuth = Local.get('alias_auth') || '';
+  const alias = aliasAuth.includes(':') ? aliasAuth.split(':')[0] : aliasAuth;
+  return [...new Set([account, alias, Local.get('email')].filter((email) => email?.includes('@')))];
+}
+
+/**
+ * Every cached event of the account
+ */
+export async function readCachedEvents(account) {
+  return listCalendarEvents(account);
+}
+
+// The calendar new invitations go to: the first selected one, else the first calendar
+async function defaultCalendarId(account) {
+  try {
+    const prefs = JSON.parse(Local.get(calendarPrefsKey(account)) || 'null');
+    if (prefs?.selectedIds?.[0]) return prefs.selectedIds[0];
+  } catch {
+    // fall through to the calendar list
+  }
+  const cached = await listCalendars(account);
+  if (cached.length) return calendarIdOf(cached[0]);
+  const list = await syncCalendars({ account });
+  if (!list.length) throw new Error('No calendar to add the event to.');
+  return calendarIdOf(list[0]);
+}
+
+// The fields of a saved invitation, as Calendar.svelte stores events
+const invitationFields = (calendarId, invitation, ical, stored) => ({
+  title: invitation.summary || 'Event',
+  start: stored && invitation.recurrenceId !== null ? stored.start : invitation.start.toISOString(),
+  end: stored && invitation.recurrenceId !== null ? stored.end : invitation.end.toISOString(),
+  calendarId,
+  description: invitation.description,
+  location: invitation.location,
+  attendees: invitation.attendees.map((attendee) => attendee.email).join(', '),
+  ical,
+});
+
+async function saveEvent(account, invitation, stored, ical) {
+  const calendarId = stored ? eventCalendarId(stored) : await defaultCalendarId(account);
+  await saveCalendarEvent(
+    { id: stored?.id, ...invitationFields(calendarId, invitation, ical, stored) },
+    { account },
+  );
+}
+
+const toBase64 = (value) => btoa(unescape(encodeURIComponent(value)));
+
+const RESPONSE_VERBS = {
+  ACCEPTED: 'accepted',
+  TENTATIVE: 'tentatively accepted',
+  DECLINED: 'declined',
+};
+
+/**
+ * Answer an invitation: queue the reply to the organizer and save the event
+ * with the user's response. Declining an event that isn't in the calendar
+ * only sends the reply.
+ */
+export async function respondToInvitation(invitation, response, options = {}) {
+  const { account, inReplyTo = '' } = options;
+  const emails = ownAddresses(account);
+  // Reply from the address that was invited
+  const from = findAttendee(invitation, emails)?.email || emails[0];
+  const organizer = invitation.organizer?.email;
+  if (!organizer) throw new Error('The invitation has no organizer to reply to.');
+
+  const label = RESPONSE_LABELS[response];
+  const summary = invitation.summary || 'Event';
+  const reply = buildInvitationReply(invitation, from, response);
+  await queueEmail({
+    from,
+    to: [organizer],
+    subject: `${label}: ${summary}`,
+    text: `${from} has ${RESPONSE_VERBS[response]} the invitation to ${summary}.`,
+    attachments: [
+      {
+        filename: 'reply.ics',
+        contentType: 'text/calendar; method=REPLY; charset=UTF-8',
+        content: toBase64(reply),
+        encoding: 'base64',
+      },
+    ],
+    has_attachment: true,
+    ...(inReplyTo ? { in_reply_to: inReplyTo } : {}),
+    save_sent: true,
+  });
+
+  const stored = findInvitationEvent(invitation, await readCachedEvents(account));
+  if (!stored && response === 'DECLINED') return;
+  await saveEvent(
+    account,
+    invitation,
+    stored,
+    applyInvitation(stored?.ical || null, invitation, emails, response),
+  );
+}
+
+/**
+ * Take an updated invitation (a higher SEQUENCE) into the calendar, keeping
+ * the user's earlier response
+ */
+export async function applyInvitationUpdate(invitation, account) {
+  const emails = ownAddresses(account);
+  const stored = findInvitationEvent(invitation, await readCachedEvents(account));
+  if (!stored) return;
+  const response = storedResponse(stored.ical, emails) || 'NEEDS-ACTION';
+  await saveEvent(
+    account,
+    invitation,
+    stored,
+    applyInvitation(stored.ical, invitation, emails, response),
+  );
+}
+
+/**
+ * Remove a cancelled event, or the cancelled occurrence of a series, from
+ * the calendar
+ */
+export async function applyInvitationCancel(invitation, account) {
+  const stored = findInvitationEvent(invitation, await readCachedEvents(account));
+  if (!stored) return;
+  const ical = applyCancellation(stored.ical, invitation);
+  if (ical) {
+    await saveCalendarEvent({ id: stored.id, ical }, { account });
+    return;
+  }
+  await removeCalendarEvent(stored, { account });
+}
+
+/**
+ * The event a reply answers. Invitations sent before events were stored with
+ * their UID carry the event id instead.
+ */
+export const findReplyEvent = (reply, events) =>
+  findInvitationEvent(reply, events) || events.find((event) => event.id === reply.uid) || null;
+
+/**
+ * Save an attendee's reply on the event the user organizes. Returns false
+ * when the reply isn't for one of their events, or `from` (the reply
+ * email's sender) isn't the attendee who answers.
+ */
+export async function applyCalendarReply(reply, account, from) {
+  const sender = extractEmail(from);
+  if (!sender || repliedBy(reply)?.email !== sender) return false;
+  const emails = ownAddresses(account);
+  const stored = findReplyEvent(reply, await readCachedEvents(account));
+  if (!stored?.ical || !organizedBy(stored.ical, emails)) return false;
+  const ical = applyReply(stored.ical, reply, emails);
+  if (ical) await saveCalendarEvent({ id: stored.id, ical }, { account });
+  return true;
+}
+
+async function archiveReply(account, message) {
+  const apiId = getMessageApiId(message);
+  const { mailboxStore } = await import('../stores/mailboxStore');
+  const target = mailboxStore.actions.getArchiveFolderPath();
+  if (!apiId || !target || target === message.folder) return;
+  await queueMutation('move', { messageId: apiId, targetFolder: target });
+  await db.messages
+    .where('[account+id]')
+    .equals([account, message.id])
+    .modify({ folder: target })
+    .catch(() => {});
+}
+
+/**
+ * Apply attendee replies reported by the sync worker.
+ */
+export async function applyCalendarReplies({ account, replies } = {}) {
+  // Events and mutations are updated for the active account only
+  const active = getAccount();
+  if (!replies?.length || (account || 'default') !== active) return;
+  const archive = Boolean(
+    getEffectiveSettingValue('calendar_archive_replies', { account: active }),
+  );
+  for (const { message, ical } of replies) {
+    try {
+      const reply = parseInvitation(ical);
+      if (!reply || !(await applyCalendarReply(reply, active, message?.from))) continue;
+      if (archive) await archiveReply(active, message);
+    } catch (err) {
+      warn('[calendar-invitations] Failed to apply calendar reply', message?.id, err);
+    }
+  }
+}
+
+/**
+ * Start applying attendee replies from the sync worker.
+ * Call once on app startup.
+ */
+let initialized = false;
+export function initCalendarReplies() {
+  if (initialized) return;
+  initialized = true;
+  onSyncCalendarReplies((data) => {
+    applyCalendarReplies(data);
+  });
+}
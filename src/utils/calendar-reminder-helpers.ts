@@ -0,0 +1,269 @@
+import {
+  expandSeries,
+  extractVEvents,
+  parseDuration,
+  parseICalDate,
+  readProperty,
+  readRecurringSeries,
+  unescapeText,
+  type RecurringSeries,
+} from './recurrence';
+import type { CalendarEventRecord } from './calendar-sync-helpers';
+
+/**
+ * Event reminders
+ *
+ * Pure helpers for the reminder scheduler (calendar-reminders.js): reading
+ * the VALARMs of cached events, listing the reminders due in a time range
+ * (one per occurrence of a recurring event), and keeping track of the ones
+ * already shown or snoozed. That state lives in the IndexedDB `meta` table
+ * under a per-account key, so a reminder isn't shown again after a reload.
+ *
+ * Events without a VALARM fall back to their `notify` field (minutes before
+ * the start). EMAIL alarms are left to the server.
+ */
+
+export const REMINDERS_KEY_PREFIX = 'calendar_reminders_';
+
+/** Reminders missed while the app was closed are still shown this late */
+export const MAX_LATE_MS = 60 * 60 * 1000;
+
+export interface EventAlarm {
+  /** Offset from the start (or the end, with `related: 'end'`) in milliseconds */
+  offset: number;
+  related: 'start' | 'end';
+  /** Absolute trigger time (TRIGGER;VALUE=DATE-TIME), in milliseconds */
+  at: number | null;
+  description: string;
+}
+
+export interface EventReminder {
+  /** Identifies the reminder of one occurrence and alarm time */
+  key: string;
+  eventId: string;
+  /** Calendar.svelte's id for the occurrence (`<event id>::<recurrence id>`) */
+  occurrenceId: string;
+  title: string;
+  location: string;
+  start: number;
+  end: number;
+  fireAt: number;
+}
+
+export interface FiredReminder {
+  key: string;
+  fireAt: number;
+  end: number;
+}
+
+export interface ReminderState {
+  fired: FiredReminder[];
+  snoozed: EventReminder[];
+}
+
+export const reminderMetaKey = (account: string) =>
+  `${REMINDERS_KEY_PREFIX}${account || 'default'}`;
+
+export const emptyReminderState = (): ReminderState => ({ fired: [], snoozed: [] });
+
+/** Read a stored state, tolerating missing or malformed records */
+export function readReminderState(value: unknown): ReminderState {
+  const record = (value || {}) as Partial<ReminderState>;
+  return {
+    fired: Array.isArray(record.fired) ? record.fired : [],
+    snoozed: Array.isArray(record.snoozed) ? record.snoozed : [],
+  };
+}
+
+/**
+ * The VALARMs of a VEVENT block that should show a reminder.
+ */
+export function readAlarms(block: string): EventAlarm[] {
+  const alarms: EventAlarm[] = [];
+  for (const alarm of block.match(/BEGIN:VALARM[\s\S]*?END:VALARM/g) || []) {
+    const action = readProperty(alarm, 'ACTION')?.value.trim().toUpperCase() || 'DISPLAY';
+    if (action !== 'DISPLAY' && action !== 'AUDIO') continue;
+    const trigger = readProperty(alarm, 'TRIGGER');
+    if (!trigger) continue;
+    const description = readProperty(alarm, 'DESCRIPTION');
+    const entry = {
+      related: trigger.params.RELATED?.toUpperCase() === 'END' ? 'end' : 'start',
+      description: description ? unescapeText(description.value) : '',
+    } as const;
+    if (trigger.params.VALUE?.toUpperCase() === 'DATE-TIME') {
+      const at = parseICalDate(trigger.value.trim(), trigger.params);
+      if (at) alarms.push({ ...entry, offset: 0, at: at.date.getTime() });
+      continue;
+    }
+    if (!/^[+-]?P/.test(trigger.value.trim())) continue;
+    alarms.push({ ...entry, offset: parseDuration(trigger.value.trim()), at: null });
+  }
+  return alarms;
+}
+
+const masterBlock = (ical: string) =>
+  extractVEvents(ical).find((block) => !readProperty(block, 'RECURRENCE-ID')) || '';
+
+function eventAlarms(event: CalendarEventRecord, master: string): EventAlarm[] {
+  const alarms = master ? readAlarms(master) : [];
+  if (alarms.length || !(Number(event.notify) > 0)) return alarms;
+  return [{ offset: -Number(event.notify) * 60000, related: 'start', at: null, description: '' }];
+}
+
+const fireTime = (alarm: EventAlarm, start: number, end: number) =>
+  alarm.at ?? (alarm.related === 'end' ? end : start) + alarm.offset;
+
+interface Occurrence {
+  recurrenceId: number | null;
+  start: number;
+  end: number;
+  title: string;
+  location: string;
+}
+
+function occurrencesOf(
+  event: CalendarEventRecord,
+  series: RecurringSeries | null,
+  from: number,
+  to: number,
+): Occurrence[] {
+  if (!series?.rule) {
+    const start = series ? series.start.date.getTime() : Date.parse(event.start);
+    if (Number.isNaN(start)) return [];
+    const end = series ? start + series.duration : Date.parse(event.end) || start;
+    return [{ recurrenceId: null, start, end, title: event.title, location: event.location }];
+  }
+  return expandSeries(series, new Date(from), new Date(to)).map((occurrence) => ({
+    recurrenceId: occurrence.recurrenceId,
+    start: occurrence.start.getTime(),
+    end: occurrence.end.getTime(),
+    title: occurrence.override?.summary ?? event.title,
+    location: occurrence.override?.location ?? event.location,
+  }));
+}
+
+/**
+ * The reminders of cached events that fire within `[from, to]`, earliest
+ * first. Recurring events get one per occurrence.
+ */
+export function collectReminders(
+  events: CalendarEventRecord[],
+  from: number,
+  to: number,
+): EventReminder[] {
+  const reminders: EventReminder[] = [];
+  for (const event of events) {
+    if (!event?.id || event.pending === 'delete') continue;
+    const master = masterBlock(event.ical || '');
+    const alarms = eventAlarms(event, master);
+    if (!alarms.length) continue;
+    const series = master ? readRecurringSeries(event.ical) : null;
+
+    // Occurrences whose alarms can fire in the range
+    const before = Math.max(0, ...alarms.map((alarm) => -alarm.offset));
+    const after = Math.max(0, ...alarms.map((alarm) => alarm.offset));
+    const occurrences = occurrencesOf(event, series, from - after, to + before);
+
+    const add = (occurrence: Occurrence, alarm: EventAlarm) => {
+      const fireAt = fireTime(alarm, occurrence.start, occurrence.end);
+      if (fireAt < from || fireAt > to) return;
+      reminders.push({
+        key: `${event.id}|${occurrence.start}|${fireAt}`,
+        eventId: event.id,
+        occurrenceId:
+          occurrence.recurrenceId === null ? event.id : `${event.id}::${occurrence.recurrenceId}`,
+        title: occurrence.title || alarm.description || 'Event',
+        location: occurrence.location || '',
+        start: occurrence.start,
+        end: occurrence.end,
+        fireAt,
+      });
+    };
+
+    for (const alarm of alarms) {
+      // An absolute trigger fires once, for the event as a whole
+      if (alarm.at !== null) {
+        const [first] = occurrencesOf(event, series && { ...series, rule: null }, from, to);
+        if (first) add(first, alarm);
+        continue;
+      }
+      for (const occurrence of occurrences) add(occurrence, alarm);
+    }
+  }
+  return reminders.sort((a, b) => a.fireAt - b.fireAt);
+}
+
+/**
+ * Reminders to show now: ones that came due (up to MAX_LATE_MS ago, for an
+ * event that isn't over) and weren't shown yet, and snoozed ones whose time
+ * has come.
+ */
+export function dueReminders(
+  reminders: EventReminder[],
+  state: ReminderState,
+  now: number,
+): EventReminder[] {
+  const handled = new Set([
+    ...state.fired.map((entry) => entry.key),
+    ...state.snoozed.map((entry) => entry.key),
+  ]);
+  const due = reminders.filter(
+    (reminder) =>
+      !handled.has(reminder.key) &&
+      reminder.fireAt <= now &&
+      reminder.fireAt > now - MAX_LATE_MS &&
+      reminder.end > now,
+  );
+  return [...due, ...state.snoozed.filter((reminder) => reminder.fireAt <= now)];
+}
+
+/**
+ * Record shown reminders, forgetting ones that can no longer come due.
+ */
+export function markFired(
+  state: ReminderState,
+  fired: EventReminder[],
+  now: number,
+): ReminderState {
+  const keys = new Set(fired.map((reminder) => reminder.key));
+  const entries = [
+    ...state.fired.filter((entry) => !keys.has(entry.key)),
+    ...fired.map(({ key, fireAt, end }) => ({ key, fireAt, end })),
+  ];
+  return {
+    fired: entries.filter((entry) => entry.end > now && entry.fireAt > now - MAX_LATE_MS),
+    snoozed: state.snoozed.filter((reminder) => !keys.has(reminder.key)),
+  };
+}
+
+/**
+ * Show a reminder again at `until`.
+ */
+export function snoozeReminder(
+  state: ReminderState,
+  reminder: EventReminder,
+  until: number,
+): ReminderState {
+  return {
+    fired: state.fired,
+    snoozed: [
+      ...state.snoozed.filter((entry) => entry.key !== reminder.key),
+      { ...reminder, fireAt: until },
+    ],
+  };
+}
+
+/**
+ * When the next reminder is due, or null when none is.
+ */
+export function nextReminderAt(
+  reminders: EventReminder[],
+  state: ReminderState,
+  now: number,
+): number | null {
+  const handled = new Set(state.fired.map((entry) => entry.key));
+  const times = [...reminders.filter((reminder) => !handled.has(reminder.key)), ...state.snoozed]
+    .map((reminder) => reminder.fireAt)
+    .filter((time) => time > now);
+  return times.length ? Math.min(...times) : null;
+}
@@ -0,0 +1,198 @@
+import { db } from './db';
+import { Local } from './storage';
+import { isTauri } from './platform.js';
+import { warn } from './logger.ts';
+import { withLock } from './web-locks.js';
+import { listCalendarEvents } from './calendar-cache.js';
+import { notify, onNotificationAction } from './notification-bridge.js';
+import {
+  MAX_LATE_MS,
+  collectReminders,
+  dueReminders,
+  markFired,
+  nextReminderAt,
+  readReminderState,
+  reminderMetaKey,
+  snoozeReminder,
+} from './calendar-reminder-helpers.ts';
+
+/**
+ * Event Reminders
+ *
+ * Shows a notification for each VALARM of the cached calendar events (or the
+ * minutes in an event's `notify` field) through notification-bridge.js:
+ * native notifications on Tauri, the service worker or Notification API on
+ * the web. Reminders have Snooze and "Open event" buttons; clicking one opens
+ * the event in the calendar (`#event=<id>`, handled in main.ts).
+ *
+ * Every open tab checks the calendarEvents table (calendar-cache.js) once a
+ * minute and when the next reminder is due. Shown and snoozed reminders are
+ * recorded in the IndexedDB `meta` table (calendar-reminder-helpers.ts), so a
+ * reload doesn't show them again and snoozes survive it. The check holds a
+ * Web Lock while it records what it shows, so a reminder due in several tabs
+ * shows once.
+ */
+
+const CHECK_INTERVAL_MS = 60000;
+const SNOOZE_MS = 5 * 60 * 1000;
+const LOCK_NAME = 'calendar-reminders';
+
+let checkInterval = null;
+let nextTimer = null;
+let nextAt = 0;
+let checking = false;
+
+function getAccount() {
+  return Local.get('email') || 'default';
+}
+
+async function readState(account) {
+  try {
+    const record = await db.meta.get(reminderMetaKey(account));
+    return readReminderState(record?.value);
+  } catch {
+    return readReminderState(null);
+  }
+}
+
+async function writeState(account, reminderState) {
+  await db.meta.put({ key: reminderMetaKey(account), value: reminderState, updatedAt: Date.now() });
+}
+
+// Reminders aren't recorded as shown until notifications are allowed
+function notificationsBlocked() {
+  if (isTauri) return false;
+  return typeof Notification === 'undefined' || Notification.permission !== 'granted';
+}
+
+function eventPath(reminder) {
+  return `#event=${encodeURIComponent(reminder.occurrenceId)}`;
+}
+
+function reminderBody(reminder, now) {
+  const minutes = Math.round((reminder.start - now) / 60000);
+  let when = 'Now';
+  if (minutes > 60) {
+    const sameDay = new Date(reminder.start).toDateString() === new Date(now).toDateString();
+    when = new Date(reminder.start).toLocaleString([], {
+      ...(sameDay ? {} : { weekday: 'short' }),
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  } else if (minutes > 0) {
+    when = `In ${minutes} min`;
+  }
+  return [when, reminder.location].filter(Boolean).join(' · ');
+}
+
+function showReminder(reminder, account) {
+  return notify({
+    title: reminder.title,
+    body: reminderBody(reminder, Date.now()),
+    tag: `event-reminder-${reminder.eventId}`,
+    channelId: 'calendar-reminders',
+    actionTypeId: 'calendar-reminder',
+    data: { type: 'calendar-reminder', account, reminder, path: eventPath(reminder) },
+  });
+}
+
+/**
+ * Check again at `at`, when that comes before the next regular check.
+ */
+function scheduleNext(at) {
+  const now = Date.now();
+  if (!at || at - now >= CHECK_INTERVAL_MS) return;
+  if (nextTimer && nextAt <= at) return;
+  clearTimeout(nextTimer);
+  nextAt = at;
+  nextTimer = setTimeout(
+    () => {
+      nextTimer = null;
+      checkReminders();
+    },
+    Math.max(0, at - now),
+  );
+}
+
+/**
+ * Show the reminders that are due for the current account.
+ *
+ * @returns {Promise<number>} Number of reminders shown
+ */
+export async function checkReminders() {
+  if (checking || notificationsBlocked()) return 0;
+  checking = true;
+  const account = getAccount();
+  try {
+    const now = Date.now();
+    const events = await listCalendarEvents(account);
+    const reminders = collectReminders(events, now - MAX_LATE_MS, now + CHECK_INTERVAL_MS);
+
+    const { due, next } = await withLock(LOCK_NAME, async () => {
+      // Read under the lock: another tab may have just shown some
+      const stored = await readState(account);
+      const shown = dueReminders(reminders, stored, Date.now());
+      const updated = shown.length ? markFired(stored, shown, Date.now()) : stored;
+      if (shown.length) await writeState(account, updated);
+      return { due: shown, next: nextReminderAt(reminders, updated, Date.now()) };
+    });
+
+    for (const reminder of due) await showReminder(reminder, account);
+    scheduleNext(next);
+    return due.length;
+  } catch (err) {
+    warn('[calendar-reminders] Failed to check event reminders', err);
+    return 0;
+  } finally {
+    checking = false;
+  }
+}
+
+/**
+ * Show a reminder again in a few minutes.
+ *
+ * @param {Object} reminder - The reminder from the notification's data
+ * @param {string} [account]
+ */
+export async function snoozeEventReminder(reminder, account = getAccount()) {
+  const until = Date.now() + SNOOZE_MS;
+  await withLock(LOCK_NAME, async () => {
+    const stored = await readState(account);
+    await writeState(account, snoozeReminder(stored, reminder, until));
+  });
+  if (account === getAccount()) scheduleNext(until);
+}
+
+function handleNotificationAction({ action, data }) {
+  const reminder = data?.reminder;
+  if (data?.type !== 'calendar-reminder' || !reminder?.key) return;
+  if (action === 'snooze') {
+    snoozeEventReminder(reminder, data.account).catch((err) => {
+      warn('[calendar-reminders] Failed to snooze reminder', err);
+    });
+    return;
+  }
+  // A click on the reminder or its "Open event" button
+  window.focus();
+  window.location.hash = eventPath(reminder);
+}
+
+/**
+ * Start showing event reminders.
+ * Call once on app startup.
+ */
+export function initCalendarReminders() {
+  if (checkInterval) return;
+
+  onNotificationAction(handleNotificationAction);
+  // An event added or moved may have a reminder due before the next check
+  window.addEventListener('fe:calendar-event-changed', () => {
+    checkReminders();
+  });
+
+  // Catch up on reminders that came due while the app was closed
+  checkReminders();
+  checkInterval = setInterval(() => {
+    checkReminders();
+  }, CHECK_INTERVAL_MS);
+}
@@ -0,0 +1,202 @@
+import { parseInvitation, type CachedCalendarEvent } from './itip';
+
+/**
+ * Offline calendar
+ *
+ * Pure helpers for the `calendars` and `calendarEvents` tables
+ * (calendar-cache.js): mapping API records, applying local edits, and
+ * merging the server's list with the cached events. Local changes are marked
+ * `pending` until the mutation queue has sent them; the server copy of a
+ * pending event doesn't replace it, so the last edit made wins.
+ */
+
+export type CalendarEventPendingChange = 'create' | 'update' | 'delete';
+
+export interface CalendarRecord {
+  account: string;
+  id: string;
+  name?: string;
+  [key: string]: unknown;
+}
+
+export interface CalendarEventRecord extends CachedCalendarEvent {
+  account: string;
+  id: string;
+  calendarId: string;
+  title: string;
+  description: string;
+  location: string;
+  url: string;
+  timezone: string;
+  attendees: string;
+  /** Reminder, in minutes before the start */
+  notify: number;
+  ical: string;
+  /** Local change not yet sent to the server */
+  pending: CalendarEventPendingChange | null;
+  updatedAt: number;
+}
+
+export type CalendarEventFields = Partial<
+  Omit<CalendarEventRecord, 'account' | 'id' | 'pending' | 'updatedAt'>
+>;
+
+type ApiRecord = Record<string, unknown>;
+
+const str = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const unwrap = (raw: unknown): ApiRecord | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  return ((raw as ApiRecord).Result as ApiRecord) || (raw as ApiRecord);
+};
+
+/**
+ * Read an event time from the API as an ISO string. UTC and offset times are
+ * normalized; floating times are kept as they are.
+ */
+export function normalizeEventTime(value: unknown): string {
+  if (!value) return '';
+  const text = String(value);
+  if (text.endsWith('Z')) return text;
+  if (/[+-]\d{2}:\d{2}$/.test(text)) {
+    const date = new Date(text);
+    return Number.isNaN(date.getTime()) ? text : date.toISOString();
+  }
+  return text;
+}
+
+/**
+ * Map a calendar from the API (`/v1/calendars`) to a cached record.
+ *
+ * @returns The record, or null when it has no id
+ */
+export function calendarFromApi(raw: unknown, account: string): CalendarRecord | null {
+  const item = unwrap(raw);
+  const id = item && (item.id || item.calendar_id || item.uid);
+  if (!id) return null;
+  return { ...item, account, id: String(id) };
+}
+
+/**
+ * Map an event from the API (`/v1/calendar-events`) to a cached record.
+ *
+ * @returns The record, or null when it has no id
+ */
+export function calendarEventFromApi(
+  raw: unknown,
+  account: string,
+  defaultCalendarId = '',
+): CalendarEventRecord | null {
+  const item = unwrap(raw);
+  const id = item && (item.id || item.uid || item.event_id);
+  if (!item || !id) return null;
+  return {
+    account,
+    id: String(id),
+    title: str(item.summary) || str(item.title) || str(item.name) || 'Event',
+    start: normalizeEventTime(item.start || item.start_date || item.dtstart || item.start_time),
+    end: normalizeEventTime(item.end || item.end_date || item.dtend || item.end_time),
+    calendarId: str(item.calendar_id) || str(item.calendarId) || defaultCalendarId,
+    description: str(item.description) || str(item.notes),
+    location: str(item.location),
+    url: str(item.url),
+    timezone: str(item.timezone),
+    attendees: str(item.attendees),
+    notify: Number(item.notify || item.reminder) || 0,
+    ical: str(item.ical),
+    pending: null,
+    updatedAt: Date.parse(str(item.updated_at) || str(item.updatedAt)) || Date.now(),
+  };
+}
+
+/**
+ * The fields of an event read from its iCalendar text, for events saved
+ * without the form (imported files, invitations). Empty when the text has no
+ * event with a UID and start time.
+ */
+export function calendarEventFieldsFromIcal(ical: string): CalendarEventFields {
+  const event = parseInvitation(ical);
+  if (!event) return { ical };
+  return {
+    title: event.summary || 'Event',
+    start: event.start.toISOString(),
+    end: event.end.toISOString(),
+    description: event.description,
+    location: event.location,
+    attendees: event.attendees.map((attendee) => attendee.email).join(', '),
+    ical,
+  };
+}
+
+/**
+ * Apply an edit to the cached record. New events get `localId` until the
+ * server assigns one; further edits to a pending event keep its pending
+ * change (a create stays a create).
+ */
+export function applyCalendarEventEdit(
+  existing: CalendarEventRecord | null,
+  fields: CalendarEventFields,
+  { account, localId, now = Date.now() }: { account: string; localId: string; now?: number },
+): CalendarEventRecord {
+  const base = existing || calendarEventFromApi({ id: localId }, account);
+  return {
+    ...(base as CalendarEventRecord),
+    ...fields,
+    account,
+    id: existing?.id || localId,
+    notify: Number(fields.notify ?? existing?.notify) || 0,
+    pending: existing?.pending || (existing ? 'update' : 'create'),
+    updatedAt: now,
+  };
+}
+
+/**
+ * Request body for creating or updating an event.
+ */
+export function calendarEventPayload(event: Pick<CalendarEventRecord, 'calendarId' | 'ical'>) {
+  return { calendar_id: event.calendarId, ical: event.ical };
+}
+
+/**
+ * Compare cached events with the server's. With `complete`, `server` is the
+ * full list (of `calendarId`, when given) and cached events missing from it
+ * are removed; otherwise it applies single changes. Pending local changes
+ * are kept either way.
+ *
+ * @returns Records to store and ids to delete from the cache
+ */
+export function planCalendarEventSync(
+  local: CalendarEventRecord[],
+  server: CalendarEventRecord[],
+  { complete = true, calendarId = '' }: { complete?: boolean; calendarId?: string } = {},
+): { put: CalendarEventRecord[]; remove: string[] } {
+  const byId = new Map(local.map((event) => [event.id, event]));
+  const put: CalendarEventRecord[] = [];
+  const seen = new Set<string>();
+
+  for (const copy of server) {
+    seen.add(copy.id);
+    const existing = byId.get(copy.id);
+    if (existing?.pending) continue;
+    if (
+      existing &&
+      existing.ical === copy.ical &&
+      existing.start === copy.start &&
+      existing.end === copy.end &&
+      existing.title === copy.title &&
+      existing.calendarId === copy.calendarId
+    ) {
+      continue;
+    }
+    put.push(copy);
+  }
+
+  if (!complete) return { put, remove: [] };
+
+  // Cached events the server no longer has
+  const remove = local
+    .filter((event) => !seen.has(event.id) && !event.pending)
+    .filter((event) => !calendarId || event.calendarId === calendarId)
+    .map((event) => event.id);
+  return { put, remove };
+}
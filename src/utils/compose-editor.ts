@@ -0,0 +1,238 @@
+import { Extension, Node } from '@tiptap/core';
+import type { AnyExtension, Editor, EditorOptions } from '@tiptap/core';
+import StarterKit from '@tiptap/starter-kit';
+import LinkBase from '@tiptap/extension-link';
+import Placeholder from '@tiptap/extension-placeholder';
+import Highlight from '@tiptap/extension-highlight';
+import Underline from '@tiptap/extension-underline';
+import TextStyle from '@tiptap/extension-text-style';
+import TextAlign from '@tiptap/extension-text-align';
+import Color from '@tiptap/extension-color';
+import FontFamily from '@tiptap/extension-font-family';
+
+/**
+ * Rich-text editor setup shared by Compose and other HTML editors in the app
+ * (e.g. the out-of-office message), so they format and paste the same way.
+ */
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    fontSize: {
+      setFontSize: (fontSize: string) => ReturnType;
+      unsetFontSize: () => ReturnType;
+    };
+  }
+}
+
+// Custom FontSize extension to add fontSize support to TextStyle
+export const FontSize = Extension.create({
+  name: 'fontSize',
+  addOptions() {
+    return {
+      types: ['textStyle'],
+    };
+  },
+  addGlobalAttributes() {
+    return [
+      {
+        types: this.options.types,
+        attributes: {
+          fontSize: {
+            default: null,
+            parseHTML: (element) => element.style.fontSize?.replace(/['"]+/g, ''),
+            renderHTML: (attributes) => {
+              if (!attributes.fontSize) {
+                return {};
+              }
+              return {
+                style: `font-size: ${attributes.fontSize}`,
+              };
+            },
+          },
+        },
+      },
+    ];
+  },
+  addCommands() {
+    return {
+      setFontSize:
+        (fontSize: string) =>
+        ({ chain }) => {
+          return chain().setMark('textStyle', { fontSize }).run();
+        },
+      unsetFontSize:
+        () =>
+        ({ chain }) => {
+          return chain().setMark('textStyle', { fontSize: null }).removeEmptyTextStyle().run();
+        },
+    };
+  },
+});
+
+// Custom Link extension that doesn't extend to new text typed after a link
+export const Link = LinkBase.extend({
+  inclusive: false,
+});
+
+// Signature block (see compose-signatures.ts): an ordinary editable block
+// that keeps its wrapper, so the composer can find and swap it
+export const SignatureBlock = Node.create({
+  name: 'signatureBlock',
+  group: 'block',
+  content: 'block+',
+  defining: true,
+  addAttributes() {
+    return {
+      signatureId: {
+        default: null,
+        parseHTML: (element) => element.getAttribute('data-signature-id'),
+        renderHTML: (attributes) =>
+          attributes.signatureId ? { 'data-signature-id': attributes.signatureId } : {},
+      },
+    };
+  },
+  parseHTML() {
+    return [{ tag: 'div.fe-signature' }];
+  },
+  renderHTML({ HTMLAttributes }) {
+    return ['div', { ...HTMLAttributes, class: 'fe-signature' }, 0];
+  },
+});
+
+/**
+ * Formatting extensions every rich editor gets. Callers append their own
+ * (images, tables, quoted replies, ...).
+ */
+export function baseEditorExtensions({ placeholder = '' } = {}): AnyExtension[] {
+  return [
+    StarterKit,
+    Link.configure({
+      openOnClick: false,
+      autolink: false,
+      linkOnPaste: true,
+    }),
+    Placeholder.configure({ placeholder }),
+    Highlight.configure({ multicolor: true }),
+    Underline,
+    TextStyle,
+    FontSize,
+    TextAlign.configure({ types: ['heading', 'paragraph', 'listItem'] }),
+    Color,
+    FontFamily,
+  ];
+}
+
+// Convert plain text with formatting patterns to HTML for rich paste
+export const plainTextToHtml = (text: string): string => {
+  const escapeHtml = (s: string) =>
+    s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+  const lines = text.split('\n');
+  const parts: string[] = [];
+  let inUl = false;
+  let inOl = false;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      if (inUl) {
+        parts.push('</ul>');
+        inUl = false;
+      }
+      if (inOl) {
+        parts.push('</ol>');
+        inOl = false;
+      }
+      parts.push('<p></p>');
+      continue;
+    }
+
+    // Bullet list: -, *, or • followed by space
+    const bullet = trimmed.match(/^[-*•]\s+(.*)/);
+    if (bullet) {
+      if (inOl) {
+        parts.push('</ol>');
+        inOl = false;
+      }
+      if (!inUl) {
+        parts.push('<ul>');
+        inUl = true;
+      }
+      parts.push(`<li>${escapeHtml(bullet[1])}</li>`);
+      continue;
+    }
+
+    // Ordered list: number followed by . or ) and space
+    const ordered = trimmed.match(/^\d+[.)]\s+(.*)/);
+    if (ordered) {
+      if (inUl) {
+        parts.push('</ul>');
+        inUl = false;
+      }
+      if (!inOl) {
+        parts.push('<ol>');
+        inOl = true;
+      }
+      parts.push(`<li>${escapeHtml(ordered[1])}</li>`);
+      continue;
+    }
+
+    // Regular line
+    if (inUl) {
+      parts.push('</ul>');
+      inUl = false;
+    }
+    if (inOl) {
+      parts.push('</ol>');
+      inOl = false;
+    }
+    parts.push(`<p>${escapeHtml(trimmed)}</p>`);
+  }
+
+  if (inUl) parts.push('</ul>');
+  if (inOl) parts.push('</ol>');
+  return parts.join('');
+};
+
+/**
+ * Paste handling: strip Word/Outlook markup from HTML pastes and turn
+ * plain-text lists into real lists.
+ */
+export function composeEditorProps(
+  getEditor: () => Editor | null,
+): NonNullable<EditorOptions['editorProps']> {
+  return {
+    // Clean up pasted HTML from Word/Outlook
+    transformPastedHTML(html: string) {
+      return (
+        html
+          // Remove Word conditional comments
+          .replace(/<!--\[if[^]*?endif\]-->/gi, '')
+          // Remove MSO namespace tags (<o:p>, etc.)
+          .replace(/<\/?o:[^>]*>/gi, '')
+          // Remove class="Mso*" attributes
+          .replace(/\s*class="Mso[^"]*"/gi, '')
+          // Remove mso-* CSS properties
+          .replace(/mso-[^;:"']+:[^;:"']+;?/gi, '')
+      );
+    },
+    // Convert plain-text-only paste to rich HTML
+    handlePaste: (_view, event) => {
+      const clipboardData = event.clipboardData;
+      if (!clipboardData) return false;
+
+      // If HTML is on the clipboard, let TipTap handle it natively
+      const html = clipboardData.getData('text/html');
+      if (html) return false;
+
+      const text = clipboardData.getData('text/plain');
+      if (!text) return false;
+
+      // Convert plain text formatting to HTML and insert
+      const converted = plainTextToHtml(text);
+      getEditor()?.commands.insertContent(converted);
+      return true;
+    },
+  };
+}
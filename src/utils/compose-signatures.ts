@@ -0,0 +1,258 @@
+import type {
+  ComposeSignature,
+  SignatureDefaults,
+  SignaturePlacement,
+  SignatureSettings,
+} from '../types';
+import { normalizeEmail } from './address';
+
+/**
+ * Compose signatures.
+ *
+ * Pure helpers shared by the signature library (signature-library.js), the
+ * composer and Settings. An account can have several named signatures, each
+ * for one From address (or any), and each address picks which one to add to
+ * new messages and which to add to replies and forwards.
+ *
+ * In rich text the signature is a `<div class="fe-signature">` block, which
+ * the composer keeps intact while editing so it can be swapped when the From
+ * address changes, and which the reader collapses (quote-collapse.js). In
+ * plain text it follows the usual "-- " delimiter line.
+ */
+
+export const SIGNATURES_KEY_PREFIX = 'signatures_';
+export const SIGNATURE_CLASS = 'fe-signature';
+export const SIGNATURE_DELIMITER = '-- ';
+export const MAX_SIGNATURE_NAME_LENGTH = 100;
+
+export type SignatureKind = keyof SignatureDefaults;
+
+export const SIGNATURE_PLACEMENTS: { value: SignaturePlacement; label: string }[] = [
+  { value: 'above', label: 'Above the quoted message' },
+  { value: 'below', label: 'Below the quoted message' },
+];
+
+// Where the quoted message starts in a reply or forward: our own markers
+// before the editor strips classes, otherwise the first top-level blockquote
+const QUOTE_START_SELECTOR =
+  '.fe-reply-attribution, .fe-reply-quote, .fe-forward-quote, blockquote';
+const ATTRIBUTION_PATTERN = /wrote:\s*$|Forwarded message/i;
+
+export const signaturesMetaKey = (account?: string): string =>
+  `${SIGNATURES_KEY_PREFIX}${account || 'default'}`;
+
+export const createSignatureId = (): string =>
+  `sig_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Key for a From address in the defaults map ('' for any address).
+ */
+export const aliasKey = (alias: unknown): string =>
+  normalizeEmail((alias as Parameters<typeof normalizeEmail>[0]) || '').toLowerCase();
+
+/**
+ * Plain-text version of signature HTML, keeping line breaks.
+ */
+export const signatureHtmlToText = (html: string): string =>
+  (html || '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6]|tr)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+/**
+ * Clean up a stored signature. Without its own plain-text version, one is
+ * derived from the HTML.
+ *
+ * @returns The signature, or null when it has no name
+ */
+export const normalizeSignature = (
+  raw: unknown,
+  now: number = Date.now(),
+): ComposeSignature | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  const name = typeof r.name === 'string' ? r.name.trim().slice(0, MAX_SIGNATURE_NAME_LENGTH) : '';
+  if (!name) return null;
+  const html = typeof r.html === 'string' ? r.html : '';
+  const text = typeof r.text === 'string' ? r.text.replace(/\s+$/, '') : '';
+  const createdAt = Number(r.createdAt) || now;
+  return {
+    id: typeof r.id === 'string' && r.id ? r.id : createSignatureId(),
+    name,
+    alias: aliasKey(r.alias),
+    html,
+    text: text.trim() ? text : signatureHtmlToText(html),
+    placement: r.placement === 'below' ? 'below' : 'above',
+    createdAt,
+    updatedAt: Number(r.updatedAt) || createdAt,
+  };
+};
+
+/**
+ * Clean up stored signature settings. Defaults pointing at signatures that
+ * no longer exist are dropped.
+ */
+export const normalizeSignatureSettings = (raw: unknown): SignatureSettings => {
+  const r = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const signatures = Array.isArray(r.signatures)
+    ? r.signatures
+        .map((item) => normalizeSignature(item))
+        .filter((signature): signature is ComposeSignature => Boolean(signature))
+    : [];
+  const ids = new Set(signatures.map((signature) => signature.id));
+  const pick = (value: unknown) => (typeof value === 'string' && ids.has(value) ? value : '');
+  const defaults: Record<string, SignatureDefaults> = {};
+  const rawDefaults = (r.defaults && typeof r.defaults === 'object' ? r.defaults : {}) as Record<
+    string,
+    Record<string, unknown> | undefined
+  >;
+  for (const [alias, value] of Object.entries(rawDefaults)) {
+    const entry = { newMessage: pick(value?.newMessage), reply: pick(value?.reply) };
+    if (entry.newMessage || entry.reply) defaults[aliasKey(alias)] = entry;
+  }
+  return { signatures, defaults };
+};
+
+/**
+ * Signatures that can be used from an address, by name.
+ */
+export const signaturesForAlias = (
+  signatures: ComposeSignature[],
+  alias: string,
+): ComposeSignature[] => {
+  const key = aliasKey(alias);
+  return signatures
+    .filter((signature) => !signature.alias || signature.alias === key)
+    .sort((x, y) => x.name.localeCompare(y.name, undefined, { sensitivity: 'base' }));
+};
+
+/**
+ * The signature to add automatically for an address and kind of message.
+ */
+export const defaultSignature = (
+  settings: SignatureSettings,
+  alias: string,
+  kind: SignatureKind,
+): ComposeSignature | null => {
+  const id = settings.defaults[aliasKey(alias)]?.[kind];
+  if (!id) return null;
+  return signaturesForAlias(settings.signatures, alias).find((s) => s.id === id) || null;
+};
+
+/**
+ * From addresses to offer: the account's own address first, then any address
+ * that has signatures or defaults of its own.
+ */
+export const signatureAliases = (settings: SignatureSettings, account: string): string[] => {
+  const aliases = [
+    aliasKey(account),
+    ...settings.signatures.map((signature) => signature.alias),
+    ...Object.keys(settings.defaults),
+  ].filter(Boolean);
+  return [...new Set(aliases)];
+};
+
+/**
+ * Remove a signature and any defaults that pointed at it.
+ */
+export const removeSignature = (settings: SignatureSettings, id: string): SignatureSettings =>
+  normalizeSignatureSettings({
+    signatures: settings.signatures.filter((signature) => signature.id !== id),
+    defaults: settings.defaults,
+  });
+
+/**
+ * Id of the signature block in compose HTML, if any.
+ */
+export const findSignatureId = (html: string): string => {
+  const tag = (html || '').match(/<div\b[^>]*\bfe-signature\b[^>]*>/)?.[0] || '';
+  return tag.match(/data-signature-id="([^"]+)"/)?.[1] || '';
+};
+
+const findQuoteStart = (root: HTMLElement): Element | null => {
+  const start = Array.from(root.children).find((el) => el.matches(QUOTE_START_SELECTOR));
+  if (!start || start.matches('.fe-reply-attribution')) return start || null;
+  const previous = start.previousElementSibling;
+  return previous && ATTRIBUTION_PATTERN.test((previous.textContent || '').trim())
+    ? previous
+    : start;
+};
+
+/**
+ * Replace the signature block in rich-text compose HTML. With no signature
+ * the current block is just removed. In replies and forwards the block goes
+ * above or below the quoted message depending on its placement; otherwise at
+ * the end, after an empty line to type in.
+ */
+export const applySignatureHtml = (body: string, signature: ComposeSignature | null): string => {
+  if (typeof DOMParser === 'undefined') return body;
+  const doc = new DOMParser().parseFromString(body || '', 'text/html');
+  const root = doc.body;
+  root.querySelectorAll(`.${SIGNATURE_CLASS}`).forEach((el) => el.remove());
+  if (!signature) return root.innerHTML;
+
+  const block = doc.createElement('div');
+  block.className = SIGNATURE_CLASS;
+  block.setAttribute('data-signature-id', signature.id);
+  block.innerHTML = signature.html;
+
+  const quoteStart = findQuoteStart(root);
+  if (quoteStart && signature.placement === 'above') {
+    root.insertBefore(block, quoteStart);
+  } else {
+    root.appendChild(block);
+  }
+  if (!block.previousSibling) root.insertBefore(doc.createElement('p'), block);
+  return root.innerHTML;
+};
+
+const signatureTextBlock = (signature: ComposeSignature): string =>
+  `${SIGNATURE_DELIMITER}\n${signature.text}`;
+
+/**
+ * Remove a signature previously added with applySignatureText.
+ */
+export const stripSignatureText = (body: string, signature: ComposeSignature | null): string => {
+  if (!signature || !body) return body || '';
+  const block = signatureTextBlock(signature);
+  const index = body.lastIndexOf(block);
+  if (index === -1) return body;
+  const before = body.slice(0, index);
+  const after = body.slice(index + block.length);
+  if (after.startsWith('\n\n')) return before + after.slice(2);
+  return before.replace(/\n\n$/, '') + after;
+};
+
+/**
+ * Swap the signature in plain-text compose content: `previous` (if it is
+ * still there) is removed and `signature` added under a "-- " line, above
+ * the first quoted line or at the end.
+ */
+export const applySignatureText = (
+  body: string,
+  signature: ComposeSignature | null,
+  previous: ComposeSignature | null = null,
+): string => {
+  const text = stripSignatureText(body || '', previous);
+  if (!signature) return text;
+  const block = signatureTextBlock(signature);
+  const lines = text.split('\n');
+  const quoteLine = lines.findIndex((line) => /^>/.test(line) || ATTRIBUTION_PATTERN.test(line));
+  if (quoteLine > -1 && signature.placement === 'above') {
+    const before = lines.slice(0, quoteLine).join('\n').replace(/\n*$/, '');
+    const after = lines.slice(quoteLine).join('\n');
+    return `${before}\n\n${block}\n\n${after}`;
+  }
+  return `${text.replace(/\n*$/, '')}\n\n${block}`;
+};
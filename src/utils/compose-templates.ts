@@ -0,0 +1,230 @@
+import type { ComposeTemplate } from '../types';
+import { extractDisplayName, extractEmail } from './address';
+import { toDate } from './date';
+
+/**
+ * Compose templates (canned responses).
+ *
+ * Pure helpers shared by the template library (template-library.js), the
+ * composer and Settings. Templates are stored per account and can be synced
+ * through the account settings; deleting one leaves a tombstone so another
+ * device's copy does not bring it back when the two lists are merged.
+ *
+ * Template text may contain placeholders filled from the message being
+ * replied to: {{sender.firstName}}, {{sender.lastName}}, {{sender.name}},
+ * {{sender.email}}, {{subject}} and {{date}}. Unknown placeholders are left
+ * as they are.
+ */
+
+export const TEMPLATES_KEY_PREFIX = 'templates_';
+export const TEMPLATES_EXPORT_VERSION = 1;
+export const MAX_TEMPLATE_NAME_LENGTH = 100;
+// Tombstones only need to outlive the other devices' next sync
+const TOMBSTONE_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+
+export const TEMPLATE_PLACEHOLDERS = [
+  { token: '{{sender.firstName}}', label: "Sender's first name" },
+  { token: '{{sender.lastName}}', label: "Sender's last name" },
+  { token: '{{sender.name}}', label: "Sender's name" },
+  { token: '{{sender.email}}', label: "Sender's email" },
+  { token: '{{subject}}', label: 'Subject' },
+  { token: '{{date}}', label: 'Date' },
+];
+
+export interface TemplateContext {
+  /** Sender of the message being replied to (address string or object) */
+  sender?: unknown;
+  subject?: string;
+  date?: unknown;
+}
+
+export const templatesMetaKey = (account?: string): string =>
+  `${TEMPLATES_KEY_PREFIX}${account || 'default'}`;
+
+export const createTemplateId = (): string =>
+  `tpl_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Clean up a stored, synced or imported template.
+ *
+ * @returns The template, or null when it has no name
+ */
+export const normalizeTemplate = (
+  raw: unknown,
+  now: number = Date.now(),
+): ComposeTemplate | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  const name = typeof r.name === 'string' ? r.name.trim().slice(0, MAX_TEMPLATE_NAME_LENGTH) : '';
+  if (!name) return null;
+  const createdAt = Number(r.createdAt) || now;
+  const template: ComposeTemplate = {
+    id: typeof r.id === 'string' && r.id ? r.id : createTemplateId(),
+    name,
+    subject: typeof r.subject === 'string' ? r.subject : '',
+    body: typeof r.body === 'string' ? r.body : '',
+    isPlainText: Boolean(r.isPlainText),
+    createdAt,
+    updatedAt: Number(r.updatedAt) || createdAt,
+  };
+  if (r.deleted) template.deleted = true;
+  return template;
+};
+
+export const normalizeTemplates = (raw: unknown): ComposeTemplate[] =>
+  Array.isArray(raw)
+    ? raw
+        .map((item) => normalizeTemplate(item))
+        .filter((template): template is ComposeTemplate => Boolean(template))
+    : [];
+
+/**
+ * Combine two template lists by id, keeping the most recently updated copy.
+ * Old tombstones are dropped.
+ */
+export const mergeTemplates = (
+  a: ComposeTemplate[],
+  b: ComposeTemplate[],
+  now: number = Date.now(),
+): ComposeTemplate[] => {
+  const byId = new Map<string, ComposeTemplate>();
+  for (const template of [...a, ...b]) {
+    const existing = byId.get(template.id);
+    if (!existing || template.updatedAt > existing.updatedAt) byId.set(template.id, template);
+  }
+  return [...byId.values()].filter(
+    (template) => !template.deleted || now - template.updatedAt < TOMBSTONE_TTL_MS,
+  );
+};
+
+/**
+ * Whether two lists hold the same templates (ignoring order).
+ */
+export const sameTemplates = (a: ComposeTemplate[], b: ComposeTemplate[]): boolean => {
+  if (a.length !== b.length) return false;
+  const updated = new Map(a.map((template) => [template.id, template.updatedAt]));
+  return b.every((template) => updated.get(template.id) === template.updatedAt);
+};
+
+/**
+ * Templates to offer, by name.
+ */
+export const visibleTemplates = (list: ComposeTemplate[]): ComposeTemplate[] =>
+  list
+    .filter((template) => !template.deleted)
+    .sort((x, y) => x.name.localeCompare(y.name, undefined, { sensitivity: 'base' }));
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const splitName = (name: string): { first: string; last: string } => {
+  // "Last, First"
+  const comma = name.match(/^([^,]+),\s*(.+)$/);
+  if (comma) return { first: comma[2].split(/\s+/)[0], last: comma[1].trim() };
+  const parts = name.split(/\s+/).filter(Boolean);
+  return { first: parts[0] || '', last: parts.length > 1 ? parts[parts.length - 1] : '' };
+};
+
+/**
+ * Placeholder values for a reply target. Without a display name the first
+ * name falls back to the local part of the address.
+ */
+export const templateValues = (
+  context: TemplateContext = {},
+  { now = new Date(), locale }: { now?: Date; locale?: string } = {},
+): Record<string, string> => {
+  const sender = context.sender as Parameters<typeof extractEmail>[0];
+  const email = sender ? extractEmail(sender) : '';
+  const displayName = sender ? extractDisplayName(sender).replace(/^"|"$/g, '').trim() : '';
+  const name =
+    displayName && !displayName.includes('@') && displayName !== 'Unknown sender'
+      ? displayName
+      : '';
+  const { first, last } = name ? splitName(name) : { first: email.split('@')[0] || '', last: '' };
+  const date = toDate(context.date as Parameters<typeof toDate>[0]) || now;
+  return {
+    'sender.firstName': first,
+    'sender.lastName': last,
+    'sender.name': name || email,
+    'sender.email': email,
+    subject: context.subject || '',
+    date: date.toLocaleDateString(locale, { year: 'numeric', month: 'long', day: 'numeric' }),
+  };
+};
+
+/**
+ * Replace {{placeholders}} in template text. Values are escaped for HTML
+ * templates.
+ */
+export const fillTemplate = (
+  text: string,
+  values: Record<string, string>,
+  { html = false }: { html?: boolean } = {},
+): string =>
+  (text || '').replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, key: string) => {
+    if (!(key in values)) return match;
+    return html ? escapeHtml(values[key]) : values[key];
+  });
+
+/**
+ * Serialize templates for download.
+ */
+export const exportTemplatesJson = (list: ComposeTemplate[]): string =>
+  JSON.stringify(
+    {
+      version: TEMPLATES_EXPORT_VERSION,
+      templates: visibleTemplates(list).map(({ name, subject, body, isPlainText }) => ({
+        name,
+        subject,
+        body,
+        isPlainText,
+      })),
+    },
+    null,
+    2,
+  );
+
+/**
+ * Read templates from an export file (or a bare array of templates).
+ *
+ * @throws {Error} When the file is not a templates export or holds none
+ */
+export const parseTemplatesJson = (text: string): ComposeTemplate[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not a templates export.');
+  }
+  const list = Array.isArray(data) ? data : (data as { templates?: unknown })?.templates;
+  if (!Array.isArray(list)) {
+    throw new Error('This file is not a templates export.');
+  }
+  const templates = normalizeTemplates(list).filter((template) => !template.deleted);
+  if (!templates.length) {
+    throw new Error('No templates found in this file.');
+  }
+  return templates;
+};
+
+/**
+ * Add imported templates to a list as new templates, skipping ones that are
+ * already there with the same name and text.
+ */
+export const addImportedTemplates = (
+  existing: ComposeTemplate[],
+  imported: ComposeTemplate[],
+  now: number = Date.now(),
+): { templates: ComposeTemplate[]; added: number } => {
+  const fingerprint = (template: ComposeTemplate) =>
+    `${template.name}\u0000${template.subject}\u0000${template.body}`;
+  const seen = new Set(visibleTemplates(existing).map(fingerprint));
+  const added: ComposeTemplate[] = [];
+  for (const template of imported) {
+    const key = fingerprint(template);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    added.push({ ...template, id: createTemplateId(), createdAt: now, updatedAt: now });
+  }
+  return { templates: [...existing, ...added], added: added.length };
+};
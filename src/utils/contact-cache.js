@@ -1,146 +1,539 @@
 import { db } from './db';
 import { Local } from './storage';
 import { Remote } from './remote';
+import { queueMutation } from './mutation-queue';
+import { WS_EVENTS } from './websocket-client';
 import { warn } from './logger.ts';
+import {
+  contactFromApi,
+  contactPayload,
+  applyContactEdit,
+  planContactSync,
+  reconcileContact,
+  resolveContactConflict,
+} from './contact-sync-helpers.ts';
+import { expandContactGroup, isContactGroup } from './contact-groups.ts';
 
 /**
  * Contact Cache
  *
- * Caches contacts in the IndexedDB `meta` table per-account.
- * Returns cached contacts instantly for offline compose autocomplete,
- * and refreshes from the API in the background when online.
+ * Keeps each account's contacts in the IndexedDB `contacts` table, with the
+ * full vCard and the server etag, so the Contacts view and compose
+ * autocomplete work offline.
+ *
+ * Sync works like CardDAV: a full sync compares etags and only writes
+ * contacts that changed, and the CONTACT_CREATED/UPDATED/DELETED websocket
+ * events apply single changes in between. Edits are written to the table
+ * first and sent through the mutation queue; when the server copy changed
+ * since the edit was made, the record keeps both versions (`conflict`) until
+ * the user picks one.
+ *
+ * Addresses used in sent mail are kept in the `meta` table for autocomplete.
  */
 
-const CONTACT_KEY_PREFIX = 'contacts_';
+const RECENT_KEY_PREFIX = 'recent_addresses_';
+const SYNC_KEY_PREFIX = 'contacts_synced_';
+const MERGE_KEY_PREFIX = 'contact_merges_';
+const MAX_MERGES = 20;
 const CACHE_TTL_MS = 15 * 60 * 1000; // 15 minutes
+const PAGE_LIMIT = 500;
+const MAX_PAGES = 20;
 
 function getAccount() {
   return Local.get('email') || 'default';
 }
 
-function cacheKey(account) {
-  return `${CONTACT_KEY_PREFIX}${account}`;
+function contactPath(id) {
+  return `/v1/contacts/${encodeURIComponent(id)}`;
+}
+
+function mutationType(pending) {
+  if (pending === 'create') return 'contactCreate';
+  return pending === 'delete' ? 'contactDelete' : 'contactUpdate';
+}
+
+function localId() {
+  return `local_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 }
 
 /**
- * Read cached contacts for the given account from IndexedDB.
+ * Let an open Contacts view re-read the table.
  */
-async function readCache(account) {
+function notifyChanged(account) {
+  if (typeof window === 'undefined') return;
+  window.dispatchEvent(new CustomEvent('fe:contact-changed', { detail: { account } }));
+}
+
+/**
+ * Sort contacts alphabetically by name, falling back to email.
+ */
+function sortContacts(contacts) {
+  return contacts.sort((a, b) => {
+    const nameA = (a.name || a.email || '').toLowerCase();
+    const nameB = (b.name || b.email || '').toLowerCase();
+    return nameA.localeCompare(nameB);
+  });
+}
+
+async function writePlan(account, { put, remove }) {
+  if (put.length) await db.contacts.bulkPut(put);
+  if (remove.length) await db.contacts.bulkDelete(remove.map((id) => [account, id]));
+  if (put.length || remove.length) notifyChanged(account);
+}
+
+/**
+ * Cached contacts of an account, without ones waiting to be deleted (unless
+ * the deletion is in conflict).
+ *
+ * @param {string} [account]
+ * @returns {Promise<Array<Object>>}
+ */
+export async function listContacts(account = getAccount()) {
+  const records = await db.contacts
+    .where('account')
+    .equals(account)
+    .toArray()
+    .catch(() => []);
+  return sortContacts(
+    records.filter((contact) => contact.pending !== 'delete' || contact.conflict),
+  );
+}
+
+async function fetchServerContacts(account) {
+  const byId = new Map();
+  for (let page = 1; page <= MAX_PAGES; page++) {
+    const res = await Remote.request('Contacts', { page, limit: PAGE_LIMIT }, { account });
+    const list = Array.isArray(res) ? res : res?.Result || res?.contacts || [];
+    const before = byId.size;
+    for (const raw of list || []) {
+      const contact = contactFromApi(raw, account);
+      if (contact) byId.set(contact.id, contact);
+    }
+    // Stop on a short page, or when the server ignores `page`
+    if (list.length < PAGE_LIMIT || byId.size === before) break;
+  }
+  return [...byId.values()];
+}
+
+/**
+ * Compare the cached contacts with the server's list by etag and store what
+ * changed.
+ *
+ * @param {Object} [options]
+ * @param {string} [options.account]
+ * @returns {Promise<{ put: Array<Object>, remove: Array<string> }>}
+ */
+export async function syncContacts({ account = getAccount() } = {}) {
+  const [local, server] = await Promise.all([
+    db.contacts.where('account').equals(account).toArray(),
+    fetchServerContacts(account),
+  ]);
+  const plan = planContactSync(local, server);
+  await writePlan(account, plan);
+  await db.meta.put({
+    key: `${SYNC_KEY_PREFIX}${account}`,
+    value: Date.now(),
+    updatedAt: Date.now(),
+  });
+  return plan;
+}
+
+async function lastSyncedAt(account) {
   try {
-    const record = await db.meta.get(cacheKey(account || getAccount()));
-    if (!record?.value) return null;
-    return {
-      contacts: Array.isArray(record.value) ? record.value : [],
-      updatedAt: record.updatedAt || 0,
-    };
+    const record = await db.meta.get(`${SYNC_KEY_PREFIX}${account}`);
+    return Number(record?.value) || 0;
   } catch {
-    return null;
+    return 0;
+  }
+}
+
+/**
+ * Apply a CONTACT_CREATED/UPDATED/DELETED websocket event to the cache.
+ * Events without the vCard fetch the contact.
+ *
+ * @param {string} event - WS_EVENTS.CONTACT_* value
+ * @param {Object} data - Event payload
+ */
+export async function applyContactEvent(event, data = {}) {
+  const account = getAccount();
+  const id = data?.id || data?.contact?.id;
+  if (!id) return;
+  const local = await db.contacts.get([account, String(id)]).catch(() => null);
+
+  let server = null;
+  if (event !== WS_EVENTS.CONTACT_DELETED) {
+    server = data.contact?.content ? contactFromApi(data.contact, account) : null;
+    if (!server) {
+      const res = await Remote.request(
+        'Contacts',
+        {},
+        { method: 'GET', pathOverride: contactPath(id), account },
+      );
+      server = contactFromApi(res, account);
+    }
+    if (!server) return;
+  }
+
+  const plan = planContactSync(local ? [local] : [], server ? [server] : [], {
+    complete: event === WS_EVENTS.CONTACT_DELETED,
+  });
+  await writePlan(account, plan);
+}
+
+/**
+ * Save a new or edited contact. The table is updated at once and the change
+ * is queued for the server; a contact that already has a queued change is
+ * sent in its latest state by that change.
+ *
+ * @param {Object} fields - Contact fields (`id` for an existing contact,
+ *   `content` to keep an imported vCard as is)
+ * @param {Object} [options]
+ * @param {string} [options.account]
+ * @returns {Promise<Object>} The stored record
+ */
+export async function saveContact(fields, { account = getAccount() } = {}) {
+  const existing = fields?.id ? await db.contacts.get([account, fields.id]) : null;
+  const record = applyContactEdit(existing || null, fields, { account, localId: localId() });
+  await db.contacts.put(record);
+  if (!existing?.pending) {
+    await queueMutation(mutationType(record.pending), { contactId: record.id }, { account });
   }
+  return record;
 }
 
 /**
- * Write contacts to the cache for the given account.
+ * Delete a contact. It is hidden at once and deleted on the server through
+ * the mutation queue.
+ *
+ * @param {Object} contact
+ * @param {Object} [options]
+ * @param {string} [options.account]
  */
-async function writeCache(account, contacts) {
-  const key = cacheKey(account || getAccount());
-  await db.meta.put({ key, value: contacts, updatedAt: Date.now() });
+export async function removeContact(contact, { account = getAccount() } = {}) {
+  const existing = contact?.id ? await db.contacts.get([account, contact.id]) : null;
+  if (!existing) return;
+  const deleted = markDeleted(existing);
+  if (!deleted) {
+    await db.contacts.delete([account, existing.id]);
+    return;
+  }
+  await db.contacts.put(deleted);
+  if (!existing.pending) {
+    await queueMutation(mutationType('delete'), { contactId: existing.id }, { account });
+  }
 }
 
 /**
- * Normalize a contact from the API response.
+ * The record of a deleted contact, or null when it never reached the server
+ * (its queued create then finds nothing to send).
  */
-function normalizeContact(raw) {
-  if (!raw) return null;
-  const email = (raw.email || raw.Email || '').trim();
-  if (!email) return null;
+function markDeleted(existing, now = Date.now()) {
+  if (existing.pending === 'create' && !existing.conflict) return null;
   return {
-    id: raw.id || raw.Id || email,
-    email,
-    name:
-      raw.name || raw.Name || raw.firstName
-        ? [raw.firstName, raw.lastName].filter(Boolean).join(' ')
-        : '',
-    avatar: raw.avatar || '',
-    company: raw.company || '',
+    ...existing,
+    pending: 'delete',
+    baseEtag: existing.pending ? existing.baseEtag : existing.etag,
+    updatedAt: now,
   };
 }
 
 /**
- * Sort contacts alphabetically by name, falling back to email.
+ * Settle a conflict by keeping the local version ('mine') or the server's.
+ *
+ * @param {Object} contact
+ * @param {'mine'|'server'} keep
+ * @param {Object} [options]
+ * @param {string} [options.account]
+ * @returns {Promise<Object|null>} The stored record, or null when deleted
  */
-function sortContacts(contacts) {
-  return contacts.sort((a, b) => {
-    const nameA = (a.name || a.email || '').toLowerCase();
-    const nameB = (b.name || b.email || '').toLowerCase();
-    return nameA.localeCompare(nameB);
+export async function resolveConflict(contact, keep, { account = getAccount() } = {}) {
+  const existing = await db.contacts.get([account, contact.id]);
+  if (!existing?.conflict) return existing || null;
+  const resolved = resolveContactConflict(existing, keep);
+  if (!resolved) {
+    await db.contacts.delete([account, existing.id]);
+  } else {
+    await db.contacts.put({ ...resolved, updatedAt: Date.now() });
+    if (resolved.pending) {
+      await queueMutation(mutationType(resolved.pending), { contactId: resolved.id }, { account });
+    }
+  }
+  notifyChanged(account);
+  return resolved;
+}
+
+async function readMerges(account) {
+  try {
+    const record = await db.meta.get(`${MERGE_KEY_PREFIX}${account}`);
+    return Array.isArray(record?.value) ? record.value : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Recent merges that can be undone, newest first.
+ *
+ * @param {string} [account]
+ * @returns {Promise<Array<{ id: string, mergedAt: number, primary: Object, removed: Array<Object> }>>}
+ */
+export async function listContactMerges(account = getAccount()) {
+  return readMerges(account);
+}
+
+/**
+ * Merge duplicate contacts into the first one. The merged contact, the
+ * deletions and the merge record are written in one transaction, then sent
+ * through the mutation queue. The contacts as they were before are kept in
+ * the record for `undoContactMerge`.
+ *
+ * @param {Array<Object>} contacts - The duplicates, the one to keep first
+ * @param {Object} fields - Merged fields (contact-duplicates.ts `mergeContactFields`)
+ * @param {Object} [options]
+ * @param {string} [options.account]
+ * @returns {Promise<Object>} The merge record
+ */
+export async function mergeContacts(contacts, fields, { account = getAccount() } = {}) {
+  const records = (
+    await Promise.all((contacts || []).map((c) => db.contacts.get([account, c.id])))
+  ).filter(Boolean);
+  if (records.length < 2) throw new Error('Choose at least two contacts to merge');
+
+  const [primary, ...others] = records;
+  const now = Date.now();
+  const merged = applyContactEdit(primary, fields, { account, localId: primary.id, now });
+  const deleted = others.map((record) => markDeleted(record, now));
+  const merge = {
+    id: `merge_${now}_${Math.random().toString(36).slice(2, 8)}`,
+    mergedAt: now,
+    primary,
+    removed: others,
+  };
+  const merges = [merge, ...(await readMerges(account))].slice(0, MAX_MERGES);
+
+  // Writes go through the transaction proxy so the db worker applies them together
+  const dropped = others.filter((_, i) => !deleted[i]).map((record) => [account, record.id]);
+  await db.transaction('rw', [db.contacts, db.meta], (tx) => {
+    tx.table('contacts').bulkPut([merged, ...deleted.filter(Boolean)]);
+    if (dropped.length) tx.table('contacts').bulkDelete(dropped);
+    tx.table('meta').put({ key: `${MERGE_KEY_PREFIX}${account}`, value: merges, updatedAt: now });
   });
+
+  if (!primary.pending) {
+    await queueMutation(mutationType(merged.pending), { contactId: merged.id }, { account });
+  }
+  for (const record of others) {
+    if (!record.pending) {
+      await queueMutation(mutationType('delete'), { contactId: record.id }, { account });
+    }
+  }
+  notifyChanged(account);
+  return merge;
 }
 
 /**
- * Fetch contacts from the API and update the cache.
+ * Undo a merge: the kept contact gets its old fields back, and the merged
+ * contacts are restored (or created again when their deletion already
+ * reached the server).
+ *
+ * @param {string} mergeId
+ * @param {Object} [options]
+ * @param {string} [options.account]
  */
-async function fetchAndCache(account) {
-  const res = await Remote.request('Contacts', { limit: 500 });
-  const list = Array.isArray(res) ? res : res?.Result || res?.contacts || [];
-  const contacts = sortContacts((list || []).map(normalizeContact).filter(Boolean));
-  await writeCache(account, contacts).catch(() => {});
-  return contacts;
+export async function undoContactMerge(mergeId, { account = getAccount() } = {}) {
+  const merges = await readMerges(account);
+  const merge = merges.find((item) => item.id === mergeId);
+  if (!merge) throw new Error('This merge can no longer be undone');
+
+  const primary = await db.contacts.get([account, merge.primary.id]);
+  await saveContact({ ...merge.primary, id: primary?.id }, { account });
+
+  for (const removed of merge.removed) {
+    const existing = await db.contacts.get([account, removed.id]);
+    if (existing?.pending === 'delete' && !existing.conflict) {
+      // The deletion hasn't been sent: its queued mutation finds nothing to do
+      // (or sends the edit the contact had before)
+      await db.contacts.put({ ...removed, updatedAt: Date.now() });
+    } else if (!existing) {
+      await saveContact({ ...removed, id: undefined }, { account });
+    }
+  }
+
+  await db.meta.put({
+    key: `${MERGE_KEY_PREFIX}${account}`,
+    value: merges.filter((item) => item.id !== mergeId),
+    updatedAt: Date.now(),
+  });
+  notifyChanged(account);
+}
+
+async function sendCreate(account, local) {
+  const created = await Remote.request('ContactsCreate', contactPayload(local), {
+    method: 'POST',
+    pathOverride: '/v1/contacts',
+    account,
+  });
+  const server = contactFromApi(created, account);
+  return server?.content ? server : { ...local, id: server?.id || local.id, etag: server?.etag };
+}
+
+/**
+ * Send a contact's pending change (run by the mutation queue for the
+ * contactCreate/contactUpdate/contactDelete mutations). The update and delete
+ * paths first check that the server copy is still the one the change was
+ * made against.
+ *
+ * @param {Object} payload
+ * @param {string} payload.account
+ * @param {string} payload.contactId
+ */
+export async function pushContactChange({ account = getAccount(), contactId } = {}) {
+  const key = [account, contactId];
+  const local = await db.contacts.get(key);
+  if (!local?.pending || local.conflict) return;
+
+  let stored;
+  if (local.pending === 'create') {
+    stored = await sendCreate(account, local);
+  } else {
+    let server = null;
+    try {
+      const res = await Remote.request(
+        'Contacts',
+        {},
+        { method: 'GET', pathOverride: contactPath(contactId), account },
+      );
+      server = contactFromApi(res, account);
+    } catch (err) {
+      if (err?.status !== 404) throw err;
+    }
+
+    if (!server || reconcileContact(local, server) === 'conflict') {
+      if (!server && local.pending === 'delete') {
+        await db.contacts.delete(key);
+      } else {
+        await db.contacts.put({ ...local, conflict: { contact: server, detectedAt: Date.now() } });
+      }
+      notifyChanged(account);
+      return;
+    }
+
+    if (local.pending === 'delete') {
+      await Remote.request(
+        'ContactsDelete',
+        {},
+        { method: 'DELETE', pathOverride: contactPath(contactId), account },
+      );
+      await db.contacts.delete(key);
+      notifyChanged(account);
+      return;
+    }
+
+    const updated = contactFromApi(
+      await Remote.request('ContactsUpdate', contactPayload(local), {
+        method: 'PUT',
+        pathOverride: contactPath(contactId),
+        account,
+      }),
+      account,
+    );
+    stored = updated?.content ? updated : { ...local, etag: updated?.etag || server.etag };
+  }
+
+  stored = { ...stored, pending: null, baseEtag: '', conflict: null };
+  const latest = await db.contacts.get(key);
+  if (stored.id !== contactId) await db.contacts.delete(key);
+  if (latest?.pending && latest.updatedAt !== local.updatedAt) {
+    // Edited again while the request was in flight: send that version next
+    const next = {
+      ...latest,
+      id: stored.id,
+      etag: stored.etag,
+      pending: latest.pending === 'create' ? 'update' : latest.pending,
+      baseEtag: stored.etag || '',
+    };
+    await db.contacts.put(next);
+    await queueMutation(mutationType(next.pending), { contactId: next.id }, { account });
+  } else {
+    await db.contacts.put(stored);
+  }
+  notifyChanged(account);
 }
 
 /**
- * Get contacts for the current account.
+ * Get contacts for compose autocomplete.
  *
- * Returns cached contacts instantly. If stale or missing, fetches from
- * the API in the background (or foreground if no cache exists).
+ * Reads the contacts table and the recently used addresses. A stale table is
+ * synced in the background (or first, when it was never synced). Groups come
+ * with `group: true` and their expanded `members`, and no `email`.
  *
  * @param {Object} [options]
- * @param {boolean} [options.forceRefresh] - Skip cache and fetch from API
- * @returns {Promise<Array>} Array of normalized contact objects
+ * @param {boolean} [options.forceRefresh] - Sync with the server first
+ * @returns {Promise<Array>} Array of `{ id, email, name, avatar, company }`
+ *   and `{ id, name, group, members }`
  */
 export async function getContacts(options = {}) {
   const account = getAccount();
   const { forceRefresh = false } = options;
 
-  if (!forceRefresh) {
-    const cached = await readCache(account);
-    if (cached) {
-      const isStale = Date.now() - cached.updatedAt > CACHE_TTL_MS;
-      if (isStale && navigator.onLine) {
-        // Background refresh — return stale data immediately
-        fetchAndCache(account).catch(() => {});
-      }
-      return sortContacts(cached.contacts);
-    }
+  const syncedAt = await lastSyncedAt(account);
+  if ((forceRefresh || Date.now() - syncedAt > CACHE_TTL_MS) && navigator.onLine) {
+    const sync = syncContacts({ account }).catch((err) => {
+      warn('[contact-cache] Failed to sync contacts', err);
+    });
+    if (forceRefresh || !syncedAt) await sync;
   }
 
-  // No cache — must fetch
-  if (!navigator.onLine) return [];
+  const [stored, recent] = await Promise.all([listContacts(account), readRecent(account)]);
+  const contacts = stored
+    .filter((contact) => contact.email && !isContactGroup(contact))
+    .map((contact) => ({
+      id: contact.id,
+      email: contact.email,
+      name: contact.name || '',
+      avatar: contact.photo || '',
+      company: contact.company || '',
+    }));
+  const emailSet = new Set(contacts.map((c) => c.email.toLowerCase()));
+  for (const entry of recent) {
+    if (emailSet.has(entry.email.toLowerCase())) continue;
+    emailSet.add(entry.email.toLowerCase());
+    contacts.push(entry);
+  }
+  for (const group of stored.filter(isContactGroup)) {
+    const members = expandContactGroup(group, stored);
+    if (members.length) {
+      contacts.push({ id: group.id, email: '', name: group.name || '', group: true, members });
+    }
+  }
+  return sortContacts(contacts);
+}
 
+async function readRecent(account) {
   try {
-    return await fetchAndCache(account);
-  } catch (err) {
-    warn('[contact-cache] Failed to fetch contacts', err);
+    const record = await db.meta.get(`${RECENT_KEY_PREFIX}${account}`);
+    return Array.isArray(record?.value) ? record.value : [];
+  } catch {
     return [];
   }
 }
 
 /**
- * Merge recently-used addresses into the cache.
- * Called after sending an email to keep autocomplete fresh.
+ * Remember addresses used in sent mail for autocomplete.
+ * Called after sending an email.
  */
 export async function mergeRecentAddresses(addresses) {
   if (!addresses?.length) return;
   const account = getAccount();
-  const cached = await readCache(account);
-  const existing = cached?.contacts || [];
+  const existing = await readRecent(account);
   const emailSet = new Set(existing.map((c) => c.email.toLowerCase()));
-  const newContacts = [];
+  const added = [];
 
   for (const addr of addresses) {
     const email = (typeof addr === 'string' ? addr : addr?.email || '').trim();
     if (!email || emailSet.has(email.toLowerCase())) continue;
     emailSet.add(email.toLowerCase());
-    newContacts.push({
+    added.push({
       id: email,
       email,
       name: typeof addr === 'object' ? addr.name || '' : '',
@@ -149,7 +542,13 @@ export async function mergeRecentAddresses(addresses) {
     });
   }
 
-  if (newContacts.length) {
-    await writeCache(account, [...existing, ...newContacts]).catch(() => {});
+  if (added.length) {
+    await db.meta
+      .put({
+        key: `${RECENT_KEY_PREFIX}${account}`,
+        value: [...existing, ...added],
+        updatedAt: Date.now(),
+      })
+      .catch(() => {});
   }
 }
@@ -0,0 +1,236 @@
+import type { Contact } from '../types';
+import { emptyVCardFields, type VCardFields } from './vcard';
+import type { ContactFieldKey } from './contact-sync-helpers';
+
+/**
+ * Contact CSV import and export
+ *
+ * Exports use the column layouts Google Contacts and Outlook import. Imports
+ * take any CSV: `guessCsvMapping` maps the headers Google, Outlook and most
+ * address books use, and the Contacts view lets the user change the mapping
+ * before `csvRowToContact` reads the rows. Groups and photos are not part of
+ * either layout; they are exported only as vCard.
+ */
+
+export type CsvLayout = 'google' | 'outlook';
+
+/** A contact field, a part of the name, or '' for a column that isn't imported */
+export type CsvField = ContactFieldKey | 'firstName' | 'middleName' | 'lastName' | '';
+
+export const CSV_FIELDS: { key: Exclude<CsvField, '' | 'photo'>; label: string }[] = [
+  { key: 'name', label: 'Full name' },
+  { key: 'firstName', label: 'First name' },
+  { key: 'middleName', label: 'Middle name' },
+  { key: 'lastName', label: 'Last name' },
+  { key: 'email', label: 'Email' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'company', label: 'Company' },
+  { key: 'jobTitle', label: 'Job title' },
+  { key: 'website', label: 'Website' },
+  { key: 'birthday', label: 'Birthday' },
+  { key: 'timezone', label: 'Time zone' },
+  { key: 'notes', label: 'Notes' },
+];
+
+type CsvContact = Pick<Contact, 'name' | 'kind' | Exclude<ContactFieldKey, 'name'>>;
+
+type CsvColumn = [header: string, value: (contact: CsvContact) => string];
+
+// "Ann Marie Lee" -> first "Ann Marie", last "Lee"
+const splitName = (name: string | undefined) => {
+  const words = (name || '').trim().split(/\s+/).filter(Boolean);
+  if (words.length < 2) return { first: words[0] || '', last: '' };
+  return { first: words.slice(0, -1).join(' '), last: words[words.length - 1] };
+};
+
+// Outlook writes and reads dates as M/D/YYYY
+const outlookDate = (date: string | undefined) => {
+  const match = (date || '').match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return match ? `${Number(match[2])}/${Number(match[3])}/${match[1]}` : date || '';
+};
+
+const LAYOUTS: Record<CsvLayout, CsvColumn[]> = {
+  google: [
+    ['First Name', (c) => splitName(c.name).first],
+    ['Last Name', (c) => splitName(c.name).last],
+    ['Organization Name', (c) => c.company || ''],
+    ['Organization Title', (c) => c.jobTitle || ''],
+    ['Birthday', (c) => c.birthday || ''],
+    ['Notes', (c) => c.notes || ''],
+    ['E-mail 1 - Label', (c) => (c.email ? '* Other' : '')],
+    ['E-mail 1 - Value', (c) => c.email || ''],
+    ['Phone 1 - Label', (c) => (c.phone ? 'Mobile' : '')],
+    ['Phone 1 - Value', (c) => c.phone || ''],
+    ['Website 1 - Label', (c) => (c.website ? 'Homepage' : '')],
+    ['Website 1 - Value', (c) => c.website || ''],
+  ],
+  outlook: [
+    ['First Name', (c) => splitName(c.name).first],
+    ['Middle Name', () => ''],
+    ['Last Name', (c) => splitName(c.name).last],
+    ['Company', (c) => c.company || ''],
+    ['Job Title', (c) => c.jobTitle || ''],
+    ['E-mail Address', (c) => c.email || ''],
+    ['Mobile Phone', (c) => c.phone || ''],
+    ['Web Page', (c) => c.website || ''],
+    ['Birthday', (c) => outlookDate(c.birthday)],
+    ['Notes', (c) => c.notes || ''],
+  ],
+};
+
+// Lowercase headers with punctuation and numbering removed, as mapped by guessCsvMapping
+const HEADER_ALIASES: Record<string, Exclude<CsvField, ''>> = {
+  name: 'name',
+  'full name': 'name',
+  'display name': 'name',
+  'first name': 'firstName',
+  'given name': 'firstName',
+  'middle name': 'middleName',
+  'additional name': 'middleName',
+  'last name': 'lastName',
+  'family name': 'lastName',
+  surname: 'lastName',
+  email: 'email',
+  'email address': 'email',
+  'email value': 'email',
+  'primary email': 'email',
+  phone: 'phone',
+  'phone value': 'phone',
+  'phone number': 'phone',
+  'mobile phone': 'phone',
+  'primary phone': 'phone',
+  'business phone': 'phone',
+  'home phone': 'phone',
+  telephone: 'phone',
+  company: 'company',
+  organization: 'company',
+  'organization name': 'company',
+  'job title': 'jobTitle',
+  'organization title': 'jobTitle',
+  website: 'website',
+  'website value': 'website',
+  'web page': 'website',
+  url: 'website',
+  birthday: 'birthday',
+  notes: 'notes',
+  note: 'notes',
+  'time zone': 'timezone',
+  timezone: 'timezone',
+};
+
+const headerKey = (header: string) =>
+  header
+    .toLowerCase()
+    .replace(/e-mail/g, 'email')
+    .replace(/\b\d+\b/g, ' ')
+    .replace(/[^a-z]+/g, ' ')
+    .trim();
+
+/**
+ * Split CSV text into rows of cells (RFC 4180: quoted cells may hold commas,
+ * quotes and line breaks). Semicolon and tab separated files, as some Outlook
+ * locales write, are detected from the header line. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const header = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    header.split(candidate).length > header.split(best).length ? candidate : best,
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+  return rows.filter((cells) => cells.some((value) => value.trim()));
+}
+
+const csvCell = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * CSV text for the contacts in the given layout. Groups are left out.
+ */
+export function contactsToCsv(contacts: CsvContact[], layout: CsvLayout): string {
+  const columns = LAYOUTS[layout];
+  const rows = [columns.map(([header]) => header)];
+  for (const contact of contacts) {
+    if (contact.kind === 'group') continue;
+    rows.push(columns.map(([, value]) => value(contact)));
+  }
+  return rows.map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * A field for each CSV column, from its header. When several columns map to
+ * the same field (E-mail 1 and E-mail 2, Home and Mobile phone), only the
+ * first is used.
+ */
+export function guessCsvMapping(headers: string[]): CsvField[] {
+  const used = new Set<CsvField>();
+  return headers.map((header) => {
+    const field = HEADER_ALIASES[headerKey(header)] || '';
+    if (!field || used.has(field)) return '';
+    used.add(field);
+    return field;
+  });
+}
+
+// YYYY-MM-DD from the ISO, M/D/YYYY and YYYYMMDD forms; other values as they are
+const normalizeBirthday = (value: string) => {
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) return `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+  const compact = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (compact) return `${compact[1]}-${compact[2]}-${compact[3]}`;
+  return value;
+};
+
+/**
+ * The contact fields of a CSV row. The name comes from the name column or is
+ * joined from its parts; Outlook's empty "0/0/00" birthday is ignored.
+ */
+export function csvRowToContact(row: string[], mapping: CsvField[]): VCardFields {
+  const fields = emptyVCardFields();
+  const parts = { firstName: '', middleName: '', lastName: '' };
+  mapping.forEach((field, index) => {
+    const value = (row[index] || '').trim();
+    if (!field || !value) return;
+    if (field in parts) {
+      parts[field as keyof typeof parts] ||= value;
+    } else if (field === 'birthday') {
+      if (value !== '0/0/00') fields.birthday ||= normalizeBirthday(value);
+    } else {
+      fields[field as ContactFieldKey] ||= value;
+    }
+  });
+  fields.name ||= [parts.firstName, parts.middleName, parts.lastName].filter(Boolean).join(' ');
+  return fields;
+}
@@ -0,0 +1,187 @@
+import type { Contact } from '../types';
+import { normalizeEmail } from './address';
+import { CONTACT_FIELDS, type ContactFieldKey } from './contact-sync-helpers';
+import { isContactGroup } from './contact-groups';
+
+/**
+ * Duplicate contacts
+ *
+ * Clusters contacts that look like the same person: the same normalised
+ * email (address.ts), the same phone number (digits only, ignoring a country
+ * prefix), or a close name match. The Contacts view merges a cluster into one
+ * contact field by field (contact-cache.js `mergeContacts`).
+ */
+
+export type DuplicateReason = 'email' | 'phone' | 'name';
+
+export interface DuplicateCluster {
+  /** Contact ids, the suggested primary first */
+  ids: string[];
+  reasons: DuplicateReason[];
+}
+
+/** For each field, the id of the contact whose value the merge keeps */
+export type MergeChoices = Partial<Record<ContactFieldKey, string>>;
+
+type DuplicateSource = Pick<Contact, 'id' | 'kind' | 'pending' | ContactFieldKey>;
+
+const NAME_SIMILARITY = 0.85;
+const MIN_NAME_LENGTH = 4;
+
+/**
+ * Digits of a phone number, without a country prefix (the last ten digits).
+ * Numbers shorter than seven digits are ignored.
+ */
+export function normalizePhone(phone: string | null | undefined): string {
+  const digits = (phone || '').replace(/\D/g, '');
+  if (digits.length < 7) return '';
+  return digits.length > 10 ? digits.slice(-10) : digits;
+}
+
+/**
+ * Lowercase name words without accents or punctuation, in sorted order, so
+ * "Smith, John" and "john smith" compare equal.
+ */
+export function normalizeName(name: string | null | undefined): string {
+  return (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two normalised names, from 0 to 1.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length);
+}
+
+const filledFields = (contact: DuplicateSource) =>
+  CONTACT_FIELDS.filter(({ key }) => contact[key]).length;
+
+/**
+ * Group duplicate contacts. Groups and contacts waiting to be deleted are
+ * left out. Names are only compared within contacts that share the first two
+ * letters of a word, which keeps large address books fast.
+ */
+export function findDuplicateClusters(contacts: DuplicateSource[]): DuplicateCluster[] {
+  const list = contacts.filter((c) => c.id && !isContactGroup(c) && c.pending !== 'delete');
+  const parent = list.map((_, i) => i);
+  const reasons = new Map<number, Set<DuplicateReason>>();
+
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number, reason: DuplicateReason) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    const merged = new Set([...(reasons.get(rootA) || []), ...(reasons.get(rootB) || [])]);
+    merged.add(reason);
+    parent[rootB] = rootA;
+    reasons.set(rootA, merged);
+  };
+
+  const byKey = (key: (c: DuplicateSource) => string, reason: DuplicateReason) => {
+    const first = new Map<string, number>();
+    list.forEach((contact, i) => {
+      const value = key(contact);
+      if (!value) return;
+      if (first.has(value)) union(first.get(value)!, i, reason);
+      else first.set(value, i);
+    });
+  };
+  byKey((c) => normalizeEmail(c.email || ''), 'email');
+  byKey((c) => normalizePhone(c.phone), 'phone');
+
+  const names = list.map((c) => normalizeName(c.name));
+  const blocks = new Map<string, number[]>();
+  names.forEach((name, i) => {
+    if (name.length < MIN_NAME_LENGTH) return;
+    for (const prefix of new Set(name.split(' ').map((word) => word.slice(0, 2)))) {
+      blocks.set(prefix, [...(blocks.get(prefix) || []), i]);
+    }
+  });
+  const compared = new Set<string>();
+  for (const members of blocks.values()) {
+    for (let x = 0; x < members.length; x++) {
+      for (let y = x + 1; y < members.length; y++) {
+        const [a, b] = [members[x], members[y]];
+        const pair = `${a}:${b}`;
+        if (compared.has(pair)) continue;
+        compared.add(pair);
+        if (nameSimilarity(names[a], names[b]) >= NAME_SIMILARITY) union(a, b, 'name');
+      }
+    }
+  }
+
+  const clusters = new Map<number, number[]>();
+  list.forEach((_, i) => {
+    const root = find(i);
+    clusters.set(root, [...(clusters.get(root) || []), i]);
+  });
+
+  return [...clusters.entries()]
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({
+      // The most complete contact is the suggested primary
+      ids: members
+        .map((i) => list[i])
+        .sort((a, b) => filledFields(b) - filledFields(a))
+        .map((contact) => contact.id),
+      reasons: [...(reasons.get(root) || [])].sort(),
+    }));
+}
+
+/**
+ * Default merge: each field comes from the first contact (in cluster order)
+ * that has a value for it.
+ */
+export function defaultMergeChoices(contacts: DuplicateSource[]): MergeChoices {
+  const choices: MergeChoices = {};
+  for (const { key } of CONTACT_FIELDS) {
+    const source = contacts.find((contact) => contact[key]) || contacts[0];
+    if (source) choices[key] = source.id;
+  }
+  return choices;
+}
+
+/**
+ * The merged contact's fields, taking each from the chosen contact. Fields
+ * without a choice come from the first contact.
+ */
+export function mergeContactFields(
+  contacts: DuplicateSource[],
+  choices: MergeChoices,
+): Record<ContactFieldKey, string> {
+  const byId = new Map(contacts.map((contact) => [contact.id, contact]));
+  const merged = {} as Record<ContactFieldKey, string>;
+  for (const { key } of CONTACT_FIELDS) {
+    const source = byId.get(choices[key] || '') || contacts[0];
+    merged[key] = source?.[key] || '';
+  }
+  return merged;
+}
@@ -0,0 +1,92 @@
+import type { Contact } from '../types';
+
+/**
+ * Contact groups
+ *
+ * A group is a contact with `kind: 'group'` (vCard 4 `KIND:group`). Its
+ * `members` are email addresses or `urn:uuid:` references to other contacts,
+ * as in the card's `MEMBER` entries. Compose expands a group into its
+ * members' addresses; a member that is itself a group is expanded too.
+ */
+
+export interface GroupRecipient {
+  email: string;
+  name: string;
+}
+
+type GroupSource = Pick<Contact, 'id' | 'email' | 'name' | 'kind' | 'members'>;
+
+const UUID_PREFIX = /^urn:uuid:/i;
+
+export const isContactGroup = (contact: Partial<Contact> | null | undefined): boolean =>
+  contact?.kind === 'group';
+
+/**
+ * Trim members and drop empty and repeated ones (emails compare
+ * case-insensitively).
+ */
+export function normalizeGroupMembers(members: unknown): string[] {
+  if (!Array.isArray(members)) return [];
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const raw of members) {
+    const member = typeof raw === 'string' ? raw.trim() : '';
+    const key = member.toLowerCase();
+    if (!member || seen.has(key)) continue;
+    seen.add(key);
+    result.push(member);
+  }
+  return result;
+}
+
+/**
+ * The contact a member refers to: by `urn:uuid:` id, or by email.
+ */
+export function findGroupMember<T extends GroupSource>(member: string, contacts: T[]): T | null {
+  if (UUID_PREFIX.test(member)) {
+    const id = member.replace(UUID_PREFIX, '');
+    return contacts.find((contact) => contact.id === id) || null;
+  }
+  const email = member.toLowerCase();
+  return (
+    contacts.find(
+      (contact) => !isContactGroup(contact) && contact.email?.toLowerCase() === email,
+    ) || null
+  );
+}
+
+/**
+ * The addresses a group sends to, in member order and without repeats.
+ * Members that refer to unknown contacts are left out.
+ */
+export function expandContactGroup(
+  group: GroupSource,
+  contacts: GroupSource[],
+  visited: Set<string> = new Set(),
+): GroupRecipient[] {
+  if (visited.has(group.id)) return [];
+  visited.add(group.id);
+
+  const recipients: GroupRecipient[] = [];
+  const seen = new Set<string>();
+  const add = (email: string, name: string) => {
+    const key = email.toLowerCase();
+    if (!email || seen.has(key)) return;
+    seen.add(key);
+    recipients.push({ email, name });
+  };
+
+  for (const member of normalizeGroupMembers(group.members)) {
+    const contact = findGroupMember(member, contacts);
+    if (contact && isContactGroup(contact)) {
+      for (const nested of expandContactGroup(contact, contacts, visited)) {
+        add(nested.email, nested.name);
+      }
+    } else if (contact) {
+      add(contact.email || '', contact.name || '');
+    } else if (!UUID_PREFIX.test(member)) {
+      add(member, '');
+    }
+  }
+  return recipients;
+}
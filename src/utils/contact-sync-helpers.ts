@@ -0,0 +1,216 @@
+import type { Contact } from '../types';
+import {
+  emptyVCardFields,
+  generateVCard,
+  parseVCard,
+  vCardFields,
+  type VCardFields,
+  type VCardGroupFields,
+} from './vcard';
+import { normalizeGroupMembers } from './contact-groups';
+
+/**
+ * Offline contacts
+ *
+ * Pure helpers for the `contacts` table (contact-cache.js): mapping API
+ * records, applying local edits, and deciding what a server copy does to the
+ * cached one. Local changes are marked `pending` with the server `etag` they
+ * were made against (`baseEtag`); a server copy with a different etag turns
+ * the record into a conflict that the user resolves in the Contacts view.
+ */
+
+export type ContactFieldKey = keyof VCardFields;
+
+export const CONTACT_FIELDS: { key: ContactFieldKey; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'notes', label: 'Notes' },
+  { key: 'company', label: 'Company' },
+  { key: 'jobTitle', label: 'Job title' },
+  { key: 'timezone', label: 'Time zone' },
+  { key: 'website', label: 'Website' },
+  { key: 'birthday', label: 'Birthday' },
+  { key: 'photo', label: 'Photo' },
+];
+
+type ApiRecord = Record<string, unknown>;
+
+const str = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const firstValue = (list: unknown): string =>
+  Array.isArray(list) ? str((list[0] as { value?: unknown } | undefined)?.value) : '';
+
+/**
+ * Map a contact from the API (`/v1/contacts`) to a cached record.
+ *
+ * @returns The record, or null when it has no id
+ */
+export function contactFromApi(raw: unknown, account: string): Contact | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const item = ((raw as ApiRecord).Result as ApiRecord) || (raw as ApiRecord);
+  const id = item.id || item.contact_id || item.uid || item.Id;
+  if (!id) return null;
+  const content = str(item.content);
+  const card = vCardFields(content);
+  const parsed = parseVCard(content);
+  const isGroup = parsed.kind === 'group';
+  return {
+    ...card,
+    kind: isGroup ? 'group' : 'individual',
+    members: isGroup ? normalizeGroupMembers(parsed.members) : [],
+    account,
+    id: String(id),
+    name: str(item.full_name) || str(item.name) || str(item.FullName) || card.name,
+    email: firstValue(item.emails) || firstValue(item.Emails) || str(item.email) || card.email,
+    phone:
+      firstValue(item.phone_numbers) ||
+      firstValue(item.Phones) ||
+      firstValue(item.phones) ||
+      card.phone,
+    content,
+    etag: str(item.etag) || str(item.ETag),
+    pending: null,
+    baseEtag: '',
+    conflict: null,
+    updatedAt: Date.parse(str(item.updated_at) || str(item.updatedAt)) || Date.now(),
+  };
+}
+
+/**
+ * Request body for creating or updating a contact.
+ */
+export function contactPayload(contact: Partial<Contact>): Record<string, unknown> {
+  return {
+    full_name: contact.name || '',
+    emails: contact.email ? [{ value: contact.email }] : undefined,
+    phone_numbers: contact.phone ? [{ value: contact.phone }] : undefined,
+    content: contact.content || generateVCard(contact),
+  };
+}
+
+/**
+ * Apply an edit from the Contacts view to the cached record. New contacts get
+ * `localId` until the server assigns one. Further edits to a record that is
+ * already pending keep its original `baseEtag`.
+ */
+export function applyContactEdit(
+  existing: Contact | null,
+  fields: Partial<VCardFields> & VCardGroupFields & { content?: string },
+  { account, localId, now = Date.now() }: { account: string; localId: string; now?: number },
+): Contact {
+  const card = emptyVCardFields();
+  for (const key of Object.keys(card) as ContactFieldKey[]) {
+    card[key] = (fields[key] || '').trim();
+  }
+  const isGroup = (fields.kind || existing?.kind) === 'group';
+  const group = {
+    kind: isGroup ? ('group' as const) : ('individual' as const),
+    members: isGroup ? normalizeGroupMembers(fields.members ?? existing?.members) : [],
+  };
+  return {
+    ...(existing || {}),
+    ...card,
+    ...group,
+    account,
+    id: existing?.id || localId,
+    content: fields.content || generateVCard({ ...card, ...group }),
+    etag: existing?.etag || '',
+    pending: existing?.pending || (existing ? 'update' : 'create'),
+    baseEtag: existing?.pending ? existing.baseEtag || '' : existing?.etag || '',
+    conflict: existing?.conflict || null,
+    updatedAt: now,
+  };
+}
+
+/**
+ * What a server copy does to the cached record:
+ * 'put' stores it, 'skip' keeps the cache, and 'conflict' means a pending
+ * local change was made against an older version.
+ */
+export function reconcileContact(
+  local: Contact | null,
+  server: Contact,
+): 'put' | 'skip' | 'conflict' {
+  if (!local) return 'put';
+  if (local.pending) {
+    if (!server.etag || server.etag === local.baseEtag) return 'skip';
+    if (local.conflict?.contact?.etag === server.etag) return 'skip';
+    return 'conflict';
+  }
+  return local.etag && local.etag === server.etag ? 'skip' : 'put';
+}
+
+/**
+ * Compare cached contacts with server copies. With the full server list this
+ * is a complete sync; with one contact (or none, for a deletion) it applies a
+ * single change.
+ *
+ * @returns Records to store and ids to delete from the cache
+ */
+export function planContactSync(
+  local: Contact[],
+  server: Contact[],
+  { complete = true, now = Date.now() }: { complete?: boolean; now?: number } = {},
+): { put: Contact[]; remove: string[] } {
+  const byId = new Map(local.map((contact) => [contact.id, contact]));
+  const put: Contact[] = [];
+  const remove: string[] = [];
+  const seen = new Set<string>();
+
+  for (const copy of server) {
+    seen.add(copy.id);
+    const existing = byId.get(copy.id) || null;
+    const action = reconcileContact(existing, copy);
+    if (action === 'put') put.push(copy);
+    if (action === 'conflict' && existing) {
+      put.push({ ...existing, conflict: { contact: copy, detectedAt: now } });
+    }
+  }
+
+  if (!complete) return { put, remove };
+
+  // Cached contacts the server no longer has
+  for (const existing of local) {
+    if (seen.has(existing.id) || existing.pending === 'create') continue;
+    if (!existing.pending || existing.pending === 'delete') {
+      remove.push(existing.id);
+    } else if (!existing.conflict || existing.conflict.contact) {
+      put.push({ ...existing, conflict: { contact: null, detectedAt: now } });
+    }
+  }
+  return { put, remove };
+}
+
+/**
+ * Settle a conflict. Keeping the server copy drops the local change (and
+ * returns null when the server deleted the contact). Keeping the local
+ * version re-bases it on the server copy, or re-creates a contact the server
+ * deleted.
+ */
+export function resolveContactConflict(local: Contact, keep: 'mine' | 'server'): Contact | null {
+  const server = local.conflict?.contact ?? null;
+  if (keep === 'server') return server;
+  if (!server) {
+    return local.pending === 'delete'
+      ? null
+      : { ...local, pending: 'create', etag: '', baseEtag: '', conflict: null };
+  }
+  return { ...local, etag: server.etag, baseEtag: server.etag || '', conflict: null };
+}
+
+/**
+ * Fields that differ between two versions of a contact (or group).
+ */
+export function changedContactFields(
+  a: Partial<Pick<Contact, ContactFieldKey | 'members'>> | null,
+  b: Partial<Pick<Contact, ContactFieldKey | 'members'>> | null,
+): { key: ContactFieldKey | 'members'; label: string }[] {
+  const changed: { key: ContactFieldKey | 'members'; label: string }[] = CONTACT_FIELDS.filter(
+    ({ key }) => (a?.[key] || '') !== (b?.[key] || ''),
+  );
+  if ((a?.members || []).join('\n') !== (b?.members || []).join('\n')) {
+    changed.push({ key: 'members', label: 'Members' });
+  }
+  return changed;
+}
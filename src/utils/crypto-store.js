@@ -90,12 +90,14 @@ const SENSITIVE_LOCAL_KEYS = new Set([
   'alias_auth',
   'authToken',
   // PGP keys are stored as pgp_keys_{email} and pgp_passphrases_{email}
+  // S/MIME identities (certificate + private key) as smime_keys_{email}
 ]);
 
 const isSensitiveLocalKey = (key) => {
   if (SENSITIVE_LOCAL_KEYS.has(key)) return true;
   if (key.startsWith('pgp_keys_')) return true;
   if (key.startsWith('pgp_passphrases_')) return true;
+  if (key.startsWith('smime_keys_')) return true;
   return false;
 };
 
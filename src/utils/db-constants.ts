@@ -1,6 +1,9 @@
 const isDev = typeof import.meta !== 'undefined' && import.meta.env && import.meta.env.DEV;
 
-export const SCHEMA_VERSION = 1;
+export const SCHEMA_VERSION = 5;
+// Not tied to SCHEMA_VERSION: schema versions upgrade this database in place
+// (db.worker.ts). A new name means a fresh, empty cache.
+const DB_NAME_VERSION = 1;
 const baseName = isDev ? 'webmail-cache-dev' : 'webmail-cache';
 let devSuffix = '';
 if (isDev) {
@@ -11,7 +14,7 @@ if (isDev) {
   }
 }
 const suffix = devSuffix ? `-${devSuffix}` : '';
-export const DB_NAME = `${baseName}-v${SCHEMA_VERSION}${suffix}`;
+export const DB_NAME = `${baseName}-v${DB_NAME_VERSION}${suffix}`;
 
 // HMR: When db-constants changes (especially SCHEMA_VERSION), force a full page reload
 // Workers can't be hot-reloaded - they need to be recreated with new bundled code
@@ -514,6 +514,9 @@ export const dbClient = {
   settings: new TableProxy('settings'),
   settingsLabels: new TableProxy('settingsLabels'),
   outbox: new TableProxy('outbox'),
+  contacts: new TableProxy('contacts'),
+  calendars: new TableProxy('calendars'),
+  calendarEvents: new TableProxy('calendarEvents'),
 
   // Transaction helper
   transaction,
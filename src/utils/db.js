@@ -502,7 +502,8 @@ if (import.meta.hot) {
  * Schema is now defined in db.worker.js. When making schema changes:
  *
  * 1. Update SCHEMA_VERSION in db-constants.js
- * 2. Update the schema in db.worker.js
+ * 2. Add a `this.version(SCHEMA_VERSION)` block in db.worker.js with the
+ *    new or changed tables (never edit earlier versions)
  * 3. The db worker handles all migrations internally
  *
  * For complex migrations, you may need to:
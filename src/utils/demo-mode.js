@@ -43,6 +43,7 @@ const READ_ACTIONS = new Set([
   'CalendarEvents',
   'Labels',
   'Account',
+  'SieveScripts',
 ]);
 
 // Write actions that are silently blocked (no toast) — background ops like mark-as-read
@@ -66,6 +67,10 @@ const WRITE_ACTIONS = new Set([
   'LabelsCreate',
   'LabelsUpdate',
   'AccountUpdate',
+  'SieveScriptCreate',
+  'SieveScriptUpdate',
+  'SieveScriptDelete',
+  'SieveScriptActivate',
 ]);
 
 // ── Public API ────────────────────────────────────────────────────────────
@@ -251,6 +256,9 @@ function getDemoData(action, params) {
     case 'Account':
       return generateAccountInfo();
 
+    case 'SieveScripts':
+      return [];
+
     default:
       return null;
   }
@@ -275,6 +283,10 @@ function getFriendlyActionName(action) {
     LabelsCreate: 'Create label',
     LabelsUpdate: 'Update label',
     AccountUpdate: 'Update account',
+    SieveScriptCreate: 'Save filter script',
+    SieveScriptUpdate: 'Save filter script',
+    SieveScriptDelete: 'Delete filter script',
+    SieveScriptActivate: 'Activate filter script',
   };
   return names[action] || action;
 }
@@ -47,9 +47,14 @@ export async function saveDraft(draftData, options = {}) {
     cc: draftData.cc || [],
     bcc: draftData.bcc || [],
     replyTo: draftData.replyTo || '',
+    fromAddress: draftData.fromAddress || '',
     subject: draftData.subject || '',
     body: draftData.body || '',
     isPlainText: draftData.isPlainText || false,
+    // Markdown drafts keep the source in `body`
+    isMarkdown: draftData.isMarkdown || false,
+    pgpSign: draftData.pgpSign || false,
+    pgpEncrypt: draftData.pgpEncrypt || false,
     attachments: draftData.attachments || [],
     inReplyTo: draftData.inReplyTo || null,
     priority: draftData.priority || 'normal',
@@ -161,6 +166,8 @@ function computeHash(data) {
     subject: data.subject,
     body: data.body,
     isPlainText: data.isPlainText,
+    pgpSign: data.pgpSign,
+    pgpEncrypt: data.pgpEncrypt,
     attachments: (data.attachments || []).map((att) => `${att.name || ''}-${att.size || 0}`),
     priority: data.priority,
     requestReadReceipt: data.requestReadReceipt,
@@ -183,7 +190,7 @@ function hasMeaningfulContent(data) {
 }
 
 function buildDraftPayload(draft) {
-  const from = draft.from || Local.get('email') || '';
+  const from = draft.fromAddress || draft.from || Local.get('email') || '';
   const payload = {
     from,
     to: draft.to || [],
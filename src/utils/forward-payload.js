@@ -0,0 +1,21 @@
+/**
+ * Email sent by a mail rule's `forward` action: the original message
+ * attached as message/rfc822. Built by both mutation queues (mutation-queue.js
+ * in the app, sync-core.js in the service worker).
+ *
+ * sync-core.js imports this module, so it must not import anything itself
+ * (see scripts/build-sw-sync.js).
+ *
+ * @param {Object} payload - The `forward` mutation's payload ({ account, to, subject })
+ * @param {string} raw - The original message
+ * @returns {Object} Body for POST /v1/emails
+ */
+export function buildForwardPayload(payload, raw) {
+  return {
+    from: payload.account,
+    to: [payload.to],
+    subject: `Fwd: ${payload.subject || '(No subject)'}`,
+    text: 'Forwarded message attached.',
+    attachments: [{ filename: 'forwarded.eml', content: raw, contentType: 'message/rfc822' }],
+  };
+}
@@ -517,7 +517,9 @@ function getEmbeddedScript(): string {
 
         var label = toggle.querySelector('.fe-quote-label');
         if (label) {
-          label.textContent = isCollapsed ? 'Hide quoted text' : 'Show quoted text';
+          label.textContent = isCollapsed
+            ? toggle.getAttribute('data-hide-label') || 'Hide quoted text'
+            : toggle.getAttribute('data-show-label') || 'Show quoted text';
         }
 
         // Report new height after toggle animation
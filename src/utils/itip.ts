@@ -0,0 +1,523 @@
+import { normalizeEmail } from './address';
+import {
+  blockLines,
+  excludeOccurrence,
+  expandSeries,
+  extractVEvents,
+  formatICalUtc,
+  overrideOccurrence,
+  parseICalDate,
+  parseLine,
+  readProperties,
+  readProperty,
+  readRecurringSeries,
+  readTime,
+  replaceVEvents,
+  unescapeText,
+  type ICalProperty,
+} from './recurrence';
+
+/**
+ * Calendar invitations (iTIP, RFC 5546)
+ *
+ * Reads the `text/calendar` part of an invitation email (METHOD:REQUEST or
+ * CANCEL), compares it with the copy already in the calendar by UID and
+ * SEQUENCE, and builds the METHOD:REPLY an attendee sends back. The message
+ * view's invitation card sends replies and saves events through
+ * calendar-invitations.js.
+ *
+ * For events the user organizes it works the other way round: an attendee's
+ * METHOD:REPLY sets their PARTSTAT on the stored event. The sync worker finds
+ * replies in new INBOX mail, so this module stays free of DOM and storage.
+ * A reply's DTSTAMP is kept on the ATTENDEE line (X-CALENDARSERVER-DTSTAMP,
+ * as CalendarServer does), so a reply that arrives late can't undo a newer
+ * one.
+ */
+
+export type ParticipationStatus =
+  | 'NEEDS-ACTION'
+  | 'ACCEPTED'
+  | 'TENTATIVE'
+  | 'DECLINED'
+  | 'DELEGATED';
+
+export type InvitationResponse = Extract<
+  ParticipationStatus,
+  'ACCEPTED' | 'TENTATIVE' | 'DECLINED'
+>;
+
+/** How an invitation compares with the event already in the calendar */
+export type InvitationState = 'new' | 'updated' | 'current' | 'outdated';
+
+export interface Participant {
+  email: string;
+  name: string;
+  partstat: ParticipationStatus;
+  rsvp: boolean;
+}
+
+export interface Invitation {
+  /** REQUEST, CANCEL, REPLY, ... */
+  method: string;
+  uid: string;
+  sequence: number;
+  /** Set when the invitation is for one occurrence of a recurring event */
+  recurrenceId: number | null;
+  summary: string;
+  description: string;
+  location: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  recurring: boolean;
+  cancelled: boolean;
+  organizer: Participant | null;
+  attendees: Participant[];
+  /** The VEVENT the method applies to */
+  block: string;
+  ical: string;
+}
+
+/** Attendee responses of an event, as the event editor lists them */
+export interface AttendeeSummary {
+  attendees: Participant[];
+  accepted: number;
+  tentative: number;
+  declined: number;
+  pending: number;
+}
+
+/** An attachment as the sync worker lists a message's parts */
+export interface MessageAttachment {
+  contentType?: string;
+  filename?: string;
+  name?: string;
+  href?: string;
+}
+
+/** An event as Calendar.svelte caches it */
+export interface CachedCalendarEvent {
+  id: string;
+  title?: string;
+  start: string;
+  end: string;
+  ical?: string;
+}
+
+export const RESPONSE_LABELS: Record<InvitationResponse, string> = {
+  ACCEPTED: 'Accepted',
+  TENTATIVE: 'Tentative',
+  DECLINED: 'Declined',
+};
+
+const quoteParam = (value: string) => (/[:;,]/.test(value) ? `"${value}"` : value);
+
+const formatLine = ({ name, params, value }: ICalProperty) =>
+  [name, ...Object.entries(params).map(([key, v]) => `${key}=${quoteParam(v)}`)].join(';') +
+  `:${value}`;
+
+// An ATTENDEE line with its PARTSTAT set; the RSVP request is answered
+const withPartstat = (prop: ICalProperty, partstat: ParticipationStatus) => {
+  const { RSVP: _rsvp, ...params } = prop.params;
+  return formatLine({ ...prop, params: { ...params, PARTSTAT: partstat } });
+};
+
+// The DTSTAMP of the reply an ATTENDEE line was last set from
+const REPLY_STAMP = 'X-CALENDARSERVER-DTSTAMP';
+
+const replyStampOf = (prop: ICalProperty) =>
+  prop.params[REPLY_STAMP]
+    ? (parseICalDate(prop.params[REPLY_STAMP])?.date.getTime() ?? null)
+    : null;
+
+// An ATTENDEE line answered by a reply sent at `stamp`
+const withReply = (prop: ICalProperty, partstat: ParticipationStatus, stamp: number | null) =>
+  withPartstat(
+    stamp === null
+      ? prop
+      : { ...prop, params: { ...prop.params, [REPLY_STAMP]: formatICalUtc(new Date(stamp)) } },
+    partstat,
+  );
+
+const participantOf = (prop: ICalProperty): Participant => ({
+  email: normalizeEmail(prop.value.replace(/^mailto:/i, '')),
+  name: prop.params.CN || '',
+  partstat: (prop.params.PARTSTAT?.toUpperCase() || 'NEEDS-ACTION') as ParticipationStatus,
+  rsvp: prop.params.RSVP?.toUpperCase() === 'TRUE',
+});
+
+const isAttendeeLine = (prop: ICalProperty | null, emails: Set<string>) =>
+  prop?.name === 'ATTENDEE' && emails.has(participantOf(prop).email);
+
+const emailSet = (emails: string[]) => new Set(emails.map((email) => normalizeEmail(email)));
+
+// The main VEVENT, or the first occurrence when the payload only changes occurrences
+const primaryBlock = (ical: string) => {
+  const blocks = extractVEvents(ical);
+  return blocks.find((block) => !readProperty(block, 'RECURRENCE-ID')) || blocks[0] || null;
+};
+
+const sequenceOf = (block: string) => Number(readProperty(block, 'SEQUENCE')?.value) || 0;
+
+const recurrenceIdOf = (block: string) => readTime(block, 'RECURRENCE-ID')?.date.getTime() ?? null;
+
+/** The message's calendar part: a `text/calendar` attachment, or an .ics file */
+export function findCalendarAttachment<T extends MessageAttachment>(
+  attachments: T[] = [],
+): T | null {
+  return (
+    attachments.find((att) => /^text\/calendar/i.test(att?.contentType || '')) ||
+    attachments.find((att) => /\.ics$/i.test(att?.filename || att?.name || '')) ||
+    null
+  );
+}
+
+/**
+ * The text of an attachment whose content is a data: URL. Returns '' when
+ * its content hasn't been downloaded.
+ */
+export function readAttachmentText(att: MessageAttachment | null | undefined): string {
+  const match = (att?.href || '').match(/^data:[^,]*?(;base64)?,(.*)$/s);
+  if (!match) return '';
+  try {
+    if (!match[1]) return decodeURIComponent(match[2]);
+    const bytes = Uint8Array.from(atob(match[2]), (char) => char.charCodeAt(0));
+    return new TextDecoder().decode(bytes);
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Read an invitation from a `text/calendar` part. Returns null when it has
+ * no event with a UID and start time.
+ */
+export function parseInvitation(ical: string | null | undefined): Invitation | null {
+  const block = primaryBlock(ical || '');
+  if (!block) return null;
+  const uid = readProperty(block, 'UID')?.value.trim() || '';
+  const start = readTime(block, 'DTSTART');
+  if (!uid || !start) return null;
+  const series = readRecurringSeries(ical);
+  const end =
+    readTime(block, 'DTEND')?.date || new Date(start.date.getTime() + (series?.duration || 0));
+  const text = (name: string) => unescapeText(readProperty(block, name)?.value || '');
+  const organizer = readProperty(block, 'ORGANIZER');
+  const status = text('STATUS').toUpperCase();
+  const method = (readProperty(ical || '', 'METHOD')?.value || 'PUBLISH').trim().toUpperCase();
+
+  return {
+    method,
+    uid,
+    sequence: sequenceOf(block),
+    recurrenceId: recurrenceIdOf(block),
+    summary: text('SUMMARY'),
+    description: text('DESCRIPTION'),
+    location: text('LOCATION'),
+    start: start.date,
+    end,
+    allDay: start.allDay,
+    recurring: !!readProperty(block, 'RRULE'),
+    cancelled: method === 'CANCEL' || status === 'CANCELLED',
+    organizer: organizer ? participantOf(organizer) : null,
+    attendees: readProperties(block)
+      .filter((prop) => prop.name === 'ATTENDEE')
+      .map(participantOf),
+    block,
+    ical: ical || '',
+  };
+}
+
+/** The UID of a stored event's `ical` */
+export const eventUid = (ical: string | null | undefined) => {
+  const block = primaryBlock(ical || '');
+  return (block && readProperty(block, 'UID')?.value.trim()) || '';
+};
+
+/** The cached event with the invitation's UID */
+export function findInvitationEvent<T extends CachedCalendarEvent>(
+  invitation: Invitation,
+  events: T[],
+): T | null {
+  return events.find((event) => eventUid(event.ical) === invitation.uid) || null;
+}
+
+/** The first attendee with one of the user's addresses */
+export function findAttendee(invitation: Invitation, emails: string[]): Participant | null {
+  const own = emailSet(emails);
+  return invitation.attendees.find((attendee) => own.has(attendee.email)) || null;
+}
+
+/**
+ * Compare an invitation with the stored event by SEQUENCE: a higher one is an
+ * update from the organizer, a lower one was replaced by a newer invitation.
+ * An occurrence invitation is compared with that occurrence's override.
+ */
+export function invitationState(
+  invitation: Invitation,
+  storedIcal: string | null,
+): InvitationState {
+  if (!storedIcal) return 'new';
+  const blocks = extractVEvents(storedIcal);
+  const stored =
+    invitation.recurrenceId === null
+      ? primaryBlock(storedIcal)
+      : blocks.find((block) => recurrenceIdOf(block) === invitation.recurrenceId) ||
+        primaryBlock(storedIcal);
+  if (!stored) return 'new';
+  const storedSequence = sequenceOf(stored);
+  if (invitation.sequence > storedSequence) return 'updated';
+  return invitation.sequence < storedSequence ? 'outdated' : 'current';
+}
+
+/** The user's PARTSTAT in a stored event, when they are one of its attendees */
+export function storedResponse(
+  storedIcal: string | null | undefined,
+  emails: string[],
+): ParticipationStatus | null {
+  const block = primaryBlock(storedIcal || '');
+  const own = emailSet(emails);
+  const prop = block ? readProperties(block).find((p) => isAttendeeLine(p, own)) : null;
+  return prop ? participantOf(prop).partstat : null;
+}
+
+/**
+ * Events that overlap the invitation, with recurring events expanded. The
+ * invited event itself is left out.
+ */
+export function findConflicts<T extends CachedCalendarEvent>(
+  invitation: Invitation,
+  events: T[],
+): T[] {
+  const start = invitation.start.getTime();
+  const end = Math.max(invitation.end.getTime(), start + 1);
+  return events.filter((event) => {
+    if (event.ical && eventUid(event.ical) === invitation.uid) return false;
+    const series = readRecurringSeries(event.ical);
+    if (series?.rule) {
+      return expandSeries(series, new Date(start), new Date(end)).some(
+        (occurrence) => occurrence.start.getTime() < end && occurrence.end.getTime() > start,
+      );
+    }
+    const eventStart = new Date(event.start).getTime();
+    const eventEnd = new Date(event.end).getTime();
+    return eventStart < end && eventEnd > start;
+  });
+}
+
+/**
+ * Set the user's PARTSTAT on their ATTENDEE lines in every VEVENT, dropping
+ * the RSVP request. An event without such a line is left as it is.
+ */
+export function setAttendeeStatus(
+  ical: string,
+  emails: string[],
+  partstat: ParticipationStatus,
+): string {
+  const own = emailSet(emails);
+  const blocks = extractVEvents(ical).map((block) =>
+    blockLines(block)
+      .map((line) => {
+        const prop = parseLine(line);
+        return prop && isAttendeeLine(prop, own) ? withPartstat(prop, partstat) : line;
+      })
+      .join('\r\n'),
+  );
+  return replaceVEvents(ical, blocks);
+}
+
+/** The payload without its METHOD, as a calendar stores it */
+export const toStoredEvent = (ical: string) => ical.replace(/^METHOD:.*(\r?\n|$)/im, '');
+
+/**
+ * The METHOD:REPLY payload answering an invitation. It keeps the event's UID,
+ * SEQUENCE, RECURRENCE-ID, times, summary and organizer, and lists only the
+ * replying attendee.
+ */
+export function buildInvitationReply(
+  invitation: Invitation,
+  email: string,
+  partstat: InvitationResponse,
+  now = new Date(),
+): string {
+  const lines = blockLines(invitation.block);
+  const copy = (name: string) => lines.filter((line) => parseLine(line)?.name === name);
+  const own = emailSet([email]);
+  const attendee = lines.map(parseLine).find((prop) => isAttendeeLine(prop, own));
+  const attendeeLine = withPartstat(
+    attendee || { name: 'ATTENDEE', params: {}, value: `mailto:${email}` },
+    partstat,
+  );
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Forward Email//Webmail//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:REPLY',
+    'BEGIN:VEVENT',
+    `UID:${invitation.uid}`,
+    `DTSTAMP:${formatICalUtc(now)}`,
+    `SEQUENCE:${invitation.sequence}`,
+    ...copy('RECURRENCE-ID'),
+    ...copy('DTSTART'),
+    ...copy('DTEND'),
+    ...copy('SUMMARY'),
+    ...copy('ORGANIZER'),
+    attendeeLine,
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ].join('\r\n');
+}
+
+/**
+ * The stored event after answering or taking an update, with the user's
+ * PARTSTAT set: an occurrence invitation becomes an override of the stored
+ * series, anything else replaces the stored event.
+ */
+export function applyInvitation(
+  storedIcal: string | null,
+  invitation: Invitation,
+  emails: string[],
+  partstat: ParticipationStatus,
+): string {
+  const ical = setAttendeeStatus(toStoredEvent(invitation.ical), emails, partstat);
+  if (invitation.recurrenceId === null || !storedIcal || !readRecurringSeries(storedIcal)?.rule) {
+    return ical;
+  }
+  return overrideOccurrence(storedIcal, primaryBlock(ical) as string);
+}
+
+/**
+ * The stored event after a cancellation: a cancelled occurrence is removed
+ * from the series, otherwise the event is deleted (null).
+ */
+export function applyCancellation(storedIcal: string, invitation: Invitation): string | null {
+  if (invitation.recurrenceId === null || !readRecurringSeries(storedIcal)?.rule) return null;
+  return excludeOccurrence(storedIcal, invitation.recurrenceId);
+}
+
+/**
+ * Whether the user organizes a stored event. One without an ORGANIZER was
+ * made here and counts as theirs.
+ */
+export function organizedBy(storedIcal: string | null | undefined, emails: string[]): boolean {
+  const block = primaryBlock(storedIcal || '');
+  const organizer = block ? readProperty(block, 'ORGANIZER') : null;
+  return !!block && (!organizer || emailSet(emails).has(participantOf(organizer).email));
+}
+
+/** The attendee who answers in a METHOD:REPLY (a reply lists only them) */
+export function repliedBy(reply: Invitation): Participant | null {
+  return reply.attendees[0] || null;
+}
+
+/**
+ * The stored event after an attendee's METHOD:REPLY, with their PARTSTAT
+ * set. Only events the user organizes change, and only for attendees they
+ * invited. A reply for one occurrence changes that occurrence's override and
+ * is dropped when there is none. A reply to an older SEQUENCE, or sent
+ * before the reply already applied (DTSTAMP), is ignored. Returns null when
+ * nothing changes.
+ */
+export function applyReply(storedIcal: string, reply: Invitation, emails: string[]): string | null {
+  if (!organizedBy(storedIcal, emails)) return null;
+  const attendee = readProperties(reply.block).find((prop) => prop.name === 'ATTENDEE');
+  if (!attendee) return null;
+  const { email, partstat } = participantOf(attendee);
+  const replier = emailSet([email]);
+  const stamp = readTime(reply.block, 'DTSTAMP')?.date.getTime() ?? null;
+
+  const stored = extractVEvents(storedIcal);
+  const invited = stored.some((block) =>
+    blockLines(block).some((line) => isAttendeeLine(parseLine(line), replier)),
+  );
+  if (!invited) return null;
+
+  let changed = false;
+  const blocks = stored.map((block) => {
+    const id = recurrenceIdOf(block);
+    if (reply.recurrenceId !== null && id !== reply.recurrenceId) return block;
+    // Answers a version of the event the organizer has since changed
+    if (reply.sequence < sequenceOf(block)) return block;
+    const lines = blockLines(block);
+    const index = lines.findIndex((line) => isAttendeeLine(parseLine(line), replier));
+    if (index !== -1) {
+      const prop = parseLine(lines[index]) as ICalProperty;
+      const applied = replyStampOf(prop);
+      if (stamp !== null && applied !== null && stamp <= applied) return block;
+      if (participantOf(prop).partstat === partstat && (stamp === null || stamp === applied)) {
+        return block;
+      }
+      lines[index] = withReply(prop, partstat, stamp);
+    } else if (reply.recurrenceId !== null) {
+      // Invited to the series, but not listed on this occurrence's override
+      const end = lines.findIndex((line) => /^END:VEVENT$/i.test(line));
+      lines.splice(end === -1 ? lines.length : end, 0, withReply(attendee, partstat, stamp));
+    } else {
+      return block;
+    }
+    changed = true;
+    return lines.join('\r\n');
+  });
+  return changed ? replaceVEvents(storedIcal, blocks) : null;
+}
+
+/** The attendees of an event, besides its organizer, and how many gave each response */
+export function summarizeAttendees(ical: string | null | undefined): AttendeeSummary {
+  const block = primaryBlock(ical || '');
+  const organizer = block ? readProperty(block, 'ORGANIZER') : null;
+  const organizerEmail = organizer ? participantOf(organizer).email : '';
+  const attendees = (block ? readProperties(block) : [])
+    .filter((prop) => prop.name === 'ATTENDEE')
+    .map(participantOf)
+    .filter((attendee) => attendee.email !== organizerEmail);
+  const count = (partstat: ParticipationStatus) =>
+    attendees.filter((attendee) => attendee.partstat === partstat).length;
+  const accepted = count('ACCEPTED');
+  const tentative = count('TENTATIVE');
+  const declined = count('DECLINED');
+  return {
+    attendees,
+    accepted,
+    tentative,
+    declined,
+    pending: attendees.length - accepted - tentative - declined,
+  };
+}
+
+/**
+ * Carry the ORGANIZER and the attendees' responses over to an event the
+ * editor regenerated, so that editing it doesn't reset who has replied. Each
+ * VEVENT takes them from the previous VEVENT with the same RECURRENCE-ID, or
+ * else from the previous main one.
+ */
+export function keepParticipation(previousIcal: string | null | undefined, ical: string): string {
+  const previous = extractVEvents(previousIcal || '');
+  if (!previous.length) return ical;
+  const blocks = extractVEvents(ical).map((block) => {
+    const id = recurrenceIdOf(block);
+    const source =
+      (id !== null && previous.find((prev) => recurrenceIdOf(prev) === id)) ||
+      primaryBlock(previousIcal as string);
+    if (!source) return block;
+    const statuses = new Map(
+      readProperties(source)
+        .filter((prop) => prop.name === 'ATTENDEE')
+        .map((prop) => [participantOf(prop).email, participantOf(prop).partstat] as const),
+    );
+    const lines = blockLines(block).map((line) => {
+      const prop = parseLine(line);
+      if (prop?.name !== 'ATTENDEE') return line;
+      const partstat = statuses.get(participantOf(prop).email);
+      return partstat && partstat !== 'NEEDS-ACTION' ? withPartstat(prop, partstat) : line;
+    });
+    const organizer = lines.some((line) => parseLine(line)?.name === 'ORGANIZER')
+      ? []
+      : blockLines(source).filter((line) => parseLine(line)?.name === 'ORGANIZER');
+    const end = lines.findIndex((line) => /^END:VEVENT$/i.test(line));
+    lines.splice(end === -1 ? lines.length : end, 0, ...organizer);
+    return lines.join('\r\n');
+  });
+  return replaceVEvents(ical, blocks);
+}
@@ -21,6 +21,7 @@ const DEFAULT_SHORTCUTS = {
   'ctrl+e': { action: 'edit-as-new', label: 'Edit message as new' },
   'ctrl+s': { action: 'save-draft', label: 'Save draft' },
   'ctrl+p': { action: 'print', label: 'Print message or draft' },
+  'ctrl+shift+l': { action: 'insert-template', label: 'Insert template', context: 'compose' },
 
   // Receiving / Reading / Navigation
   f5: { action: 'refresh', label: 'Get new messages (current account)' },
@@ -61,6 +62,7 @@ class KeyboardShortcutManager {
     this.handlers = new Map();
     this.context = 'default'; // default, list, compose, reader
     this.enabled = true;
+    this.contextOnly = false;
     this.sequenceBuffer = [];
     this.sequenceTimeout = null;
     this.isMac = navigator.platform.toUpperCase().indexOf('MAC') >= 0;
@@ -133,6 +135,14 @@ class KeyboardShortcutManager {
     this.enabled = enabled;
   }
 
+  /**
+   * Only fire shortcuts bound to the current context, e.g. while a full
+   * compose window covers the mailbox
+   */
+  setContextOnly(contextOnly) {
+    this.contextOnly = contextOnly;
+  }
+
   /**
    * Configure global filter so hotkeys-js ignores normal inputs but still
    * allows capture fields and modifier-based shortcuts.
@@ -206,6 +216,7 @@ class KeyboardShortcutManager {
         if (!this.enabled || this.captureInProgress) return;
         if (this.shouldIgnoreEvent(event)) return;
         if (shortcut.context && shortcut.context !== this.context) return;
+        if (this.contextOnly && shortcut.context !== this.context) return;
 
         const actionHandler = this.handlers.get(shortcut.action);
         if (actionHandler) {
@@ -252,7 +263,7 @@ class KeyboardShortcutManager {
     }
 
     this.sequenceListener = (event) => {
-      if (!this.enabled || this.captureInProgress) return;
+      if (!this.enabled || this.captureInProgress || this.contextOnly) return;
       if (this.shouldIgnoreEvent(event)) return;
 
       const matched = this.handleSequence(event);
@@ -0,0 +1,200 @@
+import type { MailingList, Message, Subscription } from '../types';
+
+/**
+ * Mailing list headers.
+ *
+ * Pure helpers shared by the message cache (sync-helpers.ts), the reader's
+ * Unsubscribe button and the Subscriptions settings (subscriptions.js).
+ *
+ * Headers reach us in several shapes: mailparser's structured `list` header
+ * (`{ id: { id, name }, unsubscribe: { url, mail } }`), plain header maps,
+ * raw header text, or `headerLines`, either on the message itself or under
+ * `nodemailer`.
+ */
+
+type HeaderLine = { key?: string; line?: string };
+
+type HeaderCarrier = {
+  headers?: unknown;
+  Headers?: unknown;
+  headerLines?: HeaderLine[];
+  nodemailer?: HeaderCarrier | false | null;
+};
+
+const ONE_CLICK_PATTERN = /List-Unsubscribe\s*=\s*One-Click/i;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const unfold = (value: string): string => value.replace(/\r?\n[ \t]+/g, ' ').trim();
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function rawHeaderValue(text: string, name: string): string {
+  const match = unfold(text).match(new RegExp(`^${escapeRegExp(name)}:[ \\t]*(.*)$`, 'im'));
+  return match ? match[1].trim() : '';
+}
+
+function findHeader(carrier: HeaderCarrier | null | undefined, name: string): unknown {
+  if (!carrier || typeof carrier !== 'object') return null;
+  for (const headers of [carrier.headers, carrier.Headers]) {
+    if (typeof headers === 'string') {
+      const value = rawHeaderValue(headers, name);
+      if (value) return value;
+    } else if (headers && typeof headers === 'object') {
+      const map = headers as Record<string, unknown>;
+      const key = Object.keys(map).find((k) => k.toLowerCase() === name);
+      if (key && map[key]) return map[key];
+    }
+  }
+  const line = (Array.isArray(carrier.headerLines) ? carrier.headerLines : []).find(
+    (entry) => String(entry?.key || '').toLowerCase() === name,
+  );
+  if (line?.line) return unfold(String(line.line).replace(/^[^:]*:\s*/, ''));
+  return carrier.nodemailer ? findHeader(carrier.nodemailer, name) : null;
+}
+
+const firstString = (value: unknown): string => {
+  const first = Array.isArray(value) ? value[0] : value;
+  return typeof first === 'string' ? first.trim() : '';
+};
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+
+/**
+ * Parse a List-Id value such as `"Weekly News" <news.example.com>`.
+ */
+export function parseListId(value: string = ''): { id: string; name: string } {
+  const match = value.match(/<([^<>\s]+)>/);
+  if (!match) return { id: value.trim().toLowerCase(), name: '' };
+  const name = value
+    .slice(0, match.index)
+    .trim()
+    .replace(/^"(.*)"$/, '$1')
+    .trim();
+  return { id: match[1].toLowerCase(), name };
+}
+
+/**
+ * The `<...>` entries of a List-Unsubscribe value, in order.
+ */
+export function parseUnsubscribeTargets(value: string = ''): {
+  url: string | null;
+  mailto: string | null;
+} {
+  const targets = [...value.matchAll(/<([^<>]+)>/g)].map((match) => match[1].trim());
+  return {
+    url: targets.find((target) => /^https?:\/\//i.test(target)) || null,
+    mailto: targets.find((target) => /^mailto:/i.test(target)) || null,
+  };
+}
+
+/**
+ * Read the mailing list headers of a message.
+ *
+ * @param source - API message, reader message or parsed body meta
+ * @returns The list details, or null when the message has no list headers
+ */
+export function parseMailingList(source: unknown): MailingList | null {
+  const carrier = source as HeaderCarrier;
+  const structured = asRecord(findHeader(carrier, 'list'));
+
+  let { id, name } = parseListId(firstString(findHeader(carrier, 'list-id')));
+  const structuredId = asRecord(structured?.id);
+  if (!id && structuredId) {
+    ({ id, name } = parseListId(`${structuredId.name || ''} <${structuredId.id || ''}>`));
+  }
+
+  let { url, mailto } = parseUnsubscribeTargets(
+    firstString(findHeader(carrier, 'list-unsubscribe')),
+  );
+  const structuredUnsubscribe = asRecord(structured?.unsubscribe);
+  if (!url && !mailto && structuredUnsubscribe) {
+    const structuredUrl = firstString(structuredUnsubscribe.url);
+    const structuredMail = firstString(structuredUnsubscribe.mail);
+    url = /^https?:\/\//i.test(structuredUrl) ? structuredUrl : null;
+    mailto = structuredMail ? `mailto:${structuredMail.replace(/^mailto:/i, '')}` : null;
+  }
+
+  if (!id && !url && !mailto) return null;
+
+  const post = findHeader(carrier, 'list-unsubscribe-post') || structured?.['unsubscribe-post'];
+  const postText = typeof post === 'string' ? post : JSON.stringify(post || '');
+  return {
+    id,
+    name,
+    unsubscribeUrl: url,
+    unsubscribeMailto: mailto,
+    // RFC 8058 requires HTTPS for one-click
+    oneClick: Boolean(url && /^https:/i.test(url) && ONE_CLICK_PATTERN.test(postText)),
+  };
+}
+
+/**
+ * How a list can be left: a one-click POST, an email to the list, or a web
+ * page the user has to visit.
+ */
+export function unsubscribeMethod(
+  list: MailingList | null | undefined,
+): 'one-click' | 'mailto' | 'link' | null {
+  if (!list) return null;
+  if (list.oneClick && list.unsubscribeUrl) return 'one-click';
+  if (list.unsubscribeMailto) return 'mailto';
+  if (list.unsubscribeUrl) return 'link';
+  return null;
+}
+
+/**
+ * The mail rule condition (search syntax) matching a list.
+ */
+export const listQuery = (id: string): string => `list:${id}`;
+
+/**
+ * Group cached messages by List-Id, most active lists first.
+ *
+ * @param messages - Cached message records
+ * @param now - Reference time for the monthly average
+ */
+export function groupSubscriptions(
+  messages: Partial<Message>[] = [],
+  now: number = Date.now(),
+): Subscription[] {
+  const groups = new Map<string, Subscription>();
+  for (const message of messages) {
+    const list = message?.list;
+    if (!list?.id) continue;
+    const date = message.dateMs || message.date || 0;
+    const group = groups.get(list.id);
+    if (!group) {
+      groups.set(list.id, {
+        id: list.id,
+        name: list.name || list.id,
+        from: message.from || '',
+        list,
+        count: 1,
+        unread: message.is_unread ? 1 : 0,
+        firstReceived: date,
+        lastReceived: date,
+        perMonth: 0,
+      });
+      continue;
+    }
+    group.count += 1;
+    if (message.is_unread) group.unread += 1;
+    group.firstReceived = Math.min(group.firstReceived, date);
+    if (date >= group.lastReceived) {
+      group.lastReceived = date;
+      group.list = list;
+      group.from = message.from || group.from;
+      if (list.name) group.name = list.name;
+    }
+  }
+
+  return [...groups.values()]
+    .map((group) => {
+      const months = Math.max(1, (now - group.firstReceived) / (30 * DAY_MS));
+      return { ...group, perMonth: Math.round((group.count / months) * 10) / 10 };
+    })
+    .sort((a, b) => b.count - a.count || b.lastReceived - a.lastReceived);
+}
@@ -0,0 +1,262 @@
+import { buildQueryAst, matchesQuery } from './search-query.js';
+
+/**
+ * Mail rule evaluation
+ *
+ * Validates rules, matches them against messages and turns the matches into
+ * a plan of actions (the sync worker runs this on newly synced INBOX
+ * messages; mail-rules.js applies the plan). Also renders rules as a Sieve
+ * script for servers that filter on delivery.
+ *
+ * Conditions are queries in the search grammar (search-query.js), e.g.
+ * `from:billing@example.com has:attachment` or `subject:invoice OR size:>5mb`.
+ */
+
+export const RULES_KEY_PREFIX = 'mail_rules_';
+
+/**
+ * Supported actions. `move` and `label` take a folder path / label name as
+ * `value`, `forward` takes an email address.
+ */
+export const RULE_ACTIONS = ['move', 'label', 'markRead', 'star', 'forward', 'delete'];
+
+const ACTIONS_WITH_VALUE = new Set(['move', 'label', 'forward']);
+
+export const rulesMetaKey = (account) => `${RULES_KEY_PREFIX}${account || 'default'}`;
+
+const createRuleId = () => `rule_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+const isEmailAddress = (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+
+/**
+ * Validate a rule and fill in defaults.
+ *
+ * @param {Object} input - { id?, name?, query, actions: [{ type, value? }], stop?, enabled? }
+ * @returns {Object} Normalized rule
+ * @throws {Error} When the condition or an action is missing or invalid
+ */
+export function normalizeRule(input = {}) {
+  const query = String(input.query || '').trim();
+  if (!query) {
+    throw new Error('Rule needs a condition');
+  }
+
+  const actions = (Array.isArray(input.actions) ? input.actions : []).map((action) => {
+    const type = action?.type;
+    if (!RULE_ACTIONS.includes(type)) {
+      throw new Error(`Unknown rule action: ${type}`);
+    }
+    if (!ACTIONS_WITH_VALUE.has(type)) return { type };
+    const value = String(action.value || '').trim();
+    if (!value) {
+      throw new Error(`Rule action "${type}" needs a value`);
+    }
+    if (type === 'forward' && !isEmailAddress(value)) {
+      throw new Error(`Invalid forwarding address: ${value}`);
+    }
+    return { type, value };
+  });
+  if (!actions.length) {
+    throw new Error('Rule needs at least one action');
+  }
+
+  return {
+    id: input.id || createRuleId(),
+    name: String(input.name || '').trim() || query,
+    query,
+    actions,
+    stop: Boolean(input.stop),
+    enabled: input.enabled !== false,
+  };
+}
+
+/**
+ * Work out what the rules do to one message. Rules run in order; a matching
+ * rule with `stop` set ends processing. When several rules move the message
+ * the first target wins, and `delete` overrides any move.
+ *
+ * @param {Array<Object>} rules - Normalized rules, in priority order
+ * @param {Object} msg - Cached message record
+ * @returns {Object|null} Plan { ruleIds, markRead, star, labels, forwardTo, moveTo, delete },
+ *   or null when no rule matched
+ */
+export function evaluateRules(rules = [], msg = {}) {
+  const plan = {
+    ruleIds: [],
+    markRead: false,
+    star: false,
+    labels: [],
+    forwardTo: [],
+    moveTo: null,
+    delete: false,
+  };
+
+  for (const rule of rules || []) {
+    if (!rule?.enabled || !rule.query) continue;
+    if (!matchesQuery(msg, buildQueryAst(rule.query))) continue;
+
+    plan.ruleIds.push(rule.id);
+    for (const action of rule.actions || []) {
+      if (action.type === 'markRead') plan.markRead = true;
+      if (action.type === 'star') plan.star = true;
+      if (action.type === 'delete') plan.delete = true;
+      if (action.type === 'move' && !plan.moveTo) plan.moveTo = action.value;
+      if (action.type === 'label' && !plan.labels.includes(action.value)) {
+        plan.labels.push(action.value);
+      }
+      if (action.type === 'forward' && !plan.forwardTo.includes(action.value)) {
+        plan.forwardTo.push(action.value);
+      }
+    }
+    if (rule.stop) break;
+  }
+
+  return plan.ruleIds.length ? plan : null;
+}
+
+// ============================================================================
+// Sieve export (RFC 5228)
+// ============================================================================
+
+const SIEVE_TRASH_FOLDER = 'Trash';
+
+const sieveString = (value) => `"${String(value).replace(/[\\"]/g, '\\$&')}"`;
+
+const contains = (headers, value) =>
+  `header :contains ${headers.length === 1 ? sieveString(headers[0]) : `[${headers.map(sieveString).join(', ')}]`} ${sieveString(value)}`;
+
+/**
+ * Translate one search clause into a Sieve test. Returns null for clauses that
+ * only make sense on stored mail (dates, folders, most `is:` flags).
+ */
+function clauseToSieve(clause, requires) {
+  let test = null;
+  switch (clause.type) {
+    case 'text':
+      test = contains(['subject', 'from'], clause.value);
+      break;
+    case 'field':
+      if (clause.field === 'from' || clause.field === 'subject') {
+        test = contains([clause.field], clause.value);
+      } else if (['to', 'cc', 'bcc'].includes(clause.field)) {
+        test = contains(['to', 'cc'], clause.value);
+      } else if (clause.field === 'list') {
+        test = contains(['list-id'], clause.value);
+      } else if (clause.field === 'label') {
+        requires.add('imap4flags');
+        test = `hasflag :contains ${sieveString(clause.value)}`;
+      }
+      break;
+    case 'flag':
+      if (clause.flag === 'starred' || clause.flag === 'flagged') {
+        requires.add('imap4flags');
+        test = 'hasflag "\\\\Flagged"';
+      }
+      break;
+    case 'has':
+      // Approximation: mail with attachments is almost always multipart/mixed
+      if (clause.value === 'attachment' || clause.value === 'attachments') {
+        test = contains(['content-type'], 'multipart/mixed');
+      }
+      break;
+    case 'size': {
+      // Sieve only has strict :over / :under comparisons
+      const inclusive = clause.op === '>=' || clause.op === '<=';
+      if (clause.op.startsWith('>')) {
+        test = `size :over ${inclusive ? Math.max(clause.bytes - 1, 0) : clause.bytes}`;
+      } else {
+        test = `size :under ${inclusive ? clause.bytes + 1 : clause.bytes}`;
+      }
+      break;
+    }
+    default:
+      break;
+  }
+  if (!test) return null;
+  return clause.negated ? `not ${test}` : test;
+}
+
+function astToSieve(ast, requires) {
+  if (!ast) return 'true';
+  switch (ast.type) {
+    case 'CLAUSE':
+      return clauseToSieve(ast.clause, requires);
+    case 'NOT': {
+      const inner = astToSieve(ast.right, requires);
+      return inner ? `not ${inner}` : null;
+    }
+    case 'AND':
+    case 'OR': {
+      const left = astToSieve(ast.left, requires);
+      const right = astToSieve(ast.right, requires);
+      if (!left || !right) return null;
+      return `${ast.type === 'AND' ? 'allof' : 'anyof'} (${left}, ${right})`;
+    }
+    default:
+      return null;
+  }
+}
+
+function actionsToSieve(rule, requires) {
+  const lines = [];
+  const flags = [];
+  let moveTo = null;
+  let discard = false;
+
+  for (const action of rule.actions || []) {
+    if (action.type === 'markRead') flags.push('\\Seen');
+    if (action.type === 'star') flags.push('\\Flagged');
+    if (action.type === 'label') flags.push(action.value);
+    if (action.type === 'move' && !moveTo) moveTo = action.value;
+    if (action.type === 'delete') discard = true;
+    if (action.type === 'forward') {
+      requires.add('copy');
+      lines.push(`redirect :copy ${sieveString(action.value)};`);
+    }
+  }
+
+  // Flags apply to the copy filed by the fileinto/keep that follows
+  if (flags.length) {
+    requires.add('imap4flags');
+    lines.unshift(`addflag [${flags.map(sieveString).join(', ')}];`);
+  }
+  // Deleting in the client moves mail to Trash; do the same server-side
+  const target = discard ? SIEVE_TRASH_FOLDER : moveTo;
+  if (target) {
+    requires.add('fileinto');
+    lines.push(`fileinto ${sieveString(target)};`);
+  }
+  if (rule.stop || target) lines.push('stop;');
+  return lines;
+}
+
+/**
+ * Render enabled rules as a Sieve script that can be installed server-side.
+ * Rules whose conditions cannot be expressed in Sieve are left out with a
+ * comment explaining why.
+ *
+ * @param {Array<Object>} rules - Normalized rules, in priority order
+ * @returns {string} Sieve script
+ */
+export function buildSieveScript(rules = []) {
+  const requires = new Set();
+  const blocks = [];
+
+  for (const rule of rules || []) {
+    if (!rule?.enabled) continue;
+    const name = String(rule.name || rule.query).replace(/[\r\n]+/g, ' ');
+    const test = astToSieve(buildQueryAst(rule.query), requires);
+    if (!test) {
+      blocks.push(`# Skipped "${name}": condition "${rule.query}" has no Sieve equivalent`);
+      continue;
+    }
+    const body = actionsToSieve(rule, requires).map((line) => `  ${line}`);
+    blocks.push([`# ${name}`, `if ${test} {`, ...body, '}'].join('\n'));
+  }
+
+  const header = ['# Mail rules exported from Forward Email'];
+  if (requires.size) {
+    header.push(`require [${[...requires].sort().map(sieveString).join(', ')}];`);
+  }
+  return `${[header.join('\n'), ...blocks].join('\n\n')}\n`;
+}
@@ -0,0 +1,174 @@
+import { db } from './db';
+import { Local } from './storage';
+import { queueMutation } from './mutation-queue';
+import { onSyncRuleMatches } from './sync-worker-client.js';
+import { getMessageApiId } from './sync-helpers.ts';
+import { warn } from './logger.ts';
+import {
+  rulesMetaKey,
+  normalizeRule,
+  buildSieveScript,
+  RULE_ACTIONS,
+} from './mail-rules-helpers.js';
+
+export { normalizeRule, RULE_ACTIONS };
+
+/**
+ * Mail Rules
+ *
+ * User-defined filters applied to incoming mail. An account's rules are one
+ * record in the IndexedDB `meta` table, in priority order.
+ *
+ * The sync worker evaluates rules whenever a metadata sync of INBOX inserts
+ * new messages (periodic sync, or the folder refresh triggered by a websocket
+ * `newMessage` event) and posts the matches back here. Actions are applied
+ * optimistically to the IndexedDB cache and sent to the server through the
+ * mutation queue of the account the message belongs to, so they survive going
+ * offline and switching accounts.
+ *
+ * Each rule has:
+ *   id:      unique identifier
+ *   name:    display name
+ *   query:   condition in the search grammar (search-query.js)
+ *   actions: [{ type: 'move' | 'label' | 'markRead' | 'star' | 'forward' | 'delete', value? }]
+ *   stop:    skip the remaining rules after this one matches
+ *   enabled: whether the rule runs
+ */
+
+function getAccount() {
+  return Local.get('email') || 'default';
+}
+
+/**
+ * Read the rules for an account, in priority order.
+ *
+ * @param {string} [account] - Account identifier (defaults to current account)
+ * @returns {Promise<Array<Object>>} Rules
+ */
+export async function listMailRules(account) {
+  try {
+    const record = await db.meta.get(rulesMetaKey(account || getAccount()));
+    return Array.isArray(record?.value) ? record.value : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Replace the rules for an account. The array order is the priority order.
+ *
+ * @param {Array<Object>} rules - Rules to store
+ * @param {string} [account] - Account identifier (defaults to current account)
+ * @returns {Promise<Array<Object>>} The normalized rules as stored
+ * @throws {Error} When a rule is invalid
+ */
+export async function saveMailRules(rules, account) {
+  const normalized = (rules || []).map((rule) => normalizeRule(rule));
+  await db.meta.put({
+    key: rulesMetaKey(account || getAccount()),
+    value: normalized,
+    updatedAt: Date.now(),
+  });
+  return normalized;
+}
+
+/**
+ * Render the account's enabled rules as a Sieve script.
+ */
+export async function exportSieveScript(account) {
+  return buildSieveScript(await listMailRules(account));
+}
+
+async function applyRulePlan(account, message, plan) {
+  const apiId = getMessageApiId(message);
+  if (!apiId) return;
+
+  const folder = message.folder;
+  const key = [account, message.id];
+  let flags = [...(message.flags || [])];
+  const changes = {};
+
+  // The queue adds \Seen / \Flagged when isUnread / isStarred are false
+  if (plan.markRead && !flags.includes('\\Seen')) {
+    await queueMutation(
+      'toggleRead',
+      { messageId: apiId, isUnread: false, flags, folder },
+      { account },
+    );
+    flags = [...flags, '\\Seen'];
+    Object.assign(changes, { is_unread: false, is_unread_index: 0 });
+  }
+  if (plan.star && !flags.includes('\\Flagged')) {
+    await queueMutation(
+      'toggleStar',
+      { messageId: apiId, isStarred: false, flags, folder },
+      { account },
+    );
+    flags = [...flags, '\\Flagged'];
+    changes.is_starred = true;
+  }
+  changes.flags = flags;
+
+  const currentLabels = message.labels || [];
+  const labels = [...new Set([...currentLabels, ...plan.labels])];
+  if (labels.length !== currentLabels.length) {
+    await queueMutation('label', { messageId: apiId, labels }, { account });
+    changes.labels = labels;
+  }
+
+  for (const to of plan.forwardTo) {
+    await queueMutation(
+      'forward',
+      { messageId: apiId, folder, to, subject: message.subject },
+      { account },
+    );
+  }
+
+  if (plan.delete) {
+    await queueMutation('delete', { messageId: apiId, permanent: false }, { account });
+    await db.messages
+      .where('[account+id]')
+      .equals(key)
+      .delete()
+      .catch(() => {});
+    return;
+  }
+
+  if (plan.moveTo && plan.moveTo !== folder) {
+    await queueMutation('move', { messageId: apiId, targetFolder: plan.moveTo }, { account });
+    changes.folder = plan.moveTo;
+  }
+
+  await db.messages
+    .where('[account+id]')
+    .equals(key)
+    .modify(changes)
+    .catch(() => {});
+}
+
+/**
+ * Apply rule matches reported by the sync worker.
+ */
+export async function applyRuleMatches({ account, matches } = {}) {
+  if (!matches?.length) return;
+  for (const { message, plan } of matches) {
+    try {
+      await applyRulePlan(account || getAccount(), message, plan);
+    } catch (err) {
+      warn('[mail-rules] Failed to apply rules to message', message?.id, err);
+    }
+  }
+}
+
+/**
+ * Start applying rule matches from the sync worker.
+ * Call once on app startup.
+ */
+let initialized = false;
+export function initMailRules() {
+  if (initialized) return;
+  initialized = true;
+  onSyncRuleMatches((data) => {
+    applyRuleMatches(data);
+  });
+}
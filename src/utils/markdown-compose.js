@@ -0,0 +1,100 @@
+import { Marked } from 'marked';
+import { sanitizeHtml } from './sanitize.js';
+
+/**
+ * Markdown Compose
+ *
+ * Renders the composer's Markdown mode for the live preview and for sending:
+ * the Markdown source goes out as text/plain and this HTML as text/html.
+ *
+ * Mail clients drop <style> blocks and class-based CSS, so code blocks,
+ * inline code, tables and quotes carry inline styles instead. A signature
+ * after a "-- " line (see compose-signatures.ts) is kept as written, line by
+ * line, in a signature block.
+ */
+
+const MONOSPACE = "SFMono-Regular, Consolas, 'Liberation Mono', Menlo, monospace";
+
+const STYLES = {
+  pre: `margin: 0 0 12px; padding: 12px; background-color: #f6f8fa; border: 1px solid #d0d7de; border-radius: 6px; overflow: auto; font-family: ${MONOSPACE}; font-size: 13px; line-height: 1.45; white-space: pre; color: #1f2328;`,
+  code: `padding: 0.1em 0.3em; background-color: #f6f8fa; border-radius: 4px; font-family: ${MONOSPACE}; font-size: 90%; color: #1f2328;`,
+  table: 'margin: 0 0 12px; border-collapse: collapse; border-spacing: 0;',
+  th: 'padding: 6px 12px; border: 1px solid #d0d7de; background-color: #f6f8fa; font-weight: 600;',
+  td: 'padding: 6px 12px; border: 1px solid #d0d7de;',
+  blockquote: 'margin: 0 0 12px; padding: 0 12px; border-left: 4px solid #d0d7de; color: #57606a;',
+};
+
+// A quoted reply after the signature ends it
+const QUOTE_START_PATTERN = /^>|wrote:\s*$|Forwarded message/i;
+
+const escapeHtml = (value) =>
+  String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const markdown = new Marked({
+  gfm: true,
+  breaks: false,
+  renderer: {
+    code(code, infostring, escaped) {
+      const language = (infostring || '').trim().split(/\s+/)[0];
+      const languageClass = language ? ` class="language-${escapeHtml(language)}"` : '';
+      const text = escaped ? code : escapeHtml(code);
+      return `<pre style="${STYLES.pre}"><code${languageClass} style="font-family: ${MONOSPACE};">${text}</code></pre>\n`;
+    },
+    codespan(text) {
+      return `<code style="${STYLES.code}">${text}</code>`;
+    },
+    table(header, body) {
+      return `<table style="${STYLES.table}"><thead>${header}</thead><tbody>${body}</tbody></table>\n`;
+    },
+    tablecell(content, flags) {
+      const tag = flags.header ? 'th' : 'td';
+      const align = flags.align ? ` text-align: ${flags.align};` : '';
+      return `<${tag} style="${STYLES[tag]}${align}">${content}</${tag}>`;
+    },
+    blockquote(quote) {
+      return `<blockquote style="${STYLES.blockquote}">${quote}</blockquote>\n`;
+    },
+  },
+});
+
+/**
+ * Split a "-- " signature out of the Markdown, so it is not run through
+ * Markdown (where "--" and line breaks mean something else).
+ *
+ * @returns {{ before: string, signature: string[], after: string }}
+ */
+function splitSignature(source) {
+  const lines = source.split('\n');
+  const start = lines.indexOf('-- ');
+  if (start === -1) return { before: source, signature: [], after: '' };
+  let end = start + 1;
+  while (end < lines.length && !QUOTE_START_PATTERN.test(lines[end])) end += 1;
+  const signature = lines.slice(start + 1, end);
+  while (signature.length && !signature[signature.length - 1].trim()) signature.pop();
+  return {
+    before: lines.slice(0, start).join('\n'),
+    signature,
+    after: lines.slice(end).join('\n'),
+  };
+}
+
+/**
+ * Render Markdown to sanitized, inline-styled HTML.
+ *
+ * @param {string} source - Markdown text
+ * @returns {string} HTML for the text/html part
+ */
+export function renderMarkdown(source = '') {
+  if (!source || !source.trim()) return '';
+  const { before, signature, after } = splitSignature(source);
+  let html = markdown.parse(before, { async: false });
+  if (signature.length) {
+    html += `<div class="fe-signature"><p>-- <br>${signature.map(escapeHtml).join('<br>')}</p></div>`;
+  }
+  if (after.trim()) html += markdown.parse(after, { async: false });
+  return sanitizeHtml(html, { blockRemoteImages: false, blockTrackingPixels: false }).html;
+}
@@ -22,6 +22,13 @@ const normalizeSortUid = (value: unknown): number | null => {
   return null;
 };
 
+/**
+ * When a message sorts by date: its date, or when it was woken from a snooze
+ * if that is later.
+ */
+const messageSortDate = (msg: MessageLike | null | undefined): number =>
+  Math.max(normalizeSortDate(msg?.dateMs ?? msg?.date ?? msg?.Date), Number(msg?.wokenAt) || 0);
+
 const getMessageUidValue = (msg: MessageLike | null | undefined): number | null =>
   normalizeSortUid(msg?.uid ?? msg?.Uid ?? msg?.id ?? msg?.message_id ?? msg?.messageId ?? null);
 
@@ -41,12 +48,9 @@ const sortMessages = <T extends MessageLike>(list: T[] = [], order: SortOrder =
   }
 
   const items = Array.isArray(list) ? [...list] : [];
-  const dateValue = (msg: MessageLike): number =>
-    normalizeSortDate(msg?.dateMs ?? msg?.date ?? msg?.Date);
-
   const compareByDate = (a: MessageLike, b: MessageLike, direction: number): number => {
-    const aDate = dateValue(a);
-    const bDate = dateValue(b);
+    const aDate = messageSortDate(a);
+    const bDate = messageSortDate(b);
     if (aDate !== bDate) return direction * (aDate - bDate);
     const aUid = getMessageUidValue(a);
     const bUid = getMessageUidValue(b);
@@ -176,4 +180,11 @@ const sortConversations = <T extends ConversationLike>(
   return sorted;
 };
 
-export { normalizeSortDate, normalizeSortUid, getMessageUidValue, sortMessages, sortConversations };
+export {
+  normalizeSortDate,
+  normalizeSortUid,
+  getMessageUidValue,
+  messageSortDate,
+  sortMessages,
+  sortConversations,
+};
@@ -0,0 +1,32 @@
+/**
+ * Saving a processed mutation queue
+ *
+ * An account's queue is one `meta` record that the app (mutation-queue.js)
+ * and the service worker (sync-core.js) both process from a snapshot, while
+ * new mutations may be queued. A run saves its results by merging them into
+ * the queue as stored at that moment, under the queue's lock (web-locks.js).
+ *
+ * sync-core.js imports this module, so it must not import anything itself
+ * (see scripts/build-sw-sync.js).
+ */
+
+export const MUTATION_QUEUE_PREFIX = 'mutation_queue_';
+
+export const mutationQueueKey = (account) => `${MUTATION_QUEUE_PREFIX}${account}`;
+
+/**
+ * The queue to store after a run: the stored queue with each processed
+ * mutation in its new state, minus finished ones. Mutations queued during the
+ * run are kept, and ones removed meanwhile stay removed.
+ *
+ * @param {Array<Object>} stored - The queue as stored now
+ * @param {Array<Object>} processed - The run's snapshot, updated
+ * @param {(mutation: Object) => boolean} isFinished - Whether to drop a mutation
+ * @returns {Array<Object>}
+ */
+export function mergeProcessedQueue(stored = [], processed = [], isFinished) {
+  const updated = new Map(processed.map((mutation) => [mutation.id, mutation]));
+  return stored
+    .map((mutation) => updated.get(mutation.id) || mutation)
+    .filter((mutation) => !isFinished(mutation));
+}
@@ -1,24 +1,33 @@
 import { db } from './db';
-import { Local } from './storage';
+import { Accounts, Local } from './storage';
 import { Remote } from './remote';
-import { getAuthHeader } from './auth';
+import { getAccountAuthHeader, getAuthHeader } from './auth';
 import { config } from '../config';
 import { writable } from 'svelte/store';
 import { warn } from './logger.ts';
 import { canUseBackgroundSync } from './platform.js';
+import { buildForwardPayload } from './forward-payload.js';
+import { withLock } from './web-locks.js';
+import { mergeProcessedQueue, mutationQueueKey } from './mutation-queue-helpers.js';
 
 /**
  * Offline Mutation Queue
  *
- * Queues mail operations (toggle read, star, move, delete, label) when offline.
- * Processes the queue when connectivity is restored.
+ * Queues mail operations (toggle read, star, move, delete, label, forward),
+ * contact changes and calendar event changes when offline. Processes the
+ * queue when connectivity is restored.
  *
  * Mutations are stored in the IndexedDB `meta` table under a per-account key
- * to avoid requiring a schema migration.
+ * to avoid requiring a schema migration. Mutations for messages of another
+ * signed-in account (the unified inbox) go to that account's queue and are
+ * sent with its credentials. The service worker (sync-core.js) processes the
+ * same records; every write holds the queue's Web Lock.
  *
  * Each mutation has:
  *   id:        unique identifier
- *   type:      'toggleRead' | 'toggleStar' | 'move' | 'delete' | 'label'
+ *   type:      'toggleRead' | 'toggleStar' | 'move' | 'delete' | 'label' | 'forward'
+ *              | 'contactCreate' | 'contactUpdate' | 'contactDelete'
+ *              | 'calendarEventCreate' | 'calendarEventUpdate' | 'calendarEventDelete'
  *   payload:   operation-specific data (messageId, folder, flags, etc.)
  *   status:    'pending' | 'processing' | 'failed'
  *   retryCount: number of attempts
@@ -28,21 +37,27 @@ import { canUseBackgroundSync } from './platform.js';
 const MAX_RETRIES = 5;
 const BASE_BACKOFF_MS = 3000;
 const MAX_BACKOFF_MS = 2 * 60 * 1000;
-const QUEUE_KEY_PREFIX = 'mutation_queue_';
 
 export const mutationQueueCount = writable(0);
 export const mutationQueueProcessing = writable(false);
 
-let processing = false;
+// Accounts whose queue is being processed
+const processing = new Set();
+// Accounts whose queue was asked to run again during a run
+const rerun = new Set();
 
 function getAccount() {
   return Local.get('email') || 'default';
 }
 
 function queueKey(account) {
-  return `${QUEUE_KEY_PREFIX}${account}`;
+  return mutationQueueKey(account || getAccount());
 }
 
+const isFinished = (mutation) =>
+  mutation.status === 'completed' ||
+  (mutation.status === 'failed' && mutation.retryCount >= MAX_RETRIES);
+
 function calculateBackoff(retryCount) {
   const delay = Math.min(BASE_BACKOFF_MS * Math.pow(2, retryCount), MAX_BACKOFF_MS);
   return Math.floor(delay + delay * Math.random() * 0.2);
@@ -53,7 +68,7 @@ function calculateBackoff(retryCount) {
  */
 async function readQueue(account) {
   try {
-    const record = await db.meta.get(queueKey(account || getAccount()));
+    const record = await db.meta.get(queueKey(account));
     return Array.isArray(record?.value) ? record.value : [];
   } catch {
     return [];
@@ -61,12 +76,14 @@ async function readQueue(account) {
 }
 
 /**
- * Write the mutation queue for the current account to IndexedDB.
+ * Write the mutation queue for an account to IndexedDB.
  */
 async function writeQueue(account, queue) {
-  const key = queueKey(account || getAccount());
+  const key = queueKey(account);
   await db.meta.put({ key, value: queue, updatedAt: Date.now() });
-  mutationQueueCount.set(queue.filter((m) => m.status !== 'completed').length);
+  if (!account || account === getAccount()) {
+    mutationQueueCount.set(queue.filter((m) => m.status !== 'completed').length);
+  }
 }
 
 /**
@@ -75,16 +92,20 @@ async function writeQueue(account, queue) {
  *
  * @param {string} type - Mutation type
  * @param {Object} payload - Operation-specific payload
+ * @param {Object} [options]
+ * @param {string} [options.account] - Account owning the message (defaults to current account)
  * @returns {Promise<Object>} The queued mutation record
  */
-export async function queueMutation(type, payload) {
-  const account = getAccount();
-  const queue = await readQueue(account);
+export async function queueMutation(type, payload, { account: owner } = {}) {
+  const account = owner || getAccount();
 
   // Store auth info so the SW can process mutations when the tab is closed
   let authHeader = '';
   try {
-    authHeader = getAuthHeader({ required: false });
+    authHeader =
+      account === getAccount()
+        ? getAuthHeader({ required: false })
+        : getAccountAuthHeader(account, { required: false });
   } catch {
     // Auth not available — SW will skip if header is missing
   }
@@ -99,12 +120,14 @@ export async function queueMutation(type, payload) {
     apiBase: config.apiBase || '',
     authHeader,
   };
-  queue.push(mutation);
-  await writeQueue(account, queue);
+  await withLock(queueKey(account), async () => {
+    const queue = await readQueue(account);
+    await writeQueue(account, [...queue, mutation]);
+  });
 
   // If online, process immediately; otherwise register Background Sync
   if (navigator.onLine) {
-    processMutationQueue();
+    processMutationQueue(account);
   } else {
     registerBackgroundSync();
   }
@@ -149,7 +172,11 @@ async function executeMutation(mutation) {
       await Remote.request(
         'MessageUpdate',
         { flags, folder: payload.folder },
-        { method: 'PUT', pathOverride: `/v1/messages/${encodeURIComponent(payload.messageId)}` },
+        {
+          method: 'PUT',
+          pathOverride: `/v1/messages/${encodeURIComponent(payload.messageId)}`,
+          account: payload.account,
+        },
       );
       return true;
     }
@@ -161,7 +188,11 @@ async function executeMutation(mutation) {
       await Remote.request(
         'MessageUpdate',
         { flags, folder: payload.folder },
-        { method: 'PUT', pathOverride: `/v1/messages/${encodeURIComponent(payload.messageId)}` },
+        {
+          method: 'PUT',
+          pathOverride: `/v1/messages/${encodeURIComponent(payload.messageId)}`,
+          account: payload.account,
+        },
       );
       return true;
     }
@@ -170,7 +201,11 @@ async function executeMutation(mutation) {
       await Remote.request(
         'MessageUpdate',
         { folder: payload.targetFolder },
-        { method: 'PUT', pathOverride: `/v1/messages/${encodeURIComponent(payload.messageId)}` },
+        {
+          method: 'PUT',
+          pathOverride: `/v1/messages/${encodeURIComponent(payload.messageId)}`,
+          account: payload.account,
+        },
       );
       return true;
     }
@@ -178,7 +213,11 @@ async function executeMutation(mutation) {
     case 'delete': {
       let path = `/v1/messages/${encodeURIComponent(payload.messageId)}`;
       if (payload.permanent) path += '?permanent=1';
-      await Remote.request('MessageDelete', {}, { method: 'DELETE', pathOverride: path });
+      await Remote.request(
+        'MessageDelete',
+        {},
+        { method: 'DELETE', pathOverride: path, account: payload.account },
+      );
       return true;
     }
 
@@ -186,11 +225,52 @@ async function executeMutation(mutation) {
       await Remote.request(
         'MessageUpdate',
         { labels: payload.labels },
-        { method: 'PUT', pathOverride: `/v1/messages/${encodeURIComponent(payload.messageId)}` },
+        {
+          method: 'PUT',
+          pathOverride: `/v1/messages/${encodeURIComponent(payload.messageId)}`,
+          account: payload.account,
+        },
       );
       return true;
     }
 
+    case 'forward': {
+      const original = await Remote.request(
+        'Message',
+        {},
+        {
+          method: 'GET',
+          pathOverride: `/v1/messages/${encodeURIComponent(payload.messageId)}?folder=${encodeURIComponent(payload.folder || '')}&raw=true`,
+          account: payload.account,
+        },
+      );
+      const raw = (original?.Result || original)?.raw;
+      if (!raw) throw new Error('Original message not available');
+      await Remote.request('Emails', buildForwardPayload(payload, raw), {
+        method: 'POST',
+        account: payload.account,
+      });
+      return true;
+    }
+
+    case 'contactCreate':
+    case 'contactUpdate':
+    case 'contactDelete': {
+      // Sends whatever change the cached contact holds now (edits coalesce)
+      const { pushContactChange } = await import('./contact-cache.js');
+      await pushContactChange(payload);
+      return true;
+    }
+
+    case 'calendarEventCreate':
+    case 'calendarEventUpdate':
+    case 'calendarEventDelete': {
+      // Sends whatever change the cached event holds now (edits coalesce)
+      const { pushCalendarEventChange } = await import('./calendar-cache.js');
+      await pushCalendarEventChange(payload);
+      return true;
+    }
+
     default:
       warn('[mutation-queue] Unknown mutation type:', type);
       return false;
@@ -198,19 +278,26 @@ async function executeMutation(mutation) {
 }
 
 /**
- * Process the mutation queue — execute pending mutations in order.
+ * Process an account's mutation queue — execute pending mutations in order.
+ *
+ * @param {string} [account] - Account identifier (defaults to current account)
  */
-export async function processMutationQueue() {
-  if (processing || !navigator.onLine) return;
-
-  const account = getAccount();
-  const queue = await readQueue(account);
-  if (!queue.length) return;
-
-  processing = true;
-  mutationQueueProcessing.set(true);
+export async function processMutationQueue(account = getAccount()) {
+  if (!navigator.onLine) return;
+  if (processing.has(account)) {
+    // A mutation queued during the run (e.g. a calendar event edited while
+    // its change was being sent) runs once this run is saved
+    rerun.add(account);
+    return;
+  }
+  // Claimed before the first await, so a second call can't start a run too
+  processing.add(account);
 
   try {
+    const queue = await readQueue(account);
+    if (!queue.length) return;
+    mutationQueueProcessing.set(true);
+
     let modified = false;
     for (const mutation of queue) {
       if (!navigator.onLine) break;
@@ -242,11 +329,12 @@ export async function processMutationQueue() {
       const permanentlyFailed = queue.filter(
         (m) => m.status === 'failed' && m.retryCount >= MAX_RETRIES,
       );
-      // Remove completed and permanently-failed mutations
-      const remaining = queue.filter(
-        (m) => m.status !== 'completed' && !(m.status === 'failed' && m.retryCount >= MAX_RETRIES),
-      );
-      await writeQueue(account, remaining);
+      // Mutations may have been queued during the run (contact and calendar
+      // pushes queue their follow-up edits), so merge into the stored queue
+      await withLock(queueKey(account), async () => {
+        const stored = await readQueue(account);
+        await writeQueue(account, mergeProcessedQueue(stored, queue, isFinished));
+      });
 
       if (permanentlyFailed.length && typeof window !== 'undefined') {
         window.dispatchEvent(
@@ -257,8 +345,19 @@ export async function processMutationQueue() {
       }
     }
   } finally {
-    processing = false;
-    mutationQueueProcessing.set(false);
+    processing.delete(account);
+    mutationQueueProcessing.set(processing.size > 0);
+    if (rerun.delete(account)) processMutationQueue(account);
+  }
+}
+
+/**
+ * Process the queues of every signed-in account.
+ */
+function processAllMutationQueues() {
+  const accounts = new Set([getAccount(), ...Accounts.getAll().map((a) => a.email)]);
+  for (const account of accounts) {
+    if (account) processMutationQueue(account);
   }
 }
 
@@ -277,9 +376,11 @@ export async function getMutationQueueCount() {
  */
 export async function clearCompletedMutations() {
   const account = getAccount();
-  const queue = await readQueue(account);
-  const remaining = queue.filter((m) => m.status === 'pending' || m.status === 'processing');
-  await writeQueue(account, remaining);
+  await withLock(queueKey(account), async () => {
+    const queue = await readQueue(account);
+    const remaining = queue.filter((m) => m.status === 'pending' || m.status === 'processing');
+    await writeQueue(account, remaining);
+  });
 }
 
 /**
@@ -293,7 +394,7 @@ export function initMutationQueue() {
 
   // Process queue when coming back online
   window.addEventListener('online', () => {
-    processMutationQueue();
+    processAllMutationQueues();
   });
 
   // Listen for Background Sync completion to refresh counts.
@@ -314,13 +415,13 @@ export function initMutationQueue() {
 
   // Process any pending mutations on startup
   if (navigator.onLine) {
-    processMutationQueue();
+    processAllMutationQueues();
   }
 
   // Periodic check for mutations with expired backoff
   setInterval(() => {
-    if (navigator.onLine && !processing) {
-      processMutationQueue();
+    if (navigator.onLine) {
+      processAllMutationQueues();
     }
   }, 30000);
 }
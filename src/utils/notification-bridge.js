@@ -8,6 +8,9 @@
  *   - Tauri     -> @tauri-apps/plugin-notification (desktop + mobile)
  *
  * Every call-site uses the same notify() function regardless of platform.
+ * Notifications with an action type get buttons (the service worker's
+ * notification actions on the web, registered action types on Tauri); clicks
+ * and button presses reach onNotificationAction() listeners.
  *
  * Hardening:
  *   - All string inputs are sanitised (length-limited, control chars stripped).
@@ -42,7 +45,18 @@ function sanitize(value, maxLen) {
 }
 
 // Allowed Android notification channel IDs
-const ALLOWED_CHANNEL_IDS = new Set(['new-mail', 'sync-status']);
+const ALLOWED_CHANNEL_IDS = new Set(['new-mail', 'sync-status', 'calendar-reminders']);
+
+// Notification buttons, by action type
+const ACTION_TYPES = {
+  'calendar-reminder': [
+    { id: 'snooze', title: 'Snooze' },
+    { id: 'open', title: 'Open event' },
+  ],
+};
+
+const actionListeners = new Set();
+let actionsListening = false;
 
 // ── Public API ──────────────────────────────────────────────────────────────
 
@@ -71,21 +85,61 @@ export async function requestPermission() {
  * @param {string} [options.tag]     - de-duplication tag
  * @param {Object} [options.data]    - arbitrary data attached to the notification
  * @param {string} [options.channelId] - Android notification channel
+ * @param {string} [options.actionTypeId] - buttons to show (see ACTION_TYPES)
  */
-export async function notify({ title, body, icon, tag, data, channelId }) {
+export async function notify({ title, body, icon, tag, data, channelId, actionTypeId }) {
   // Sanitise all string inputs
   const safeTitle = sanitize(title, MAX_TITLE_LENGTH);
   const safeBody = sanitize(body, MAX_BODY_LENGTH);
   const safeTag = sanitize(tag, MAX_TAG_LENGTH);
 
   if (!safeTitle) return; // Title is required
+  const safeActionType = ACTION_TYPES[actionTypeId] ? actionTypeId : undefined;
 
   if (isTauri) {
     const safeChannel = channelId && ALLOWED_CHANNEL_IDS.has(channelId) ? channelId : undefined;
-    return _notifyTauri({ title: safeTitle, body: safeBody, channelId: safeChannel });
+    return _notifyTauri({
+      title: safeTitle,
+      body: safeBody,
+      channelId: safeChannel,
+      actionTypeId: safeActionType,
+      data,
+    });
   }
 
-  return _notifyWeb({ title: safeTitle, body: safeBody, icon, tag: safeTag, data });
+  return _notifyWeb({
+    title: safeTitle,
+    body: safeBody,
+    icon,
+    tag: safeTag,
+    data,
+    actions: safeActionType ? ACTION_TYPES[safeActionType] : [],
+  });
+}
+
+/**
+ * Listen for notification clicks. The listener gets the pressed button's id
+ * (empty for a click on the notification itself) and the notification's
+ * data.
+ *
+ * @param {(event: { action: string, data: Object }) => void} listener
+ * @returns {() => void} Removes the listener
+ */
+export function onNotificationAction(listener) {
+  actionListeners.add(listener);
+  if (!actionsListening) {
+    actionsListening = true;
+    if (isTauri) {
+      _listenTauriActions();
+    } else if (typeof navigator !== 'undefined' && 'serviceWorker' in navigator) {
+      // Posted by the service worker's notificationclick handler (sw-sync.js)
+      navigator.serviceWorker.addEventListener('message', (event) => {
+        if (event.data?.type !== 'notificationAction') return;
+        _dispatchAction(event.data.action, event.data.data);
+      });
+    }
+  }
+  return () => actionListeners.delete(listener);
 }
 
 /**
@@ -114,9 +168,40 @@ export async function initNotificationChannels() {
       visibility: 0,
       vibration: false,
     });
+    await mod.createChannel({
+      id: 'calendar-reminders',
+      name: 'Event Reminders',
+      description: 'Reminders for upcoming calendar events',
+      importance: 4,
+      visibility: 0,
+      vibration: true,
+      sound: 'default',
+    });
   } catch {
     // Channels may already exist.
   }
+  if (!mod.registerActionTypes) return;
+  try {
+    await mod.registerActionTypes(
+      Object.entries(ACTION_TYPES).map(([id, actions]) => ({
+        id,
+        actions: actions.map((action) => ({ ...action, foreground: action.id === 'open' })),
+      })),
+    );
+  } catch {
+    // Not supported on desktop.
+  }
+}
+
+function _dispatchAction(action, data) {
+  const event = { action: typeof action === 'string' ? action : '', data: data || {} };
+  for (const listener of actionListeners) {
+    try {
+      listener(event);
+    } catch (err) {
+      console.warn('[notification-bridge] Notification action listener failed:', err);
+    }
+  }
 }
 
 // ── Tauri implementation ────────────────────────────────────────────────────
@@ -134,7 +219,7 @@ async function _requestTauriPermission() {
   }
 }
 
-async function _notifyTauri({ title, body, channelId }) {
+async function _notifyTauri({ title, body, channelId, actionTypeId, data }) {
   const mod = await ensureTauriNotification();
   if (!mod) return;
   try {
@@ -142,15 +227,30 @@ async function _notifyTauri({ title, body, channelId }) {
     if (!granted) return;
     const payload = { title, body: body || '' };
     if (channelId) payload.channelId = channelId;
+    if (actionTypeId) payload.actionTypeId = actionTypeId;
+    if (data) payload.extra = data;
     mod.sendNotification(payload);
   } catch (err) {
     console.warn('[notification-bridge] Tauri notification failed:', err);
   }
 }
 
+async function _listenTauriActions() {
+  const mod = await ensureTauriNotification();
+  if (!mod || !mod.onAction) return;
+  try {
+    await mod.onAction((event) => {
+      const notification = event?.notification || event;
+      _dispatchAction(event?.actionId, notification?.extra);
+    });
+  } catch (err) {
+    console.warn('[notification-bridge] Tauri notification actions unavailable:', err);
+  }
+}
+
 // ── Web implementation ──────────────────────────────────────────────────────
 
-function _notifyWeb({ title, body, icon, tag, data }) {
+function _notifyWeb({ title, body, icon, tag, data, actions }) {
   if (typeof Notification === 'undefined' || Notification.permission !== 'granted') {
     return;
   }
@@ -158,11 +258,22 @@ function _notifyWeb({ title, body, icon, tag, data }) {
   // Prefer SW-based notification for persistence (survives tab close)
   if ('serviceWorker' in navigator && navigator.serviceWorker.controller) {
     navigator.serviceWorker.ready.then((reg) => {
-      reg.showNotification(title, { body, icon, tag, data });
+      reg.showNotification(title, {
+        body,
+        icon,
+        tag,
+        data,
+        actions: actions.map(({ id, title: label }) => ({ action: id, title: label })),
+      });
     });
     return;
   }
 
-  // Fallback to basic Notification API
-  new Notification(title, { body, icon, tag, data });
+  // Fallback to basic Notification API (no buttons)
+  const notification = new Notification(title, { body, icon, tag, data });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+    _dispatchAction('', data);
+  };
 }
@@ -161,7 +161,8 @@ export function getBadgeCount() {
 }
 
 /**
- * Initialise the badge count from the mailbox store's INBOX unread count.
+ * Initialise the badge count from the mailbox store's INBOX unread count,
+ * plus the cached INBOX unread counts of the other signed-in accounts.
  * Call once after the mailbox store has loaded folders.
  * This ensures the badge reflects reality on app start, not just WS deltas.
  */
@@ -169,10 +170,12 @@ export async function initBadgeFromStore() {
   try {
     const { get } = await import('svelte/store');
     const { mailboxStore } = await import('../stores/mailboxStore');
+    const { countUnifiedUnread } = await import('./unified-inbox.js');
     const folders = get(mailboxStore.state.folders) || [];
     const inbox = folders.find((f) => f.path?.toUpperCase?.() === 'INBOX');
     if (inbox && typeof inbox.count === 'number' && inbox.count >= 0) {
-      await setBadgeCount(inbox.count);
+      const others = await countUnifiedUnread('INBOX', { skipActive: true }).catch(() => 0);
+      await setBadgeCount(inbox.count + others);
     }
   } catch {
     // Store may not be ready yet — badge will sync from WS events
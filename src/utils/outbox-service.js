@@ -13,10 +13,21 @@ import { isDemoMode, showDemoBlockedToast } from './demo-mode';
  *
  * Status flow: pending -> sending -> sent | failed
  *              scheduled -> sending -> sent | failed
+ * An item only moves to sending if its status hasn't changed since it was
+ * read, and undoSend() only removes it if it hasn't moved on, so a message
+ * is either undone or sent, never both.
  * On failure: retries with exponential backoff up to MAX_RETRIES
  * After MAX_RETRIES: status becomes 'failed' and requires manual retry
  *
  * Scheduled emails: queued with sendAt timestamp, processed when time arrives
+ *
+ * Undo send: queued with undoDelayMs, the item stays pending until the delay
+ * has passed (nextRetryAt) and can be taken back with undoSend() until then.
+ * The compose state stored with it lets the composer reopen the message as it
+ * was, even when emailData has been PGP-protected.
+ *
+ * Replies from the unified inbox are sent as the account that received the
+ * original (`sendAccount`), while staying in the active account's outbox.
  */
 
 // Configuration
@@ -38,6 +49,8 @@ export const outboxProcessing = writable(false);
 // Track if processor is running
 let processorRunning = false;
 let processorInterval = null;
+// Timers that send held (undo send) items once their delay is over, by item id
+const undoTimers = new Map();
 
 function getAccount() {
   return Local.get('email') || 'default';
@@ -53,6 +66,29 @@ function calculateBackoff(retryCount) {
   return Math.floor(delay + jitter);
 }
 
+/**
+ * Send a held item once its undo delay is over. If the processor is busy, try
+ * again shortly; while offline, the online handler picks it up.
+ */
+function scheduleHeldSend(id, delay) {
+  clearTimeout(undoTimers.get(id));
+  const timer = setTimeout(() => {
+    undoTimers.delete(id);
+    if (!navigator.onLine) return;
+    if (processorRunning) {
+      scheduleHeldSend(id, 1000);
+      return;
+    }
+    processOutbox();
+  }, delay);
+  undoTimers.set(id, timer);
+}
+
+function clearHeldSend(id) {
+  clearTimeout(undoTimers.get(id));
+  undoTimers.delete(id);
+}
+
 /**
  * Queue an email for sending
  * @param {Object} emailData - Email payload (from, to, cc, bcc, subject, html/text, attachments)
@@ -60,6 +96,9 @@ function calculateBackoff(retryCount) {
  * @param {boolean} options.skipProcess - Skip immediate processing
  * @param {number} options.sendAt - Timestamp for scheduled send (optional)
  * @param {string} options.serverId - Server ID for scheduled emails already submitted to server
+ * @param {number} options.undoDelayMs - Hold the email this long so it can be undone (optional)
+ * @param {Object} options.compose - Compose state to reopen on undo (optional)
+ * @param {string} options.account - Signed-in account to send as (optional, defaults to current)
  * @returns {Promise<Object>} The queued outbox record
  */
 export async function queueEmail(emailData, options = {}) {
@@ -72,23 +111,34 @@ export async function queueEmail(emailData, options = {}) {
   }
 
   const account = getAccount();
-  const { skipProcess = false, sendAt = null, serverId = null } = options || {};
+  const {
+    skipProcess = false,
+    sendAt = null,
+    serverId = null,
+    undoDelayMs = 0,
+    compose = null,
+    account: sendAccount = null,
+  } = options || {};
   const id = `${OUTBOX_PREFIX}${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
   const now = Date.now();
 
   // If sendAt is provided and in the future, set status to 'scheduled'
   const isScheduled = sendAt && sendAt > now;
+  const holdMs = !isScheduled && undoDelayMs > 0 ? undoDelayMs : 0;
 
   const record = {
     id,
     account,
     status: isScheduled ? 'scheduled' : 'pending',
     retryCount: 0,
-    nextRetryAt: isScheduled ? sendAt : now, // Ready to send immediately or at scheduled time
+    // Ready to send immediately, after the undo delay, or at scheduled time
+    nextRetryAt: isScheduled ? sendAt : now + holdMs,
     sendAt: sendAt || null, // Store the scheduled timestamp
     serverId: serverId || null, // Store server ID for scheduled emails
+    sendAccount: sendAccount && sendAccount !== account ? sendAccount : null,
     lastError: null,
     emailData,
+    compose,
     createdAt: now,
     updatedAt: now,
   };
@@ -97,8 +147,12 @@ export async function queueEmail(emailData, options = {}) {
   await updateOutboxCount();
 
   // Only trigger immediate processing if not scheduled and online
-  if (!skipProcess && !isScheduled && navigator.onLine) {
-    processOutbox();
+  if (!skipProcess && !isScheduled) {
+    if (holdMs) {
+      scheduleHeldSend(id, holdMs);
+    } else if (navigator.onLine) {
+      processOutbox();
+    }
   }
 
   return record;
@@ -179,7 +233,10 @@ async function updateOutboxCount() {
  * Save a copy of sent message to Sent folder (client-side workaround)
  * Similar to saveSentCopy in Compose.svelte
  */
-async function saveSentCopyToFolder(emailPayload) {
+async function saveSentCopyToFolder(emailPayload, sendAccount = null) {
+  if (sendAccount && sendAccount !== getAccount()) {
+    return saveSentCopy(emailPayload, sendAccount);
+  }
   return saveSentCopy(emailPayload, getAccount(), 'Outbox');
 }
 
@@ -191,6 +248,16 @@ async function sendOutboxItem(item) {
   const account = getAccount();
   const now = Date.now();
 
+  // Claim the item: it only moves to 'sending' if it is still as it was
+  // read, so an undo or another tab's send in between wins and nothing is sent
+  const claimed = await db.outbox
+    .where('[account+id+status]')
+    .equals([account, item.id, item.status])
+    .modify({ status: 'sending', updatedAt: now });
+  if (!claimed) {
+    return { success: false, cancelled: true };
+  }
+
   // If this item was already scheduled on the server, do not send it again.
   if (item.status === 'scheduled' && item.serverId && item.sendAt && item.sendAt <= now) {
     await db.outbox.update([account, item.id], {
@@ -215,12 +282,6 @@ async function sendOutboxItem(item) {
     return { success: true, skipped: true };
   }
 
-  // Mark as sending
-  await db.outbox.update([account, item.id], {
-    status: 'sending',
-    updatedAt: Date.now(),
-  });
-
   try {
     // Build payload - include send_at if this was a scheduled email
     const payload = { ...item.emailData };
@@ -232,19 +293,20 @@ async function sendOutboxItem(item) {
       }
     }
 
-    await Remote.request('Emails', payload, { method: 'POST' });
+    await Remote.request('Emails', payload, { method: 'POST', account: item.sendAccount });
 
     // Save copy to Sent folder (client-side workaround)
     try {
-      await saveSentCopyToFolder(item.emailData);
+      await saveSentCopyToFolder(item.emailData, item.sendAccount);
     } catch (sentErr) {
       console.error('[Outbox] Failed to save sent copy:', sentErr);
       // Don't fail the overall send if saving to Sent fails
     }
 
-    // Success - mark as sent
+    // Success - mark as sent (the compose state is only needed for undo)
     await db.outbox.update([account, item.id], {
       status: 'sent',
+      compose: null,
       lastError: null,
       updatedAt: Date.now(),
     });
@@ -323,6 +385,8 @@ export async function processOutbox() {
 
         if (result.success) {
           results.sent++;
+        } else if (result.cancelled) {
+          results.processed--;
         } else {
           results.failed++;
         }
@@ -453,6 +517,41 @@ export async function cancelScheduledEmail(id) {
   return { success: true };
 }
 
+/**
+ * Take back an email that has not gone out yet: one held for undo send, or a
+ * scheduled one (cancelled on the server too if it was submitted there).
+ * @param {string} id - Outbox item ID
+ * @returns {Promise<{success: boolean, item?: Object, error?: string}>} The removed item, whose
+ *   compose state can be reopened
+ */
+export async function undoSend(id) {
+  const account = getAccount();
+  const item = await db.outbox.get([account, id]);
+
+  if (!item || item.status === 'sending' || item.status === 'sent') {
+    return { success: false, error: 'The message has already been sent.' };
+  }
+
+  clearHeldSend(id);
+
+  if (item.status === 'scheduled') {
+    const result = await cancelScheduledEmail(id);
+    return result.success ? { success: true, item } : result;
+  }
+
+  // Only if it hasn't started sending since it was read
+  const removed = await db.outbox
+    .where('[account+id+status]')
+    .equals([account, id, item.status])
+    .delete();
+  if (!removed) {
+    return { success: false, error: 'The message has already been sent.' };
+  }
+  await updateOutboxCount();
+
+  return { success: true, item };
+}
+
 /**
  * Delete all sent items (cleanup)
  */
@@ -549,6 +648,7 @@ export const outboxService = {
   // Cleanup
   deleteOutboxItem,
   cancelScheduledEmail,
+  undoSend,
   clearSentItems,
 
   // Background processor
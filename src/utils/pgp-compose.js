@@ -0,0 +1,91 @@
+import { normalizeEmail } from './address.ts';
+import { findRecipientKeys, discoverRecipientKeys } from './pgp-keyring.js';
+import { requestPgpProtection } from './sync-worker-client.js';
+import {
+  buildMimeEntity,
+  buildSignedBody,
+  buildEncryptedBody,
+  buildRawMessage,
+} from './pgp-mime.js';
+
+const asList = (value) => (Array.isArray(value) ? value : value ? [value] : []);
+
+/**
+ * Collect every envelope recipient of a compose payload.
+ */
+export function getPayloadRecipients(payload = {}) {
+  return [...asList(payload.to), ...asList(payload.cc), ...asList(payload.bcc)];
+}
+
+/**
+ * Look up which recipients have no usable public key in the keyring.
+ *
+ * @param {Object} payload - Compose payload
+ * @returns {Promise<Array<string>>} Normalised addresses without a key
+ */
+export async function getRecipientsWithoutKeys(payload) {
+  const { missing } = await findRecipientKeys(getPayloadRecipients(payload));
+  return missing;
+}
+
+/**
+ * Turn a regular compose payload into a PGP/MIME one (RFC 3156).
+ *
+ * The body and attachments are packed into a single MIME entity, signed
+ * and/or encrypted in the sync worker, and the resulting message is returned
+ * as `raw` alongside the envelope fields. Html/text/attachments are dropped so
+ * no plaintext leaves the client.
+ *
+ * Throws an Error with `missingRecipients` when encrypting to recipients that
+ * have no known public key (after a WKD lookup), and with `reason` when the
+ * worker refuses.
+ *
+ * @param {Object} payload - Payload produced by Compose's buildPayload
+ * @param {Object} options
+ * @param {boolean} options.sign - Add a detached signature
+ * @param {boolean} options.encrypt - Encrypt to recipients (and the sender)
+ * @returns {Promise<Object>} Payload carrying a `raw` PGP/MIME message
+ */
+export async function protectOutgoingPayload(payload, { sign = false, encrypt = false } = {}) {
+  if (!sign && !encrypt) return payload;
+
+  let recipientKeys = [];
+  if (encrypt) {
+    const recipients = getPayloadRecipients(payload);
+    let { keys, missing } = await findRecipientKeys(recipients);
+    // Fall back to the recipients' Web Key Directories before giving up
+    if (missing.length && (await discoverRecipientKeys(missing)).length) {
+      ({ keys, missing } = await findRecipientKeys(recipients));
+    }
+    if (missing.length) {
+      const err = new Error(`No public key found for: ${missing.join(', ')}`);
+      err.missingRecipients = missing;
+      throw err;
+    }
+    recipientKeys = keys;
+  }
+
+  const entity = buildMimeEntity(payload);
+  const result = await requestPgpProtection({
+    entity,
+    sign,
+    encrypt,
+    senderEmail: normalizeEmail(payload.from),
+    recipientKeys,
+  });
+  if (!result?.success) {
+    const err = new Error(result?.message || 'Failed to protect message');
+    err.reason = result?.reason;
+    throw err;
+  }
+
+  const body = encrypt
+    ? buildEncryptedBody(result.encrypted)
+    : buildSignedBody(entity, result.signature, result.micalg);
+
+  const protectedPayload = { ...payload, raw: buildRawMessage(payload, body) };
+  delete protectedPayload.html;
+  delete protectedPayload.text;
+  delete protectedPayload.attachments;
+  return protectedPayload;
+}
@@ -0,0 +1,234 @@
+import { normalizeEmail } from './address.ts';
+import { withLock } from './web-locks.js';
+
+/**
+ * Recipient keyring records
+ *
+ * Merging, trust ranking and key selection for the keyring records in
+ * pgp-keyring.js, plus the parsing the sync worker needs to pick up keys
+ * from incoming mail: Autocrypt headers, attached key files and the
+ * Authentication-Results header that says whether the sender is who the
+ * From line claims. Also builds Web Key Directory URLs.
+ */
+
+export const KEYRING_KEY_PREFIX = 'pgp_keyring_';
+
+/**
+ * Trust levels, lowest to highest. `never` keeps a key on file but stops it
+ * from ever being used for encryption.
+ */
+export const TRUST_LEVELS = ['never', 'unknown', 'trusted', 'verified'];
+
+export const DEFAULT_TRUST = 'unknown';
+
+const TRUST_RANK = Object.fromEntries(TRUST_LEVELS.map((level, index) => [level, index]));
+
+export const keyringMetaKey = (account) => `${KEYRING_KEY_PREFIX}${account || 'default'}`;
+
+/**
+ * Run a read-modify-write of an account's keyring while no other one runs
+ * (the main thread and the sync worker both write the record).
+ *
+ * @param {string} account
+ * @param {() => Promise<any>} fn
+ */
+export const withKeyringLock = (account, fn) => withLock(keyringMetaKey(account), fn);
+
+const unique = (list) => [...new Set(list.filter(Boolean))];
+
+const sourcesOf = (record) => unique([...(record?.sources || []), record?.source]);
+
+/**
+ * Merge a newly imported or discovered key into the keyring.
+ *
+ * Records are matched by fingerprint. Key material and expiry come from the
+ * incoming copy (it may carry fresh self-signatures), while user-managed state
+ * is preserved: trust stays as set, and a revocation is never undone.
+ *
+ * @param {Array<Object>} keys - Current keyring records
+ * @param {Object} incoming - Key description (fingerprint, armored, emails, ...)
+ * @param {number} [now] - Timestamp for addedAt/updatedAt
+ * @returns {{ keys: Array<Object>, record: Object, changed: boolean }}
+ */
+export function mergeKeyRecord(keys = [], incoming = {}, now = Date.now()) {
+  const fingerprint = String(incoming.fingerprint || '').toLowerCase();
+  if (!fingerprint || !incoming.armored) {
+    throw new Error('Invalid keyring record');
+  }
+  const existing = keys.find((k) => k.fingerprint === fingerprint);
+  const emails = unique(
+    [...(existing?.emails || []), ...(incoming.emails || [])].map((e) => normalizeEmail(e)),
+  );
+  const sources = unique([...sourcesOf(existing), ...sourcesOf(incoming)]);
+  const lastSeenAt = Math.max(existing?.lastSeenAt || 0, incoming.lastSeenAt || 0) || null;
+  const revoked = Boolean(existing?.revoked || incoming.revoked);
+  const pendingConfirmation =
+    'pendingConfirmation' in incoming
+      ? Boolean(incoming.pendingConfirmation)
+      : Boolean(existing?.pendingConfirmation);
+
+  const changed =
+    !existing ||
+    existing.armored !== incoming.armored ||
+    existing.emails?.length !== emails.length ||
+    sourcesOf(existing).length !== sources.length ||
+    (existing.lastSeenAt || null) !== lastSeenAt ||
+    Boolean(existing.revoked) !== revoked ||
+    Boolean(existing.pendingConfirmation) !== pendingConfirmation;
+
+  const record = {
+    ...existing,
+    ...incoming,
+    fingerprint,
+    emails,
+    userIds: incoming.userIds?.length ? incoming.userIds : existing?.userIds || [],
+    sources,
+    revoked,
+    revokedAt: existing?.revokedAt || (revoked ? now : null),
+    trust: existing?.trust || incoming.trust || DEFAULT_TRUST,
+    lastSeenAt,
+    addedAt: existing?.addedAt || now,
+    updatedAt: changed ? now : existing.updatedAt,
+  };
+  delete record.source;
+  delete record.isPrivate;
+  if (!pendingConfirmation) delete record.pendingConfirmation;
+
+  return {
+    keys: [...keys.filter((k) => k.fingerprint !== fingerprint), record],
+    record,
+    changed,
+  };
+}
+
+/**
+ * Merge a key found without the user asking for it (Autocrypt, an attached
+ * key, a WKD lookup from Compose). A new key for an address that already has
+ * another key is stored with `pendingConfirmation` and isn't used until the
+ * user confirms it in Settings, so incoming mail can't replace a key.
+ *
+ * @returns {{ keys: Array<Object>, record: Object, changed: boolean }}
+ */
+export function mergeDiscoveredKey(keys = [], incoming = {}, now = Date.now()) {
+  const fingerprint = String(incoming.fingerprint || '').toLowerCase();
+  const emails = (incoming.emails || []).map((e) => normalizeEmail(e));
+  const others = keys.filter((k) => k.fingerprint !== fingerprint);
+  const claimed = (email) => others.some((k) => k.emails?.includes(email));
+  const discovered = { ...incoming };
+  delete discovered.pendingConfirmation;
+  if (keys.some((k) => k.fingerprint === fingerprint)) {
+    // A known key doesn't take over another key's address either
+    return mergeKeyRecord(keys, { ...discovered, emails: emails.filter((e) => !claimed(e)) }, now);
+  }
+  return mergeKeyRecord(keys, { ...discovered, pendingConfirmation: emails.some(claimed) }, now);
+}
+
+/**
+ * Whether a keyring record can currently be used for encryption.
+ */
+export function isUsableKey(record, now = Date.now()) {
+  if (!record || record.revoked) return false;
+  if (record.pendingConfirmation) return false;
+  if (record.trust === 'never') return false;
+  if (record.expiresAt && record.expiresAt <= now) return false;
+  return true;
+}
+
+/**
+ * Pick the best usable key for an address: highest trust first, then the
+ * most recently seen or updated key.
+ *
+ * @returns {Object|null} Keyring record
+ */
+export function selectKeyForEmail(records = [], email, now = Date.now()) {
+  const normalized = normalizeEmail(email);
+  if (!normalized) return null;
+  const candidates = records.filter((r) => r.emails?.includes(normalized) && isUsableKey(r, now));
+  candidates.sort((a, b) => {
+    const trustDiff =
+      (TRUST_RANK[b.trust || DEFAULT_TRUST] ?? 0) - (TRUST_RANK[a.trust || DEFAULT_TRUST] ?? 0);
+    if (trustDiff) return trustDiff;
+    return (b.lastSeenAt || b.updatedAt || 0) - (a.lastSeenAt || a.updatedAt || 0);
+  });
+  return candidates[0] || null;
+}
+
+/**
+ * Parse an `Autocrypt:` header (Autocrypt Level 1, section 2.1).
+ *
+ * Returns null when the header is malformed or carries an unknown critical
+ * attribute; attributes starting with `_` are non-critical and ignored.
+ *
+ * @param {string} value - Header value
+ * @returns {{ addr: string, preferEncrypt: string, keydata: string }|null}
+ */
+export function parseAutocryptHeader(value) {
+  if (!value || typeof value !== 'string') return null;
+  const attributes = {};
+  for (const part of value.split(';')) {
+    const eq = part.indexOf('=');
+    if (eq === -1) continue;
+    const name = part.slice(0, eq).trim().toLowerCase();
+    const attrValue = part.slice(eq + 1).trim();
+    if (!name || name.startsWith('_')) continue;
+    if (!['addr', 'prefer-encrypt', 'keydata'].includes(name)) return null;
+    attributes[name] = attrValue;
+  }
+  const addr = normalizeEmail(attributes.addr);
+  const keydata = (attributes.keydata || '').replace(/\s+/g, '');
+  if (!addr || !keydata || !/^[A-Za-z0-9+/]+=*$/.test(keydata)) return null;
+  return {
+    addr,
+    preferEncrypt: attributes['prefer-encrypt'] === 'mutual' ? 'mutual' : 'nopreference',
+    keydata,
+  };
+}
+
+/**
+ * Whether an attachment looks like an OpenPGP public key (RFC 3156 §7).
+ */
+export function isPublicKeyAttachment({ contentType = '', mimeType = '', filename = '' } = {}) {
+  const type = (contentType || mimeType || '').toLowerCase();
+  if (type === 'application/pgp-keys') return true;
+  return /\.(asc|pub|key)$/i.test(filename || '') && /pgp|key/i.test(filename || '');
+}
+
+const domainOf = (email) => normalizeEmail(email).split('@')[1] || '';
+
+// The From domain or one of its subdomains signed for it (relaxed alignment)
+const aligned = (domain, signer) =>
+  Boolean(signer) && (domain === signer || domain.endsWith(`.${signer}`));
+
+/**
+ * Whether an Authentication-Results header (RFC 8601) shows the From
+ * address's domain was verified: DMARC passed, or a DKIM signature of an
+ * aligned domain did. Pass the first such header, the one the receiving
+ * server added; later ones may come from the sender.
+ *
+ * @param {string} value - Header value
+ * @param {string} from - From address
+ * @returns {boolean}
+ */
+export function isAuthenticatedSender(value, from) {
+  const domain = domainOf(from);
+  if (!value || !domain) return false;
+  // Drop comments, then skip the authserv-id before the first `;`
+  const results = value
+    .replace(/\([^)]*\)/g, ' ')
+    .split(';')
+    .slice(1);
+  return results.some((result) => {
+    const method = result.match(/^\s*(dkim|dmarc)\s*=\s*(\w+)/i);
+    if (!method || method[2].toLowerCase() !== 'pass') return false;
+    const prop = (name) =>
+      (result.match(new RegExp(`\\b${name}\\s*=\\s*"?([^\\s";]+)`, 'i'))?.[1] || '')
+        .replace(/^.*@/, '')
+        .toLowerCase();
+    if (method[1].toLowerCase() === 'dmarc') {
+      const headerFrom = prop('header\\.from');
+      return !headerFrom || headerFrom === domain;
+    }
+    return aligned(domain, prop('header\\.d') || prop('header\\.i'));
+  });
+}
+
@@ -0,0 +1,258 @@
+import { db } from './db';
+import { Local } from './storage';
+import { normalizeEmail } from './address.ts';
+import { inspectPgpKey } from './sync-worker-client.js';
+import { warn } from './logger.ts';
+import { Remote } from './remote';
+import {
+  keyringMetaKey,
+  mergeKeyRecord,
+  mergeDiscoveredKey,
+  isUsableKey,
+  selectKeyForEmail,
+  withKeyringLock,
+  TRUST_LEVELS,
+} from './pgp-keyring-helpers.js';
+
+export { isUsableKey, TRUST_LEVELS };
+
+/**
+ * Recipient Public Keyring
+ *
+ * Stores OpenPGP public keys of correspondents so Compose can encrypt to them.
+ * An account's keys are one record in the IndexedDB `meta` table, written by
+ * this module and by the sync worker; writes hold withKeyringLock.
+ *
+ * Keys are added from:
+ *   manual:     pasted in Settings
+ *   autocrypt:  `Autocrypt:` headers of incoming mail (sync worker)
+ *   attachment: attached application/pgp-keys parts (sync worker)
+ *   wkd:        the recipient domain's Web Key Directory
+ *
+ * Mail is only a source when the receiving server authenticated its sender.
+ * A key found there or by Compose's WKD lookup for an address that already
+ * has another key waits for the user to confirm it (`pendingConfirmation`).
+ *
+ * Each record has:
+ *   fingerprint: primary key fingerprint (hex, lowercase)
+ *   emails:      lowercase addresses the key is used for
+ *   userIds:     raw user ID strings for display
+ *   armored:     armored public key
+ *   expiresAt:   expiry timestamp, or null if the key never expires
+ *   revoked:     revoked by its owner or marked revoked by the user
+ *   trust:       'never' | 'unknown' | 'trusted' | 'verified'
+ *   sources:     where the key has been seen (see above)
+ *   lastSeenAt:  date of the last message advertising the key (Autocrypt)
+ *   pendingConfirmation: discovered key not used until the user confirms it
+ *   addedAt / updatedAt: timestamps
+ */
+
+function getAccount() {
+  return Local.get('email') || 'default';
+}
+
+/**
+ * Read all recipient keys for an account.
+ *
+ * @param {string} [account] - Account identifier (defaults to current account)
+ * @returns {Promise<Array<Object>>} Keyring records
+ */
+export async function listRecipientKeys(account) {
+  try {
+    const record = await db.meta.get(keyringMetaKey(account || getAccount()));
+    return Array.isArray(record?.value) ? record.value : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeKeyring(account, keys) {
+  await db.meta.put({
+    key: keyringMetaKey(account || getAccount()),
+    value: keys,
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * Insert a keyring record or merge it into the existing one (matched by
+ * fingerprint). User-set trust and revocation are preserved.
+ */
+export async function saveRecipientKey(record, account, { discovered = false } = {}) {
+  return withKeyringLock(account || getAccount(), async () => {
+    const keys = await listRecipientKeys(account);
+    const merged = discovered ? mergeDiscoveredKey(keys, record) : mergeKeyRecord(keys, record);
+    if (merged.changed) {
+      await writeKeyring(account, merged.keys);
+    }
+    return merged.record;
+  });
+}
+
+/**
+ * Update user-managed fields of a key.
+ *
+ * @param {string} fingerprint - Key fingerprint
+ * @param {Object} changes - { trust?, revoked?, confirmed? }
+ * @param {string} [account] - Account identifier
+ * @returns {Promise<Object|null>} Updated record
+ */
+export async function updateRecipientKey(fingerprint, changes = {}, account) {
+  if (changes.trust !== undefined && !TRUST_LEVELS.includes(changes.trust)) {
+    throw new Error(`Unknown trust level: ${changes.trust}`);
+  }
+  return withKeyringLock(account || getAccount(), async () => {
+    const keys = await listRecipientKeys(account);
+    const target = String(fingerprint || '').toLowerCase();
+    const existing = keys.find((k) => k.fingerprint === target);
+    if (!existing) return null;
+    const next = { ...existing, updatedAt: Date.now() };
+    if (changes.trust !== undefined) next.trust = changes.trust;
+    if (changes.revoked !== undefined) {
+      next.revoked = Boolean(changes.revoked);
+      next.revokedAt = next.revoked ? existing.revokedAt || Date.now() : null;
+    }
+    if (changes.confirmed) delete next.pendingConfirmation;
+    await writeKeyring(
+      account,
+      keys.map((k) => (k.fingerprint === target ? next : k)),
+    );
+    return next;
+  });
+}
+
+/**
+ * Remove a key from the keyring.
+ */
+export async function removeRecipientKey(fingerprint, account) {
+  const target = String(fingerprint || '').toLowerCase();
+  await withKeyringLock(account || getAccount(), async () => {
+    const keys = await listRecipientKeys(account);
+    await writeKeyring(
+      account,
+      keys.filter((k) => k.fingerprint !== target),
+    );
+  });
+}
+
+/**
+ * Parse a public key block (may contain several keys) in the sync worker and
+ * store every key found. Keys the user imports are confirmed; `discovered`
+ * ones may need confirming (see mergeDiscoveredKey).
+ *
+ * @param {string|Uint8Array} key - Armored or binary public key(s)
+ * @param {Object} [options]
+ * @param {string} [options.source] - Origin of the key
+ * @param {Array<string>} [options.onlyEmails] - Keep only keys with a user ID for one of these addresses, used for those addresses only
+ * @param {boolean} [options.discovered] - Found without the user choosing the key
+ * @param {string} [options.account] - Account identifier
+ * @returns {Promise<Array<Object>>} Saved keyring records
+ */
+export async function importRecipientKeys(
+  key,
+  { source = 'manual', onlyEmails = null, discovered = false, account } = {},
+) {
+  const inspected = await inspectPgpKey(
+    typeof key === 'string' ? { armoredKey: key } : { binaryKey: key },
+  );
+  if (!Array.isArray(inspected) || !inspected.length) {
+    throw new Error('No public key found');
+  }
+  const wanted = onlyEmails?.map((e) => normalizeEmail(e));
+  const saved = [];
+  for (const info of inspected) {
+    const emails = wanted ? info.emails?.filter((e) => wanted.includes(e)) || [] : info.emails;
+    if (wanted && !emails.length) continue;
+    const record = {
+      fingerprint: info.fingerprint,
+      keyId: info.keyId,
+      userIds: info.userIds,
+      emails,
+      createdAt: info.createdAt,
+      expiresAt: info.expiresAt,
+      revoked: info.revoked,
+      armored: info.armored,
+      sources: [source],
+      ...(discovered ? {} : { pendingConfirmation: false }),
+    };
+    saved.push(await saveRecipientKey(record, account, { discovered }));
+  }
+  return saved;
+}
+
+async function fetchWkdKey(address) {
+  // The API fetches the domain's well-known openpgpkey URLs (advanced
+  // method first, then direct) since the CSP only allows connecting to it
+  let response = null;
+  try {
+    response = await Remote.request('WkdLookup', { email: address });
+  } catch (err) {
+    if (err?.status === 404) return null;
+    throw err;
+  }
+  return response?.publicKey || null;
+}
+
+/**
+ * Look up an address in its domain's Web Key Directory (the well-known
+ * openpgpkey URLs, fetched by the API). Only keys with a user ID for the
+ * address are kept.
+ *
+ * @param {string} email - Address to look up
+ * @param {Object} [options]
+ * @param {boolean} [options.discovered] - Lookup the user didn't ask for
+ * @returns {Promise<Array<Object>>} Saved keyring records (empty when none published)
+ */
+export async function lookupWkdKey(email, { discovered = false } = {}) {
+  const address = normalizeEmail(email);
+  if (!address?.includes('@')) return [];
+  const key = await fetchWkdKey(address);
+  if (!key) return [];
+  return importRecipientKeys(key, { source: 'wkd', onlyEmails: [address], discovered });
+}
+
+/**
+ * Try WKD for each address, ignoring individual failures.
+ *
+ * @param {Array<string>} emails - Addresses without a key
+ * @returns {Promise<Array<string>>} Addresses for which a key was found
+ */
+export async function discoverRecipientKeys(emails = []) {
+  const found = [];
+  await Promise.all(
+    emails.map(async (email) => {
+      try {
+        const saved = await lookupWkdKey(email, { discovered: true });
+        if (saved.some((record) => isUsableKey(record))) found.push(normalizeEmail(email));
+      } catch (err) {
+        warn('[pgp-keyring] WKD lookup failed for', email, err?.message);
+      }
+    }),
+  );
+  return found;
+}
+
+/**
+ * Resolve armored public keys for a list of recipients.
+ *
+ * @param {Array<string>} emails - Recipient addresses
+ * @param {string} [account] - Account identifier
+ * @returns {Promise<{ keys: Array<string>, missing: Array<string> }>}
+ *   Armored keys for every recipient that has one, and the addresses without a usable key
+ */
+export async function findRecipientKeys(emails = [], account) {
+  const records = await listRecipientKeys(account);
+  const keys = new Set();
+  const missing = [];
+  for (const email of emails) {
+    const normalized = normalizeEmail(email);
+    if (!normalized) continue;
+    const match = selectKeyForEmail(records, normalized);
+    if (!match) {
+      if (!missing.includes(normalized)) missing.push(normalized);
+      continue;
+    }
+    keys.add(match.armored);
+  }
+  return { keys: [...keys], missing };
+}
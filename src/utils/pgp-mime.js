@@ -0,0 +1,305 @@
+import { arrayBufferToBase64 } from './mime-utils.js';
+
+/**
+ * PGP/MIME (RFC 3156) message assembly.
+ *
+ * Builds the MIME entity that gets signed/encrypted and wraps the result in
+ * multipart/signed or multipart/encrypted bodies, and splits received signed
+ * messages back into the parts needed for verification. The crypto itself
+ * happens in the sync worker — this module only deals with MIME structure so
+ * it can be used (and tested) without loading openpgp on the main thread.
+ */
+
+const CRLF = '\r\n';
+const BASE64_LINE_LENGTH = 76;
+
+/**
+ * Normalise all line endings to CRLF (RFC 3156 §5: signed data must be in
+ * canonical form before hashing).
+ */
+export function canonicalizeLineEndings(text = '') {
+  return String(text).replace(/\r\n|\r|\n/g, CRLF);
+}
+
+function wrapBase64(value = '') {
+  const clean = String(value).replace(/\s+/g, '');
+  const lines = [];
+  for (let i = 0; i < clean.length; i += BASE64_LINE_LENGTH) {
+    lines.push(clean.slice(i, i + BASE64_LINE_LENGTH));
+  }
+  return lines.join(CRLF);
+}
+
+function utf8ToBase64(text = '') {
+  return arrayBufferToBase64(new TextEncoder().encode(String(text)));
+}
+
+/**
+ * Encode a header value as an RFC 2047 encoded-word when it contains
+ * non-ASCII characters.
+ */
+export function encodeHeaderValue(value = '') {
+  const str = String(value ?? '');
+  if (!/[^\x20-\x7e]/.test(str)) return str;
+  return `=?UTF-8?B?${utf8ToBase64(str)}?=`;
+}
+
+/**
+ * Encode the display-name portion of a `"Name" <email>` address, leaving the
+ * address itself untouched so it stays parseable.
+ */
+function encodeAddress(value = '') {
+  const match = String(value).match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  if (!match || !match[1]) return String(value).trim();
+  const name = /[^\x20-\x7e]/.test(match[1]) ? encodeHeaderValue(match[1]) : quoteParam(match[1]);
+  return `${name} <${match[2]}>`;
+}
+
+function createMessageId(from = '') {
+  const domain = String(from).match(/@([^>\s]+)/)?.[1] || 'localhost';
+  const random = Math.random().toString(36).slice(2, 12);
+  return `<${Date.now().toString(36)}.${random}@${domain}>`;
+}
+
+function quoteParam(value = '') {
+  return `"${String(value)
+    .replace(/[\r\n]/g, ' ')
+    .replace(/(["\\])/g, '\\$1')}"`;
+}
+
+let boundaryCounter = 0;
+
+export function createBoundary(prefix = 'part') {
+  boundaryCounter += 1;
+  const random = Math.random().toString(36).slice(2, 12);
+  return `----=_${prefix}_${Date.now().toString(36)}${boundaryCounter}${random}`;
+}
+
+function buildMultipart(contentType, parts) {
+  const boundary = createBoundary(contentType.split('/')[1] || 'part');
+  const lines = [`Content-Type: ${contentType}; boundary=${quoteParam(boundary)}`, ''];
+  for (const part of parts) {
+    lines.push(`--${boundary}`, part);
+  }
+  lines.push(`--${boundary}--`, '');
+  return lines.join(CRLF);
+}
+
+function buildTextPart(subtype, content) {
+  return [
+    `Content-Type: text/${subtype}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(utf8ToBase64(content)),
+    '',
+  ].join(CRLF);
+}
+
+function buildAttachmentPart(attachment = {}) {
+  const filename = encodeHeaderValue(attachment.filename || attachment.name || 'attachment');
+  const contentType = attachment.contentType || 'application/octet-stream';
+  const headers = [
+    `Content-Type: ${contentType}; name=${quoteParam(filename)}`,
+    `Content-Disposition: ${attachment.cid ? 'inline' : 'attachment'}; filename=${quoteParam(filename)}`,
+    'Content-Transfer-Encoding: base64',
+  ];
+  if (attachment.cid) headers.push(`Content-ID: <${attachment.cid}>`);
+  const content =
+    attachment.encoding === 'base64' || typeof attachment.content !== 'string'
+      ? attachment.content || ''
+      : utf8ToBase64(attachment.content);
+  return [...headers, '', wrapBase64(content), ''].join(CRLF);
+}
+
+/**
+ * Build the inner MIME entity (body + attachments) from a compose payload.
+ * The result is CRLF-canonical, 7-bit clean and has no trailing line break,
+ * so it can be signed and then placed verbatim between multipart boundaries.
+ *
+ * @param {Object} payload - Compose payload ({ text, html, attachments })
+ * @returns {string} MIME entity including its own Content-Type header
+ */
+export function buildMimeEntity({ text = '', html = '', attachments = [] } = {}) {
+  const body = html
+    ? buildMultipart('multipart/alternative', [
+        buildTextPart('plain', text || ''),
+        buildTextPart('html', html),
+      ])
+    : buildTextPart('plain', text || '');
+
+  const entity = attachments?.length
+    ? buildMultipart('multipart/mixed', [body, ...attachments.map(buildAttachmentPart)])
+    : body;
+  return entity.replace(/(\r\n)+$/, '');
+}
+
+/**
+ * Build the top-level RFC 5322 headers for a PGP/MIME message.
+ */
+export function buildMessageHeaders(payload = {}, date = new Date()) {
+  const list = (value) => (Array.isArray(value) ? value : value ? [value] : []).join(', ');
+  const headers = [
+    `From: ${encodeAddress(payload.from || '')}`,
+    `Date: ${date.toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: ${createMessageId(payload.from)}`,
+  ];
+  const to = list(payload.to);
+  const cc = list(payload.cc);
+  if (to) headers.push(`To: ${to}`);
+  if (cc) headers.push(`Cc: ${cc}`);
+  if (payload.reply_to) headers.push(`Reply-To: ${payload.reply_to}`);
+  if (payload.in_reply_to) {
+    headers.push(`In-Reply-To: ${payload.in_reply_to}`, `References: ${payload.in_reply_to}`);
+  }
+  headers.push(`Subject: ${encodeHeaderValue(payload.subject || '')}`, 'MIME-Version: 1.0');
+  return headers.join(CRLF);
+}
+
+/**
+ * Wrap a signed entity and its detached armored signature in multipart/signed.
+ *
+ * @param {string} entity - The exact entity that was signed (from buildMimeEntity)
+ * @param {string} signature - Armored detached signature
+ * @param {string} micalg - Hash algorithm name (e.g. "pgp-sha256")
+ * @returns {string} multipart/signed body including its Content-Type header
+ */
+export function buildSignedBody(entity, signature, micalg = 'pgp-sha256') {
+  const boundary = createBoundary('signed');
+  return [
+    `Content-Type: multipart/signed; boundary=${quoteParam(boundary)}; protocol="application/pgp-signature"; micalg=${micalg}`,
+    '',
+    `--${boundary}`,
+    entity,
+    `--${boundary}`,
+    'Content-Type: application/pgp-signature; name="signature.asc"',
+    'Content-Description: OpenPGP digital signature',
+    'Content-Disposition: attachment; filename="signature.asc"',
+    '',
+    canonicalizeLineEndings(signature).replace(/\r\n$/, ''),
+    `--${boundary}--`,
+    '',
+  ].join(CRLF);
+}
+
+/**
+ * Wrap an armored OpenPGP message in multipart/encrypted.
+ *
+ * @param {string} armored - Armored encrypted message
+ * @returns {string} multipart/encrypted body including its Content-Type header
+ */
+export function buildEncryptedBody(armored) {
+  const boundary = createBoundary('encrypted');
+  return [
+    `Content-Type: multipart/encrypted; boundary=${quoteParam(boundary)}; protocol="application/pgp-encrypted"`,
+    '',
+    'This is an OpenPGP/MIME encrypted message (RFC 4880 and 3156)',
+    `--${boundary}`,
+    'Content-Type: application/pgp-encrypted',
+    'Content-Description: PGP/MIME version identification',
+    '',
+    'Version: 1',
+    '',
+    `--${boundary}`,
+    'Content-Type: application/octet-stream; name="encrypted.asc"',
+    'Content-Description: OpenPGP encrypted message',
+    'Content-Disposition: inline; filename="encrypted.asc"',
+    '',
+    canonicalizeLineEndings(armored).replace(/\r\n$/, ''),
+    `--${boundary}--`,
+    '',
+  ].join(CRLF);
+}
+
+/**
+ * Combine top-level headers with a body produced by buildSignedBody,
+ * buildEncryptedBody or buildMimeEntity into a complete raw message.
+ */
+export function buildRawMessage(payload, body, date = new Date()) {
+  return `${buildMessageHeaders(payload, date)}${CRLF}${body}`;
+}
+
+const SIGNED_MESSAGE_LINE = /^-----BEGIN PGP SIGNED MESSAGE-----\r?$/m;
+const SIGNATURE_BEGIN = '-----BEGIN PGP SIGNATURE-----';
+const SIGNATURE_END = '-----END PGP SIGNATURE-----';
+
+/**
+ * Split a received top-level multipart/signed message (RFC 1847) into the
+ * signed entity and the raw signature part.
+ *
+ * The signed entity is returned byte-for-byte as it appears between the first
+ * two boundaries (in canonical CRLF form), which is what the signature covers.
+ *
+ * @param {string} raw - Raw RFC 822 message or MIME entity
+ * @returns {{ protocol: string, signedContent: string, signaturePart: string }|null}
+ */
+export function splitMultipartSigned(raw) {
+  if (!raw || typeof raw !== 'string') return null;
+  const text = canonicalizeLineEndings(raw);
+  const headerEnd = text.indexOf(`${CRLF}${CRLF}`);
+  if (headerEnd === -1) return null;
+
+  const headers = text.slice(0, headerEnd).replace(/\r\n[ \t]+/g, ' ');
+  const contentType = headers.match(/^content-type:[ \t]*(.*)$/im)?.[1] || '';
+  if (!/^multipart\/signed/i.test(contentType)) return null;
+  const boundary = contentType.match(/boundary=(?:"([^"]+)"|([^;\s]+))/i);
+  if (!boundary) return null;
+
+  // Keep the CRLF ending the header block so the first delimiter is found too
+  const body = text.slice(headerEnd + CRLF.length);
+  const delimiter = `${CRLF}--${boundary[1] || boundary[2]}`;
+  const first = body.indexOf(delimiter);
+  if (first === -1) return null;
+  const start = body.indexOf(CRLF, first + delimiter.length);
+  if (start === -1) return null;
+  const second = body.indexOf(delimiter, start + CRLF.length);
+  if (second === -1) return null;
+  const signatureStart = body.indexOf(CRLF, second + delimiter.length);
+  if (signatureStart === -1) return null;
+  const signatureEnd = body.indexOf(delimiter, signatureStart);
+
+  return {
+    protocol: (contentType.match(/protocol="?([^";\s]+)"?/i)?.[1] || '').toLowerCase(),
+    signedContent: body.slice(start + CRLF.length, second),
+    signaturePart: body.slice(
+      signatureStart + CRLF.length,
+      signatureEnd === -1 ? undefined : signatureEnd,
+    ),
+  };
+}
+
+/**
+ * Split a received PGP/MIME signed message (RFC 3156 §5) into the signed
+ * entity and its armored detached signature.
+ *
+ * @param {string} raw - Raw RFC 822 message or MIME entity
+ * @returns {{ signedContent: string, signature: string }|null}
+ */
+export function splitSignedMessage(raw) {
+  const parts = splitMultipartSigned(raw);
+  if (!parts || parts.protocol !== 'application/pgp-signature') return null;
+  const sigStart = parts.signaturePart.indexOf(SIGNATURE_BEGIN);
+  const sigEnd = parts.signaturePart.indexOf(SIGNATURE_END);
+  if (sigStart === -1 || sigEnd < sigStart) return null;
+
+  return {
+    signedContent: parts.signedContent,
+    signature: parts.signaturePart.slice(sigStart, sigEnd + SIGNATURE_END.length),
+  };
+}
+
+/**
+ * Find an inline cleartext-signed block (RFC 4880 §7) in a text body.
+ * The armor header must start a line, so quoted signed messages in replies
+ * are not picked up.
+ *
+ * @param {string} text - Plain text body
+ * @returns {string|null} The block from BEGIN PGP SIGNED MESSAGE to END PGP SIGNATURE
+ */
+export function extractClearsignedBlock(text) {
+  if (!text || typeof text !== 'string') return null;
+  const start = text.search(SIGNED_MESSAGE_LINE);
+  if (start === -1) return null;
+  const end = text.indexOf(SIGNATURE_END, start);
+  if (end === -1) return null;
+  return text.slice(start, end + SIGNATURE_END.length);
+}
@@ -5,6 +5,8 @@ import { warn } from './logger.ts';
  *
  * Detects and wraps quoted text in email bodies for collapsible display.
  * Supports common email quoting patterns from various email clients.
+ * Signatures (our own `.fe-signature` blocks, Gmail/Thunderbird signature
+ * markup and the "-- " delimiter line) collapse the same way.
  */
 
 // Patterns for detecting quote attribution lines
@@ -39,6 +41,15 @@ const QUOTE_SEPARATOR_PATTERNS = [
   /^Begin\s+forwarded\s+message:\s*$/i,
 ];
 
+// Signature markup from our composer and other clients
+const SIGNATURE_SELECTOR = '.fe-signature, .gmail_signature, .moz-signature';
+
+// The "-- " line that starts a plain-text signature
+const SIGNATURE_DELIMITER_PATTERN = /^--\s?$/;
+
+const QUOTE_LABELS = { show: 'Show quoted text', hide: 'Hide quoted text' };
+const SIGNATURE_LABELS = { show: 'Show signature', hide: 'Hide signature' };
+
 /**
  * Check if a text line looks like a quote attribution
  */
@@ -88,6 +99,11 @@ export function processQuotedContent(html, options = {}) {
 
     let hasQuotes = false;
 
+    // 0. Signatures, before the quote passes can swallow them
+    if (processSignatures(doc, collapseByDefault)) {
+      hasQuotes = true;
+    }
+
     // 1. Find and wrap <blockquote> elements
     const blockquotes = doc.querySelectorAll('blockquote');
     blockquotes.forEach((bq) => {
@@ -153,9 +169,7 @@ export function processQuotedContent(html, options = {}) {
     const hasNonQuoteContent = (bodyClone.textContent || '').trim().length > 0;
     if (!hasNonQuoteContent) {
       doc.querySelectorAll('.fe-quote-wrapper.fe-quote-collapsed').forEach((wrapper) => {
-        wrapper.classList.remove('fe-quote-collapsed');
-        const label = wrapper.querySelector('.fe-quote-label');
-        if (label) label.textContent = 'Hide quoted text';
+        setCollapsed(wrapper, false);
       });
     }
 
@@ -167,9 +181,9 @@ export function processQuotedContent(html, options = {}) {
 }
 
 /**
- * Wrap an element in a collapsible quote container
+ * Build an empty collapsible container with its toggle button
  */
-function wrapInCollapsible(element, doc, collapsed) {
+function createCollapsible(doc, collapsed, labels = QUOTE_LABELS) {
   const wrapper = doc.createElement('div');
   wrapper.className = `fe-quote-wrapper${collapsed ? ' fe-quote-collapsed' : ''}`;
 
@@ -177,47 +191,130 @@ function wrapInCollapsible(element, doc, collapsed) {
   toggle.type = 'button';
   toggle.className = 'fe-quote-toggle';
   toggle.setAttribute('data-action', 'toggle-quote');
-  toggle.innerHTML = `<span class="fe-quote-dots">...</span><span class="fe-quote-label">${collapsed ? 'Show quoted text' : 'Hide quoted text'}</span>`;
+  toggle.setAttribute('data-show-label', labels.show);
+  toggle.setAttribute('data-hide-label', labels.hide);
+  toggle.innerHTML = `<span class="fe-quote-dots">...</span><span class="fe-quote-label">${collapsed ? labels.show : labels.hide}</span>`;
 
   const content = doc.createElement('div');
   content.className = 'fe-quote-content';
 
-  // Move the element into the content container
-  element.parentNode.insertBefore(wrapper, element);
-  content.appendChild(element);
   wrapper.appendChild(toggle);
   wrapper.appendChild(content);
+  return { wrapper, content };
+}
+
+/**
+ * Collapse or expand a container, updating its toggle label
+ */
+function setCollapsed(wrapper, collapsed) {
+  wrapper.classList.toggle('fe-quote-collapsed', collapsed);
+  const toggle = wrapper.querySelector('.fe-quote-toggle');
+  const label = toggle?.querySelector('.fe-quote-label');
+  if (label) {
+    label.textContent = collapsed
+      ? toggle.getAttribute('data-show-label') || QUOTE_LABELS.show
+      : toggle.getAttribute('data-hide-label') || QUOTE_LABELS.hide;
+  }
+}
+
+/**
+ * Wrap an element in a collapsible quote container
+ */
+function wrapInCollapsible(element, doc, collapsed, labels) {
+  wrapElementsInCollapsible([element], doc, collapsed, labels);
 }
 
 /**
  * Wrap multiple elements in a single collapsible container
  */
-function wrapElementsInCollapsible(elements, doc, collapsed) {
+function wrapElementsInCollapsible(elements, doc, collapsed, labels) {
   if (!elements.length) return;
 
-  const firstElement = elements[0];
-  const wrapper = doc.createElement('div');
-  wrapper.className = `fe-quote-wrapper${collapsed ? ' fe-quote-collapsed' : ''}`;
-
-  const toggle = doc.createElement('button');
-  toggle.type = 'button';
-  toggle.className = 'fe-quote-toggle';
-  toggle.setAttribute('data-action', 'toggle-quote');
-  toggle.innerHTML = `<span class="fe-quote-dots">...</span><span class="fe-quote-label">${collapsed ? 'Show quoted text' : 'Hide quoted text'}</span>`;
-
-  const content = doc.createElement('div');
-  content.className = 'fe-quote-content';
+  const { wrapper, content } = createCollapsible(doc, collapsed, labels);
 
   // Insert wrapper before first element
-  firstElement.parentNode.insertBefore(wrapper, firstElement);
+  elements[0].parentNode.insertBefore(wrapper, elements[0]);
 
   // Move all elements into content
   elements.forEach((el) => {
     content.appendChild(el);
   });
+}
 
-  wrapper.appendChild(toggle);
-  wrapper.appendChild(content);
+/**
+ * Wrap signatures: marked-up signature blocks, and a "-- " line with
+ * everything after it up to the next quote. Signatures inside quoted
+ * messages are left to collapse with the quote.
+ *
+ * @returns {boolean} Whether any signature was found
+ */
+function processSignatures(doc, collapsed) {
+  let found = false;
+
+  doc.querySelectorAll(SIGNATURE_SELECTOR).forEach((el) => {
+    if (el.closest('.fe-quote-wrapper, blockquote')) return;
+    found = true;
+    wrapInCollapsible(el, doc, collapsed, SIGNATURE_LABELS);
+  });
+
+  doc.body.querySelectorAll('p, div').forEach((el) => {
+    if (el.closest('.fe-quote-wrapper, blockquote, .gmail_quote')) return;
+    if (!SIGNATURE_DELIMITER_PATTERN.test(el.textContent || '')) return;
+    const elements = [el];
+    let current = el.nextElementSibling;
+    while (
+      current &&
+      current.tagName !== 'BLOCKQUOTE' &&
+      !current.classList.contains('fe-quote-wrapper') &&
+      !isQuoteAttribution(current.textContent) &&
+      !isQuoteSeparator(current.textContent)
+    ) {
+      elements.push(current);
+      current = current.nextElementSibling;
+    }
+    if (elements.length > 1) {
+      found = true;
+      wrapElementsInCollapsible(elements, doc, collapsed, SIGNATURE_LABELS);
+    }
+  });
+
+  doc.querySelectorAll('pre').forEach((pre) => {
+    if (pre.closest('.fe-quote-wrapper, blockquote')) return;
+    const lines = pre.textContent.split('\n');
+    const start = lines.findIndex((line) => SIGNATURE_DELIMITER_PATTERN.test(line));
+    if (start === -1) return;
+    let end = start + 1;
+    while (end < lines.length && !hasQuoteMarkers(lines[end]) && !isQuoteAttribution(lines[end])) {
+      end += 1;
+    }
+    if (
+      !lines
+        .slice(start + 1, end)
+        .join('')
+        .trim()
+    )
+      return;
+
+    found = true;
+    const container = doc.createElement('div');
+    const makePre = (text) => {
+      if (!text.trim()) return null;
+      const part = doc.createElement('pre');
+      part.textContent = text;
+      return part;
+    };
+    const before = makePre(lines.slice(0, start).join('\n'));
+    if (before) container.appendChild(before);
+    const { wrapper, content } = createCollapsible(doc, collapsed, SIGNATURE_LABELS);
+    content.appendChild(makePre(lines.slice(start, end).join('\n')));
+    container.appendChild(wrapper);
+    // Anything after (e.g. a quoted reply) stays for the plain-text quote pass
+    const after = makePre(lines.slice(end).join('\n'));
+    if (after) container.appendChild(after);
+    pre.parentNode.replaceChild(container, pre);
+  });
+
+  return found;
 }
 
 /**
@@ -309,23 +406,10 @@ function processPlainTextQuotes(doc, collapsed) {
           container.appendChild(beforePre);
         }
 
-        const wrapper = doc.createElement('div');
-        wrapper.className = `fe-quote-wrapper${collapsed ? ' fe-quote-collapsed' : ''}`;
-
-        const toggle = doc.createElement('button');
-        toggle.type = 'button';
-        toggle.className = 'fe-quote-toggle';
-        toggle.setAttribute('data-action', 'toggle-quote');
-        toggle.innerHTML = `<span class="fe-quote-dots">...</span><span class="fe-quote-label">${collapsed ? 'Show quoted text' : 'Hide quoted text'}</span>`;
-
-        const content = doc.createElement('div');
-        content.className = 'fe-quote-content';
+        const { wrapper, content } = createCollapsible(doc, collapsed);
         const quotedPre = doc.createElement('pre');
         quotedPre.textContent = quotedPart;
         content.appendChild(quotedPre);
-
-        wrapper.appendChild(toggle);
-        wrapper.appendChild(content);
         container.appendChild(wrapper);
 
         pre.parentNode.replaceChild(container, pre);
@@ -361,13 +445,7 @@ function handleQuoteToggle(event) {
   const wrapper = toggle.closest('.fe-quote-wrapper');
   if (!wrapper) return;
 
-  const isCollapsed = wrapper.classList.contains('fe-quote-collapsed');
-  wrapper.classList.toggle('fe-quote-collapsed');
-
-  const label = toggle.querySelector('.fe-quote-label');
-  if (label) {
-    label.textContent = isCollapsed ? 'Hide quoted text' : 'Show quoted text';
-  }
+  setCollapsed(wrapper, !wrapper.classList.contains('fe-quote-collapsed'));
 }
 
 /**
@@ -376,9 +454,7 @@ function handleQuoteToggle(event) {
 export function expandAllQuotes(container) {
   if (!container) return;
   container.querySelectorAll('.fe-quote-wrapper.fe-quote-collapsed').forEach((wrapper) => {
-    wrapper.classList.remove('fe-quote-collapsed');
-    const label = wrapper.querySelector('.fe-quote-label');
-    if (label) label.textContent = 'Hide quoted text';
+    setCollapsed(wrapper, false);
   });
 }
 
@@ -388,8 +464,6 @@ export function expandAllQuotes(container) {
 export function collapseAllQuotes(container) {
   if (!container) return;
   container.querySelectorAll('.fe-quote-wrapper:not(.fe-quote-collapsed)').forEach((wrapper) => {
-    wrapper.classList.add('fe-quote-collapsed');
-    const label = wrapper.querySelector('.fe-quote-label');
-    if (label) label.textContent = 'Show quoted text';
+    setCollapsed(wrapper, true);
   });
 }
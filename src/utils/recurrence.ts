@@ -0,0 +1,757 @@
+/**
+ * Recurring events
+ *
+ * Reads the recurrence of an iCalendar event (RRULE, EXDATE and RECURRENCE-ID
+ * overrides), expands it into occurrences for the range the calendar shows,
+ * and edits the `ical` payload for the "this event / this and following / all
+ * events" choices in Calendar.svelte.
+ *
+ * Occurrences keep the wall-clock time of the first one. Events with a TZID
+ * repeat in that zone; UTC, floating and all-day events repeat in the
+ * viewer's local time, so a weekly 9:00 meeting stays at 9:00 across daylight
+ * saving changes. An occurrence is identified by the time it was generated
+ * at (its RECURRENCE-ID), in milliseconds.
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  /** Weekdays (MO), with an ordinal for monthly and yearly rules (2TU, -1FR) */
+  byDay: string[];
+  byMonthDay: number[];
+  /** Months, 1-12 */
+  byMonth: number[];
+  count: number | null;
+  until: Date | null;
+  weekStart: string;
+}
+
+export interface ICalTime {
+  date: Date;
+  allDay: boolean;
+  tzid: string;
+  utc: boolean;
+}
+
+export interface EventOverride {
+  recurrenceId: number;
+  start: Date;
+  end: Date;
+  summary?: string;
+  description?: string;
+  location?: string;
+  cancelled: boolean;
+}
+
+export interface RecurringSeries {
+  uid: string;
+  start: ICalTime;
+  /** Length of each occurrence in milliseconds */
+  duration: number;
+  rule: RecurrenceRule | null;
+  rrule: string;
+  exdates: number[];
+  overrides: EventOverride[];
+}
+
+export interface Occurrence {
+  recurrenceId: number;
+  start: Date;
+  end: Date;
+  override: EventOverride | null;
+}
+
+/** The recurrence picker's state; `freq: ''` means the event doesn't repeat */
+export interface RecurrenceForm {
+  freq: RecurrenceFrequency | '';
+  interval: number;
+  byDay: string[];
+  monthly: 'day' | 'weekday';
+  ends: 'never' | 'count' | 'until';
+  count: number;
+  until: string;
+}
+
+export type RecurrenceScope = 'this' | 'following' | 'all';
+
+export const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Periods (days, weeks, months or years) walked before giving up on a rule
+const MAX_PERIODS = 20000;
+
+interface WallTime {
+  year: number;
+  /** 0-11 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+export interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Time zones
+
+const formatters = new Map<string, Intl.DateTimeFormat | null>();
+
+const zoneFormatter = (tz: string): Intl.DateTimeFormat | null => {
+  if (!formatters.has(tz)) {
+    try {
+      formatters.set(
+        tz,
+        new Intl.DateTimeFormat('en-US', {
+          timeZone: tz,
+          hourCycle: 'h23',
+          year: 'numeric',
+          month: 'numeric',
+          day: 'numeric',
+          hour: 'numeric',
+          minute: 'numeric',
+          second: 'numeric',
+        }),
+      );
+    } catch {
+      // Not an IANA zone (e.g. Outlook's "Eastern Standard Time")
+      formatters.set(tz, null);
+    }
+  }
+  return formatters.get(tz) || null;
+};
+
+/** The zone occurrences repeat in: the event's TZID when known, else local time */
+const seriesZone = (time: ICalTime) => (time.tzid && zoneFormatter(time.tzid) ? time.tzid : '');
+
+function wallTime(date: Date, tz: string): WallTime {
+  const formatter = tz ? zoneFormatter(tz) : null;
+  if (!formatter) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth(),
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+    };
+  }
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month - 1,
+    day: parts.day,
+    hour: parts.hour % 24,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+const wallTimeUtc = (w: WallTime) => Date.UTC(w.year, w.month, w.day, w.hour, w.minute, w.second);
+
+function fromWallTime(w: WallTime, tz: string): Date {
+  if (!tz || !zoneFormatter(tz)) {
+    return new Date(w.year, w.month, w.day, w.hour, w.minute, w.second);
+  }
+  const guess = wallTimeUtc(w);
+  const offsetAt = (ms: number) => wallTimeUtc(wallTime(new Date(ms), tz)) - ms;
+  const first = guess - offsetAt(guess);
+  const second = guess - offsetAt(first);
+  return new Date(second);
+}
+
+// iCalendar text (also read by itip.ts)
+
+const unfold = (text: string) => (text || '').replace(/\r?\n[ \t]/g, '');
+
+export function parseLine(line: string): ICalProperty | null {
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+export const blockLines = (block: string) => unfold(block).split(/\r?\n/).filter(Boolean);
+
+export const readProperties = (block: string): ICalProperty[] =>
+  blockLines(block)
+    .map(parseLine)
+    .filter((prop): prop is ICalProperty => !!prop);
+
+export const readProperty = (block: string, name: string) =>
+  readProperties(block).find((prop) => prop.name === name) || null;
+
+export const unescapeText = (value: string) =>
+  value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+
+/** The VEVENT blocks of an iCalendar payload */
+export const extractVEvents = (ical: string): string[] =>
+  unfold(ical).match(/BEGIN:VEVENT[\s\S]*?END:VEVENT/gi) || [];
+
+/** The payload with its VEVENT blocks replaced, keeping the rest (VTIMEZONE, METHOD) */
+export function replaceVEvents(ical: string, blocks: string[]): string {
+  const shell = unfold(ical).replace(/BEGIN:VEVENT[\s\S]*?END:VEVENT\r?\n?/gi, '');
+  const end = shell.search(/END:VCALENDAR/i);
+  if (!/BEGIN:VCALENDAR/i.test(shell) || end === -1) {
+    return [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Forward Email//Webmail//EN',
+      'CALSCALE:GREGORIAN',
+      ...blocks,
+      'END:VCALENDAR',
+    ].join('\r\n');
+  }
+  const prefix = shell.slice(0, end).replace(/\r?\n?$/, '\r\n');
+  return `${prefix}${blocks.join('\r\n')}\r\n${shell.slice(end)}`;
+}
+
+// Replace every `name` line of a VEVENT block with `lines`
+export function setBlockLines(block: string, name: string, lines: string[]): string {
+  const kept = blockLines(block).filter((line) => parseLine(line)?.name !== name);
+  const end = kept.findIndex((line) => /^END:VEVENT$/i.test(line));
+  kept.splice(end === -1 ? kept.length : end, 0, ...lines);
+  return kept.join('\r\n');
+}
+
+// Dates
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+const formatDateValue = (w: WallTime) => `${pad(w.year, 4)}${pad(w.month + 1)}${pad(w.day)}`;
+
+const formatDateTimeValue = (w: WallTime) =>
+  `${formatDateValue(w)}T${pad(w.hour)}${pad(w.minute)}${pad(w.second)}`;
+
+const utcWallTime = (date: Date): WallTime => ({
+  year: date.getUTCFullYear(),
+  month: date.getUTCMonth(),
+  day: date.getUTCDate(),
+  hour: date.getUTCHours(),
+  minute: date.getUTCMinutes(),
+  second: date.getUTCSeconds(),
+});
+
+/** A UTC date-time value, e.g. 20250102T140000Z */
+export const formatICalUtc = (date: Date) => `${formatDateTimeValue(utcWallTime(date))}Z`;
+
+/**
+ * Read a DATE or DATE-TIME value. Times with a TZID are converted from that
+ * zone; floating times and dates are local.
+ */
+export function parseICalDate(value: string, params: Record<string, string> = {}): ICalTime | null {
+  const match = (value || '')
+    .trim()
+    .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/i);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, zulu] = match;
+  const allDay = !hour || params.VALUE === 'DATE';
+  const w: WallTime = {
+    year: Number(year),
+    month: Number(month) - 1,
+    day: Number(day),
+    hour: allDay ? 0 : Number(hour),
+    minute: allDay ? 0 : Number(minute),
+    second: allDay ? 0 : Number(second || 0),
+  };
+  if (zulu && !allDay) {
+    return { date: new Date(wallTimeUtc(w)), allDay, tzid: '', utc: true };
+  }
+  const tzid = allDay ? '' : params.TZID || '';
+  return { date: fromWallTime(w, tzid), allDay, tzid, utc: false };
+}
+
+/** A time formatted the way `like` is: as a date, in its TZID, in UTC or floating */
+function formatLike(like: ICalTime, date: Date): string {
+  if (like.allDay) return `;VALUE=DATE:${formatDateValue(wallTime(date, ''))}`;
+  if (like.utc) return `:${formatICalUtc(date)}`;
+  const tz = seriesZone(like);
+  if (tz) return `;TZID=${like.tzid}:${formatDateTimeValue(wallTime(date, tz))}`;
+  return `:${formatDateTimeValue(wallTime(date, ''))}`;
+}
+
+export const readTime = (block: string, name: string) => {
+  const prop = readProperty(block, name);
+  return prop ? parseICalDate(prop.value, prop.params) : null;
+};
+
+// PT1H30M, P1D, P1W
+export function parseDuration(value: string): number {
+  const match = (value || '').match(
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/,
+  );
+  if (!match) return 0;
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map((part) => part || '0');
+  const ms =
+    ((Number(weeks) * 7 + Number(days)) * 86400 +
+      Number(hours) * 3600 +
+      Number(minutes) * 60 +
+      Number(seconds)) *
+    1000;
+  return sign === '-' ? -ms : ms;
+}
+
+// Rules
+
+/** Parse an RRULE value (FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10) */
+export function parseRRule(value: string | null | undefined): RecurrenceRule | null {
+  const parts: Record<string, string> = {};
+  for (const part of (value || '').replace(/^RRULE:/i, '').split(';')) {
+    const [key, ...rest] = part.split('=');
+    if (key) parts[key.trim().toUpperCase()] = rest.join('=').trim();
+  }
+  const freq = parts.FREQ?.toUpperCase() as RecurrenceFrequency;
+  if (!FREQUENCIES.includes(freq)) return null;
+  const list = (key: string) => (parts[key] ? parts[key].split(',').filter(Boolean) : []);
+  const numbers = (key: string) =>
+    list(key)
+      .map(Number)
+      .filter((n) => Number.isInteger(n) && n !== 0);
+  const until = parts.UNTIL ? parseICalDate(parts.UNTIL) : null;
+  return {
+    freq,
+    interval: Math.max(1, Number(parts.INTERVAL) || 1),
+    byDay: list('BYDAY').map((day) => day.toUpperCase()),
+    byMonthDay: numbers('BYMONTHDAY'),
+    byMonth: numbers('BYMONTH'),
+    count: Number(parts.COUNT) > 0 ? Number(parts.COUNT) : null,
+    // A date UNTIL includes that whole day
+    until: until ? new Date(until.date.getTime() + (until.allDay ? DAY_MS - 1 : 0)) : null,
+    weekStart: WEEKDAYS.includes(parts.WKST?.toUpperCase()) ? parts.WKST.toUpperCase() : 'MO',
+  };
+}
+
+/**
+ * Format a rule as an RRULE value. UNTIL is written as a date for all-day
+ * events and in UTC otherwise.
+ */
+export function formatRRule(rule: RecurrenceRule, allDay = false): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  if (rule.byMonthDay.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byMonth.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.weekStart !== 'MO') parts.push(`WKST=${rule.weekStart}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  else if (rule.until) {
+    parts.push(
+      `UNTIL=${allDay ? formatDateValue(wallTime(rule.until, '')) : formatICalUtc(rule.until)}`,
+    );
+  }
+  return parts.join(';');
+}
+
+// Day numbers count days since 1970-01-01 (a Thursday)
+const toDayNumber = (year: number, month: number, day: number) =>
+  Math.round(Date.UTC(year, month, day) / DAY_MS);
+const fromDayNumber = (n: number) => {
+  const date = new Date(n * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth(), day: date.getUTCDate() };
+};
+const weekdayOf = (n: number) => (((n + 4) % 7) + 7) % 7;
+
+const parseByDay = (entry: string) => {
+  const match = entry.match(/^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/);
+  return match ? { nth: Number(match[1] || 0), weekday: WEEKDAYS.indexOf(match[2]) } : null;
+};
+
+// The days of a month matching the rule's BYMONTHDAY and BYDAY
+function monthDays(year: number, month: number, rule: RecurrenceRule, startDay: number): number[] {
+  const length = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const firstWeekday = weekdayOf(toDayNumber(year, month, 1));
+  let days: number[] | null = null;
+  if (rule.byMonthDay.length) {
+    days = rule.byMonthDay
+      .map((day) => (day > 0 ? day : length + day + 1))
+      .filter((day) => day >= 1 && day <= length);
+  }
+  if (rule.byDay.length) {
+    const matching = new Set<number>();
+    for (const entry of rule.byDay) {
+      const parsed = parseByDay(entry);
+      if (!parsed) continue;
+      const all: number[] = [];
+      for (let day = 1 + ((parsed.weekday - firstWeekday + 7) % 7); day <= length; day += 7) {
+        all.push(day);
+      }
+      if (!parsed.nth) all.forEach((day) => matching.add(day));
+      else {
+        const day = parsed.nth > 0 ? all[parsed.nth - 1] : all[all.length + parsed.nth];
+        if (day) matching.add(day);
+      }
+    }
+    days = days ? days.filter((day) => matching.has(day)) : [...matching];
+  }
+  if (!days) days = startDay <= length ? [startDay] : [];
+  return [...new Set(days)].sort((a, b) => a - b);
+}
+
+// The dates of the rule's nth period (day, week, month or year)
+function periodDates(rule: RecurrenceRule, first: WallTime, period: number) {
+  const plainDays = rule.byDay
+    .map(parseByDay)
+    .filter((day): day is { nth: number; weekday: number } => !!day)
+    .map((day) => day.weekday);
+  const inMonths = (month: number) => !rule.byMonth.length || rule.byMonth.includes(month + 1);
+  const firstDay = toDayNumber(first.year, first.month, first.day);
+
+  if (rule.freq === 'DAILY') {
+    const date = fromDayNumber(firstDay + period * rule.interval);
+    const weekday = weekdayOf(firstDay + period * rule.interval);
+    const length = new Date(Date.UTC(date.year, date.month + 1, 0)).getUTCDate();
+    const monthDayOk =
+      !rule.byMonthDay.length ||
+      rule.byMonthDay.some((day) => (day > 0 ? day : length + day + 1) === date.day);
+    const ok =
+      inMonths(date.month) && monthDayOk && (!plainDays.length || plainDays.includes(weekday));
+    return ok ? [date] : [];
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    const weekStart = WEEKDAYS.indexOf(rule.weekStart);
+    const begin =
+      firstDay - ((weekdayOf(firstDay) - weekStart + 7) % 7) + period * 7 * rule.interval;
+    const weekdays = plainDays.length ? plainDays : [weekdayOf(firstDay)];
+    return weekdays
+      .map((weekday) => begin + ((weekday - weekStart + 7) % 7))
+      .sort((a, b) => a - b)
+      .map(fromDayNumber)
+      .filter((date) => inMonths(date.month));
+  }
+
+  if (rule.freq === 'MONTHLY') {
+    const total = first.year * 12 + first.month + period * rule.interval;
+    const year = Math.floor(total / 12);
+    const month = total % 12;
+    if (!inMonths(month)) return [];
+    return monthDays(year, month, rule, first.day).map((day) => ({ year, month, day }));
+  }
+
+  const year = first.year + period * rule.interval;
+  const months = rule.byMonth.length ? rule.byMonth.map((m) => m - 1) : [first.month];
+  return [...months]
+    .sort((a, b) => a - b)
+    .flatMap((month) =>
+      monthDays(year, month, rule, first.day).map((day) => ({ year, month, day })),
+    );
+}
+
+/**
+ * The start times the series generates, in order, within COUNT and UNTIL.
+ * Excluded dates and overrides are not applied here: they still count
+ * towards COUNT.
+ */
+function* occurrenceStarts(series: RecurringSeries): Generator<number> {
+  const { rule } = series;
+  const startMs = series.start.date.getTime();
+  if (!rule) {
+    yield startMs;
+    return;
+  }
+  const tz = seriesZone(series.start);
+  const first = wallTime(series.start.date, tz);
+  let count = 0;
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const date of periodDates(rule, first, period)) {
+      const ms = fromWallTime(
+        { ...date, hour: first.hour, minute: first.minute, second: first.second },
+        tz,
+      ).getTime();
+      if (ms < startMs) continue;
+      if (rule.until && ms > rule.until.getTime()) return;
+      if (rule.count && count >= rule.count) return;
+      count++;
+      yield ms;
+    }
+  }
+}
+
+/**
+ * Read an event's recurrence from its `ical` payload: the main VEVENT (the
+ * one without a RECURRENCE-ID), its excluded dates and changed occurrences.
+ */
+export function readRecurringSeries(ical: string | null | undefined): RecurringSeries | null {
+  const blocks = extractVEvents(ical || '');
+  const master = blocks.find((block) => !readProperty(block, 'RECURRENCE-ID'));
+  if (!master) return null;
+  const start = readTime(master, 'DTSTART');
+  if (!start) return null;
+  const uid = readProperty(master, 'UID')?.value.trim() || '';
+  const end = readTime(master, 'DTEND');
+  const durationProp = readProperty(master, 'DURATION');
+  const duration = end
+    ? end.date.getTime() - start.date.getTime()
+    : durationProp
+      ? parseDuration(durationProp.value)
+      : start.allDay
+        ? DAY_MS
+        : 0;
+  const rrule = readProperty(master, 'RRULE')?.value.trim() || '';
+
+  const exdates = readProperties(master)
+    .filter((prop) => prop.name === 'EXDATE')
+    .flatMap((prop) => prop.value.split(',').map((value) => parseICalDate(value, prop.params)))
+    .filter((time): time is ICalTime => !!time)
+    .map((time) => time.date.getTime());
+
+  const overrides: EventOverride[] = [];
+  for (const block of blocks) {
+    if (block === master) continue;
+    const blockUid = readProperty(block, 'UID')?.value.trim() || '';
+    const recurrenceId = readTime(block, 'RECURRENCE-ID');
+    if (!recurrenceId || (uid && blockUid && blockUid !== uid)) continue;
+    const overrideStart = readTime(block, 'DTSTART')?.date || recurrenceId.date;
+    const overrideEnd =
+      readTime(block, 'DTEND')?.date || new Date(overrideStart.getTime() + duration);
+    const text = (name: string) => {
+      const prop = readProperty(block, name);
+      return prop ? unescapeText(prop.value) : undefined;
+    };
+    overrides.push({
+      recurrenceId: recurrenceId.date.getTime(),
+      start: overrideStart,
+      end: overrideEnd,
+      summary: text('SUMMARY'),
+      description: text('DESCRIPTION'),
+      location: text('LOCATION'),
+      cancelled: text('STATUS')?.toUpperCase() === 'CANCELLED',
+    });
+  }
+
+  return { uid, start, duration, rule: parseRRule(rrule), rrule, exdates, overrides };
+}
+
+/**
+ * The occurrences of a series that overlap a range, with changed occurrences
+ * at their new times and excluded or cancelled ones left out.
+ */
+export function expandSeries(
+  series: RecurringSeries,
+  rangeStart: Date,
+  rangeEnd: Date,
+  limit = 2000,
+): Occurrence[] {
+  const from = rangeStart.getTime();
+  const to = rangeEnd.getTime();
+  const excluded = new Set(series.exdates);
+  const overridden = new Set(series.overrides.map((override) => override.recurrenceId));
+  const occurrences: Occurrence[] = [];
+
+  for (const ms of occurrenceStarts(series)) {
+    if (ms > to || occurrences.length >= limit) break;
+    if (excluded.has(ms) || overridden.has(ms) || ms + series.duration <= from) continue;
+    occurrences.push({
+      recurrenceId: ms,
+      start: new Date(ms),
+      end: new Date(ms + series.duration),
+      override: null,
+    });
+  }
+  for (const override of series.overrides) {
+    if (override.cancelled || excluded.has(override.recurrenceId)) continue;
+    if (override.start.getTime() > to || override.end.getTime() <= from) continue;
+    occurrences.push({
+      recurrenceId: override.recurrenceId,
+      start: override.start,
+      end: override.end,
+      override,
+    });
+  }
+  return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/** How many occurrences the series generates before a time (for COUNT) */
+export function countOccurrencesBefore(series: RecurringSeries, before: number): number {
+  let count = 0;
+  for (const ms of occurrenceStarts(series)) {
+    if (ms >= before) break;
+    count++;
+  }
+  return count;
+}
+
+// Editing
+
+const splitBlocks = (ical: string) => {
+  const blocks = extractVEvents(ical);
+  const masterIndex = blocks.findIndex((block) => !readProperty(block, 'RECURRENCE-ID'));
+  return { blocks, masterIndex, master: masterIndex === -1 ? '' : blocks[masterIndex] };
+};
+
+const recurrenceIdOf = (block: string) => readTime(block, 'RECURRENCE-ID')?.date.getTime() ?? null;
+
+/** The RECURRENCE-ID line for an occurrence, in the series' DTSTART format */
+export function recurrenceIdProperty(series: RecurringSeries, recurrenceId: number): string {
+  return `RECURRENCE-ID${formatLike(series.start, new Date(recurrenceId))}`;
+}
+
+/**
+ * Add or replace the VEVENT that changes one occurrence ("this event"). The
+ * block must carry the occurrence's RECURRENCE-ID and the series UID.
+ */
+export function overrideOccurrence(ical: string, override: string): string {
+  const id = recurrenceIdOf(override);
+  const blocks = extractVEvents(ical).filter(
+    (block) => id === null || recurrenceIdOf(block) !== id,
+  );
+  return replaceVEvents(ical, [...blocks, override]);
+}
+
+/** Remove one occurrence: an EXDATE on the series, and no override for it */
+export function excludeOccurrence(ical: string, recurrenceId: number): string {
+  const series = readRecurringSeries(ical);
+  const { blocks, masterIndex, master } = splitBlocks(ical);
+  if (!series || !master) return ical;
+  const exdates = [...new Set([...series.exdates, recurrenceId])].sort((a, b) => a - b);
+  const next = blocks
+    .map((block, i) =>
+      i === masterIndex
+        ? setBlockLines(
+            master,
+            'EXDATE',
+            exdates.map((ms) => `EXDATE${formatLike(series.start, new Date(ms))}`),
+          )
+        : block,
+    )
+    .filter((block) => recurrenceIdOf(block) !== recurrenceId);
+  return replaceVEvents(ical, next);
+}
+
+/**
+ * End the series before an occurrence ("this and following"): UNTIL is set
+ * just before it, and excluded dates and overrides from then on are dropped.
+ */
+export function endSeriesBefore(ical: string, before: number): string {
+  const series = readRecurringSeries(ical);
+  const { blocks, masterIndex, master } = splitBlocks(ical);
+  if (!series?.rule || !master) return ical;
+  const until = new Date(before - (series.start.allDay ? DAY_MS : 1000));
+  const rule = { ...series.rule, count: null, until };
+  let nextMaster = setBlockLines(master, 'RRULE', [
+    `RRULE:${formatRRule(rule, series.start.allDay)}`,
+  ]);
+  nextMaster = setBlockLines(
+    nextMaster,
+    'EXDATE',
+    series.exdates
+      .filter((ms) => ms < before)
+      .map((ms) => `EXDATE${formatLike(series.start, new Date(ms))}`),
+  );
+  const next = blocks
+    .map((block, i) => (i === masterIndex ? nextMaster : block))
+    .filter((block) => {
+      const id = recurrenceIdOf(block);
+      return id === null || id < before;
+    });
+  return replaceVEvents(ical, next);
+}
+
+/**
+ * Replace the main VEVENT ("all events"). When the series keeps repeating,
+ * its excluded dates and overrides move by `shift` milliseconds along with
+ * the start time; otherwise they are dropped.
+ */
+export function replaceSeriesMaster(ical: string, master: string, shift = 0): string {
+  const series = readRecurringSeries(ical);
+  const start = readTime(master, 'DTSTART');
+  if (!series || !start) return replaceVEvents(ical, [master]);
+  if (!readProperty(master, 'RRULE')) return replaceVEvents(ical, [master]);
+
+  const nextMaster = setBlockLines(
+    master,
+    'EXDATE',
+    series.exdates.map((ms) => `EXDATE${formatLike(start, new Date(ms + shift))}`),
+  );
+  const overrides = extractVEvents(ical)
+    .filter((block) => recurrenceIdOf(block) !== null)
+    .map((block) =>
+      setBlockLines(block, 'RECURRENCE-ID', [
+        `RECURRENCE-ID${formatLike(start, new Date((recurrenceIdOf(block) as number) + shift))}`,
+      ]),
+    );
+  return replaceVEvents(ical, [nextMaster, ...overrides]);
+}
+
+// Recurrence picker
+
+export const emptyRecurrenceForm = (): RecurrenceForm => ({
+  freq: '',
+  interval: 1,
+  byDay: [],
+  monthly: 'day',
+  ends: 'never',
+  count: 10,
+  until: '',
+});
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/** The picker state for a rule (weekly days, monthly by date or weekday, end) */
+export function recurrenceFormFromRule(rule: RecurrenceRule | null): RecurrenceForm {
+  if (!rule) return emptyRecurrenceForm();
+  return {
+    freq: rule.freq,
+    interval: rule.interval,
+    byDay: rule.freq === 'WEEKLY' ? rule.byDay.filter((day) => WEEKDAYS.includes(day)) : [],
+    monthly:
+      rule.freq === 'MONTHLY' && rule.byDay.some((day) => /\d/.test(day)) ? 'weekday' : 'day',
+    ends: rule.count ? 'count' : rule.until ? 'until' : 'never',
+    count: rule.count || 10,
+    until: rule.until ? toDateInput(rule.until) : '',
+  };
+}
+
+/**
+ * The rule the picker describes for an event starting at `start`. Weekly
+ * rules default to the start's weekday; monthly "weekday" rules repeat on its
+ * nth (or last) weekday of the month.
+ */
+export function ruleFromRecurrenceForm(form: RecurrenceForm, start: Date): RecurrenceRule | null {
+  if (!form.freq) return null;
+  const weekday = WEEKDAYS[start.getDay()];
+  let byDay: string[] = [];
+  if (form.freq === 'WEEKLY') {
+    byDay = WEEKDAYS.filter((day) => (form.byDay.length ? form.byDay : [weekday]).includes(day));
+  } else if (form.freq === 'MONTHLY' && form.monthly === 'weekday') {
+    const nth = Math.ceil(start.getDate() / 7);
+    byDay = [`${nth > 4 ? -1 : nth}${weekday}`];
+  }
+  let until: Date | null = null;
+  if (form.ends === 'until' && /^\d{4}-\d{2}-\d{2}$/.test(form.until)) {
+    const [year, month, day] = form.until.split('-').map(Number);
+    until = new Date(year, month - 1, day, 23, 59, 59);
+  }
+  return {
+    freq: form.freq,
+    interval: Math.max(1, Math.floor(Number(form.interval)) || 1),
+    byDay,
+    byMonthDay: [],
+    byMonth: [],
+    count: form.ends === 'count' ? Math.max(1, Math.floor(Number(form.count)) || 1) : null,
+    until,
+    weekStart: 'MO',
+  };
+}
@@ -1,6 +1,6 @@
 import ky from 'ky';
 import { config } from '../config.js';
-import { buildApiKeyAuthHeader, getAuthHeader } from './auth.ts';
+import { buildApiKeyAuthHeader, getAccountAuthHeader } from './auth.ts';
 import { logApiError } from './error-logger.ts';
 import { logPerfEvent } from './perf-logger.ts';
 import { interceptDemoRequest, isDemoMode } from './demo-mode';
@@ -23,6 +23,14 @@ const TIMEOUT_BY_ACTION = {
   Emails: 30000,
   Account: 10000,
   AccountUpdate: 15000,
+  SieveScripts: 10000,
+  SieveScriptGet: 10000,
+  SieveScriptCreate: 15000,
+  SieveScriptUpdate: 15000,
+  SieveScriptDelete: 10000,
+  SieveScriptActivate: 10000,
+  WkdLookup: 10000,
+  ListUnsubscribe: 15000,
   default: 30000,
 };
 
@@ -79,7 +87,8 @@ export const Remote = {
       if (options.apiKey) {
         headers.Authorization = buildApiKeyAuthHeader(options.apiKey);
       } else {
-        headers.Authorization = getAuthHeader({ allowApiKey: false, required: true });
+        // `account` routes the request to another signed-in account
+        headers.Authorization = getAccountAuthHeader(options.account, { required: true });
       }
     }
 
@@ -240,6 +249,14 @@ export const Remote = {
       EmailCancel: { path: '/v1/emails/:id', method: 'DELETE' },
       Account: { path: '/v1/account', method: 'GET' },
       AccountUpdate: { path: '/v1/account', method: 'PUT' },
+      SieveScripts: { path: '/v1/sieve-scripts', method: 'GET' },
+      SieveScriptGet: { path: '/v1/sieve-scripts/:id', method: 'GET' },
+      SieveScriptCreate: { path: '/v1/sieve-scripts', method: 'POST' },
+      SieveScriptUpdate: { path: '/v1/sieve-scripts/:id', method: 'PUT' },
+      SieveScriptDelete: { path: '/v1/sieve-scripts/:id', method: 'DELETE' },
+      SieveScriptActivate: { path: '/v1/sieve-scripts/:id/activate', method: 'POST' },
+      WkdLookup: { path: '/v1/wkd', method: 'GET' },
+      ListUnsubscribe: { path: '/v1/list-unsubscribe', method: 'POST' },
     };
 
     const entry = endpoints[action];
@@ -94,6 +94,8 @@ const clauseFromToken = (token = '') => {
     case 'label':
     case 'tag':
       return { type: 'field', field: 'label', value, negated };
+    case 'list':
+      return { type: 'field', field: 'list', value, negated };
     case 'is': {
       const lowered = value.toLowerCase();
       return { type: 'flag', flag: lowered, negated };
@@ -235,6 +237,9 @@ const matchesClause = (msg = {}, clause = {}) => {
         );
         return applyNegation(labels.some((l) => l.includes(value)));
       }
+      if (clause.field === 'list') {
+        return applyNegation(toLower(msg.list?.id || '').includes(value));
+      }
       return true;
     }
     case 'flag': {
@@ -321,6 +326,38 @@ const evaluateAst = (ast, msg) => {
   }
 };
 
+/**
+ * Build a complete expression tree for a query. Unlike the `ast` returned by
+ * parseSearchQuery, adjacent terms without an operator are joined with AND,
+ * so every clause of `from:alice subject:invoice` is part of the tree.
+ *
+ * @param {string} raw - Query in the search grammar
+ * @returns {Object|null} AST of CLAUSE / NOT / AND / OR nodes, or null when empty
+ */
+export function buildQueryAst(raw = '') {
+  const tokens = [];
+  let previous = null;
+  tokenize(raw || '').forEach((token) => {
+    const upper = token.toUpperCase();
+    const operator = isOperator(upper) ? upper : null;
+    const startsTerm = token === '(' || operator === 'NOT' || (!operator && token !== ')');
+    const endsTerm =
+      previous === ')' || (previous !== null && previous !== '(' && !isOperator(previous));
+    if (startsTerm && endsTerm) tokens.push('AND');
+    tokens.push(operator || token);
+    previous = operator || token;
+  });
+  return toAst(tokens);
+}
+
+/**
+ * Test a single message against an AST from buildQueryAst.
+ * An empty query matches every message.
+ */
+export function matchesQuery(msg, ast) {
+  return evaluateAst(ast, msg || {});
+}
+
 export function parseSearchQuery(raw = '') {
   const tokens = tokenize(raw || '');
   const hasBooleanTokens = tokens.some(
@@ -336,6 +373,7 @@ export function parseSearchQuery(raw = '') {
     subject: [],
     folder: null,
     labels: [],
+    lists: [],
     isUnread: null,
     isStarred: null,
     hasAttachment: null,
@@ -381,6 +419,9 @@ export function parseSearchQuery(raw = '') {
         case 'label':
           filters.labels.push(value);
           break;
+        case 'list':
+          filters.lists.push(value);
+          break;
         default:
           break;
       }
@@ -418,6 +459,7 @@ export function applySearchFilters(messages = [], filters = {}) {
     to = [],
     subject = [],
     labels = [],
+    lists = [],
     folder = null,
     isUnread = null,
     isStarred = null,
@@ -494,6 +536,88 @@ export function applySearchFilters(messages = [], filters = {}) {
       if (!labels.some((lbl) => messageLabels.some((ml) => ml.includes(lbl)))) return false;
     }
 
+    const listId = toLower(msg.list?.id || '');
+    if (lists.length && !lists.some((list) => listId.includes(list))) return false;
+
     return true;
   });
 }
+
+/**
+ * Translate a parsed query into message-search parameters for the API
+ * (GET /v1/messages). Only what the API can express is sent; callers run
+ * applySearchFilters over the results to enforce the rest. Boolean queries
+ * cannot be expressed and return null.
+ *
+ * @param {{ text?: string, filters?: Object }} parsed - Result of parseSearchQuery
+ * @returns {Object|null} Request parameters, or null when nothing can be sent
+ */
+export function buildServerSearchParams({ text = '', filters = {} } = {}) {
+  if (!filters || filters.hasBoolean) return null;
+  const params = {};
+  const single = (list) => (Array.isArray(list) && list.length === 1 ? list[0] : null);
+
+  if (text) params.search = text;
+  if (single(filters.from)) params.from = single(filters.from);
+  if (single(filters.to)) params.to = single(filters.to);
+  if (single(filters.subject)) params.subject = single(filters.subject);
+  if (filters.isUnread === true || filters.isUnread === false) params.is_unread = filters.isUnread;
+  if (filters.isStarred) params.is_flagged = true;
+  if (filters.hasAttachment) params.has_attachments = true;
+  if (filters.after) params.since = new Date(filters.after).toISOString();
+  if (filters.before) params.before = new Date(filters.before).toISOString();
+  if (filters.size?.bytes) {
+    params[filters.size.op?.startsWith('<') ? 'max_size' : 'min_size'] = filters.size.bytes;
+  }
+
+  return Object.keys(params).length ? params : null;
+}
+
+/**
+ * Merge server search results into local ones. Local hits keep their order
+ * and win de-duplication (by id, then Message-ID header); remaining server
+ * hits are appended and tagged with `fromServer`.
+ */
+export function mergeSearchResults(local = [], remote = [], limit = Infinity) {
+  const seen = new Set();
+  const keysOf = (msg) =>
+    [msg?.id, msg?.header_message_id].filter(Boolean).map((key) => String(key));
+  const merged = [];
+  for (const msg of local || []) {
+    keysOf(msg).forEach((key) => seen.add(key));
+    merged.push(msg);
+  }
+  for (const msg of remote || []) {
+    const keys = keysOf(msg);
+    if (!keys.length || keys.some((key) => seen.has(key))) continue;
+    keys.forEach((key) => seen.add(key));
+    merged.push({ ...msg, fromServer: true });
+  }
+  return merged.slice(0, limit);
+}
+
+/**
+ * Merge each account's results for an all-accounts search. Hits with a
+ * relevance score come first, then newest first; a message id found in two
+ * accounts is kept once for each (the `account` field tells them apart).
+ */
+export function mergeAccountSearchResults(lists = [], limit = Infinity) {
+  const seen = new Set();
+  const merged = [];
+  for (const list of lists || []) {
+    for (const msg of list || []) {
+      const key = `${msg?.account}:${msg?.id}`;
+      if (!msg?.id || seen.has(key)) continue;
+      seen.add(key);
+      merged.push(msg);
+    }
+  }
+  const dateOf = (msg) => {
+    if (Number.isFinite(msg.dateMs)) return msg.dateMs;
+    if (typeof msg.date === 'number') return msg.date;
+    return Date.parse(msg.date || '') || 0;
+  };
+  return merged
+    .sort((a, b) => (b.score || 0) - (a.score || 0) || dateOf(b) - dateOf(a))
+    .slice(0, limit);
+}
@@ -8,6 +8,14 @@ import { warn } from './logger.ts';
 
 export const buildSentCopyPayload = (emailPayload, account = null, folderList = null) => {
   const sentFolder = resolveSentFolder(account, folderList);
+  // PGP/MIME messages are stored exactly as sent so they stay signed/encrypted
+  if (emailPayload.raw) {
+    return {
+      raw: emailPayload.raw,
+      folder: sentFolder,
+      flags: ['\\Seen'],
+    };
+  }
   return {
     from: emailPayload.from,
     to: emailPayload.to || [],
@@ -28,9 +36,11 @@ export const buildSentCopyPayload = (emailPayload, account = null, folderList =
 export const saveSentCopy = async (emailPayload, account = null, folderList = null) => {
   // Two-tier folder resolution: store first, then IDB fallback
   let folders = folderList;
+  // The folder store only holds the active account's folders
+  const isActiveAccount = !account || account === (Local.get('email') || 'default');
   if (!folders) {
     // Primary: read from in-memory folder store (already loaded after login)
-    const storeFolders = get(foldersStore);
+    const storeFolders = isActiveAccount ? get(foldersStore) : null;
     if (storeFolders?.length) {
       folders = storeFolders;
       warn('[saveSentCopy] Using folder store (%d folders)', storeFolders.length);
@@ -53,6 +63,7 @@ export const saveSentCopy = async (emailPayload, account = null, folderList = nu
   const response = await Remote.request('MessageCreate', payload, {
     method: 'POST',
     pathOverride: '/v1/messages',
+    account,
   });
 
   return response;
@@ -0,0 +1,79 @@
+import { Remote } from './remote';
+
+/**
+ * Server-side Sieve scripts
+ *
+ * ManageSieve-style management over the REST API: an account has any number
+ * of named scripts, at most one of which is active. Scripts are validated
+ * locally (sieve.js) before upload; the server validates them again.
+ *
+ * Each script has:
+ *   id:      server identifier
+ *   name:    script name
+ *   content: Sieve source (only present once fetched individually)
+ *   active:  whether the server runs this script on delivery
+ */
+
+const scriptPath = (id, suffix = '') => `/v1/sieve-scripts/${encodeURIComponent(id)}${suffix}`;
+
+const unwrap = (res) => res?.Result ?? res;
+
+function normalizeScript(raw = {}) {
+  return {
+    id: raw.id || raw._id || raw.name,
+    name: raw.name || '',
+    content: typeof raw.content === 'string' ? raw.content : (raw.script ?? null),
+    active: Boolean(raw.is_active ?? raw.active),
+  };
+}
+
+/**
+ * List the account's scripts (without content).
+ *
+ * @returns {Promise<Array<Object>>} Scripts, sorted by name
+ */
+export async function listSieveScripts() {
+  const res = unwrap(await Remote.request('SieveScripts'));
+  const list = Array.isArray(res) ? res : res?.List || [];
+  return list.map(normalizeScript).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Fetch one script including its source.
+ */
+export async function getSieveScript(id) {
+  const res = await Remote.request('SieveScriptGet', {}, { pathOverride: scriptPath(id) });
+  return normalizeScript(unwrap(res));
+}
+
+/**
+ * Upload a script. Creates it when `id` is empty, otherwise replaces it.
+ *
+ * @param {{ id?: string, name: string, content: string }} script
+ * @returns {Promise<Object>} The stored script
+ */
+export async function saveSieveScript({ id, name, content }) {
+  const payload = { name, content };
+  const res = id
+    ? await Remote.request('SieveScriptUpdate', payload, {
+        method: 'PUT',
+        pathOverride: scriptPath(id),
+      })
+    : await Remote.request('SieveScriptCreate', payload, { method: 'POST' });
+  return normalizeScript({ ...payload, ...unwrap(res) });
+}
+
+/**
+ * Make a script the active one. The server deactivates any other script.
+ */
+export async function activateSieveScript(id) {
+  await Remote.request(
+    'SieveScriptActivate',
+    {},
+    { method: 'POST', pathOverride: scriptPath(id, '/activate') },
+  );
+}
+
+export async function deleteSieveScript(id) {
+  await Remote.request('SieveScriptDelete', {}, { method: 'DELETE', pathOverride: scriptPath(id) });
+}
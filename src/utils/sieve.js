@@ -0,0 +1,888 @@
+/**
+ * Sieve (RFC 5228) parser, serializer and validator.
+ *
+ * Supports the base language plus the fileinto, copy (RFC 3894), imap4flags
+ * (RFC 5232), vacation (RFC 5230) and body (RFC 5173) extensions. Scripts are
+ * parsed into a small AST:
+ *
+ *   script:   { commands: Node[] }
+ *   Node:     { name, args: Arg[], tests: Node[], testList, block: Node[]|null, line }
+ *   Arg:      { type: 'string', value } | { type: 'stringList', values: string[] }
+ *             | { type: 'number', value, unit } | { type: 'tag', value }
+ *
+ * Commands and tests share the Node shape; `testList` records whether the
+ * tests were written as a parenthesized list (allof/anyof). Comments are not
+ * preserved.
+ *
+ * The second half of the module maps scripts to and from the simpler rule
+ * model used by the visual builder in Settings.
+ */
+
+const EXTENSIONS = ['fileinto', 'copy', 'imap4flags', 'vacation', 'body'];
+
+const sieveError = (message, line) => {
+  const err = new Error(line ? `Line ${line}: ${message}` : message);
+  err.line = line || null;
+  err.sieveMessage = message;
+  return err;
+};
+
+// ============================================================================
+// Lexer
+// ============================================================================
+
+function tokenize(text = '') {
+  const tokens = [];
+  const src = String(text).replace(/\r\n/g, '\n');
+  let i = 0;
+  let line = 1;
+
+  while (i < src.length) {
+    const ch = src[i];
+
+    if (ch === '\n') {
+      line += 1;
+      i += 1;
+      continue;
+    }
+    if (/\s/.test(ch)) {
+      i += 1;
+      continue;
+    }
+    if (ch === '#') {
+      while (i < src.length && src[i] !== '\n') i += 1;
+      continue;
+    }
+    if (ch === '/' && src[i + 1] === '*') {
+      const end = src.indexOf('*/', i + 2);
+      if (end === -1) throw sieveError('Unterminated comment', line);
+      line += (src.slice(i, end).match(/\n/g) || []).length;
+      i = end + 2;
+      continue;
+    }
+    if ('[](){},;'.includes(ch)) {
+      tokens.push({ type: ch, line });
+      i += 1;
+      continue;
+    }
+    if (ch === '"') {
+      const start = line;
+      let value = '';
+      i += 1;
+      while (i < src.length && src[i] !== '"') {
+        if (src[i] === '\\' && i + 1 < src.length) i += 1;
+        if (src[i] === '\n') line += 1;
+        value += src[i];
+        i += 1;
+      }
+      if (i >= src.length) throw sieveError('Unterminated string', start);
+      i += 1;
+      tokens.push({ type: 'string', value, line: start });
+      continue;
+    }
+    if (ch === ':') {
+      const match = src.slice(i + 1).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+      if (!match) throw sieveError('Invalid tag', line);
+      tokens.push({ type: 'tag', value: match[0].toLowerCase(), line });
+      i += match[0].length + 1;
+      continue;
+    }
+    if (/[0-9]/.test(ch)) {
+      const match = src.slice(i).match(/^([0-9]+)([KMGkmg])?/);
+      tokens.push({
+        type: 'number',
+        value: Number(match[1]),
+        unit: (match[2] || '').toUpperCase(),
+        line,
+      });
+      i += match[0].length;
+      continue;
+    }
+    const word = src.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (!word) throw sieveError(`Unexpected character "${ch}"`, line);
+    // Multi-line string: text: <CRLF> ... <CRLF>.<CRLF>, with dot-stuffing
+    if (word[0].toLowerCase() === 'text' && src[i + 4] === ':') {
+      const start = line;
+      const bodyStart = src.indexOf('\n', i + 5);
+      if (bodyStart === -1) throw sieveError('Unterminated multi-line string', start);
+      const lines = [];
+      let cursor = bodyStart + 1;
+      line += 1;
+      for (;;) {
+        if (cursor >= src.length) throw sieveError('Unterminated multi-line string', start);
+        const next = src.indexOf('\n', cursor);
+        const current = src.slice(cursor, next === -1 ? src.length : next).replace(/\r$/, '');
+        cursor = next === -1 ? src.length : next + 1;
+        line += 1;
+        if (current === '.') break;
+        lines.push(current.startsWith('..') ? current.slice(1) : current);
+      }
+      tokens.push({ type: 'string', value: lines.join('\n'), multiline: true, line: start });
+      i = cursor;
+      continue;
+    }
+    tokens.push({ type: 'identifier', value: word[0].toLowerCase(), line });
+    i += word[0].length;
+  }
+
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+function createParser(tokens) {
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const lastLine = () => tokens[tokens.length - 1]?.line || 1;
+
+  const expect = (type) => {
+    const token = tokens[pos];
+    if (!token || token.type !== type) {
+      const found = token ? (token.value ?? token.type) : 'end of script';
+      throw sieveError(`Expected "${type}" but found "${found}"`, token?.line || lastLine());
+    }
+    pos += 1;
+    return token;
+  };
+
+  const parseStringList = () => {
+    const open = expect('[');
+    const values = [expect('string').value];
+    while (peek()?.type === ',') {
+      pos += 1;
+      values.push(expect('string').value);
+    }
+    expect(']');
+    return { type: 'stringList', values, line: open.line };
+  };
+
+  const parseArguments = () => {
+    const args = [];
+    for (;;) {
+      const token = peek();
+      if (!token) break;
+      if (token.type === 'string') {
+        pos += 1;
+        args.push({
+          type: 'string',
+          value: token.value,
+          ...(token.multiline ? { multiline: true } : {}),
+        });
+      } else if (token.type === 'number') {
+        pos += 1;
+        args.push({ type: 'number', value: token.value, unit: token.unit });
+      } else if (token.type === 'tag') {
+        pos += 1;
+        args.push({ type: 'tag', value: token.value });
+      } else if (token.type === '[') {
+        const { values } = parseStringList();
+        args.push({ type: 'stringList', values });
+      } else {
+        break;
+      }
+    }
+    return args;
+  };
+
+  const parseTest = () => {
+    const name = expect('identifier');
+    const node = {
+      name: name.value,
+      args: parseArguments(),
+      tests: [],
+      testList: false,
+      line: name.line,
+    };
+    parseTestsInto(node);
+    return node;
+  };
+
+  function parseTestsInto(node) {
+    const token = peek();
+    if (token?.type === '(') {
+      pos += 1;
+      node.testList = true;
+      node.tests.push(parseTest());
+      while (peek()?.type === ',') {
+        pos += 1;
+        node.tests.push(parseTest());
+      }
+      expect(')');
+    } else if (token?.type === 'identifier') {
+      node.tests.push(parseTest());
+    }
+  }
+
+  const parseCommands = (nested) => {
+    const commands = [];
+    for (;;) {
+      const token = peek();
+      if (!token) {
+        if (nested) throw sieveError('Missing "}"', lastLine());
+        break;
+      }
+      if (token.type === '}') {
+        if (!nested) throw sieveError('Unexpected "}"', token.line);
+        break;
+      }
+      const name = expect('identifier');
+      const node = {
+        name: name.value,
+        args: parseArguments(),
+        tests: [],
+        testList: false,
+        block: null,
+        line: name.line,
+      };
+      parseTestsInto(node);
+      if (peek()?.type === '{') {
+        pos += 1;
+        node.block = parseCommands(true);
+        expect('}');
+      } else {
+        expect(';');
+      }
+      commands.push(node);
+    }
+    return commands;
+  };
+
+  return { parseCommands };
+}
+
+/**
+ * Parse a Sieve script.
+ *
+ * @param {string} text - Script source
+ * @returns {{ commands: Array<Object> }} Script AST
+ * @throws {Error} Syntax errors, with `line` set
+ */
+export function parseSieve(text = '') {
+  return { commands: createParser(tokenize(text)).parseCommands(false) };
+}
+
+// ============================================================================
+// Serializer
+// ============================================================================
+
+const quote = (value) => `"${String(value).replace(/[\\"]/g, '\\$&')}"`;
+
+function serializeString(value, multiline) {
+  if (!multiline && !String(value).includes('\n')) return quote(value);
+  const body = String(value)
+    .split('\n')
+    .map((line) => (line.startsWith('.') ? `.${line}` : line))
+    .join('\n');
+  return `text:\n${body}\n.\n`;
+}
+
+function serializeArg(arg) {
+  switch (arg.type) {
+    case 'string':
+      return serializeString(arg.value, arg.multiline);
+    case 'stringList':
+      return `[${arg.values.map(quote).join(', ')}]`;
+    case 'number':
+      return `${arg.value}${arg.unit || ''}`;
+    case 'tag':
+      return `:${arg.value}`;
+    default:
+      throw sieveError(`Unknown argument type: ${arg.type}`);
+  }
+}
+
+function serializeTest(node) {
+  const parts = [node.name, ...(node.args || []).map(serializeArg)];
+  const tests = node.tests || [];
+  if (node.testList) {
+    parts.push(`(${tests.map(serializeTest).join(', ')})`);
+  } else if (tests.length) {
+    parts.push(serializeTest(tests[0]));
+  }
+  return parts.join(' ');
+}
+
+function serializeCommands(commands, indent) {
+  const pad = '  '.repeat(indent);
+  const lines = [];
+  commands.forEach((node) => {
+    const head = serializeTest(node);
+    const text = node.block
+      ? `${head} {\n${serializeCommands(node.block, indent + 1)}${pad}}`
+      : `${head};`;
+    const chained = (node.name === 'elsif' || node.name === 'else') && lines.length;
+    if (chained) {
+      lines[lines.length - 1] += ` ${text}`;
+    } else {
+      lines.push(`${pad}${text}`);
+    }
+  });
+  return lines.map((line) => `${line}\n`).join('');
+}
+
+/**
+ * Render a script AST as Sieve source with two-space indentation.
+ *
+ * @param {{ commands: Array<Object> }} script - Script AST
+ * @returns {string} Script source
+ */
+export function serializeSieve(script) {
+  return serializeCommands(script?.commands || [], 0);
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const MATCH_TAGS = { comparator: 'string', is: null, contains: null, matches: null };
+const ADDRESS_PART_TAGS = { all: null, localpart: null, domain: null };
+
+/**
+ * Argument rules for each command and test. `positional` lists the expected
+ * argument types after tags ('stringList' also accepts a single string);
+ * `min` is the number of required positional arguments.
+ */
+const COMMANDS = {
+  require: { positional: ['stringList'] },
+  if: { test: 'single', block: true },
+  elsif: { test: 'single', block: true },
+  else: { block: true },
+  stop: {},
+  keep: { tags: { flags: 'stringList' } },
+  discard: {},
+  redirect: { positional: ['string'], tags: { copy: null } },
+  fileinto: {
+    extension: 'fileinto',
+    positional: ['string'],
+    tags: { copy: null, flags: 'stringList' },
+  },
+  setflag: { extension: 'imap4flags', positional: ['stringList', 'stringList'], min: 1 },
+  addflag: { extension: 'imap4flags', positional: ['stringList', 'stringList'], min: 1 },
+  removeflag: { extension: 'imap4flags', positional: ['stringList', 'stringList'], min: 1 },
+  vacation: {
+    extension: 'vacation',
+    positional: ['string'],
+    tags: {
+      days: 'number',
+      subject: 'string',
+      from: 'string',
+      addresses: 'stringList',
+      mime: null,
+      handle: 'string',
+    },
+  },
+};
+
+const TESTS = {
+  address: {
+    positional: ['stringList', 'stringList'],
+    tags: { ...MATCH_TAGS, ...ADDRESS_PART_TAGS },
+  },
+  header: { positional: ['stringList', 'stringList'], tags: MATCH_TAGS },
+  exists: { positional: ['stringList'] },
+  size: { positional: ['number'], tags: { over: null, under: null }, oneOf: ['over', 'under'] },
+  not: { test: 'single' },
+  allof: { test: 'list' },
+  anyof: { test: 'list' },
+  true: {},
+  false: {},
+  body: {
+    extension: 'body',
+    positional: ['stringList'],
+    tags: { ...MATCH_TAGS, raw: null, content: 'stringList', text: null },
+  },
+  hasflag: {
+    extension: 'imap4flags',
+    positional: ['stringList', 'stringList'],
+    min: 1,
+    tags: MATCH_TAGS,
+  },
+};
+
+// Tags that need an extension on top of the command's own
+const TAG_EXTENSIONS = { copy: 'copy', flags: 'imap4flags' };
+
+const argMatches = (arg, type) =>
+  arg &&
+  (type === 'stringList' ? arg.type === 'string' || arg.type === 'stringList' : arg.type === type);
+
+function checkArguments(node, spec, kind, required, errors) {
+  const tags = spec.tags || {};
+  const seenTags = [];
+  const positional = [];
+  const args = node.args || [];
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    if (arg.type !== 'tag') {
+      positional.push(arg);
+      continue;
+    }
+    if (positional.length) {
+      errors.push({
+        line: node.line,
+        message: `Tag ":${arg.value}" must come before other arguments of "${node.name}"`,
+      });
+    }
+    if (!(arg.value in tags)) {
+      errors.push({
+        line: node.line,
+        message: `Unknown tag ":${arg.value}" for ${kind} "${node.name}"`,
+      });
+      continue;
+    }
+    const extension = TAG_EXTENSIONS[arg.value];
+    if (extension && !required.has(extension)) {
+      errors.push({
+        line: node.line,
+        message: `Tag ":${arg.value}" requires the "${extension}" extension`,
+      });
+    }
+    seenTags.push(arg.value);
+    if (tags[arg.value]) {
+      const value = args[i + 1];
+      if (!argMatches(value, tags[arg.value])) {
+        errors.push({
+          line: node.line,
+          message: `Tag ":${arg.value}" needs a ${tags[arg.value]} value`,
+        });
+      } else {
+        i += 1;
+      }
+    }
+  }
+
+  const matchTypes = seenTags.filter(
+    (tag) => tag === 'is' || tag === 'contains' || tag === 'matches',
+  );
+  if (matchTypes.length > 1) {
+    errors.push({ line: node.line, message: `Only one match type is allowed in "${node.name}"` });
+  }
+  if (spec.oneOf && seenTags.filter((tag) => spec.oneOf.includes(tag)).length !== 1) {
+    errors.push({
+      line: node.line,
+      message: `"${node.name}" needs exactly one of ${spec.oneOf.map((t) => `:${t}`).join(' or ')}`,
+    });
+  }
+
+  const expected = spec.positional || [];
+  const min = spec.min ?? expected.length;
+  if (positional.length < min || positional.length > expected.length) {
+    errors.push({
+      line: node.line,
+      message: `"${node.name}" takes ${min === expected.length ? min : `${min} to ${expected.length}`} argument${expected.length === 1 ? '' : 's'}`,
+    });
+    return;
+  }
+  // With optional leading arguments (imap4flags variables) align from the end
+  const offset = expected.length - positional.length;
+  positional.forEach((arg, index) => {
+    const type = expected[index + offset];
+    if (!argMatches(arg, type)) {
+      errors.push({ line: node.line, message: `"${node.name}" expects a ${type} argument` });
+    }
+  });
+}
+
+function checkTest(node, required, errors) {
+  const spec = TESTS[node.name];
+  if (!spec) {
+    errors.push({ line: node.line, message: `Unknown test "${node.name}"` });
+    return;
+  }
+  if (spec.extension && !required.has(spec.extension)) {
+    errors.push({
+      line: node.line,
+      message: `"${node.name}" requires the "${spec.extension}" extension`,
+    });
+  }
+  checkArguments(node, spec, 'test', required, errors);
+  checkTestCount(node, spec, errors);
+  node.tests.forEach((test) => checkTest(test, required, errors));
+}
+
+function checkTestCount(node, spec, errors) {
+  const count = node.tests.length;
+  if (spec.test === 'single' && (count !== 1 || node.testList)) {
+    errors.push({ line: node.line, message: `"${node.name}" needs a single test` });
+  } else if (spec.test === 'list' && !node.testList) {
+    errors.push({
+      line: node.line,
+      message: `"${node.name}" needs a list of tests in parentheses`,
+    });
+  } else if (!spec.test && count) {
+    errors.push({ line: node.line, message: `"${node.name}" does not take a test` });
+  }
+}
+
+function checkCommands(commands, required, errors, nested) {
+  let previous = null;
+  let seenOther = nested;
+
+  commands.forEach((node) => {
+    const spec = COMMANDS[node.name];
+    if (!spec) {
+      errors.push({ line: node.line, message: `Unknown command "${node.name}"` });
+      previous = node.name;
+      return;
+    }
+
+    if (node.name === 'require') {
+      if (seenOther) {
+        errors.push({ line: node.line, message: '"require" must come before other commands' });
+      }
+      const arg = node.args[0];
+      const names = arg?.type === 'stringList' ? arg.values : arg ? [arg.value] : [];
+      names.forEach((name) => {
+        if (EXTENSIONS.includes(name)) {
+          required.add(name);
+        } else {
+          errors.push({ line: node.line, message: `Unsupported extension "${name}"` });
+        }
+      });
+    } else {
+      seenOther = true;
+    }
+
+    if (
+      (node.name === 'elsif' || node.name === 'else') &&
+      previous !== 'if' &&
+      previous !== 'elsif'
+    ) {
+      errors.push({ line: node.line, message: `"${node.name}" must follow "if" or "elsif"` });
+    }
+    if (spec.extension && !required.has(spec.extension)) {
+      errors.push({
+        line: node.line,
+        message: `"${node.name}" requires the "${spec.extension}" extension`,
+      });
+    }
+
+    checkArguments(node, spec, 'command', required, errors);
+    checkTestCount(node, spec, errors);
+    node.tests.forEach((test) => checkTest(test, required, errors));
+
+    if (spec.block && !node.block) {
+      errors.push({ line: node.line, message: `"${node.name}" needs a block` });
+    } else if (!spec.block && node.block) {
+      errors.push({ line: node.line, message: `"${node.name}" does not take a block` });
+    }
+    if (node.block) checkCommands(node.block, required, errors, true);
+    previous = node.name;
+  });
+}
+
+/**
+ * Check a script for syntax errors and misuse of commands, tests, tags and
+ * extensions.
+ *
+ * @param {string} text - Script source
+ * @returns {{ valid: boolean, errors: Array<{ line: number|null, message: string }>, script: Object|null }}
+ */
+export function validateSieve(text = '') {
+  let script;
+  try {
+    script = parseSieve(text);
+  } catch (err) {
+    return {
+      valid: false,
+      errors: [{ line: err.line ?? null, message: err.sieveMessage || err.message }],
+      script: null,
+    };
+  }
+  const errors = [];
+  checkCommands(script.commands, new Set(), errors, false);
+  return { valid: errors.length === 0, errors, script };
+}
+
+// ============================================================================
+// Visual builder model
+// ============================================================================
+
+/**
+ * Builder rules are a flat, form-friendly view of the common subset of Sieve:
+ *
+ *   { match: 'allof' | 'anyof', conditions: Condition[], actions: Action[] }
+ *   Condition: { field, header, op, value, negate }
+ *     field: 'from' | 'to' | 'cc' | 'subject' | 'header' | 'body' | 'size'
+ *     op:    'contains' | 'is' | 'matches' (text) or 'over' | 'under' (size)
+ *   Action: { type, value, copy?, days?, subject? }
+ *     type:  'fileinto' | 'addflag' | 'redirect' | 'discard' | 'keep' | 'stop' | 'vacation'
+ *
+ * A rule without conditions runs unconditionally.
+ */
+
+export const BUILDER_FIELDS = ['from', 'to', 'cc', 'subject', 'header', 'body', 'size'];
+export const BUILDER_ACTIONS = [
+  'fileinto',
+  'addflag',
+  'redirect',
+  'discard',
+  'keep',
+  'stop',
+  'vacation',
+];
+
+const ADDRESS_FIELDS = ['from', 'to', 'cc'];
+const TEXT_OPS = ['contains', 'is', 'matches'];
+
+const str = (value) => ({ type: 'string', value: String(value ?? '') });
+const tag = (value) => ({ type: 'tag', value });
+const node = (name, args = [], extra = {}) => ({
+  name,
+  args,
+  tests: [],
+  testList: false,
+  block: null,
+  ...extra,
+});
+
+function parseSize(value) {
+  const match = String(value || '')
+    .trim()
+    .match(/^([0-9]+)\s*([KMG])?B?$/i);
+  if (!match) throw sieveError(`Invalid size "${value}"`);
+  return { type: 'number', value: Number(match[1]), unit: (match[2] || '').toUpperCase() };
+}
+
+function conditionToTest(condition, required) {
+  let test;
+  const op = TEXT_OPS.includes(condition.op) ? condition.op : 'contains';
+  if (condition.field === 'size') {
+    test = node('size', [
+      tag(condition.op === 'under' ? 'under' : 'over'),
+      parseSize(condition.value),
+    ]);
+  } else if (condition.field === 'body') {
+    required.add('body');
+    test = node('body', [tag(op), str(condition.value)]);
+  } else if (ADDRESS_FIELDS.includes(condition.field)) {
+    test = node('address', [tag(op), str(condition.field), str(condition.value)]);
+  } else {
+    const header =
+      condition.field === 'subject' ? 'subject' : String(condition.header || '').trim();
+    if (!header) throw sieveError('Header condition needs a header name');
+    test = node('header', [tag(op), str(header), str(condition.value)]);
+  }
+  return condition.negate ? node('not', [], { tests: [test] }) : test;
+}
+
+function actionToCommand(action, required) {
+  switch (action.type) {
+    case 'fileinto':
+      required.add('fileinto');
+      return node('fileinto', [str(action.value)]);
+    case 'addflag': {
+      required.add('imap4flags');
+      const flags = String(action.value || '')
+        .split(/\s+/)
+        .filter(Boolean);
+      return node('addflag', [
+        flags.length === 1 ? str(flags[0]) : { type: 'stringList', values: flags },
+      ]);
+    }
+    case 'redirect':
+      if (action.copy) required.add('copy');
+      return node('redirect', [...(action.copy ? [tag('copy')] : []), str(action.value)]);
+    case 'vacation': {
+      required.add('vacation');
+      const args = [];
+      if (action.days)
+        args.push(tag('days'), { type: 'number', value: Number(action.days), unit: '' });
+      if (action.subject) args.push(tag('subject'), str(action.subject));
+      args.push(str(action.value));
+      return node('vacation', args);
+    }
+    case 'discard':
+    case 'keep':
+    case 'stop':
+      return node(action.type);
+    default:
+      throw sieveError(`Unknown action "${action.type}"`);
+  }
+}
+
+/**
+ * Render builder rules as a Sieve script, adding the `require` line for the
+ * extensions the rules use.
+ *
+ * @param {Array<Object>} rules - Builder rules
+ * @returns {string} Script source
+ * @throws {Error} When a condition or action is incomplete
+ */
+export function rulesToSieve(rules = []) {
+  const required = new Set();
+  const commands = [];
+
+  (rules || []).forEach((rule) => {
+    const actions = (rule.actions || []).map((action) => actionToCommand(action, required));
+    const conditions = (rule.conditions || []).map((condition) =>
+      conditionToTest(condition, required),
+    );
+    if (!conditions.length) {
+      commands.push(...actions);
+      return;
+    }
+    const test =
+      conditions.length === 1
+        ? conditions[0]
+        : node(rule.match === 'anyof' ? 'anyof' : 'allof', [], {
+            tests: conditions,
+            testList: true,
+          });
+    commands.push(node('if', [], { tests: [test], block: actions }));
+  });
+
+  if (required.size) {
+    const names = EXTENSIONS.filter((name) => required.has(name));
+    commands.unshift(node('require', [{ type: 'stringList', values: names }]));
+  }
+  return serializeSieve({ commands });
+}
+
+// Split tags from the remaining arguments; returns null on unexpected shapes
+function splitArgs(args, allowedTags) {
+  const tags = {};
+  const rest = [];
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    if (arg.type !== 'tag') {
+      rest.push(arg);
+      continue;
+    }
+    if (!allowedTags.includes(arg.value)) return null;
+    if (arg.value === 'days' || arg.value === 'subject') {
+      tags[arg.value] = args[i + 1];
+      i += 1;
+    } else {
+      tags[arg.value] = true;
+    }
+  }
+  return { tags, rest };
+}
+
+const singleString = (arg) => {
+  if (arg?.type === 'string') return arg.value;
+  if (arg?.type === 'stringList' && arg.values.length === 1) return arg.values[0];
+  return null;
+};
+
+function testToCondition(test) {
+  if (test.name === 'not') {
+    const inner = test.tests.length === 1 ? testToCondition(test.tests[0]) : null;
+    return inner && !inner.negate ? { ...inner, negate: true } : null;
+  }
+  if (test.name === 'size') {
+    const split = splitArgs(test.args, ['over', 'under']);
+    const size = split?.rest[0];
+    if (!split || split.rest.length !== 1 || size.type !== 'number') return null;
+    return {
+      field: 'size',
+      header: '',
+      op: split.tags.under ? 'under' : 'over',
+      value: `${size.value}${size.unit || ''}`,
+      negate: false,
+    };
+  }
+  const split = splitArgs(test.args, [...TEXT_OPS, ...(test.name === 'body' ? ['text'] : [])]);
+  if (!split) return null;
+  const op = TEXT_OPS.find((name) => split.tags[name]) || 'is';
+  if (test.name === 'body') {
+    const value = singleString(split.rest[0]);
+    if (split.rest.length !== 1 || value === null) return null;
+    return { field: 'body', header: '', op, value, negate: false };
+  }
+  if (test.name !== 'address' && test.name !== 'header') return null;
+  const header = singleString(split.rest[0]);
+  const value = singleString(split.rest[1]);
+  if (split.rest.length !== 2 || header === null || value === null) return null;
+  const lowered = header.toLowerCase();
+  if (test.name === 'address') {
+    if (!ADDRESS_FIELDS.includes(lowered)) return null;
+    return { field: lowered, header: '', op, value, negate: false };
+  }
+  if (lowered === 'subject') return { field: 'subject', header: '', op, value, negate: false };
+  return { field: 'header', header, op, value, negate: false };
+}
+
+function commandToAction(command) {
+  if (command.tests.length || command.block) return null;
+  const args = command.args || [];
+  switch (command.name) {
+    case 'fileinto': {
+      const value = args.length === 1 ? singleString(args[0]) : null;
+      return value === null || args[0].type !== 'string' ? null : { type: 'fileinto', value };
+    }
+    case 'addflag': {
+      const arg = args.length === 1 ? args[0] : null;
+      if (!arg || (arg.type !== 'string' && arg.type !== 'stringList')) return null;
+      const flags = arg.type === 'string' ? [arg.value] : arg.values;
+      return { type: 'addflag', value: flags.join(' ') };
+    }
+    case 'redirect': {
+      const split = splitArgs(args, ['copy']);
+      if (!split || split.rest.length !== 1 || split.rest[0].type !== 'string') return null;
+      return { type: 'redirect', value: split.rest[0].value, copy: Boolean(split.tags.copy) };
+    }
+    case 'vacation': {
+      const split = splitArgs(args, ['days', 'subject']);
+      if (!split || split.rest.length !== 1 || split.rest[0].type !== 'string') return null;
+      const { days, subject } = split.tags;
+      if ((days && days.type !== 'number') || (subject && subject.type !== 'string')) return null;
+      return {
+        type: 'vacation',
+        value: split.rest[0].value,
+        days: days ? days.value : null,
+        subject: subject ? subject.value : '',
+      };
+    }
+    case 'discard':
+    case 'keep':
+    case 'stop':
+      return args.length ? null : { type: command.name };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Read a script into builder rules. Scripts that use constructs the builder
+ * cannot show (elsif/else, nested ifs, other tests or tags) are reported as
+ * unsupported so the editor can fall back to text mode.
+ *
+ * @param {string} text - Script source
+ * @returns {{ supported: boolean, rules: Array<Object> }}
+ * @throws {Error} Syntax errors from parseSieve
+ */
+export function sieveToRules(text = '') {
+  const unsupported = { supported: false, rules: [] };
+  const rules = [];
+  let loose = null;
+
+  for (const command of parseSieve(text).commands) {
+    if (command.name === 'require') continue;
+    if (command.name !== 'if') {
+      const action = commandToAction(command);
+      if (!action) return unsupported;
+      if (!loose) {
+        loose = { match: 'allof', conditions: [], actions: [] };
+        rules.push(loose);
+      }
+      loose.actions.push(action);
+      continue;
+    }
+
+    loose = null;
+    const [test] = command.tests;
+    const grouped = test && (test.name === 'allof' || test.name === 'anyof');
+    const conditions = (grouped ? test.tests : command.tests).map(testToCondition);
+    if (!test || conditions.some((condition) => !condition)) return unsupported;
+    const actions = (command.block || []).map(commandToAction);
+    if (actions.some((action) => !action)) return unsupported;
+    rules.push({ match: grouped ? test.name : 'allof', conditions, actions });
+  }
+
+  return { supported: true, rules };
+}
@@ -0,0 +1,107 @@
+import { writable } from 'svelte/store';
+import { db } from './db';
+import { Local } from './storage';
+import {
+  signaturesMetaKey,
+  normalizeSignature,
+  normalizeSignatureSettings,
+  removeSignature,
+  aliasKey,
+} from './compose-signatures.ts';
+
+/**
+ * Signature Library
+ *
+ * Named signatures for the composer and the per-address defaults for new
+ * messages and replies, stored per account in the IndexedDB `meta` table (no
+ * schema migration needed).
+ *
+ * `signatureSettings` holds the current account's `{ signatures, defaults }`
+ * for the composer and Settings.
+ */
+
+export const signatureSettings = writable({ signatures: [], defaults: {} });
+
+function getAccount() {
+  return Local.get('email') || 'default';
+}
+
+async function readLocal(account) {
+  try {
+    const record = await db.meta.get(signaturesMetaKey(account));
+    return normalizeSignatureSettings(record?.value);
+  } catch {
+    return normalizeSignatureSettings(null);
+  }
+}
+
+async function persist(account, settings) {
+  await db.meta.put({ key: signaturesMetaKey(account), value: settings, updatedAt: Date.now() });
+  if (account === getAccount()) signatureSettings.set(settings);
+}
+
+/**
+ * Load the current account's signatures.
+ *
+ * @returns {Promise<Object>} { signatures, defaults }
+ */
+export async function loadSignatures() {
+  const account = getAccount();
+  const settings = await readLocal(account);
+  if (account === getAccount()) signatureSettings.set(settings);
+  return settings;
+}
+
+/**
+ * Create or update a signature.
+ *
+ * @param {Object} input - { id?, name, alias, html, text, placement }
+ * @returns {Promise<Object>} The saved signature
+ * @throws {Error} When the signature has no name
+ */
+export async function saveSignature(input) {
+  const account = getAccount();
+  const settings = await readLocal(account);
+  const now = Date.now();
+  const existing = input?.id ? settings.signatures.find((item) => item.id === input.id) : null;
+  const signature = normalizeSignature({
+    ...input,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  });
+  if (!signature) {
+    throw new Error('Give the signature a name.');
+  }
+  const signatures = existing
+    ? settings.signatures.map((item) => (item.id === signature.id ? signature : item))
+    : [...settings.signatures, signature];
+  await persist(account, normalizeSignatureSettings({ ...settings, signatures }));
+  return signature;
+}
+
+/**
+ * Delete a signature, and any defaults that used it.
+ */
+export async function deleteSignature(id) {
+  const account = getAccount();
+  await persist(account, removeSignature(await readLocal(account), id));
+}
+
+/**
+ * Choose the signatures added automatically for an address.
+ *
+ * @param {string} alias - From address
+ * @param {Object} defaults - { newMessage, reply } signature ids ('' for none)
+ */
+export async function setSignatureDefaults(alias, defaults) {
+  const account = getAccount();
+  const settings = await readLocal(account);
+  const key = aliasKey(alias);
+  await persist(
+    account,
+    normalizeSignatureSettings({
+      ...settings,
+      defaults: { ...settings.defaults, [key]: { ...settings.defaults[key], ...defaults } },
+    }),
+  );
+}
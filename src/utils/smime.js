@@ -0,0 +1,457 @@
+import forge from 'node-forge';
+import { splitMultipartSigned } from './pgp-mime.js';
+
+/**
+ * S/MIME (RFC 8551) support for the sync worker.
+ *
+ * Imports PKCS#12 identities, decrypts enveloped data and verifies signed
+ * data (both detached multipart/signed and opaque application/pkcs7-mime)
+ * against the certificate chain embedded in the signature. Uses node-forge,
+ * which handles RSA key transport with AES/3DES content encryption; EC
+ * certificates and RSA-PSS signatures are reported as unsupported.
+ *
+ * Identities are plain objects so they can be stored in localStorage and
+ * posted to the worker:
+ *   id:          SHA-256 fingerprint of the certificate (hex)
+ *   name:        subject common name
+ *   emails:      addresses from the subject and subjectAltName
+ *   issuer:      issuer common name
+ *   notBefore / notAfter: validity timestamps
+ *   certificate: PEM certificate
+ *   chain:       PEM CA certificates bundled in the PKCS#12 file
+ *   privateKey:  PEM private key
+ */
+
+const { asn1, pki } = forge;
+
+const OID_MESSAGE_DIGEST = pki.oids.messageDigest;
+const OID_SIGNING_TIME = pki.oids.signingTime;
+const RSA_SIGNATURE_OIDS = new Set([
+  pki.oids.rsaEncryption,
+  pki.oids.sha1WithRSAEncryption,
+  pki.oids.sha256WithRSAEncryption,
+  pki.oids.sha384WithRSAEncryption,
+  pki.oids.sha512WithRSAEncryption,
+]);
+
+const PKCS7_MIME_TYPES = /^application\/(x-)?pkcs7-mime/i;
+const PKCS7_SIGNATURE_PROTOCOLS = ['application/pkcs7-signature', 'application/x-pkcs7-signature'];
+
+function readHeaders(raw) {
+  const text = String(raw || '');
+  const match = text.match(/\r?\n\r?\n/);
+  if (!match) return null;
+  const head = text.slice(0, match.index).replace(/\r?\n[ \t]+/g, ' ');
+  const header = (name) => head.match(new RegExp(`^${name}:[ \\t]*(.*)$`, 'im'))?.[1] || '';
+  const from = header('from');
+  return {
+    from: (from.match(/<([^>]+)>/)?.[1] || from.match(/[^\s<>"]+@[^\s<>"]+/)?.[0] || '')
+      .trim()
+      .toLowerCase(),
+    contentType: header('content-type'),
+    transferEncoding: header('content-transfer-encoding').trim().toLowerCase(),
+    body: text.slice(match.index + match[0].length),
+  };
+}
+
+/**
+ * Classify the top-level S/MIME structure of a message.
+ *
+ * @param {string} raw - Raw RFC 822 message or MIME entity
+ * @returns {'enveloped'|'signed-opaque'|'signed-detached'|null}
+ */
+export function getSmimeType(raw) {
+  const headers = readHeaders(raw);
+  if (!headers) return null;
+  const { contentType } = headers;
+  if (PKCS7_MIME_TYPES.test(contentType)) {
+    const smimeType = contentType.match(/smime-type="?([\w-]+)"?/i)?.[1]?.toLowerCase();
+    if (smimeType === 'signed-data') return 'signed-opaque';
+    if (smimeType === 'enveloped-data' || smimeType === 'authenveloped-data') return 'enveloped';
+    // Some clients omit smime-type; smime.p7m is enveloped by convention
+    if (!smimeType && /smime\.p7m/i.test(contentType)) return 'enveloped';
+    return null;
+  }
+  if (/^multipart\/signed/i.test(contentType)) {
+    const protocol = contentType.match(/protocol="?([^";\s]+)"?/i)?.[1]?.toLowerCase();
+    if (PKCS7_SIGNATURE_PROTOCOLS.includes(protocol)) return 'signed-detached';
+  }
+  return null;
+}
+
+/**
+ * Decode the body of a single-part entity (base64 or as-is) to a binary string.
+ */
+export function decodePkcs7Body(raw) {
+  const headers = readHeaders(raw);
+  if (!headers) return '';
+  if (headers.transferEncoding === 'base64') {
+    return forge.util.decode64(headers.body.replace(/[^A-Za-z0-9+/=]/g, ''));
+  }
+  return headers.body;
+}
+
+/**
+ * Convert a binary string (forge's byte representation) to a JS string,
+ * decoding UTF-8 where present.
+ */
+export function binaryToText(binary) {
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i) & 0xff;
+  return new TextDecoder().decode(bytes);
+}
+
+const fingerprintOf = (cert) =>
+  forge.md.sha256
+    .create()
+    .update(asn1.toDer(pki.certificateToAsn1(cert)).getBytes())
+    .digest()
+    .toHex();
+
+const commonName = (name) => name?.getField?.('CN')?.value || '';
+
+/**
+ * Addresses a certificate is issued for (subject emailAddress + rfc822Name SANs).
+ */
+export function getCertificateEmails(cert) {
+  const emails = [];
+  const subjectEmail = cert.subject.getField('E')?.value;
+  if (subjectEmail) emails.push(subjectEmail);
+  const altNames = cert.getExtension('subjectAltName')?.altNames || [];
+  for (const alt of altNames) {
+    if (alt.type === 1 && alt.value) emails.push(alt.value);
+  }
+  return [...new Set(emails.map((e) => e.trim().toLowerCase()))];
+}
+
+/**
+ * Read a PKCS#12 (.p12 / .pfx) file and return the identity it contains.
+ *
+ * @param {string} binary - File contents as a binary string
+ * @param {string} password - PKCS#12 password
+ * @returns {Object} Identity (see module docs)
+ */
+export function parsePkcs12(binary, password = '') {
+  const p12 = forge.pkcs12.pkcs12FromAsn1(asn1.fromDer(binary), password);
+  const keyBags = [
+    ...(p12.getBags({ bagType: pki.oids.pkcs8ShroudedKeyBag })[pki.oids.pkcs8ShroudedKeyBag] || []),
+    ...(p12.getBags({ bagType: pki.oids.keyBag })[pki.oids.keyBag] || []),
+  ];
+  const certs = (p12.getBags({ bagType: pki.oids.certBag })[pki.oids.certBag] || [])
+    .map((bag) => bag.cert)
+    .filter(Boolean);
+  const key = keyBags.find((bag) => bag.key)?.key;
+  if (!key) throw new Error('No private key found in the PKCS#12 file');
+
+  const cert = certs.find((c) => c.publicKey?.n?.equals?.(key.n));
+  if (!cert) throw new Error('No certificate matching the private key');
+
+  return {
+    id: fingerprintOf(cert),
+    name: commonName(cert.subject),
+    emails: getCertificateEmails(cert),
+    issuer: commonName(cert.issuer),
+    notBefore: cert.validity.notBefore.getTime(),
+    notAfter: cert.validity.notAfter.getTime(),
+    certificate: pki.certificateToPem(cert),
+    chain: certs.filter((c) => c !== cert).map((c) => pki.certificateToPem(c)),
+    privateKey: pki.privateKeyToPem(key),
+  };
+}
+
+/**
+ * Decrypt a CMS EnvelopedData structure with the first identity it was
+ * encrypted to.
+ *
+ * @param {string} der - EnvelopedData as a binary string
+ * @param {Array<Object>} identities - Imported identities
+ * @returns {string|null} Decrypted content (binary string), or null when no identity matches
+ */
+export function decryptEnvelopedData(der, identities = []) {
+  const msg = forge.pkcs7.messageFromAsn1(asn1.fromDer(der));
+  if (msg.type !== pki.oids.envelopedData) {
+    throw new Error('Not an S/MIME enveloped message');
+  }
+  for (const identity of identities) {
+    const recipient = msg.findRecipient(pki.certificateFromPem(identity.certificate));
+    if (!recipient) continue;
+    msg.decrypt(recipient, pki.privateKeyFromPem(identity.privateKey));
+    return msg.content.getBytes();
+  }
+  return null;
+}
+
+/**
+ * Encapsulated content of an opaque SignedData. forge captures the [0]
+ * wrapper without unpacking it; the OCTET STRING inside may be chunked.
+ */
+function readEncapsulatedContent(msg) {
+  const octets = msg.rawCapture.content?.value?.[0];
+  if (!octets) return '';
+  return Array.isArray(octets.value)
+    ? octets.value.map((part) => part.value).join('')
+    : octets.value;
+}
+
+function readSignerInfo(obj) {
+  const parts = obj.value;
+  const sid = parts[1];
+  let index = 3;
+  let signedAttrs = null;
+  if (parts[index]?.tagClass === asn1.Class.CONTEXT_SPECIFIC && parts[index].type === 0) {
+    signedAttrs = parts[index];
+    index += 1;
+  }
+  return {
+    issuerDer: asn1.toDer(sid.value[0]).getBytes(),
+    serial: forge.util.createBuffer(sid.value[1].value).toHex().replace(/^0+/, ''),
+    digestAlgorithm: pki.oids[asn1.derToOid(parts[2].value[0].value)],
+    signedAttrs,
+    signatureOid: asn1.derToOid(parts[index].value[0].value),
+    signature: parts[index + 1].value,
+  };
+}
+
+function readAttribute(signedAttrs, oid) {
+  const attr = signedAttrs?.value.find((a) => asn1.derToOid(a.value[0].value) === oid);
+  return attr?.value[1]?.value?.[0] || null;
+}
+
+function findSignerCertificate(certs, signer) {
+  return certs.find(
+    (cert) =>
+      cert.serialNumber.replace(/^0+/, '') === signer.serial &&
+      asn1.toDer(pki.distinguishedNameToAsn1(cert.issuer)).getBytes() === signer.issuerDer,
+  );
+}
+
+/**
+ * Walk from the signer certificate to a root using the embedded certificates,
+ * checking every signature on the way.
+ */
+function checkChain(cert, certs, trustedFingerprints) {
+  const chain = [cert];
+  let current = cert;
+  let valid = true;
+  while (chain.length < 10) {
+    if (current.isIssuer(current)) {
+      valid = valid && safeVerify(current, current);
+      break;
+    }
+    const parent = certs.find((c) => !chain.includes(c) && c.issued(current));
+    if (!parent) break;
+    valid = valid && safeVerify(parent, current);
+    chain.push(parent);
+    current = parent;
+  }
+  return {
+    valid,
+    trusted: valid && chain.some((c) => trustedFingerprints.includes(fingerprintOf(c))),
+  };
+}
+
+function safeVerify(parent, child) {
+  try {
+    return parent.verify(child);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verify a CMS SignedData structure.
+ *
+ * @param {string} der - SignedData as a binary string
+ * @param {Object} [options]
+ * @param {string} [options.content] - Detached signed content (JS string, for multipart/signed)
+ * @param {string} [options.from] - From address to compare with the certificate
+ * @param {Array<string>} [options.trustedFingerprints] - Certificates the user trusts
+ * @param {number} [options.now] - Time used for the validity check
+ * @returns {{ status: Object, content: string }} Signature status and the signed content (binary string)
+ */
+export function verifySignedData(
+  der,
+  { content, from, trustedFingerprints = [], now = Date.now() } = {},
+) {
+  let msg;
+  try {
+    msg = forge.pkcs7.messageFromAsn1(asn1.fromDer(der));
+  } catch (err) {
+    // forge rejects certificates with non-RSA keys while parsing
+    return { status: { signature: 'unsupported', error: err?.message }, content: '' };
+  }
+  if (msg.type !== pki.oids.signedData) {
+    throw new Error('Not an S/MIME signed message');
+  }
+
+  const signedContent =
+    content !== undefined ? forge.util.encodeUtf8(content) : readEncapsulatedContent(msg);
+  const signerInfos = msg.rawCapture.signerInfos || [];
+  if (!signerInfos.length) {
+    return { status: { signature: 'unsigned' }, content: signedContent };
+  }
+
+  const signer = readSignerInfo(signerInfos[0]);
+  const cert = findSignerCertificate(msg.certificates, signer);
+  if (!cert) {
+    return {
+      status: { signature: 'bad', error: 'Signer certificate not included' },
+      content: signedContent,
+    };
+  }
+
+  const emails = getCertificateEmails(cert);
+  const details = {
+    signer: emails[0] || commonName(cert.subject),
+    subject: commonName(cert.subject),
+    issuer: commonName(cert.issuer),
+    senderMatch: !from || emails.includes(String(from).toLowerCase()),
+    expired: now < cert.validity.notBefore.getTime() || now > cert.validity.notAfter.getTime(),
+  };
+
+  if (!RSA_SIGNATURE_OIDS.has(signer.signatureOid) || !forge.md[signer.digestAlgorithm]) {
+    return { status: { signature: 'unsupported', ...details }, content: signedContent };
+  }
+
+  const digest = forge.md[signer.digestAlgorithm].create().update(signedContent).digest().bytes();
+  let signedBytes = digest;
+  let signedAt = null;
+  if (signer.signedAttrs) {
+    // RFC 5652 §5.4: the signature covers the DER of the attributes as a SET
+    const messageDigest = readAttribute(signer.signedAttrs, OID_MESSAGE_DIGEST);
+    if (messageDigest?.value !== digest) {
+      return {
+        status: { signature: 'bad', ...details, error: 'Message digest mismatch' },
+        content: signedContent,
+      };
+    }
+    const signingTime = readAttribute(signer.signedAttrs, OID_SIGNING_TIME);
+    if (signingTime?.type === asn1.Type.UTCTIME) {
+      signedAt = asn1.utcTimeToDate(signingTime.value).getTime();
+    } else if (signingTime?.type === asn1.Type.GENERALIZEDTIME) {
+      signedAt = asn1.generalizedTimeToDate(signingTime.value).getTime();
+    }
+    const attrSet = asn1.create(
+      asn1.Class.UNIVERSAL,
+      asn1.Type.SET,
+      true,
+      signer.signedAttrs.value,
+    );
+    signedBytes = forge.md[signer.digestAlgorithm]
+      .create()
+      .update(asn1.toDer(attrSet).getBytes())
+      .digest()
+      .bytes();
+  }
+
+  let verified = false;
+  try {
+    verified = cert.publicKey.verify(signedBytes, signer.signature);
+  } catch {
+    verified = false;
+  }
+  if (!verified) {
+    return { status: { signature: 'bad', ...details, signedAt }, content: signedContent };
+  }
+
+  const chain = checkChain(cert, msg.certificates, trustedFingerprints);
+  return {
+    status: {
+      signature: 'signed',
+      ...details,
+      signedAt,
+      chainValid: chain.valid,
+      trusted: chain.trusted,
+    },
+    content: signedContent,
+  };
+}
+
+/**
+ * Fingerprints of every certificate in the user's identities; signatures
+ * chaining to one of them are shown as trusted.
+ */
+export function getTrustedFingerprints(identities = []) {
+  const fingerprints = [];
+  for (const identity of identities) {
+    for (const pem of [identity.certificate, ...(identity.chain || [])]) {
+      try {
+        fingerprints.push(fingerprintOf(pki.certificateFromPem(pem)));
+      } catch {
+        // Skip unreadable certificates
+      }
+    }
+  }
+  return fingerprints;
+}
+
+/**
+ * Unwrap the S/MIME layers of a message: decrypt enveloped data and verify
+ * signatures, returning the innermost MIME entity to render.
+ *
+ * @param {string} raw - Raw RFC 822 message
+ * @param {Object} [options]
+ * @param {Array<Object>} [options.identities] - Imported identities
+ * @param {string} [options.from] - From address (defaults to the From header of raw)
+ * @param {number} [options.now] - Time used for certificate validity checks
+ * @returns {{ content: string, status: Object|null, locked: boolean }}
+ *   status is null for messages without S/MIME
+ */
+export function unwrapSmimeMessage(raw, { identities = [], from, now = Date.now() } = {}) {
+  let content = raw;
+  let status = null;
+  const sender = from || readHeaders(raw)?.from;
+  const trustedFingerprints = getTrustedFingerprints(identities);
+
+  // Signed-then-encrypted (and the reverse) nest at most a couple of levels
+  for (let depth = 0; depth < 3; depth++) {
+    const type = getSmimeType(content);
+    if (!type) break;
+    status = status || { encrypted: false, signature: 'unsigned' };
+
+    if (type === 'enveloped') {
+      let decrypted = null;
+      try {
+        decrypted = decryptEnvelopedData(decodePkcs7Body(content), identities);
+      } catch (err) {
+        return {
+          content: raw,
+          status: { ...status, encrypted: true, locked: true, error: err?.message },
+          locked: true,
+        };
+      }
+      if (decrypted === null) {
+        return { content: raw, status: { ...status, encrypted: true, locked: true }, locked: true };
+      }
+      status.encrypted = true;
+      content = binaryToText(decrypted);
+      continue;
+    }
+
+    if (type === 'signed-opaque') {
+      const result = verifySignedData(decodePkcs7Body(content), {
+        from: sender,
+        trustedFingerprints,
+        now,
+      });
+      status = { ...status, ...result.status };
+      if (!result.content) break;
+      content = binaryToText(result.content);
+      continue;
+    }
+
+    const parts = splitMultipartSigned(content);
+    if (parts) {
+      const result = verifySignedData(decodePkcs7Body(parts.signaturePart), {
+        content: parts.signedContent,
+        from: sender,
+        trustedFingerprints,
+        now,
+      });
+      status = { ...status, ...result.status };
+    }
+    break;
+  }
+
+  return { content, status, locked: false };
+}
@@ -0,0 +1,168 @@
+/**
+ * Snoozed message helpers
+ *
+ * Snooze records, presets and the wake-up itself, for snooze.js, the sync
+ * worker and the service worker (sync-core.js inlines this module, so it
+ * must not import anything). Nothing here touches IndexedDB or the network.
+ *
+ * A woken message keeps its date; `wokenAt` is what lists sort it by
+ * (message-sort.ts `messageSortDate`), so it shows at the top without
+ * pretending it arrived later.
+ *
+ * A snooze record:
+ *   id:         unique identifier
+ *   messageId:  local message id (IndexedDB key together with the account)
+ *   apiId:      message id for the API
+ *   folder:     folder to return the message to
+ *   until:      wake-up time (ms since epoch)
+ *   subject:    for display
+ *   createdAt:  timestamp
+ *   apiBase, authHeader: so the service worker can wake messages when the
+ *                        tab is closed (same as queued mutations)
+ */
+
+export const SNOOZE_KEY_PREFIX = 'snoozed_';
+export const SNOOZE_FOLDER = 'Snoozed';
+
+const MORNING_HOUR = 8;
+const LATER_TODAY_HOURS = 3;
+const LAST_LATER_TODAY_HOUR = 18;
+
+export const snoozeMetaKey = (account) => `${SNOOZE_KEY_PREFIX}${account || 'default'}`;
+
+/** The account whose snoozes a `meta` key holds, or null for other keys */
+export const snoozeMetaAccount = (key) =>
+  typeof key === 'string' && key.startsWith(SNOOZE_KEY_PREFIX)
+    ? key.slice(SNOOZE_KEY_PREFIX.length)
+    : null;
+
+const createSnoozeId = () => `snz_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+const atHour = (date, hour) => {
+  const next = new Date(date);
+  next.setHours(hour, 0, 0, 0);
+  return next;
+};
+
+const addDays = (date, days) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+/**
+ * Quick snooze choices relative to `now`. "Later today" is only offered until
+ * the early evening.
+ *
+ * @param {Date} [now]
+ * @returns {Array<{ id: string, label: string, until: number }>}
+ */
+export function snoozePresets(now = new Date()) {
+  const presets = [];
+
+  if (now.getHours() < LAST_LATER_TODAY_HOUR) {
+    const later = atHour(now, now.getHours() + LATER_TODAY_HOURS);
+    presets.push({ id: 'later-today', label: 'Later today', until: later.getTime() });
+  }
+
+  const tomorrow = atHour(addDays(now, 1), MORNING_HOUR);
+  presets.push({ id: 'tomorrow', label: 'Tomorrow morning', until: tomorrow.getTime() });
+
+  // Monday morning; a full week ahead when today is Monday
+  const daysToMonday = (8 - now.getDay()) % 7 || 7;
+  const nextWeek = atHour(addDays(now, daysToMonday), MORNING_HOUR);
+  presets.push({ id: 'next-week', label: 'Next week', until: nextWeek.getTime() });
+
+  return presets;
+}
+
+/**
+ * Validate a wake-up time.
+ *
+ * @param {number|string|Date} value - Timestamp, Date or `datetime-local` string
+ * @param {Date} [now]
+ * @returns {number} Wake-up time in ms
+ * @throws {Error} When the time is invalid or not in the future
+ */
+export function resolveSnoozeUntil(value, now = new Date()) {
+  const until = value instanceof Date ? value.getTime() : new Date(value).getTime();
+  if (!Number.isFinite(until)) {
+    throw new Error('Choose when the message should come back');
+  }
+  if (until <= now.getTime()) {
+    throw new Error('Snooze time must be in the future');
+  }
+  return until;
+}
+
+/**
+ * Build the record stored for a message being snoozed.
+ */
+export function createSnoozeRecord(message, { apiId, until, apiBase = '', authHeader = '' } = {}) {
+  return {
+    id: createSnoozeId(),
+    messageId: message.id,
+    apiId,
+    folder: message.folder,
+    until,
+    subject: message.subject || '',
+    createdAt: Date.now(),
+    apiBase,
+    authHeader,
+  };
+}
+
+/**
+ * Split snooze records into those due at `now` and those still waiting.
+ *
+ * @returns {{ due: Array<Object>, pending: Array<Object> }}
+ */
+export function splitDueSnoozes(records = [], now = Date.now()) {
+  const due = [];
+  const pending = [];
+  for (const record of records) {
+    if (record && Number(record.until) <= now) due.push(record);
+    else if (record) pending.push(record);
+  }
+  return { due, pending };
+}
+
+/**
+ * The cached message after waking: back in its folder, unread, and woken at
+ * `now` so it sorts to the top of the list.
+ */
+export function wakeMessage(message, record, now = Date.now()) {
+  const flags = (message.flags || []).filter((flag) => flag !== '\\Seen');
+  return {
+    ...message,
+    folder: record.folder,
+    flags,
+    is_unread: true,
+    is_unread_index: 1,
+    wokenAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Mutations that move a woken message back on the server and mark it
+ * unread, as `{ type, payload }` pairs for queueMutation(), in the order they
+ * must run. Without the message's current flags (it is no longer cached) only
+ * the move is sent, since a flag update replaces the whole set.
+ *
+ * @param {Object} record - Snooze record
+ * @param {string[]|null} [flags] - The message's current flags
+ * @returns {Array<{ type: string, payload: Object }>}
+ */
+export function wakeMutations(record, flags = null) {
+  const mutations = [
+    { type: 'move', payload: { messageId: record.apiId, targetFolder: record.folder } },
+  ];
+  if (Array.isArray(flags)) {
+    mutations.push({
+      type: 'toggleRead',
+      payload: { messageId: record.apiId, isUnread: true, flags, folder: record.folder },
+    });
+  }
+  return mutations;
+}
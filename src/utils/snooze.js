@@ -0,0 +1,189 @@
+import { db } from './db';
+import { Accounts, Local } from './storage';
+import { getAccountAuthHeader } from './auth';
+import { config } from '../config';
+import { queueMutation } from './mutation-queue';
+import { sendSyncTask } from './sync-worker-client.js';
+import { canUseServiceWorker } from './platform.js';
+import { warn } from './logger.ts';
+import { withLock } from './web-locks.js';
+import {
+  snoozeMetaKey,
+  createSnoozeRecord,
+  resolveSnoozeUntil,
+  wakeMutations,
+  SNOOZE_FOLDER,
+} from './snooze-helpers.js';
+
+export { SNOOZE_FOLDER };
+
+/**
+ * Snoozed Messages
+ *
+ * Snoozing moves a message to the Snoozed folder and records where it came
+ * from and when it should come back. Records live in the IndexedDB `meta`
+ * table under a per-account key (see snooze-helpers.js).
+ *
+ * While the app is open, a 30 s processor asks the sync worker to wake due
+ * messages of every signed-in account: the worker returns them to their folder in the cache, marks them
+ * unread and sets `wokenAt` so they sort to the top. This module then queues
+ * the move and flag change for the server and only after that removes the
+ * records, so a wake-up that fails halfway is retried. When no tab is open,
+ * the service worker does the same from its periodic sync (sync-core.js
+ * `processSnoozes`). Every change to an account's records holds its Web Lock,
+ * so tabs and the service worker don't wake a message twice.
+ */
+
+const PROCESS_INTERVAL_MS = 30000;
+const PERIODIC_SYNC_TAG = 'snooze-wake';
+const PERIODIC_SYNC_MIN_INTERVAL_MS = 15 * 60 * 1000;
+
+let processorInterval = null;
+// Accounts whose snoozes are being processed
+const processing = new Set();
+
+function getAccount() {
+  return Local.get('email') || 'default';
+}
+
+async function readSnoozes(account) {
+  try {
+    const record = await db.meta.get(snoozeMetaKey(account));
+    return Array.isArray(record?.value) ? record.value : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeSnoozes(account, records) {
+  await db.meta.put({ key: snoozeMetaKey(account), value: records, updatedAt: Date.now() });
+}
+
+const withSnoozeLock = (account, fn) => withLock(snoozeMetaKey(account), fn);
+
+/**
+ * Ask the service worker to check for due snoozes periodically, so messages
+ * come back even if no tab is open at the time. Not all browsers support it;
+ * those wake messages the next time the app opens.
+ */
+function registerPeriodicWake() {
+  if (!canUseServiceWorker()) return;
+  navigator.serviceWorker.ready
+    .then(async (reg) => {
+      if (!reg.periodicSync) return;
+      await reg.periodicSync.register(PERIODIC_SYNC_TAG, {
+        minInterval: PERIODIC_SYNC_MIN_INTERVAL_MS,
+      });
+    })
+    .catch((err) => {
+      warn('[snooze] Periodic sync registration failed', err);
+    });
+}
+
+/**
+ * Record snoozes for messages. The caller moves the messages to the Snoozed
+ * folder (mailboxStore.snoozeMessages).
+ *
+ * @param {Array<{ message: Object, apiId: string }>} entries - Messages to snooze, all of one account
+ * @param {number|string|Date} until - Wake-up time
+ * @param {Object} [options]
+ * @param {string} [options.account] - Account the messages belong to (defaults to current account)
+ * @returns {Promise<Array<Object>>} The new snooze records
+ * @throws {Error} When the wake-up time is invalid or in the past
+ */
+export async function addSnoozes(entries, until, { account = getAccount() } = {}) {
+  const wakeAt = resolveSnoozeUntil(until);
+
+  // Stored on each record so the service worker can act when the tab is closed
+  let authHeader = '';
+  try {
+    authHeader = getAccountAuthHeader(account, { required: false });
+  } catch {
+    // Auth not available — the service worker will skip the wake-up
+  }
+
+  const created = entries.map(({ message, apiId }) =>
+    createSnoozeRecord(message, {
+      apiId,
+      until: wakeAt,
+      apiBase: config.apiBase || '',
+      authHeader,
+    }),
+  );
+  const ids = new Set(created.map((record) => record.messageId));
+  await withSnoozeLock(account, async () => {
+    const existing = (await readSnoozes(account)).filter((record) => !ids.has(record.messageId));
+    await writeSnoozes(account, [...existing, ...created]);
+  });
+  registerPeriodicWake();
+  return created;
+}
+
+/**
+ * Forget a snooze, e.g. when the user moves the message out of Snoozed
+ * themselves.
+ *
+ * @param {string} messageId - Local message id
+ * @param {string} [account] - Account identifier (defaults to current account)
+ */
+export async function removeSnooze(messageId, account) {
+  const key = account || getAccount();
+  await withSnoozeLock(key, async () => {
+    const records = await readSnoozes(key);
+    const remaining = records.filter((record) => record.messageId !== messageId);
+    if (remaining.length !== records.length) await writeSnoozes(key, remaining);
+  });
+}
+
+/**
+ * Wake due messages for an account.
+ *
+ * @param {string} [account] - Account identifier (defaults to current account)
+ * @returns {Promise<number>} Number of messages woken
+ */
+export async function processSnoozes(account = getAccount()) {
+  if (processing.has(account)) return 0;
+  processing.add(account);
+  try {
+    return await withSnoozeLock(account, async () => {
+      const result = await sendSyncTask({ type: 'snoozes', account });
+      const woken = Array.isArray(result?.woken) ? result.woken : [];
+      if (!woken.length) return 0;
+      for (const { record, flags } of woken) {
+        for (const { type, payload } of wakeMutations(record, flags)) {
+          await queueMutation(type, payload, { account });
+        }
+      }
+      const ids = new Set(woken.map(({ record }) => record.id));
+      const remaining = (await readSnoozes(account)).filter((record) => !ids.has(record.id));
+      await writeSnoozes(account, remaining);
+      return woken.length;
+    });
+  } catch (err) {
+    warn('[snooze] Failed to wake snoozed messages', err);
+    return 0;
+  } finally {
+    processing.delete(account);
+  }
+}
+
+function processAllSnoozes() {
+  const accounts = new Set([getAccount(), ...Accounts.getAll().map((a) => a.email)]);
+  for (const account of accounts) {
+    if (account) processSnoozes(account);
+  }
+}
+
+/**
+ * Start waking snoozed messages.
+ * Call once on app startup.
+ */
+export function initSnooze() {
+  if (processorInterval) return;
+
+  // Catch up on anything that came due while the app was closed
+  processAllSnoozes();
+  processorInterval = setInterval(() => {
+    processAllSnoozes();
+  }, PROCESS_INTERVAL_MS);
+}
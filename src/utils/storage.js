@@ -85,6 +85,9 @@ const clearAccountCacheData = async (email) => {
       db.outbox,
       db.labels,
       db.syncManifests,
+      db.contacts,
+      db.calendars,
+      db.calendarEvents,
       db.meta,
     ],
     async () => {
@@ -100,9 +103,18 @@ const clearAccountCacheData = async (email) => {
         db.outbox.where('account').equals(email).delete(),
         db.labels.where('account').equals(email).delete(),
         db.syncManifests.where('account').equals(email).delete(),
-        // Clean up account-specific meta entries (mutation queue, contacts, saved searches)
+        db.contacts.where('account').equals(email).delete(),
+        db.calendars.where('account').equals(email).delete(),
+        db.calendarEvents.where('account').equals(email).delete(),
+        // Clean up account-specific meta entries (mutation queue, rules, contacts, calendar, saved searches)
         db.meta.where('key').startsWith(`mutation_queue_${email}`).delete(),
+        db.meta.where('key').startsWith(`mail_rules_${email}`).delete(),
         db.meta.where('key').startsWith(`contacts_${email}`).delete(),
+        db.meta.where('key').startsWith(`contacts_synced_${email}`).delete(),
+        db.meta.where('key').startsWith(`recent_addresses_${email}`).delete(),
+        db.meta.where('key').startsWith(`contact_merges_${email}`).delete(),
+        db.meta.where('key').startsWith(`calendar_prefs_${email}`).delete(),
+        db.meta.where('key').startsWith(`calendar_reminders_${email}`).delete(),
         db.meta.where('key').startsWith(`saved_search_${email}_`).delete(),
       ]);
     },
@@ -500,9 +512,10 @@ export const Accounts = {
         }
       }
 
-      // Clean up PGP keys and passphrases for this account
+      // Clean up PGP keys, passphrases and S/MIME identities for this account
       Local.remove(`pgp_keys_${email}`);
       Local.remove(`pgp_passphrases_${email}`);
+      Local.remove(`smime_keys_${email}`);
 
       // Clear IndexedDB cache for this account if requested
       if (clearCache) {
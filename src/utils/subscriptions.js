@@ -0,0 +1,199 @@
+import { db } from './db';
+import { Local } from './storage';
+import { Remote } from './remote';
+import { queueEmail } from './outbox-service.js';
+import { listMailRules, saveMailRules, applyRuleMatches } from './mail-rules.js';
+import { evaluateRules } from './mail-rules-helpers.js';
+import { parseMailto } from './mailto';
+import {
+  groupSubscriptions,
+  listQuery,
+  parseMailingList,
+  unsubscribeMethod,
+} from './list-unsubscribe.ts';
+
+/**
+ * Subscriptions
+ *
+ * Mailing lists found in the message cache, and the ways out of them:
+ * unsubscribing (an RFC 8058 one-click POST sent by the API, an email to the
+ * list through the outbox, or the sender's unsubscribe page), archiving everything the list
+ * sends, or blocking it. Archiving and blocking are mail rules on the
+ * `list:` condition, so they run in the sync worker like any other rule and
+ * show up (and can be edited) under Settings > Rules.
+ *
+ * Lists the user unsubscribed from are remembered per account in the
+ * IndexedDB `meta` table.
+ */
+
+const UNSUBSCRIBED_KEY_PREFIX = 'unsubscribed_lists_';
+const INBOX = 'INBOX';
+
+function getAccount() {
+  return Local.get('email') || 'default';
+}
+
+const unsubscribedMetaKey = (account) => `${UNSUBSCRIBED_KEY_PREFIX}${account}`;
+
+async function readUnsubscribed(account) {
+  try {
+    const record = await db.meta.get(unsubscribedMetaKey(account));
+    return record?.value && typeof record.value === 'object' ? record.value : {};
+  } catch {
+    return {};
+  }
+}
+
+const listRuleAction = (rule) =>
+  rule.actions.some((action) => action.type === 'delete') ? 'block' : 'archive';
+
+/**
+ * Group the account's cached messages by mailing list.
+ *
+ * @returns {Promise<Array<Object>>} Subscriptions, most active first, each with
+ *   `unsubscribedAt` (timestamp or null) and `rule` ('archive', 'block' or null)
+ */
+export async function listSubscriptions() {
+  const account = getAccount();
+  const [messages, unsubscribed, rules] = await Promise.all([
+    db.messages.where('account').equals(account).toArray(),
+    readUnsubscribed(account),
+    listMailRules(account),
+  ]);
+  return groupSubscriptions(messages).map((subscription) => {
+    const rule = rules.find((r) => r.query === listQuery(subscription.id));
+    return {
+      ...subscription,
+      unsubscribedAt: unsubscribed[subscription.id]?.at || null,
+      rule: rule ? listRuleAction(rule) : null,
+    };
+  });
+}
+
+/**
+ * Store the list headers of an opened message on its cache record, for
+ * messages cached before their headers were known.
+ *
+ * @param {Object} message - Cached message record
+ * @param {Object} meta - Parsed message meta (with `nodemailer` headers)
+ */
+export async function rememberMessageList(message, meta) {
+  const list = parseMailingList(meta);
+  if (!list || !message?.id || JSON.stringify(list) === JSON.stringify(message.list || null)) {
+    return;
+  }
+  await db.messages
+    .where('[account+id]')
+    .equals([message.account || getAccount(), message.id])
+    .modify({ list })
+    .catch(() => {});
+}
+
+async function sendUnsubscribeEmail(list, from) {
+  const mailto = parseMailto(list.unsubscribeMailto);
+  if (!mailto.to.length) {
+    throw new Error('The unsubscribe address is invalid.');
+  }
+  await queueEmail({
+    from: from || Local.get('email') || '',
+    to: mailto.to,
+    subject: mailto.subject || 'unsubscribe',
+    text: mailto.body || 'unsubscribe',
+  });
+}
+
+/**
+ * Unsubscribe from a mailing list. A one-click POST that fails falls back to
+ * the list's unsubscribe address when it has one.
+ *
+ * @param {Object} list - Mailing list details (list-unsubscribe.ts)
+ * @param {Object} [options]
+ * @param {string} [options.from] - Address to send an unsubscribe email from
+ * @returns {Promise<string>} The method used: 'one-click', 'mailto' or 'link'
+ * @throws {Error} When the list has no unsubscribe address
+ */
+export async function unsubscribeFromList(list, { from } = {}) {
+  let method = unsubscribeMethod(list);
+  if (!method) {
+    throw new Error('This sender does not offer a way to unsubscribe.');
+  }
+
+  if (method === 'one-click') {
+    // RFC 8058: the API makes the form POST, since the CSP only lets the
+    // app connect to the API and senders rarely allow CORS anyway
+    try {
+      await Remote.request('ListUnsubscribe', { url: list.unsubscribeUrl });
+    } catch (err) {
+      if (!list.unsubscribeMailto) throw err;
+      method = 'mailto';
+    }
+  }
+  if (method === 'mailto') {
+    await sendUnsubscribeEmail(list, from);
+  } else if (method === 'link') {
+    window.open(list.unsubscribeUrl, '_blank', 'noopener,noreferrer');
+  }
+
+  if (list.id) {
+    const account = getAccount();
+    const unsubscribed = await readUnsubscribed(account);
+    await db.meta.put({
+      key: unsubscribedMetaKey(account),
+      value: { ...unsubscribed, [list.id]: { at: Date.now(), method } },
+      updatedAt: Date.now(),
+    });
+  }
+  return method;
+}
+
+/**
+ * Archive or block a list: add (or replace) its mail rule, and apply it to
+ * the list's messages already in the Inbox.
+ *
+ * @param {Object} subscription - { id, name }
+ * @param {string} action - 'archive' or 'block'
+ * @param {Object} [options]
+ * @param {string} [options.archiveFolder] - Target folder for 'archive'
+ * @returns {Promise<number>} Number of Inbox messages the rule was applied to
+ */
+export async function setListRule(subscription, action, { archiveFolder = 'Archive' } = {}) {
+  const account = getAccount();
+  const query = listQuery(subscription.id);
+  const rules = await listMailRules(account);
+  const existing = rules.find((rule) => rule.query === query);
+  const rule = {
+    id: existing?.id,
+    name: `${action === 'block' ? 'Block' : 'Archive'} ${subscription.name || subscription.id}`,
+    query,
+    actions:
+      action === 'block'
+        ? [{ type: 'delete' }]
+        : [{ type: 'markRead' }, { type: 'move', value: archiveFolder }],
+    stop: true,
+    enabled: true,
+  };
+  const saved = await saveMailRules(
+    existing ? rules.map((r) => (r.id === existing.id ? rule : r)) : [...rules, rule],
+    account,
+  );
+
+  const savedRule = saved.find((r) => r.query === query);
+  const inbox = await db.messages.where('[account+folder]').equals([account, INBOX]).toArray();
+  const matches = inbox
+    .map((message) => ({ message, plan: evaluateRules([savedRule], message) }))
+    .filter((match) => match.plan);
+  await applyRuleMatches({ account, matches });
+  return matches.length;
+}
+
+/**
+ * Stop archiving or blocking a list.
+ */
+export async function removeListRule(subscription) {
+  const account = getAccount();
+  const rules = await listMailRules(account);
+  await saveMailRules(
+    rules.filter((rule) => rule.query !== listQuery(subscription.id)),
+    account,
+  );
+}
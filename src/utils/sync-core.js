@@ -23,20 +23,51 @@
  *   const core = createSyncCore(env);
  *   await core.startSync({ accountId, folderId, ... });
  *   await core.processMutations();
+ *   await core.processSnoozes();
  *   core.cancelSync(accountId, folderId);
  *   await core.getSyncStatus(accountId, folderId);
+ *
+ * ─── Imports ─────────────────────────────────────────────────────────────
+ *
+ *   Only named imports of sibling modules that import nothing themselves;
+ *   scripts/build-sw-sync.js inlines them into the service worker.
  */
 
+import { buildForwardPayload } from './forward-payload.js';
+import { withLock } from './web-locks.js';
+import {
+  MUTATION_QUEUE_PREFIX,
+  mergeProcessedQueue,
+  mutationQueueKey,
+} from './mutation-queue-helpers.js';
+import {
+  snoozeMetaAccount,
+  snoozeMetaKey,
+  splitDueSnoozes,
+  wakeMessage,
+  wakeMutations,
+} from './snooze-helpers.js';
+
 // ── Constants ──────────────────────────────────────────────────────────────
-const SCHEMA_VERSION = 1;
-const DB_NAME = `webmail-cache-v${SCHEMA_VERSION}`;
+// Same name as DB_NAME in db-constants.ts, which stays the same across schema versions
+const DB_NAME = 'webmail-cache-v1';
 const MANIFEST_STORE = 'syncManifests';
 const MESSAGES_STORE = 'messages';
 const BODIES_STORE = 'messageBodies';
 const FOLDERS_STORE = 'folders';
 const META_STORE = 'meta';
-const MUTATION_QUEUE_PREFIX = 'mutation_queue_';
 const MUTATION_MAX_RETRIES = 5;
+// Contact and calendar event changes are sent from the `contacts` and
+// `calendarEvents` tables (contact-cache.js, calendar-cache.js), so only an
+// open tab sends them
+const TAB_ONLY_MUTATIONS = new Set([
+  'contactCreate',
+  'contactUpdate',
+  'contactDelete',
+  'calendarEventCreate',
+  'calendarEventUpdate',
+  'calendarEventDelete',
+]);
 const DEFAULT_PAGE_SIZE = 100;
 const LOG = false;
 
@@ -559,17 +590,28 @@ export function createSyncCore(env = {}) {
     });
   };
 
-  const writeMutationQueue = async (key, queue) => {
+  // Merge a run's results into the queue as stored now (the app may have
+  // queued more meanwhile), under the lock the app's mutation-queue.js holds
+  const saveProcessedQueue = async (key, processed) => {
     const db = await openDb();
     if (!db.objectStoreNames.contains(META_STORE)) return;
 
-    return new Promise((resolve, reject) => {
-      const tx = db.transaction(META_STORE, 'readwrite');
-      const store = tx.objectStore(META_STORE);
-      store.put({ key, value: queue, updatedAt: Date.now() });
-      tx.oncomplete = () => resolve();
-      tx.onerror = () => reject(tx.error);
-    });
+    await withLock(
+      key,
+      () =>
+        new Promise((resolve, reject) => {
+          const tx = db.transaction(META_STORE, 'readwrite');
+          const store = tx.objectStore(META_STORE);
+          const req = store.get(key);
+          req.onsuccess = () => {
+            const stored = Array.isArray(req.result?.value) ? req.result.value : [];
+            const queue = mergeProcessedQueue(stored, processed, (m) => m.status === 'completed');
+            store.put({ key, value: queue, updatedAt: Date.now() });
+          };
+          tx.oncomplete = () => resolve();
+          tx.onerror = () => reject(tx.error);
+        }),
+    );
   };
 
   const executeMutation = async (mutation) => {
@@ -637,6 +679,24 @@ export function createSyncCore(env = {}) {
         return res.ok;
       }
 
+      case 'forward': {
+        const folderQuery = encodeURIComponent(payload.folder || '');
+        const original = await _fetch(`${base}${msgPath}?folder=${folderQuery}&raw=true`, {
+          method: 'GET',
+          headers,
+        });
+        if (!original.ok) return false;
+        const json = await original.json();
+        const raw = (json?.Result || json)?.raw;
+        if (!raw) return false;
+        const res = await _fetch(`${base}/v1/emails`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(buildForwardPayload(payload, raw)),
+        });
+        return res.ok;
+      }
+
       default:
         return false;
     }
@@ -655,6 +715,7 @@ export function createSyncCore(env = {}) {
       let modified = false;
       for (const mutation of queue) {
         if (mutation.status === 'completed') continue;
+        if (TAB_ONLY_MUTATIONS.has(mutation.type)) continue;
         if (mutation.status === 'failed' && mutation.retryCount >= MUTATION_MAX_RETRIES) continue;
         if (mutation.nextRetryAt && Date.now() < mutation.nextRetryAt) continue;
 
@@ -672,9 +733,8 @@ export function createSyncCore(env = {}) {
       }
 
       if (modified) {
-        const remaining = queue.filter((m) => m.status !== 'completed');
         try {
-          await writeMutationQueue(key, remaining);
+          await saveProcessedQueue(key, queue);
         } catch (err) {
           LOG && console.warn('[sync-core] Failed to write mutation queue', err);
         }
@@ -684,6 +744,140 @@ export function createSyncCore(env = {}) {
     await _post({ type: 'mutationQueueProcessed' });
   };
 
+  // ── Snoozed Messages ───────────────────────────────────────────────────
+  //
+  // Wakes snoozed messages when no tab is open, with the same wake-up as the
+  // sync worker (snooze-helpers.js).
+
+  const wakeMutationRecords = (snooze, account, flags, now) =>
+    wakeMutations(snooze, flags).map(({ type, payload }) => ({
+      id: `mut_${now}_${Math.random().toString(36).slice(2, 8)}`,
+      type,
+      payload: { ...payload, account },
+      status: 'pending',
+      retryCount: 0,
+      createdAt: now,
+      apiBase: snooze.apiBase || '',
+      authHeader: snooze.authHeader || '',
+    }));
+
+  const readSnoozeAccounts = (db) =>
+    new Promise((resolve, reject) => {
+      const accounts = [];
+      const req = db.transaction(META_STORE, 'readonly').objectStore(META_STORE).openCursor();
+      req.onsuccess = () => {
+        const cursor = req.result;
+        if (!cursor) {
+          resolve(accounts);
+          return;
+        }
+        const account = snoozeMetaAccount(cursor.value?.key);
+        if (account !== null) accounts.push(account);
+        cursor.continue();
+      };
+      req.onerror = () => reject(req.error);
+    });
+
+  // Wake an account's due messages, queue their server changes and drop
+  // their records, all in one transaction
+  const wakeAccountSnoozes = (db, account, now) => {
+    const storeNames = [META_STORE, MESSAGES_STORE, BODIES_STORE].filter((name) =>
+      db.objectStoreNames.contains(name),
+    );
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(storeNames, 'readwrite');
+      const meta = tx.objectStore(META_STORE);
+      const messages = storeNames.includes(MESSAGES_STORE) ? tx.objectStore(MESSAGES_STORE) : null;
+      const bodies = storeNames.includes(BODIES_STORE) ? tx.objectStore(BODIES_STORE) : null;
+      let woken = 0;
+
+      const snoozeKey = snoozeMetaKey(account);
+      const snoozeReq = meta.get(snoozeKey);
+      snoozeReq.onsuccess = () => {
+        const records = Array.isArray(snoozeReq.result?.value) ? snoozeReq.result.value : [];
+        const { due, pending } = splitDueSnoozes(records, now);
+        if (!due.length) return;
+        woken = due.length;
+
+        const results = new Array(due.length);
+        let remaining = due.length;
+        const finish = () => {
+          const queueKey = mutationQueueKey(account);
+          const queueReq = meta.get(queueKey);
+          queueReq.onsuccess = () => {
+            const queue = Array.isArray(queueReq.result?.value) ? queueReq.result.value : [];
+            meta.put({ key: queueKey, value: [...queue, ...results.flat()], updatedAt: now });
+            meta.put({ key: snoozeKey, value: pending, updatedAt: now });
+          };
+        };
+
+        due.forEach((snooze, index) => {
+          const done = (flags) => {
+            results[index] = wakeMutationRecords(snooze, account, flags, now);
+            remaining -= 1;
+            if (!remaining) finish();
+          };
+          if (!messages) {
+            done(null);
+            return;
+          }
+
+          const key = [account, snooze.messageId];
+          const req = messages.get(key);
+          req.onsuccess = () => {
+            if (!req.result) {
+              done(null);
+              return;
+            }
+            const updated = wakeMessage(req.result, snooze, now);
+            messages.put(updated);
+            if (bodies) {
+              const bodyReq = bodies.get(key);
+              bodyReq.onsuccess = () => {
+                if (bodyReq.result) {
+                  bodies.put({ ...bodyReq.result, folder: snooze.folder, updatedAt: now });
+                }
+              };
+            }
+            done(updated.flags);
+          };
+          req.onerror = () => done(null);
+        });
+      };
+
+      tx.oncomplete = () => resolve(woken);
+      tx.onerror = () => reject(tx.error);
+    });
+  };
+
+  const wakeDueSnoozes = async () => {
+    const db = await openDb();
+    if (!db.objectStoreNames.contains(META_STORE)) return 0;
+
+    const now = Date.now();
+    let woken = 0;
+    for (const account of await readSnoozeAccounts(db)) {
+      // The same locks as snooze.js and the mutation queue, so a tab can't
+      // wake these messages too or overwrite the queued changes
+      woken += await withLock(snoozeMetaKey(account), () =>
+        withLock(mutationQueueKey(account), () => wakeAccountSnoozes(db, account, now)),
+      );
+    }
+    return woken;
+  };
+
+  const processSnoozes = async () => {
+    let woken = 0;
+    try {
+      woken = await wakeDueSnoozes();
+    } catch (err) {
+      LOG && console.warn('[sync-core] Failed to wake snoozed messages', err);
+      return;
+    }
+    if (woken) await processMutations();
+  };
+
   // ── Cancel ─────────────────────────────────────────────────────────────
 
   const cancelSync = (accountId, folderId) => {
@@ -715,5 +909,6 @@ export function createSyncCore(env = {}) {
     cancelSync,
     getSyncStatus,
     processMutations,
+    processSnoozes,
   };
 }
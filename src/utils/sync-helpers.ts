@@ -6,6 +6,7 @@ import {
   type AddressObject,
 } from './address.js';
 import { decodeMimeHeader } from './mime-utils.js';
+import { parseMailingList } from './list-unsubscribe';
 import type { Message, MessageBody } from '$types';
 
 type RawMessage = Record<string, unknown> & {
@@ -251,6 +252,7 @@ export function normalizeMessageForCache(
     in_reply_to: inReplyToHeader || null,
     references: referencesHeader || null,
     labels,
+    list: parseMailingList(raw),
     bodyIndexed: false,
     updatedAt: Date.now(),
   };
@@ -293,6 +295,11 @@ export function mergeFlagsAndMetadata(
     changed = true;
   }
 
+  if (incoming.list && JSON.stringify(incoming.list) !== JSON.stringify(existing.list || null)) {
+    next.list = incoming.list;
+    changed = true;
+  }
+
   const incomingFrom = typeof incoming.from === 'string' ? incoming.from.trim() : '';
   const existingFrom = typeof existing.from === 'string' ? existing.from.trim() : '';
   if (incomingFrom && incomingFrom !== existingFrom) {
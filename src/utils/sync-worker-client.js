@@ -16,6 +16,8 @@ const pendingRequests = createPendingRequests();
 const progressHandlers = new Set();
 const perfHandlers = new Set();
 const taskCompleteHandlers = new Set();
+const ruleMatchHandlers = new Set();
+const calendarReplyHandlers = new Set();
 
 const createWorker = () => new SyncWorker();
 
@@ -33,6 +35,17 @@ function getPgpPayload() {
   }
 }
 
+function getSmimePayload() {
+  try {
+    const currentAcct = Local.get('email') || 'default';
+    const raw = Local.get(`smime_keys_${currentAcct}`);
+    const identities = raw ? JSON.parse(raw) : [];
+    return { identities: Array.isArray(identities) ? identities : [] };
+  } catch {
+    return { identities: [] };
+  }
+}
+
 function handleMessage(event) {
   const data = event?.data || {};
   if (data.type === 'taskComplete') {
@@ -58,6 +71,26 @@ function handleMessage(event) {
     pendingRequests.reject(data.requestId, new Error(data.error || 'Request failed'));
     return;
   }
+  if (data.type === 'rulesMatched') {
+    ruleMatchHandlers.forEach((handler) => {
+      try {
+        handler(data);
+      } catch (err) {
+        warn('[sync-worker-client] rulesMatched handler failed', err);
+      }
+    });
+    return;
+  }
+  if (data.type === 'calendarReplies') {
+    calendarReplyHandlers.forEach((handler) => {
+      try {
+        handler(data);
+      } catch (err) {
+        warn('[sync-worker-client] calendarReplies handler failed', err);
+      }
+    });
+    return;
+  }
   if (data.type === 'perf') {
     perfHandlers.forEach((handler) => handler(data));
     return;
@@ -137,6 +170,10 @@ export async function ensureSyncWorkerReady() {
     type: 'pgpKeys',
     ...pgpPayload,
   });
+  worker.postMessage({
+    type: 'smimeKeys',
+    ...getSmimePayload(),
+  });
 
   // Connect to db worker
   await connectToDbWorker();
@@ -244,6 +281,29 @@ export function onSyncTaskComplete(handler) {
   };
 }
 
+/**
+ * Subscribe to mail rule matches found by the worker while syncing INBOX.
+ * Handlers receive { account, folder, matches: [{ message, plan }] }.
+ */
+export function onSyncRuleMatches(handler) {
+  ruleMatchHandlers.add(handler);
+  return () => {
+    ruleMatchHandlers.delete(handler);
+  };
+}
+
+/**
+ * Subscribe to attendee replies to calendar invitations found by the worker
+ * while syncing INBOX. Handlers receive
+ * { account, folder, replies: [{ message, ical }] }.
+ */
+export function onSyncCalendarReplies(handler) {
+  calendarReplyHandlers.add(handler);
+  return () => {
+    calendarReplyHandlers.delete(handler);
+  };
+}
+
 export function refreshSyncWorkerPgpKeys() {
   if (!worker) return;
   const pgpPayload = getPgpPayload();
@@ -253,6 +313,14 @@ export function refreshSyncWorkerPgpKeys() {
   });
 }
 
+export function refreshSyncWorkerSmimeKeys() {
+  if (!worker) return;
+  worker.postMessage({
+    type: 'smimeKeys',
+    ...getSmimePayload(),
+  });
+}
+
 /**
  * Request the worker to decrypt a PGP encrypted message
  * This allows the main thread to delegate PGP decryption to the worker
@@ -261,7 +329,7 @@ export function refreshSyncWorkerPgpKeys() {
  * @param {string} options.raw - The PGP encrypted message (armored)
  * @param {string} options.messageId - Message ID for tracking
  * @param {string} options.account - Account identifier
- * @returns {Promise<Object>} Decryption result with success, body, textContent, attachments
+ * @returns {Promise<Object>} Decryption result with success, body, textContent, attachments, pgpSignature
  */
 export async function requestPgpDecryption({ raw, messageId, account }) {
   return sendSyncTask(
@@ -303,6 +371,62 @@ export async function unlockPgpKey({
   });
 }
 
+/**
+ * Request the worker to sign and/or encrypt an outgoing MIME entity
+ * Signing uses the unlocked private key matching the sender address
+ *
+ * @param {Object} options - Protection options
+ * @param {string} options.entity - Canonical MIME entity to protect
+ * @param {boolean} options.sign - Create a detached signature
+ * @param {boolean} options.encrypt - Encrypt to recipientKeys and the sender's own key
+ * @param {string} options.senderEmail - Sender address used to pick the key
+ * @param {Array<string>} options.recipientKeys - Armored recipient public keys
+ * @returns {Promise<Object>} Result with success, signature + micalg, or encrypted
+ */
+export async function requestPgpProtection({
+  entity,
+  sign = false,
+  encrypt = false,
+  senderEmail,
+  recipientKeys = [],
+}) {
+  return sendSyncTask(
+    {
+      type: 'protectMessage',
+      entity,
+      sign,
+      encrypt,
+      senderEmail,
+      recipientKeys,
+    },
+    { timeout: 30000 },
+  );
+}
+
+/**
+ * Parse public key(s) in the worker
+ *
+ * @param {Object} options - Inspect options
+ * @param {string} [options.armoredKey] - Armored key block (may contain several keys)
+ * @param {Uint8Array} [options.binaryKey] - Binary keys (as served by WKD)
+ * @returns {Promise<Array<Object>>} Fingerprint, user IDs, emails, expiry and revocation per key
+ */
+export async function inspectPgpKey({ armoredKey, binaryKey }) {
+  return sendSyncRequest('inspectPgpKey', { armoredKey, binaryKey });
+}
+
+/**
+ * Read a PKCS#12 (.p12 / .pfx) file in the worker
+ *
+ * @param {Object} options - Import options
+ * @param {string} options.p12 - Base64-encoded PKCS#12 file
+ * @param {string} options.password - PKCS#12 password
+ * @returns {Promise<Object>} S/MIME identity (certificate, chain, private key and metadata)
+ */
+export async function importSmimeCertificate({ p12, password }) {
+  return sendSyncRequest('importSmimeCertificate', { p12, password });
+}
+
 /**
  * Request MIME parsing from worker (Phase 3 optimization)
  * This delegates all MIME parsing to the worker, removing PostalMime from main thread
@@ -310,14 +434,16 @@ export async function unlockPgpKey({
  * @param {Object} options - Parse options
  * @param {string} options.raw - Raw MIME message to parse
  * @param {Array} options.existingAttachments - Existing attachments to merge
- * @returns {Promise<Object>} Parsed result with body, textContent, attachments
+ * @param {string} [options.account] - Account whose keyring is used to verify signatures
+ * @returns {Promise<Object>} Parsed result with body, textContent, attachments, pgpSignature
  */
-export async function requestParsing({ raw, existingAttachments = [] }) {
+export async function requestParsing({ raw, existingAttachments = [], account }) {
   return sendSyncTask(
     {
       type: 'parseRaw',
       raw,
       existingAttachments,
+      account,
     },
     { timeout: 30000 },
   );
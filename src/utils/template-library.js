@@ -0,0 +1,168 @@
+import { writable } from 'svelte/store';
+import { db } from './db';
+import { Local } from './storage';
+import { warn } from './logger.ts';
+import {
+  getEffectiveSettingValue,
+  setSettingValue,
+  settingsActions,
+} from '../stores/settingsStore';
+import {
+  templatesMetaKey,
+  normalizeTemplate,
+  normalizeTemplates,
+  mergeTemplates,
+  sameTemplates,
+  visibleTemplates,
+  exportTemplatesJson,
+  parseTemplatesJson,
+  addImportedTemplates,
+} from './compose-templates.ts';
+
+/**
+ * Template Library
+ *
+ * Reusable messages for the composer, stored per account in the IndexedDB
+ * `meta` table (no schema migration needed). With "Sync templates" on, the
+ * library is also kept in the account settings so other devices see it: the
+ * local and remote lists are merged by id, newest copy winning, and the
+ * merged list is written back to both.
+ *
+ * `templates` holds the current account's templates, by name, for the
+ * composer's picker and Settings.
+ */
+
+export const templates = writable([]);
+
+function getAccount() {
+  return Local.get('email') || 'default';
+}
+
+async function readLocal(account) {
+  try {
+    const record = await db.meta.get(templatesMetaKey(account));
+    return normalizeTemplates(record?.value);
+  } catch {
+    return [];
+  }
+}
+
+async function writeLocal(account, list) {
+  await db.meta.put({ key: templatesMetaKey(account), value: list, updatedAt: Date.now() });
+}
+
+export function isTemplateSyncEnabled(account) {
+  return Boolean(getEffectiveSettingValue('templates_sync', { account: account || getAccount() }));
+}
+
+async function pushRemote(list) {
+  const ok = await settingsActions.setComposeTemplates(list);
+  if (!ok) warn('[templates] Failed to sync templates to the account');
+}
+
+/**
+ * Store the full list (tombstones included) and publish it.
+ */
+async function persist(account, list) {
+  await writeLocal(account, list);
+  if (account === getAccount()) templates.set(visibleTemplates(list));
+  if (isTemplateSyncEnabled(account)) await pushRemote(list);
+}
+
+/**
+ * Load the current account's templates, merging in the synced copy when
+ * sync is on.
+ *
+ * @returns {Promise<Array<Object>>} Templates to offer, by name
+ */
+export async function loadTemplates() {
+  const account = getAccount();
+  let list = await readLocal(account);
+
+  if (isTemplateSyncEnabled(account)) {
+    const remote = normalizeTemplates(getEffectiveSettingValue('compose_templates', { account }));
+    const merged = mergeTemplates(list, remote);
+    if (!sameTemplates(merged, list)) await writeLocal(account, merged);
+    if (!sameTemplates(merged, remote)) await pushRemote(merged);
+    list = merged;
+  }
+
+  const visible = visibleTemplates(list);
+  if (account === getAccount()) templates.set(visible);
+  return visible;
+}
+
+/**
+ * Create or update a template.
+ *
+ * @param {Object} input - { id?, name, subject, body, isPlainText }
+ * @returns {Promise<Object>} The saved template
+ * @throws {Error} When the template has no name
+ */
+export async function saveTemplate(input) {
+  const account = getAccount();
+  const list = await readLocal(account);
+  const now = Date.now();
+  const existing = input?.id ? list.find((template) => template.id === input.id) : null;
+  const template = normalizeTemplate({
+    ...input,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+    deleted: false,
+  });
+  if (!template) {
+    throw new Error('Give the template a name.');
+  }
+  const next = existing
+    ? list.map((item) => (item.id === template.id ? template : item))
+    : [...list, template];
+  await persist(account, next);
+  return template;
+}
+
+/**
+ * Delete a template. A tombstone is kept so the deletion also syncs.
+ */
+export async function deleteTemplate(id) {
+  const account = getAccount();
+  const list = await readLocal(account);
+  const now = Date.now();
+  await persist(
+    account,
+    list.map((template) =>
+      template.id === id ? { ...template, deleted: true, updatedAt: now } : template,
+    ),
+  );
+}
+
+/**
+ * Turn syncing through the account settings on or off. Turning it on merges
+ * this device's templates with the synced ones.
+ */
+export async function setTemplateSync(enabled) {
+  const account = getAccount();
+  await setSettingValue('templates_sync', Boolean(enabled), { account });
+  if (enabled) await loadTemplates();
+}
+
+/**
+ * Add templates from an export file.
+ *
+ * @param {string} text - File contents
+ * @returns {Promise<number>} Number of templates added
+ * @throws {Error} When the file is not a templates export
+ */
+export async function importTemplates(text) {
+  const imported = parseTemplatesJson(text);
+  const account = getAccount();
+  const { templates: next, added } = addImportedTemplates(await readLocal(account), imported);
+  if (added) await persist(account, next);
+  return added;
+}
+
+/**
+ * The current account's templates as an export file.
+ */
+export async function exportTemplates() {
+  return exportTemplatesJson(await readLocal(getAccount()));
+}
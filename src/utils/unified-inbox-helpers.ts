@@ -0,0 +1,95 @@
+import type { Message } from '../types';
+import { sortMessages, type SortOrder } from './message-sort';
+
+/**
+ * Pure helpers for the unified inbox: the virtual folder that merges one
+ * folder (INBOX or a special-use folder) from every signed-in account.
+ *
+ * Shared by unified-inbox.js, which reads each account's IndexedDB cache, and
+ * the mailbox sidebar. Nothing here touches IndexedDB or the network.
+ */
+
+export const UNIFIED_FOLDER = '__unified__';
+
+export const UNIFIED_SOURCES: { value: string; label: string }[] = [
+  { value: 'INBOX', label: 'Inboxes' },
+  { value: '\\Sent', label: 'Sent' },
+  { value: '\\Drafts', label: 'Drafts' },
+  { value: '\\Archive', label: 'Archives' },
+  { value: '\\Junk', label: 'Spam' },
+  { value: '\\Trash', label: 'Trash' },
+];
+
+// Folder names to fall back on when a server does not report special-use flags
+const SOURCE_NAMES: Record<string, string[]> = {
+  '\\Sent': ['SENT', 'SENT MAIL', 'SENT ITEMS', 'SENT MESSAGES'],
+  '\\Drafts': ['DRAFTS', 'DRAFT'],
+  '\\Archive': ['ARCHIVE', 'ARCHIVES', 'ALL MAIL'],
+  '\\Junk': ['JUNK', 'SPAM', 'JUNK E-MAIL'],
+  '\\Trash': ['TRASH', 'DELETED', 'DELETED ITEMS', 'BIN'],
+};
+
+type FolderLike = {
+  path?: string;
+  name?: string;
+  specialUse?: string;
+  special_use?: string;
+  flags?: string[];
+};
+
+export const isUnifiedFolder = (folder: string | null | undefined): boolean =>
+  folder === UNIFIED_FOLDER;
+
+export const unifiedSourceLabel = (source: string): string =>
+  UNIFIED_SOURCES.find((item) => item.value === source)?.label || 'Inboxes';
+
+/**
+ * The path of an account's folder for a unified source.
+ *
+ * @param folders - The account's cached folder records
+ * @param source - 'INBOX' or a special-use flag such as '\\Sent'
+ * @returns The folder path, or null when the account has no such folder
+ */
+export function resolveSourceFolder(
+  folders: FolderLike[] = [],
+  source: string = 'INBOX',
+): string | null {
+  if (source === 'INBOX') return 'INBOX';
+  const pathOf = (folder: FolderLike) => folder.path || folder.name || '';
+  const flagged = folders.find(
+    (folder) =>
+      (folder.specialUse || folder.special_use) === source ||
+      (Array.isArray(folder.flags) && folder.flags.includes(source)),
+  );
+  if (flagged && pathOf(flagged)) return pathOf(flagged);
+  const names = SOURCE_NAMES[source] || [];
+  const named = folders.find((folder) => names.includes(pathOf(folder).toUpperCase()));
+  return named ? pathOf(named) : null;
+}
+
+/**
+ * Merge each account's page of messages into one sorted page.
+ *
+ * Every account's list must start at offset 0 and hold at least
+ * `offset + limit` messages (or all it has), so the merged slice is exact.
+ */
+export function mergeUnifiedPages<T extends Partial<Message> & Record<string, unknown>>(
+  pages: T[][] = [],
+  {
+    sort = 'newest',
+    offset = 0,
+    limit = 50,
+  }: { sort?: SortOrder; offset?: number; limit?: number } = {},
+): T[] {
+  const seen = new Set<string>();
+  const all: T[] = [];
+  for (const page of pages) {
+    for (const message of page || []) {
+      const key = `${message?.account}:${message?.id}`;
+      if (!message?.id || seen.has(key)) continue;
+      seen.add(key);
+      all.push(message);
+    }
+  }
+  return sortMessages(all, sort).slice(offset, offset + limit);
+}
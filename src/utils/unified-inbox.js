@@ -0,0 +1,192 @@
+import Dexie from 'dexie';
+import { db } from './db';
+import { Accounts, Local } from './storage';
+import { Remote } from './remote';
+import { normalizeMessageForCache, mergeFlagsAndMetadata } from './sync-helpers';
+import { sortMessages } from './message-sort.ts';
+import { warn } from './logger.ts';
+import {
+  UNIFIED_FOLDER,
+  UNIFIED_SOURCES,
+  isUnifiedFolder,
+  resolveSourceFolder,
+  mergeUnifiedPages,
+} from './unified-inbox-helpers.ts';
+
+export { UNIFIED_FOLDER, UNIFIED_SOURCES, isUnifiedFolder };
+
+/**
+ * Unified Inbox
+ *
+ * "All Inboxes" is a virtual folder: nothing is stored under it. Each page is
+ * merged from every signed-in account's IndexedDB cache (the same
+ * `[account+folder+date]` ranges a normal folder reads), then refreshed from
+ * the API with each account's own credentials (Remote `account` option).
+ *
+ * Rows keep their real `account` and `folder`, so actions on them (reply,
+ * archive, delete, flags) go to the owning account's credentials and
+ * mutation queue.
+ *
+ * The merged folder defaults to INBOX; a special-use folder (Sent, Archive,
+ * ...) can be chosen instead and is stored in localStorage.
+ */
+
+const SOURCE_KEY = 'unified_inbox_source';
+
+/**
+ * The folder merged into the unified view: 'INBOX' or a special-use flag.
+ */
+export function getUnifiedSource() {
+  const source = Local.get(SOURCE_KEY);
+  return UNIFIED_SOURCES.some((item) => item.value === source) ? source : 'INBOX';
+}
+
+export function setUnifiedSource(source) {
+  Local.set(SOURCE_KEY, UNIFIED_SOURCES.some((item) => item.value === source) ? source : 'INBOX');
+}
+
+/**
+ * Emails of the signed-in accounts, the active one first.
+ *
+ * @returns {Array<string>}
+ */
+export function listUnifiedAccounts() {
+  const active = Local.get('email') || 'default';
+  const others = Accounts.getAll()
+    .map((account) => account.email)
+    .filter((email) => email && email !== active);
+  return [active, ...new Set(others)];
+}
+
+/**
+ * Each account's folder for the chosen source. Accounts whose folders are
+ * not cached yet, or that have no such folder, are left out.
+ *
+ * @param {string} [source]
+ * @returns {Promise<Array<{ account: string, folder: string }>>}
+ */
+export async function resolveUnifiedTargets(source = getUnifiedSource()) {
+  const targets = await Promise.all(
+    listUnifiedAccounts().map(async (account) => {
+      if (source === 'INBOX') return { account, folder: 'INBOX' };
+      const folders = await db.folders
+        .where('account')
+        .equals(account)
+        .toArray()
+        .catch(() => []);
+      const folder = resolveSourceFolder(folders, source);
+      return folder ? { account, folder } : null;
+    }),
+  );
+  return targets.filter(Boolean);
+}
+
+async function readCachedRange({ account, folder }, sort, count) {
+  if (sort === 'newest' || sort === 'oldest') {
+    const range = db.messages
+      .where('[account+folder+date]')
+      .between([account, folder, Dexie.minKey], [account, folder, Dexie.maxKey], true, true);
+    return (sort === 'newest' ? range.reverse() : range).limit(count).toArray();
+  }
+  const cached = await db.messages.where('[account+folder]').equals([account, folder]).toArray();
+  return sortMessages(cached, sort).slice(0, count);
+}
+
+/**
+ * Read a page of the unified view from the cache.
+ *
+ * @param {Object} options
+ * @param {string} [options.sort] - 'newest', 'oldest', 'subject' or 'sender'
+ * @param {number} [options.page] - 1-based page
+ * @param {number} [options.limit] - Page size
+ * @returns {Promise<{ messages: Array<Object>, hasNextPage: boolean }>}
+ */
+export async function readUnifiedPage({ sort = 'newest', page = 1, limit = 50 } = {}) {
+  const offset = (page - 1) * limit;
+  const targets = await resolveUnifiedTargets();
+  const [pages, totals] = await Promise.all([
+    Promise.all(targets.map((target) => readCachedRange(target, sort, offset + limit))),
+    Promise.all(
+      targets.map(({ account, folder }) =>
+        db.messages.where('[account+folder]').equals([account, folder]).count(),
+      ),
+    ),
+  ]);
+  const total = totals.reduce((sum, count) => sum + count, 0);
+  return {
+    messages: mergeUnifiedPages(pages, { sort, offset, limit }),
+    hasNextPage: total > offset + limit,
+  };
+}
+
+/**
+ * Fetch each account's first `page * limit` messages from the API and store
+ * them in its cache. Accounts that fail (offline, expired credentials) keep
+ * their cached messages.
+ *
+ * @returns {Promise<number>} Number of accounts refreshed
+ */
+export async function refreshUnifiedPage({ page = 1, limit = 50 } = {}) {
+  const targets = await resolveUnifiedTargets();
+  const results = await Promise.all(
+    targets.map(async ({ account, folder }) => {
+      try {
+        const res = await Remote.request(
+          'MessageList',
+          { folder, page: 1, limit: page * limit, raw: false, attachments: false },
+          { method: 'GET', pathOverride: '/v1/messages', account },
+        );
+        const list = res?.Result?.List || res?.Result || res || [];
+        if (!Array.isArray(list)) return false;
+        const records = list
+          .map((raw) => normalizeMessageForCache(raw, folder, account))
+          .filter((msg) => msg?.id);
+        if (!records.length) return true;
+        // Keep what only the cache knows (labels, wokenAt, list headers), as
+        // the sync worker's writeMessages does
+        const existing = await db.messages.bulkGet(records.map((msg) => [account, msg.id]));
+        const toStore = [];
+        records.forEach((msg, idx) => {
+          if (!existing?.[idx]) {
+            toStore.push(msg);
+            return;
+          }
+          const { record, changed } = mergeFlagsAndMetadata(existing[idx], msg);
+          if (changed) toStore.push(record);
+        });
+        if (toStore.length) await db.messages.bulkPut(toStore);
+        return true;
+      } catch (err) {
+        warn('[unified-inbox] Refresh failed', { account, folder }, err);
+        return false;
+      }
+    }),
+  );
+  return results.filter(Boolean).length;
+}
+
+/**
+ * Unread messages in the chosen source folder across all accounts.
+ *
+ * @param {string} [source]
+ * @param {Object} [options]
+ * @param {boolean} [options.skipActive] - Leave out the active account, whose
+ *   server count the caller already has
+ * @returns {Promise<number>}
+ */
+export async function countUnifiedUnread(source = getUnifiedSource(), { skipActive = false } = {}) {
+  const active = Local.get('email') || 'default';
+  const targets = (await resolveUnifiedTargets(source)).filter(
+    ({ account }) => !skipActive || account !== active,
+  );
+  const counts = await Promise.all(
+    targets.map(({ account, folder }) =>
+      db.messages
+        .where('[account+folder+is_unread_index]')
+        .equals([account, folder, 1])
+        .count()
+        .catch(() => 0),
+    ),
+  );
+  return counts.reduce((sum, count) => sum + count, 0);
+}
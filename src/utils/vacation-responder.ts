@@ -0,0 +1,134 @@
+import type { VacationResponder } from '../types';
+
+/**
+ * Out-of-office auto-responder model.
+ *
+ * The API stores the responder on the account as snake_case fields
+ * (`is_enabled`, `start_date`, ...); the app works with the camelCase
+ * VacationResponder shape. Dates are calendar days in local time.
+ */
+
+export const DEFAULT_REPLY_INTERVAL_DAYS = 4;
+export const MAX_REPLY_INTERVAL_DAYS = 365;
+
+export const DEFAULT_VACATION_RESPONDER: VacationResponder = Object.freeze({
+  enabled: false,
+  startDate: null,
+  endDate: null,
+  subject: '',
+  message: '',
+  onlyContacts: false,
+  replyIntervalDays: DEFAULT_REPLY_INTERVAL_DAYS,
+});
+
+interface VacationResponderPayload {
+  is_enabled: boolean;
+  start_date: string | null;
+  end_date: string | null;
+  subject: string;
+  message: string;
+  only_contacts: boolean;
+  reply_interval_days: number;
+}
+
+export interface VacationValidationResult {
+  ok: boolean;
+  value?: VacationResponder;
+  error?: string;
+}
+
+const DAY_PATTERN = /^(\d{4}-\d{2}-\d{2})/;
+
+const toDay = (value: unknown): string | null => {
+  const match = typeof value === 'string' ? value.match(DAY_PATTERN) : null;
+  return match ? match[1] : null;
+};
+
+const pick = (raw: Record<string, unknown>, ...keys: string[]): unknown => {
+  for (const key of keys) {
+    if (raw[key] !== undefined) return raw[key];
+  }
+  return undefined;
+};
+
+/**
+ * Local calendar day for a date, as YYYY-MM-DD.
+ */
+export function localDay(date: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Accept either the API payload or an app-shaped object and return a
+ * complete VacationResponder with defaults filled in.
+ */
+export function normalizeVacationResponder(value: unknown): VacationResponder {
+  if (!value || typeof value !== 'object') return { ...DEFAULT_VACATION_RESPONDER };
+  const raw = value as Record<string, unknown>;
+  const interval = Number.parseInt(
+    String(pick(raw, 'replyIntervalDays', 'reply_interval_days') ?? ''),
+    10,
+  );
+  return {
+    enabled: Boolean(pick(raw, 'enabled', 'is_enabled')),
+    startDate: toDay(pick(raw, 'startDate', 'start_date')),
+    endDate: toDay(pick(raw, 'endDate', 'end_date')),
+    subject: String(pick(raw, 'subject') ?? ''),
+    message: String(pick(raw, 'message') ?? ''),
+    onlyContacts: Boolean(pick(raw, 'onlyContacts', 'only_contacts')),
+    replyIntervalDays: Number.isFinite(interval)
+      ? Math.min(Math.max(interval, 1), MAX_REPLY_INTERVAL_DAYS)
+      : DEFAULT_REPLY_INTERVAL_DAYS,
+  };
+}
+
+/**
+ * Convert to the payload shape sent to PUT /v1/account.
+ */
+export function serializeVacationResponder(value: unknown): VacationResponderPayload {
+  const responder = normalizeVacationResponder(value);
+  return {
+    is_enabled: responder.enabled,
+    start_date: responder.startDate,
+    end_date: responder.endDate,
+    subject: responder.subject,
+    message: responder.message,
+    only_contacts: responder.onlyContacts,
+    reply_interval_days: responder.replyIntervalDays,
+  };
+}
+
+/**
+ * Check a responder before saving. Disabled responders are always valid so
+ * an incomplete draft can still be switched off.
+ */
+export function validateVacationResponder(value: unknown): VacationValidationResult {
+  const responder = normalizeVacationResponder(value);
+  responder.subject = responder.subject.trim();
+  if (!responder.enabled) return { ok: true, value: responder };
+  if (!responder.subject) {
+    return { ok: false, error: 'Subject is required.' };
+  }
+  const text = responder.message.replace(/<[^>]*>/g, '').trim();
+  if (!text) {
+    return { ok: false, error: 'Message is required.' };
+  }
+  if (responder.startDate && responder.endDate && responder.endDate < responder.startDate) {
+    return { ok: false, error: 'End date must be on or after the start date.' };
+  }
+  return { ok: true, value: responder };
+}
+
+/**
+ * Whether replies are being sent on the given day: enabled and inside the
+ * (inclusive) date range.
+ */
+export function isVacationResponderActive(value: unknown, now: Date = new Date()): boolean {
+  const responder = normalizeVacationResponder(value);
+  if (!responder.enabled) return false;
+  const today = localDay(now);
+  if (responder.startDate && today < responder.startDate) return false;
+  if (responder.endDate && today > responder.endDate) return false;
+  return true;
+}
@@ -0,0 +1,178 @@
+/**
+ * vCard reading and writing for contacts.
+ *
+ * Only the fields the Contacts view edits are read and written; other
+ * properties in an imported or server card are ignored. Contacts are written
+ * as vCard 3.0 and groups as vCard 4.0 (`KIND:group` with `MEMBER` entries).
+ * Apple's `X-ADDRESSBOOKSERVER-KIND`/`-MEMBER` groups are read too.
+ */
+
+export interface VCardFields {
+  name: string;
+  email: string;
+  phone: string;
+  notes: string;
+  company: string;
+  jobTitle: string;
+  timezone: string;
+  website: string;
+  birthday: string;
+  photo: string;
+}
+
+export interface ParsedVCard {
+  name?: string;
+  emails: string[];
+  phones: string[];
+  notes?: string;
+  company?: string;
+  jobTitle?: string;
+  website?: string;
+  birthday?: string;
+  timezone?: string;
+  photo?: string;
+  address?: string;
+  kind?: string;
+  members: string[];
+}
+
+export interface VCardGroupFields {
+  kind?: string;
+  members?: string[];
+}
+
+// Emails are written as mailto: URIs; other members (urn:uuid:) as they are
+const memberUri = (member: string): string =>
+  /^[a-z][a-z0-9+.-]*:/i.test(member) ? member : `mailto:${member}`;
+
+const memberValue = (uri: string): string => uri.replace(/^mailto:/i, '').trim();
+
+export const emptyVCardFields = (): VCardFields => ({
+  name: '',
+  email: '',
+  phone: '',
+  notes: '',
+  company: '',
+  jobTitle: '',
+  timezone: '',
+  website: '',
+  birthday: '',
+  photo: '',
+});
+
+export const generateVCard = (contact: Partial<VCardFields> & VCardGroupFields): string => {
+  if (contact.kind === 'group') {
+    const lines = ['BEGIN:VCARD', 'VERSION:4.0', 'KIND:group'];
+    lines.push(`FN:${contact.name || ''}`);
+    for (const member of contact.members || []) {
+      if (member) lines.push(`MEMBER:${memberUri(member)}`);
+    }
+    if (contact.notes) lines.push(`NOTE:${contact.notes.replace(/\n/g, '\\n')}`);
+    lines.push('END:VCARD');
+    return lines.join('\r\n');
+  }
+  const lines = ['BEGIN:VCARD', 'VERSION:3.0'];
+  if (contact.name) lines.push(`FN:${contact.name}`);
+  if (contact.email) lines.push(`EMAIL;TYPE=INTERNET:${contact.email}`);
+  if (contact.phone) lines.push(`TEL:${contact.phone}`);
+  if (contact.company) lines.push(`ORG:${contact.company}`);
+  if (contact.jobTitle) lines.push(`TITLE:${contact.jobTitle}`);
+  if (contact.website) lines.push(`URL:${contact.website}`);
+  if (contact.birthday) lines.push(`BDAY:${contact.birthday.replace(/-/g, '')}`);
+  if (contact.timezone) lines.push(`TZ:${contact.timezone}`);
+  if (contact.notes) lines.push(`NOTE:${contact.notes.replace(/\n/g, '\\n')}`);
+  if (contact.photo) {
+    const photoData = contact.photo.replace(/^data:image\/[^;]+;base64,/, '');
+    lines.push(`PHOTO;ENCODING=b;TYPE=PNG:${photoData}`);
+  }
+  lines.push('END:VCARD');
+  return lines.join('\r\n');
+};
+
+export const parseVCard = (content: string | null | undefined): ParsedVCard => {
+  if (!content) return { emails: [], phones: [], members: [] };
+  const parsed: ParsedVCard = { emails: [], phones: [], members: [] };
+  const rawLines = content.split(/\r?\n/);
+  const lines: string[] = [];
+  for (const line of rawLines) {
+    if (!line) continue;
+    if (/^[ \t]/.test(line) && lines.length) {
+      lines[lines.length - 1] += line.trimStart();
+    } else {
+      lines.push(line);
+    }
+  }
+  const unescapeText = (value: string): string =>
+    value.replace(/\\n/gi, '\n').replace(/\\,/g, ',').replace(/\\;/g, ';').replace(/\\\\/g, '\\');
+
+  for (const line of lines) {
+    const colonIndex = line.indexOf(':');
+    if (colonIndex === -1) continue;
+    const keyPart = line.slice(0, colonIndex);
+    const value = unescapeText(line.slice(colonIndex + 1));
+    const key = keyPart.split(';')[0].toUpperCase();
+
+    if (key === 'FN' && !parsed.name) {
+      parsed.name = value;
+    } else if (key === 'N' && !parsed.name) {
+      const [last, first, additional, prefix, suffix] = value.split(';');
+      const parts = [prefix, first, additional, last, suffix].filter(Boolean);
+      if (parts.length) parsed.name = parts.join(' ').replace(/\s+/g, ' ').trim();
+    } else if (key === 'EMAIL') {
+      if (value) parsed.emails.push(value);
+    } else if (key === 'TEL') {
+      if (value) parsed.phones.push(value);
+    } else if (key === 'NOTE') {
+      parsed.notes = value;
+    } else if (key === 'ORG') {
+      parsed.company = value;
+    } else if (key === 'TITLE') {
+      parsed.jobTitle = value;
+    } else if (key === 'URL') {
+      parsed.website = value;
+    } else if (key === 'BDAY') {
+      if (value.length === 8) {
+        parsed.birthday = `${value.substring(0, 4)}-${value.substring(4, 6)}-${value.substring(6, 8)}`;
+      } else {
+        parsed.birthday = value;
+      }
+    } else if (key === 'TZ') {
+      parsed.timezone = value;
+    } else if (key === 'PHOTO') {
+      const typeMatch = keyPart.match(/TYPE=([^;:]+)/i);
+      const photoType = typeMatch ? typeMatch[1].toLowerCase() : 'png';
+      if (value) {
+        parsed.photo = value.startsWith('data:')
+          ? value
+          : `data:image/${photoType};base64,${value}`;
+      }
+    } else if (key === 'ADR') {
+      parsed.address = value;
+    } else if (key === 'KIND' || key === 'X-ADDRESSBOOKSERVER-KIND') {
+      parsed.kind = value.toLowerCase();
+    } else if (key === 'MEMBER' || key === 'X-ADDRESSBOOKSERVER-MEMBER') {
+      const member = memberValue(value);
+      if (member) parsed.members.push(member);
+    }
+  }
+  return parsed;
+};
+
+/**
+ * The editable fields of a vCard, with the first email and phone.
+ */
+export const vCardFields = (content: string | null | undefined): VCardFields => {
+  const parsed = parseVCard(content);
+  return {
+    name: parsed.name || '',
+    email: parsed.emails[0] || '',
+    phone: parsed.phones[0] || '',
+    notes: parsed.notes || '',
+    company: parsed.company || '',
+    jobTitle: parsed.jobTitle || '',
+    timezone: parsed.timezone || '',
+    website: parsed.website || '',
+    birthday: parsed.birthday || '',
+    photo: parsed.photo || '',
+  };
+};
@@ -0,0 +1,27 @@
+const localLocks = new Map();
+
+/**
+ * Run `fn` while holding the lock `name`, so read-modify-write sequences on
+ * a shared IndexedDB record don't overwrite each other. Uses the Web Locks
+ * API, which serializes across tabs, workers and the service worker; where
+ * it is missing, calls are only serialized within this context.
+ *
+ * sync-core.js imports this module, so it must not import anything itself
+ * (see scripts/build-sw-sync.js).
+ *
+ * @param {string} name - Lock name
+ * @param {() => Promise<any>} fn
+ * @returns {Promise<any>} What `fn` returns
+ */
+export function withLock(name, fn) {
+  if (globalThis.navigator?.locks?.request) {
+    return globalThis.navigator.locks.request(name, fn);
+  }
+  const previous = localLocks.get(name) || Promise.resolve();
+  const run = previous.then(fn, fn);
+  localLocks.set(
+    name,
+    run.catch(() => {}),
+  );
+  return run;
+}
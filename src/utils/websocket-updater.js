@@ -26,6 +26,8 @@ import { Local } from './storage';
 import { startInitialSync } from './sync-controller';
 import { createWebSocketClient, createReleaseWatcher, WS_EVENTS } from './websocket-client';
 import { connectNotifications, requestNotificationPermission } from './notification-manager';
+import { applyContactEvent } from './contact-cache';
+import { applyCalendarEventChange } from './calendar-cache';
 
 // ── Constants ──────────────────────────────────────────────────────────────
 const FALLBACK_POLL_INTERVAL_MS = 300_000; // 5 min fallback — WebSocket handles real-time
@@ -145,6 +147,7 @@ function createWebSocketUpdater() {
         wsClient = createWebSocketClient({ email, password });
 
         // Wire up IMAP events to store refreshes
+        // (the metadata sync of a new INBOX message also runs mail rules on it)
         wsClient.on(WS_EVENTS.NEW_MESSAGE, (data) => {
           const mailbox = safeString(data?.mailbox, 'INBOX');
           refreshFolder(mailbox);
@@ -204,9 +207,10 @@ function createWebSocketUpdater() {
           WS_EVENTS.CALENDAR_EVENT_UPDATED,
           WS_EVENTS.CALENDAR_EVENT_DELETED,
         ]) {
+          // Applied to the calendarEvents table, which then fires fe:calendar-event-changed
           wsClient.on(evt, (data) => {
             if (data && typeof data === 'object') {
-              dispatchFrozen('fe:calendar-event-changed', data);
+              applyCalendarEventChange(evt, data).catch(() => {});
             }
           });
         }
@@ -229,9 +233,10 @@ function createWebSocketUpdater() {
           WS_EVENTS.CONTACT_UPDATED,
           WS_EVENTS.CONTACT_DELETED,
         ]) {
+          // Applied to the contacts table, which then fires fe:contact-changed
           wsClient.on(evt, (data) => {
             if (data && typeof data === 'object') {
-              dispatchFrozen('fe:contact-changed', data);
+              applyContactEvent(evt, data).catch(() => {});
             }
           });
         }
@@ -7,7 +7,7 @@
  */
 
 import Dexie, { type Table } from 'dexie';
-import { DB_NAME, SCHEMA_VERSION } from '../utils/db-constants.ts';
+import { DB_NAME } from '../utils/db-constants.ts';
 
 // Type definitions for database tables
 interface Account {
@@ -125,6 +125,31 @@ interface OutboxItem {
   updatedAt?: number;
 }
 
+interface ContactRecord {
+  account: string;
+  id: string;
+  email?: string;
+  content?: string;
+  etag?: string;
+  pending?: string | null;
+  updatedAt?: number;
+}
+
+interface CalendarRecord {
+  account: string;
+  id: string;
+  updatedAt?: number;
+}
+
+interface CalendarEventRecord {
+  account: string;
+  id: string;
+  calendarId?: string;
+  ical?: string;
+  pending?: string | null;
+  updatedAt?: number;
+}
+
 // Database class with typed tables
 class WebmailDatabase extends Dexie {
   accounts!: Table<Account>;
@@ -140,10 +165,16 @@ class WebmailDatabase extends Dexie {
   settings!: Table<Settings>;
   settingsLabels!: Table<SettingsLabels>;
   outbox!: Table<OutboxItem>;
+  contacts!: Table<ContactRecord>;
+  calendars!: Table<CalendarRecord>;
+  calendarEvents!: Table<CalendarEventRecord>;
 
   constructor(name: string) {
     super(name);
-    this.version(SCHEMA_VERSION).stores({
+    // Each version upgrades the same database in place (keeping cached mail,
+    // the outbox and `meta`) and lists only the tables it adds or changes.
+    // The latest must equal SCHEMA_VERSION in db-constants.ts.
+    this.version(1).stores({
       accounts: 'id,email,createdAt,updatedAt',
       folders: '[account+path],account,path,parentPath,unread_count,specialUse,updatedAt',
       messages:
@@ -161,6 +192,21 @@ class WebmailDatabase extends Dexie {
       settingsLabels: 'account,labels,updatedAt',
       outbox: '[account+id],id,account,status,retryCount,nextRetryAt,sendAt,createdAt,updatedAt',
     });
+    this.version(2).stores({
+      contacts: '[account+id],id,account,email,pending,updatedAt',
+    });
+    this.version(3).stores({
+      calendars: '[account+id],id,account,updatedAt',
+      calendarEvents: '[account+id],id,account,calendarId,[account+calendarId],pending,updatedAt',
+    });
+    this.version(4).stores({
+      messages:
+        '[account+id],id,folder,account,[account+folder],[account+folder+date],[account+folder+is_unread_index],from,subject,snippet,date,flags,is_unread,is_unread_index,has_attachment,modseq,updatedAt,bodyIndexed,labels,[account+folder+wokenAt]',
+    });
+    this.version(5).stores({
+      outbox:
+        '[account+id],id,account,status,retryCount,nextRetryAt,sendAt,createdAt,updatedAt,[account+id+status]',
+    });
   }
 }
 
@@ -532,6 +578,9 @@ async function clearCache(): Promise<{ success: boolean }> {
     db!.outbox.clear(),
     db!.settings?.clear?.(),
     db!.settingsLabels?.clear?.(),
+    db!.contacts?.clear?.(),
+    db!.calendars?.clear?.(),
+    db!.calendarEvents?.clear?.(),
     // meta table intentionally kept
   ]);
 
@@ -6,6 +6,7 @@
  */
 
 import PostalMime from 'postal-mime';
+import type { Email } from 'postal-mime';
 import * as openpgp from 'openpgp';
 import { normalizeMessageForCache, mergeFlagsAndMetadata } from '../utils/sync-helpers.ts';
 import { normalizeSubject } from '../utils/threading.ts';
@@ -14,6 +15,20 @@ import {
   applyInlineAttachments,
   extractTextContent,
 } from '../utils/mime-utils.js';
+import {
+  keyringMetaKey,
+  mergeDiscoveredKey,
+  parseAutocryptHeader,
+  isPublicKeyAttachment,
+  isAuthenticatedSender,
+  withKeyringLock,
+} from '../utils/pgp-keyring-helpers.js';
+import { splitSignedMessage, extractClearsignedBlock } from '../utils/pgp-mime.js';
+import { parsePkcs12, unwrapSmimeMessage } from '../utils/smime.js';
+import { rulesMetaKey, evaluateRules } from '../utils/mail-rules-helpers.js';
+import { snoozeMetaKey, splitDueSnoozes, wakeMessage } from '../utils/snooze-helpers.js';
+import { findCalendarAttachment, parseInvitation, readAttachmentText } from '../utils/itip';
+import type { PgpSignatureStatus, SmimeStatus, SnoozeRecord } from '../types/message';
 
 // ============================================================================
 // Database Client via MessageChannel
@@ -23,7 +38,7 @@ let dbPort = null;
 let dbRequestId = 0;
 const dbPendingRequests = new Map();
 
-function dbSend(action, table = null, payload = {}) {
+function dbSend(action: string, table: string | null = null, payload: object = {}) {
   return new Promise((resolve, reject) => {
     if (!dbPort) {
       reject(new Error('Database worker not connected'));
@@ -83,6 +98,11 @@ const db = {
       }),
     }),
   },
+  meta: {
+    get: (key: string) => dbSend('get', 'meta', { key }),
+    put: (record: { key: string; value: unknown; updatedAt: number }) =>
+      dbSend('put', 'meta', { record }),
+  },
   drafts: {
     put: (record) => dbSend('put', 'drafts', { record }),
     where: (index) => ({
@@ -99,8 +119,10 @@ const db = {
 
 let apiBase = '';
 let authHeader = '';
-let unlockedPgpKeys = [];
+let unlockedPgpKeys: openpgp.PrivateKey[] = [];
+let ownPgpPublicKeys: openpgp.Key[] = [];
 let pgpPassphrases = {};
+let smimeIdentities: object[] = [];
 let searchPort = null;
 
 const DEFAULT_LIMIT = 100;
@@ -285,7 +307,7 @@ function fetchWithTimeout(url, options = {}, timeoutMs = FETCH_TIMEOUT_MS) {
 async function writeMessages(account, folder, normalized) {
   if (!dbPort) {
     console.warn('[sync.worker] No db connection for writeMessages');
-    return { inserted: 0, updated: 0 };
+    return { inserted: 0, updated: 0, added: [] };
   }
 
   const keys = normalized.map((m) => [account, m.id]);
@@ -293,6 +315,7 @@ async function writeMessages(account, folder, normalized) {
 
   const toUpsert = [];
   const changedForIndex = [];
+  const added = [];
   let inserted = 0;
   let updated = 0;
 
@@ -301,6 +324,7 @@ async function writeMessages(account, folder, normalized) {
     if (!existing) {
       toUpsert.push(msg);
       changedForIndex.push(msg);
+      added.push(msg);
       inserted += 1;
       return;
     }
@@ -325,7 +349,115 @@ async function writeMessages(account, folder, normalized) {
     });
   }
 
-  return { inserted, updated };
+  return { inserted, updated, added };
+}
+
+// ============================================================================
+// Mail Rules
+// ============================================================================
+
+/**
+ * Evaluate the account's mail rules against newly synced messages. Matches
+ * are posted to the main thread, which applies them through the mutation
+ * queue (mail-rules.js).
+ */
+async function runMailRules(account, folder, messages) {
+  try {
+    const stored = (await db.meta.get(rulesMetaKey(account))) as { value?: unknown };
+    const rules = Array.isArray(stored?.value) ? stored.value : [];
+    if (!rules.length) return;
+
+    const matches = messages
+      .map((message) => ({ message, plan: evaluateRules(rules, message) }))
+      .filter((match) => match.plan);
+    if (matches.length) {
+      self.postMessage({ type: 'rulesMatched', account, folder, matches });
+    }
+  } catch (err) {
+    console.warn('[sync.worker] Mail rules failed', err);
+  }
+}
+
+// ============================================================================
+// Calendar Replies
+// ============================================================================
+
+/**
+ * Find attendee replies (METHOD:REPLY) to the user's events among newly
+ * synced messages, by their `text/calendar` part. Only messages with
+ * attachments (where mail servers list that part) have their body fetched;
+ * the replies are posted to the main thread, which updates the events
+ * (calendar-invitations.js).
+ */
+async function runCalendarReplies(
+  account: string,
+  folder: string,
+  messages: { id?: string; has_attachment?: boolean; dateMs?: number }[],
+) {
+  // Oldest first, so an attendee's latest answer is the one that sticks
+  const candidates = messages
+    .filter((message) => message?.has_attachment)
+    .sort((a, b) => (a.dateMs || 0) - (b.dateMs || 0));
+  if (!candidates.length) return;
+  const replies = [];
+  for (const message of candidates) {
+    try {
+      const payload = await fetchAndCacheBody(account, folder, message, { returnPayload: true });
+      const ical = readAttachmentText(findCalendarAttachment(payload?.attachments || []));
+      if (parseInvitation(ical)?.method === 'REPLY') replies.push({ message, ical });
+    } catch (err) {
+      console.warn('[sync.worker] Failed to read calendar reply', message?.id, err);
+    }
+  }
+  if (replies.length) {
+    self.postMessage({ type: 'calendarReplies', account, folder, replies });
+  }
+}
+
+// ============================================================================
+// Snoozed Messages
+// ============================================================================
+
+/**
+ * Wake snoozed messages whose time has come: put them back in their folder in
+ * the cache, unread and woken now so they sort to the top. The main thread
+ * sends the matching server changes through the mutation queue and then
+ * removes the snooze records (snooze.js).
+ */
+async function runSnoozeTask(task: { account?: string }) {
+  if (!dbPort) {
+    throw new Error('Database worker not connected');
+  }
+  const account = accountKey(task?.account);
+  const key = snoozeMetaKey(account);
+  const stored = (await db.meta.get(key)) as { value?: unknown };
+  const records = Array.isArray(stored?.value) ? stored.value : [];
+  const now = Date.now();
+  const { due } = splitDueSnoozes(records, now) as { due: SnoozeRecord[] };
+  if (!due.length) return { woken: [] };
+
+  const keys = due.map((record) => [account, record.messageId]);
+  const cached = ((await db.messages.bulkGet(keys)) || []) as Record<string, unknown>[];
+  const bodies = ((await db.messageBodies.bulkGet(keys)) || []) as Record<string, unknown>[];
+  const updates: Record<string, unknown>[] = [];
+  const woken = due.map((record, index) => {
+    const message = cached[index];
+    // Evicted from the cache; the server copy still gets moved back
+    if (!message) return { record, flags: null };
+    const updated = wakeMessage(message, record, now);
+    updates.push(updated);
+    return { record, flags: updated.flags };
+  });
+
+  if (updates.length) {
+    await db.messages.bulkPut(updates);
+    for (const [index, body] of bodies.entries()) {
+      if (body) await db.messageBodies.put({ ...body, folder: due[index].folder, updatedAt: now });
+    }
+    postToSearch('index', { account, includeBody: false, messages: updates });
+  }
+
+  return { woken, folders: [...new Set(due.map((record) => record.folder))] };
 }
 
 // ============================================================================
@@ -368,6 +500,8 @@ async function runMetadataTask(task, postProgress) {
   let manifest = await getManifest(account, folder);
   let lastUID = manifest?.lastUID || 0;
   let lastModSeq = manifest?.lastModSeq || null;
+  // Rules only act on mail that arrives after the first sync, not the backlog
+  const runRules = Boolean(lastUID) && String(folder).toUpperCase() === 'INBOX';
   let page = 1;
   let totalFetched = 0;
   let totalInserted = 0;
@@ -398,6 +532,10 @@ async function runMetadataTask(task, postProgress) {
     if (!normalized.length) break;
 
     const writeResult = await writeMessages(account, folder, normalized);
+    if (runRules && writeResult.added.length) {
+      await runMailRules(account, folder, writeResult.added);
+      await runCalendarReplies(account, folder, writeResult.added);
+    }
 
     totalFetched += normalized.length;
     totalInserted += writeResult.inserted;
@@ -572,6 +710,7 @@ async function parseRawMessage(raw, existingAttachments = []) {
   try {
     const parser = new PostalMime();
     const email = await parser.parse(raw);
+    const keyDiscovery = collectKeyDiscovery(email);
 
     // Convert postal-mime attachments to data URLs
     // First pass: collect all parent-level attachments (these take dedup priority).
@@ -632,6 +771,10 @@ async function parseRawMessage(raw, existingAttachments = []) {
       if (/version\.txt/i.test(filename)) return false;
       if (/(pgp|gpg)/i.test(filename)) return false;
 
+      // Filter out detached S/MIME signatures
+      if (/^application\/(x-)?pkcs7-signature/i.test(contentType)) return false;
+      if (filename === 'smime.p7s') return false;
+
       return true;
     });
 
@@ -657,6 +800,7 @@ async function parseRawMessage(raw, existingAttachments = []) {
       rawBody: body,
       attachments: deduped,
       textContent: email.text || extractTextContent(body),
+      keyDiscovery,
     };
   } catch (error) {
     console.warn('[sync.worker] postal-mime parse failed', error);
@@ -670,7 +814,15 @@ async function fetchAndCacheBodyWithOptions(account, folder, msg, options = {})
   if (!apiId) return;
 
   const requestKey = `${account}::${apiId}`;
-  const persistBody = async (body, textContent, attachments = []) => {
+  const persistBody = async (
+    body,
+    textContent,
+    attachments = [],
+    {
+      pgpSignature = null,
+      smime = null,
+    }: { pgpSignature?: PgpSignatureStatus | null; smime?: SmimeStatus | null } = {},
+  ) => {
     if (dbPort) {
       await db.messageBodies.put({
         id: apiId,
@@ -679,6 +831,8 @@ async function fetchAndCacheBodyWithOptions(account, folder, msg, options = {})
         body,
         textContent,
         attachments,
+        pgpSignature,
+        smime,
         updatedAt: Date.now(),
       });
     }
@@ -709,6 +863,8 @@ async function fetchAndCacheBodyWithOptions(account, folder, msg, options = {})
       body,
       textContent,
       attachments,
+      pgpSignature,
+      smime,
     };
   };
   if (dbPort) {
@@ -725,6 +881,8 @@ async function fetchAndCacheBodyWithOptions(account, folder, msg, options = {})
             body: cached.body,
             textContent: cached.textContent || '',
             attachments: cached.attachments || [],
+            pgpSignature: cached.pgpSignature || null,
+            smime: cached.smime || null,
           };
         }
         return;
@@ -763,24 +921,48 @@ async function fetchAndCacheBodyWithOptions(account, folder, msg, options = {})
     let body = '';
     let textContent = '';
     let attachments = [];
+    let pgpSignature: PgpSignatureStatus | null = null;
+    let smime: SmimeStatus | null = null;
 
     if (raw) {
-      const isPgp = isPgpContent(raw);
+      const unwrapped = unwrapSmime(raw);
+      if (unwrapped.locked) {
+        // Not cached: the certificate may be imported later
+        return { id: apiId, folder, smimeLocked: true, smime: unwrapped.status };
+      }
+      smime = unwrapped.status;
+      const content = unwrapped.content;
+      const isPgp = isPgpContent(content);
       if (isPgp) {
-        const decrypted = await decryptPgp(raw);
+        const verificationKeys = await loadVerificationKeys(account);
+        const { data: decrypted, signatures } = await decryptPgp(content, verificationKeys.keys);
         if (!decrypted) {
           // Return raw data so main thread can attempt PGP decryption without re-fetching
-          return { id: apiId, folder, pgpLocked: true, raw };
+          return { id: apiId, folder, pgpLocked: true, raw: content };
         }
         const parsed = await parseRawMessage(decrypted);
         body = parsed.body;
         textContent = parsed.textContent;
         attachments = parsed.attachments;
+        discoverPgpKeys(account, parsed?.keyDiscovery, raw);
+        pgpSignature = await verifyPgpSignature(account, {
+          raw: decrypted,
+          text: textContent,
+          from: parsed?.keyDiscovery?.from,
+          decryptSignatures: signatures,
+          verificationKeys,
+        });
       } else {
-        const parsed = await parseRawMessage(raw);
+        const parsed = await parseRawMessage(content);
         body = parsed.body;
         textContent = parsed.textContent;
         attachments = parsed.attachments;
+        discoverPgpKeys(account, parsed?.keyDiscovery, raw);
+        pgpSignature = await verifyPgpSignature(account, {
+          raw: content,
+          text: textContent,
+          from: parsed?.keyDiscovery?.from,
+        });
       }
     } else {
       const serverText =
@@ -832,7 +1014,7 @@ async function fetchAndCacheBodyWithOptions(account, folder, msg, options = {})
       textContent = serverText || extractTextContent(inlined);
     }
 
-    return await persistBody(body, textContent, attachments);
+    return await persistBody(body, textContent, attachments, { pgpSignature, smime });
   })();
 
   inFlightBodyRequests.set(requestKey, requestPromise);
@@ -868,10 +1050,19 @@ function isPgpContent(raw) {
 }
 
 let lastDecryptError = '';
+type PgpVerificationResult = openpgp.VerifyMessageResult['signatures'][number];
+
+interface DecryptedPgp {
+  data: string;
+  /** Signatures of a signed-and-encrypted message (RFC 3156 §6.2) */
+  signatures: PgpVerificationResult[];
+}
 
-async function decryptPgp(armored) {
+const NOT_DECRYPTED: DecryptedPgp = { data: '', signatures: [] };
+
+async function decryptPgp(armored, verificationKeys: openpgp.Key[] = []): Promise<DecryptedPgp> {
   lastDecryptError = '';
-  if (!armored || !unlockedPgpKeys.length) return '';
+  if (!armored || !unlockedPgpKeys.length) return NOT_DECRYPTED;
 
   const hasInlineArmor = armored.includes('-----BEGIN PGP MESSAGE-----');
   const hasMimeHeaders = armored.includes('multipart/encrypted');
@@ -947,20 +1138,21 @@ async function decryptPgp(armored) {
       } else {
         lastDecryptError = 'No PGP armor block found in message content.';
       }
-      return '';
+      return NOT_DECRYPTED;
     }
 
     const message = await openpgp.readMessage({ armoredMessage: pgpBlock });
 
-    const { data } = await openpgp.decrypt({
+    const { data, signatures } = await openpgp.decrypt({
       message,
       decryptionKeys: unlockedPgpKeys,
+      verificationKeys,
     });
-    return data || '';
+    return { data: data || '', signatures: signatures || [] };
   } catch (err) {
     lastDecryptError = err?.message || String(err);
     console.warn('[sync.worker] PGP decryption failed:', lastDecryptError);
-    return '';
+    return NOT_DECRYPTED;
   }
 }
 
@@ -973,7 +1165,7 @@ async function decryptPgp(armored) {
  * This allows the main thread to request decryption without importing openpgp
  */
 async function handleDecryptMessageTask(task) {
-  const { raw } = task;
+  const { raw, account } = task;
 
   if (!raw || typeof raw !== 'string') {
     return {
@@ -1003,7 +1195,11 @@ async function handleDecryptMessageTask(task) {
   }
 
   // Attempt decryption with all unlocked keys (openpgp.js tries each automatically)
-  const decrypted = await decryptPgp(raw);
+  const verificationKeys = await loadVerificationKeys(account);
+  const { data: decrypted, signatures: decryptSignatures } = await decryptPgp(
+    raw,
+    verificationKeys.keys,
+  );
   if (!decrypted) {
     const detail = lastDecryptError ? ` (${lastDecryptError})` : '';
     return {
@@ -1027,6 +1223,11 @@ async function handleDecryptMessageTask(task) {
       attachments: [],
       rawDecrypted: true,
       keyCount: unlockedPgpKeys.length,
+      pgpSignature: await verifyPgpSignature(account, {
+        raw: decrypted,
+        decryptSignatures,
+        verificationKeys,
+      }),
     };
   }
 
@@ -1036,21 +1237,388 @@ async function handleDecryptMessageTask(task) {
     textContent: parsed.textContent,
     attachments: parsed.attachments,
     keyCount: unlockedPgpKeys.length,
+    pgpSignature: await verifyPgpSignature(account, {
+      raw: decrypted,
+      text: parsed?.textContent,
+      from: parsed?.keyDiscovery?.from,
+      decryptSignatures,
+      verificationKeys,
+    }),
+  };
+}
+
+// ============================================================================
+// PGP Signing / Encryption Task Handler
+// ============================================================================
+
+function keyMatchesEmail(key: openpgp.Key, email: string) {
+  if (!email) return false;
+  return key.users.some((user) => user.userID?.email?.toLowerCase() === email);
+}
+
+/**
+ * Pick the key whose user ID matches the sender address. Keys of other
+ * identities are never used, so mail isn't signed as someone else.
+ */
+function selectSenderKey<T extends openpgp.Key>(keys: T[], senderEmail?: string): T | null {
+  const email = String(senderEmail || '').toLowerCase();
+  return keys.find((key) => keyMatchesEmail(key, email)) || null;
+}
+
+const noSenderKey = (senderEmail?: string, kind = 'unlocked private key') => ({
+  success: false,
+  reason: 'no_sender_key',
+  message: `No ${kind} matches ${senderEmail || 'the sender address'}. Add one for this address in Settings.`,
+});
+
+/**
+ * Sign and/or encrypt an outgoing MIME entity (RFC 3156)
+ * Signing produces a detached signature for multipart/signed; encryption
+ * (optionally signed) produces an armored message for multipart/encrypted.
+ * The sender's own public key is always added so the Sent copy stays readable.
+ */
+async function handleProtectMessageTask(task: {
+  entity?: string;
+  sign?: boolean;
+  encrypt?: boolean;
+  senderEmail?: string;
+  recipientKeys?: string[];
+}) {
+  const { entity, sign = false, encrypt = false, senderEmail, recipientKeys = [] } = task;
+
+  if (!entity || typeof entity !== 'string' || (!sign && !encrypt)) {
+    return { success: false, reason: 'invalid_input', message: 'No message content provided' };
+  }
+
+  let signingKey = null;
+  if (sign) {
+    if (!unlockedPgpKeys.length) {
+      return {
+        success: false,
+        reason: 'no_keys',
+        message: 'No unlocked PGP key available for signing. Add or unlock a key in Settings.',
+      };
+    }
+    signingKey = selectSenderKey(unlockedPgpKeys, senderEmail);
+    if (!signingKey) return noSenderKey(senderEmail);
+  }
+
+  try {
+    const message = await openpgp.createMessage({ binary: new TextEncoder().encode(entity) });
+
+    if (encrypt) {
+      const encryptionKeys = [];
+      for (const armoredKey of recipientKeys) {
+        encryptionKeys.push(await openpgp.readKey({ armoredKey }));
+      }
+      const ownKey = signingKey
+        ? signingKey.toPublic()
+        : selectSenderKey(ownPgpPublicKeys, senderEmail);
+      // Without the sender's own key the Sent copy couldn't be read
+      if (!ownKey) return noSenderKey(senderEmail, 'PGP key');
+      encryptionKeys.push(ownKey);
+      const encrypted = await openpgp.encrypt({
+        message,
+        encryptionKeys,
+        ...(signingKey ? { signingKeys: signingKey } : {}),
+      });
+      return { success: true, encrypted };
+    }
+
+    const signature = await openpgp.sign({
+      message,
+      signingKeys: signingKey as openpgp.PrivateKey,
+      detached: true,
+    });
+    const parsed = await openpgp.readSignature({ armoredSignature: signature });
+    const hashId = parsed.packets[0]?.hashAlgorithm;
+    const hashName = Object.entries(openpgp.enums.hash).find(([, id]) => id === hashId)?.[0];
+    return {
+      success: true,
+      signature,
+      micalg: `pgp-${String(hashName || 'sha256').toLowerCase()}`,
+    };
+  } catch (err) {
+    return {
+      success: false,
+      reason: 'protect_failed',
+      message: (err as Error)?.message || 'PGP operation failed',
+    };
+  }
+}
+
+// ============================================================================
+// Recipient Key Discovery
+// ============================================================================
+
+interface KeyDiscovery {
+  from: string;
+  date: number | null;
+  autocrypt: string;
+  keyParts: string[];
+}
+
+/**
+ * Pick out the Autocrypt header and attached public keys of a parsed message
+ * (must run before PGP attachments are filtered out)
+ */
+function collectKeyDiscovery(email: Email): KeyDiscovery {
+  const autocryptHeaders = (email.headers || []).filter((h) => h.key === 'autocrypt');
+  const keyParts = [];
+  for (const att of email.attachments || []) {
+    if (!att?.content || !isPublicKeyAttachment(att)) continue;
+    const text =
+      typeof att.content === 'string' ? att.content : new TextDecoder().decode(att.content);
+    if (text.includes('-----BEGIN PGP PUBLIC KEY BLOCK-----')) keyParts.push(text);
+  }
+  const parsedDate = email.date ? Date.parse(email.date) : NaN;
+  return {
+    from: (email.from?.address || '').toLowerCase(),
+    date: Number.isFinite(parsedDate) ? parsedDate : null,
+    // Autocrypt: a message with more than one header is treated as having none
+    autocrypt: autocryptHeaders.length === 1 ? autocryptHeaders[0].value : '',
+    keyParts,
   };
 }
 
+function base64ToBytes(value: string) {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * The From address of a message as received, and whether the receiving
+ * server authenticated it. Read from the outer headers: those of an
+ * encrypted or S/MIME-wrapped part are whatever the sender wrote.
+ */
+async function readAuthenticatedSender(raw: string) {
+  const end = raw.search(/\r?\n\r?\n/);
+  const headers = await new PostalMime().parse(`${end === -1 ? raw : raw.slice(0, end)}\r\n\r\n`);
+  const from = (headers.from?.address || '').toLowerCase();
+  // The first one was added by the receiving server
+  const results = (headers.headers || []).find((h) => h.key === 'authentication-results');
+  return { from, authenticated: isAuthenticatedSender(results?.value || '', from) };
+}
+
+/**
+ * Add keys advertised by an incoming message to the account's keyring
+ * Only messages whose From address the receiving server authenticated are
+ * used, and only keys for that address: the Autocrypt `addr` must match it,
+ * and an attached key must have a user ID for it. A key for an address that
+ * already has another one waits for the user to confirm it.
+ * Runs in the background; failures never affect body caching.
+ */
+async function discoverPgpKeys(
+  account: string,
+  discovery: KeyDiscovery | null | undefined,
+  raw: string,
+) {
+  if (!dbPort || !discovery || (!discovery.autocrypt && !discovery.keyParts.length)) return;
+  try {
+    const sender = await readAuthenticatedSender(raw);
+    if (!sender.authenticated || sender.from !== discovery.from) return;
+    const found: object[] = [];
+    const autocrypt = parseAutocryptHeader(discovery.autocrypt);
+    if (autocrypt && autocrypt.addr === sender.from) {
+      const key = await openpgp.readKey({ binaryKey: base64ToBytes(autocrypt.keydata) });
+      const info = await describePgpKey(key);
+      found.push({
+        ...info,
+        emails: [sender.from],
+        sources: ['autocrypt'],
+        preferEncrypt: autocrypt.preferEncrypt,
+        lastSeenAt: discovery.date || Date.now(),
+      });
+    }
+    for (const armoredKeys of discovery.keyParts) {
+      const keys = await openpgp.readKeys({ armoredKeys });
+      for (const key of keys) {
+        const info = await describePgpKey(key);
+        if (!info.emails.includes(sender.from)) continue;
+        found.push({ ...info, emails: [sender.from], sources: ['attachment'] });
+      }
+    }
+    if (!found.length) return;
+
+    const metaKey = keyringMetaKey(account);
+    await withKeyringLock(account, async () => {
+      const record = (await db.meta.get(metaKey)) as { value?: unknown } | undefined;
+      let keys = Array.isArray(record?.value) ? record.value : [];
+      let changed = false;
+      for (const info of found) {
+        const merged = mergeDiscoveredKey(keys, info);
+        keys = merged.keys;
+        changed = changed || merged.changed;
+      }
+      if (changed) {
+        await db.meta.put({ key: metaKey, value: keys, updatedAt: Date.now() });
+      }
+    });
+  } catch (err) {
+    console.warn('[sync.worker] Key discovery failed', (err as Error)?.message);
+  }
+}
+
+// ============================================================================
+// Signature Verification
+// ============================================================================
+
+interface VerificationKeys {
+  keys: openpgp.Key[];
+  records: Array<{ fingerprint: string; userIds?: string[]; trust?: string }>;
+}
+
+/**
+ * Public keys a signature can be checked against: the recipient keyring of
+ * the account plus the user's own keys (for mail they sent themselves)
+ */
+async function loadVerificationKeys(account?: string): Promise<VerificationKeys> {
+  const keys: openpgp.Key[] = [...ownPgpPublicKeys];
+  let records = [];
+  try {
+    const stored = (await db.meta.get(keyringMetaKey(account))) as { value?: unknown };
+    records = Array.isArray(stored?.value) ? stored.value : [];
+  } catch {
+    // No db connection: verify against own keys only
+  }
+  for (const record of records) {
+    if (!record?.armored) continue;
+    try {
+      keys.push(await openpgp.readKey({ armoredKey: record.armored }));
+    } catch {
+      // Skip keys openpgp can no longer parse
+    }
+  }
+  return { keys, records };
+}
+
+/**
+ * Reduce openpgp verification results to a single status.
+ * A valid signature wins over a bad one; a signature whose key is not in the
+ * keyring is reported as unknown-key with the issuer key ID.
+ */
+async function summarizeSignatures(
+  signatures: PgpVerificationResult[],
+  verification: VerificationKeys,
+  from?: string,
+): Promise<PgpSignatureStatus> {
+  let fallback: PgpSignatureStatus | null = null;
+  for (const result of signatures) {
+    const keyId = result.keyID.toHex();
+    const key = verification.keys.find((k) => k.getKeys(result.keyID).length > 0);
+    if (!key) {
+      fallback = fallback || { status: 'unknown-key', keyId };
+      continue;
+    }
+    const fingerprint = key.getFingerprint().toLowerCase();
+    const record = verification.records.find((r) => r.fingerprint === fingerprint);
+    const isOwnKey = ownPgpPublicKeys.some((k) => k.getFingerprint().toLowerCase() === fingerprint);
+    const userIds = key.getUserIDs();
+    const details = {
+      keyId,
+      fingerprint,
+      signer: record?.userIds?.[0] || userIds[0] || '',
+      trust: isOwnKey ? 'verified' : record?.trust || 'unknown',
+    };
+    try {
+      await result.verified;
+      const signature = await result.signature;
+      const created = signature.packets[0]?.created;
+      return {
+        status: 'signed',
+        ...details,
+        signedAt: created ? created.getTime() : null,
+        senderMatch:
+          !from ||
+          userIds.some((id) => id.toLowerCase().includes(`<${from}>`) || id.toLowerCase() === from),
+      };
+    } catch (err) {
+      fallback = { status: 'bad', ...details, error: (err as Error)?.message };
+    }
+  }
+  return fallback || { status: 'unsigned' };
+}
+
+/**
+ * Verify the OpenPGP signature of a message, if it has one.
+ *
+ * Checks, in order: signatures found while decrypting, a PGP/MIME
+ * multipart/signed entity (RFC 3156 §5) and an inline cleartext signature in
+ * the text body. The keyring is only loaded when a signature is present.
+ */
+async function verifyPgpSignature(
+  account: string | undefined,
+  {
+    raw,
+    text,
+    from,
+    decryptSignatures = [],
+    verificationKeys,
+  }: {
+    raw?: string;
+    text?: string;
+    from?: string;
+    decryptSignatures?: PgpVerificationResult[];
+    verificationKeys?: VerificationKeys;
+  },
+): Promise<PgpSignatureStatus> {
+  try {
+    if (decryptSignatures.length) {
+      return await summarizeSignatures(
+        decryptSignatures,
+        verificationKeys || (await loadVerificationKeys(account)),
+        from,
+      );
+    }
+
+    const signed = splitSignedMessage(raw);
+    if (signed) {
+      const verification = verificationKeys || (await loadVerificationKeys(account));
+      const { signatures } = await openpgp.verify({
+        message: await openpgp.createMessage({
+          binary: new TextEncoder().encode(signed.signedContent),
+        }),
+        signature: await openpgp.readSignature({ armoredSignature: signed.signature }),
+        verificationKeys: verification.keys,
+      });
+      return await summarizeSignatures(signatures, verification, from);
+    }
+
+    const clearsigned = extractClearsignedBlock(text);
+    if (clearsigned) {
+      const verification = verificationKeys || (await loadVerificationKeys(account));
+      const { signatures } = await openpgp.verify({
+        message: await openpgp.readCleartextMessage({ cleartextMessage: clearsigned }),
+        verificationKeys: verification.keys,
+      });
+      return await summarizeSignatures(signatures, verification, from);
+    }
+  } catch (err) {
+    // Malformed signature packets or armor
+    return { status: 'bad', error: (err as Error)?.message };
+  }
+  return { status: 'unsigned' };
+}
+
 /**
  * Handle MIME parsing request from main thread (Phase 3 optimization)
  * This allows main thread to delegate all MIME parsing to worker
  */
 async function handleParseRawTask(task) {
-  const { raw, existingAttachments = [] } = task;
+  const { raw, existingAttachments = [], account } = task;
 
   if (!raw) {
     return { success: false, error: 'No raw message provided' };
   }
 
-  const parsed = await parseRawMessage(raw, existingAttachments);
+  const unwrapped = unwrapSmime(raw);
+  if (unwrapped.locked) {
+    return { success: false, smimeLocked: true, smime: unwrapped.status };
+  }
+
+  const parsed = await parseRawMessage(unwrapped.content, existingAttachments);
   if (!parsed) {
     return { success: false, error: 'Parse failed' };
   }
@@ -1061,6 +1629,12 @@ async function handleParseRawTask(task) {
     rawBody: parsed.rawBody,
     textContent: parsed.textContent,
     attachments: parsed.attachments,
+    pgpSignature: await verifyPgpSignature(account, {
+      raw: unwrapped.content,
+      text: parsed.textContent,
+      from: parsed.keyDiscovery?.from,
+    }),
+    smime: unwrapped.status,
   };
 }
 
@@ -1088,10 +1662,14 @@ async function handleTask(taskId, task) {
       await runDraftSyncTask(task, (p) => {
         self.postMessage({ ...p, taskId });
       });
+    } else if (task.type === 'snoozes') {
+      summary = await runSnoozeTask(task);
     } else if (task.type === 'decryptMessage') {
       summary = await handleDecryptMessageTask(task);
     } else if (task.type === 'parseRaw') {
       summary = await handleParseRawTask(task);
+    } else if (task.type === 'protectMessage') {
+      summary = await handleProtectMessageTask(task);
     } else {
       throw new Error(`Unsupported task type: ${task.type}`);
     }
@@ -1162,6 +1740,8 @@ async function fetchMessagePage(payload = {}) {
     ...(payload.search ? { search: payload.search } : {}),
     ...(payload.is_unread ? { is_unread: true } : {}),
     ...(payload.has_attachments || payload.has_attachment ? { has_attachments: true } : {}),
+    // Extra search parameters (from, subject, since, ...) for server-side search
+    ...(payload.filters || {}),
   };
 
   const res = await fetchMessageList(params);
@@ -1369,6 +1949,10 @@ async function handleRequest(requestId, action, payload) {
       result = await fetchMessageDetail(payload || {});
     } else if (action === 'unlockPgpKey') {
       result = await unlockPgpKeyWithPassphrase(payload || {});
+    } else if (action === 'inspectPgpKey') {
+      result = await inspectPgpKey(payload || {});
+    } else if (action === 'importSmimeCertificate') {
+      result = importSmimeCertificate(payload || {});
     } else {
       throw new Error(`Unsupported request action: ${action}`);
     }
@@ -1390,9 +1974,11 @@ async function handleRequest(requestId, action, payload) {
 async function updatePgpKeys(keys = [], passphrases = {}) {
   pgpPassphrases = passphrases || {};
   const unlocked = [];
+  const publicKeys = [];
   for (const key of keys) {
     if (!key?.value) continue;
     const privateKey = await openpgp.readPrivateKey({ armoredKey: key.value });
+    publicKeys.push(privateKey.toPublic());
     if (!privateKey.isDecrypted()) {
       const passphrase = pgpPassphrases[key.name];
       if (passphrase) {
@@ -1412,6 +1998,52 @@ async function updatePgpKeys(keys = [], passphrases = {}) {
     }
   }
   unlockedPgpKeys = unlocked;
+  ownPgpPublicKeys = publicKeys;
+}
+
+async function describePgpKey(key: openpgp.Key) {
+  let expiresAt = null;
+  try {
+    const expiration = await key.getExpirationTime();
+    if (expiration instanceof Date) expiresAt = expiration.getTime();
+  } catch {
+    // Keys without a valid self-signature have no usable expiry
+  }
+  return {
+    fingerprint: key.getFingerprint(),
+    keyId: key.getKeyID().toHex(),
+    userIds: key.getUserIDs(),
+    emails: key.users
+      .map((user) => user.userID?.email?.toLowerCase())
+      .filter((email): email is string => Boolean(email)),
+    createdAt: key.getCreationTime().getTime(),
+    expiresAt,
+    revoked: await key.isRevoked(),
+    isPrivate: key.isPrivate(),
+    armored: key.toPublic().armor(),
+  };
+}
+
+/**
+ * Describe armored or binary public key(s) for the recipient keyring
+ * Private keys are accepted but only their public part is returned
+ */
+async function inspectPgpKey({
+  armoredKey,
+  binaryKey,
+}: {
+  armoredKey?: string;
+  binaryKey?: Uint8Array;
+}) {
+  let keys;
+  if (armoredKey) keys = await openpgp.readKeys({ armoredKeys: armoredKey });
+  else if (binaryKey) keys = await openpgp.readKeys({ binaryKeys: binaryKey });
+  else throw new Error('Missing key value');
+  const described = [];
+  for (const key of keys) {
+    described.push(await describePgpKey(key));
+  }
+  return described;
 }
 
 /**
@@ -1498,6 +2130,40 @@ async function unlockPgpKeyWithPassphrase({
   }
 }
 
+// ============================================================================
+// S/MIME
+// ============================================================================
+
+/**
+ * Decrypt and verify the S/MIME layers of a raw message with the imported
+ * identities. Messages without S/MIME pass through with a null status.
+ */
+function unwrapSmime(raw: string): {
+  content: string;
+  status: SmimeStatus | null;
+  locked: boolean;
+} {
+  try {
+    return unwrapSmimeMessage(raw, { identities: smimeIdentities });
+  } catch (err) {
+    console.warn('[sync.worker] S/MIME processing failed', err);
+    return {
+      content: raw,
+      status: { encrypted: false, signature: 'bad', error: (err as Error)?.message || String(err) },
+      locked: false,
+    };
+  }
+}
+
+/**
+ * Read a PKCS#12 file posted from Settings. Parsing happens here so
+ * node-forge stays out of the main bundle.
+ */
+function importSmimeCertificate({ p12, password = '' }: { p12?: string; password?: string }) {
+  if (!p12) throw new Error('No certificate file provided');
+  return parsePkcs12(atob(p12), password);
+}
+
 // ============================================================================
 // Search Worker Communication
 // ============================================================================
@@ -1541,6 +2207,10 @@ self.onmessage = (event) => {
     updatePgpKeys(data.keys || [], data.passphrases || {});
     return;
   }
+  if (data.type === 'smimeKeys') {
+    smimeIdentities = Array.isArray(data.identities) ? data.identities : [];
+    return;
+  }
   if (data.type === 'connectSearchPort' && event.ports?.[0]) {
     searchPort = event.ports[0];
     searchPort.start();
@@ -21,6 +21,7 @@ export async function mockApi(page, overrides = {}) {
   const contacts = overrides.contacts || mockContacts;
   const calendars = overrides.calendars || mockCalendars;
   const events = overrides.events || mockEvents;
+  const sieveScripts = overrides.sieveScripts || [];
 
   await page.route('**/v1/folders**', (route) => jsonResponse(route, { Result: folders }));
 
@@ -150,5 +151,52 @@ export async function mockApi(page, overrides = {}) {
     return jsonResponse(route, { Result: { success: true } });
   });
 
+  await page.route('**/v1/sieve-scripts**', (route) => {
+    const method = route.request().method();
+    const url = new URL(route.request().url());
+    const parts = url.pathname.split('/').filter(Boolean);
+    const isActivate = parts[parts.length - 1] === 'activate';
+    const scriptId = isActivate ? parts[parts.length - 2] : parts[parts.length - 1];
+    const index = sieveScripts.findIndex((s) => s.id === scriptId);
+
+    if (method === 'GET' && scriptId === 'sieve-scripts') {
+      return jsonResponse(route, { Result: sieveScripts });
+    }
+
+    if (method === 'GET') {
+      if (index < 0) return jsonResponse(route, { error: 'Script not found' }, 404);
+      return jsonResponse(route, { Result: sieveScripts[index] });
+    }
+
+    if (method === 'POST' && isActivate) {
+      if (index < 0) return jsonResponse(route, { error: 'Script not found' }, 404);
+      sieveScripts.forEach((s) => {
+        s.is_active = s.id === scriptId;
+      });
+      return jsonResponse(route, { Result: sieveScripts[index] });
+    }
+
+    if (method === 'POST') {
+      const postData = route.request().postDataJSON();
+      const newScript = { id: `sieve-${Date.now()}`, is_active: false, ...postData };
+      sieveScripts.push(newScript);
+      return jsonResponse(route, { Result: newScript }, 201);
+    }
+
+    if (method === 'PUT') {
+      if (index < 0) return jsonResponse(route, { error: 'Script not found' }, 404);
+      sieveScripts[index] = { ...sieveScripts[index], ...route.request().postDataJSON() };
+      return jsonResponse(route, { Result: sieveScripts[index] });
+    }
+
+    if (method === 'DELETE') {
+      if (index < 0) return jsonResponse(route, { error: 'Script not found' }, 404);
+      sieveScripts.splice(index, 1);
+      return jsonResponse(route, { Result: { success: true } });
+    }
+
+    return jsonResponse(route, { Result: { success: true } });
+  });
+
   // No catch-all needed; unhandled requests will pass through by default.
 }
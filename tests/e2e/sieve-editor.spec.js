@@ -0,0 +1,80 @@
+import { test, expect } from '@playwright/test';
+import { mockApi } from './mockApi.js';
+import { setupAuthenticatedSession } from '../fixtures/calendar-helpers.js';
+
+const newsScript = {
+  id: 'sieve-news',
+  name: 'News',
+  is_active: true,
+  content:
+    'require ["fileinto"];\nif address :contains "from" "news@example.com" {\n  fileinto "News";\n}\n',
+};
+
+const openSieveEditor = async (page) => {
+  await page.goto('/mailbox/settings#rules');
+  const card = page.locator('[data-slot="card"]', { hasText: 'Server filters (Sieve)' });
+  await expect(card).toBeVisible({ timeout: 10000 });
+  return card;
+};
+
+test.describe('Sieve script editor', () => {
+  let sieveScripts;
+
+  test.beforeEach(async ({ page }) => {
+    sieveScripts = [{ ...newsScript }];
+    await mockApi(page, { sieveScripts });
+    await setupAuthenticatedSession(page);
+  });
+
+  test('lists server scripts and marks the active one', async ({ page }) => {
+    const card = await openSieveEditor(page);
+    await expect(card.getByText('News')).toBeVisible();
+    await expect(card.getByText('Active', { exact: true })).toBeVisible();
+  });
+
+  test('shows validation errors with line numbers', async ({ page }) => {
+    const card = await openSieveEditor(page);
+    await card.getByRole('button', { name: 'New script' }).click();
+    await card.getByRole('button', { name: 'Script', exact: true }).click();
+    await card.getByLabel('Sieve script').fill('keep;\nfrobnicate;');
+
+    await expect(card.getByText('Line 2: Unknown command "frobnicate"')).toBeVisible();
+    await expect(card.getByRole('button', { name: 'Save script' })).toBeDisabled();
+  });
+
+  test('builds a script visually and uploads it', async ({ page }) => {
+    const card = await openSieveEditor(page);
+    await card.getByRole('button', { name: 'New script' }).click();
+    await card.getByLabel('Script name').fill('Invoices');
+    await card.getByRole('button', { name: 'Add rule' }).click();
+    await card.getByLabel('Field').selectOption('subject');
+    await card.getByLabel('Value').fill('invoice');
+    await card.getByLabel('Move to folder').fill('Receipts');
+
+    const request = page.waitForRequest(
+      (req) => req.url().includes('/v1/sieve-scripts') && req.method() === 'POST',
+    );
+    await card.getByRole('button', { name: 'Save script' }).click();
+    const body = (await request).postDataJSON();
+
+    expect(body.name).toBe('Invoices');
+    expect(body.content).toContain('require ["fileinto"];');
+    expect(body.content).toContain('if header :contains "subject" "invoice" {');
+    await expect(card.getByText('Saved "Invoices".')).toBeVisible();
+    expect(sieveScripts.map((s) => s.name)).toContain('Invoices');
+  });
+
+  test('loads an existing script into the builder and activates another', async ({ page }) => {
+    sieveScripts.push({ id: 'sieve-spam', name: 'Spam', is_active: false, content: 'discard;' });
+    const card = await openSieveEditor(page);
+
+    await card.getByRole('button', { name: 'Edit' }).first().click();
+    await expect(card.getByLabel('Value')).toHaveValue('news@example.com');
+    await expect(card.getByLabel('Move to folder')).toHaveValue('News');
+
+    await card.getByRole('button', { name: 'Activate' }).click();
+    await expect(card.getByText('"Spam" is now active.')).toBeVisible();
+    expect(sieveScripts.find((s) => s.id === 'sieve-spam').is_active).toBe(true);
+    expect(sieveScripts.find((s) => s.id === 'sieve-news').is_active).toBe(false);
+  });
+});
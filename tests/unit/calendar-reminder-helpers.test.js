@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  collectReminders,
+  dueReminders,
+  emptyReminderState,
+  markFired,
+  nextReminderAt,
+  readAlarms,
+  snoozeReminder,
+} from '../../src/utils/calendar-reminder-helpers.ts';
+
+const MINUTE = 60 * 1000;
+const at = (iso) => Date.parse(iso);
+
+const ical = (...lines) =>
+  [
+    'BEGIN:VCALENDAR',
+    'BEGIN:VEVENT',
+    'UID:standup',
+    'DTSTART:20250210T090000Z',
+    'DTEND:20250210T091500Z',
+    'SUMMARY:Standup',
+    ...lines,
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ].join('\r\n');
+
+const alarm = (...lines) => ['BEGIN:VALARM', 'ACTION:DISPLAY', ...lines, 'END:VALARM'];
+
+const event = (fields = {}) => ({
+  account: 'alice@example.com',
+  id: '1',
+  title: 'Standup',
+  start: '2025-02-10T09:00:00.000Z',
+  end: '2025-02-10T09:15:00.000Z',
+  location: 'Room 4',
+  notify: 0,
+  ical: '',
+  pending: null,
+  ...fields,
+});
+
+describe('readAlarms', () => {
+  it('reads relative and absolute triggers', () => {
+    const block = ical(
+      ...alarm('TRIGGER:-PT15M'),
+      ...alarm('TRIGGER;RELATED=END:PT0S'),
+      ...alarm('TRIGGER;VALUE=DATE-TIME:20250210T080000Z'),
+      'BEGIN:VALARM',
+      'ACTION:EMAIL',
+      'TRIGGER:-P1D',
+      'END:VALARM',
+    );
+    expect(readAlarms(block)).toEqual([
+      { offset: -15 * MINUTE, related: 'start', at: null, description: '' },
+      { offset: 0, related: 'end', at: null, description: '' },
+      { offset: 0, related: 'start', at: at('2025-02-10T08:00:00Z'), description: '' },
+    ]);
+  });
+});
+
+describe('collectReminders', () => {
+  const range = [at('2025-02-10T00:00:00Z'), at('2025-02-11T00:00:00Z')];
+
+  it("uses the event's VALARMs, or its notify minutes", () => {
+    const events = [
+      event({ ical: ical(...alarm('TRIGGER:-PT10M')), notify: 30 }),
+      event({ id: '2', title: 'Lunch', start: '2025-02-10T12:00:00.000Z', notify: 5 }),
+      event({ id: '3', title: 'No reminder' }),
+    ];
+    expect(collectReminders(events, ...range)).toMatchObject([
+      {
+        eventId: '1',
+        occurrenceId: '1',
+        title: 'Standup',
+        location: 'Room 4',
+        fireAt: at('2025-02-10T08:50:00Z'),
+      },
+      { eventId: '2', title: 'Lunch', fireAt: at('2025-02-10T11:55:00Z') },
+    ]);
+  });
+
+  it('gives each occurrence of a recurring event its reminder', () => {
+    const events = [event({ ical: ical('RRULE:FREQ=DAILY', ...alarm('TRIGGER:-PT10M')) })];
+    const reminders = collectReminders(
+      events,
+      at('2025-02-11T00:00:00Z'),
+      at('2025-02-13T00:00:00Z'),
+    );
+    expect(reminders.map((reminder) => reminder.fireAt)).toEqual([
+      at('2025-02-11T08:50:00Z'),
+      at('2025-02-12T08:50:00Z'),
+    ]);
+    expect(reminders[0].occurrenceId).toBe(`1::${at('2025-02-11T09:00:00Z')}`);
+    expect(new Set(reminders.map((reminder) => reminder.key)).size).toBe(2);
+  });
+});
+
+describe('tracking shown reminders', () => {
+  const [reminder] = collectReminders(
+    [event({ notify: 10 })],
+    at('2025-02-10T00:00:00Z'),
+    at('2025-02-11T00:00:00Z'),
+  );
+  const now = at('2025-02-10T08:51:00Z');
+
+  it('shows a due reminder once', () => {
+    expect(dueReminders([reminder], emptyReminderState(), now)).toEqual([reminder]);
+    const shown = markFired(emptyReminderState(), [reminder], now);
+    expect(dueReminders([reminder], shown, now + MINUTE)).toEqual([]);
+    // Forgotten once the event is over
+    expect(markFired(shown, [], at('2025-02-10T10:00:00Z')).fired).toEqual([]);
+  });
+
+  it('skips reminders of events that are over', () => {
+    expect(dueReminders([reminder], emptyReminderState(), at('2025-02-10T09:20:00Z'))).toEqual([]);
+  });
+
+  it('shows a snoozed reminder again', () => {
+    const shown = markFired(emptyReminderState(), [reminder], now);
+    const snoozed = snoozeReminder(shown, reminder, now + 5 * MINUTE);
+    expect(dueReminders([reminder], snoozed, now + MINUTE)).toEqual([]);
+    expect(nextReminderAt([reminder], snoozed, now)).toBe(now + 5 * MINUTE);
+    const due = dueReminders([reminder], snoozed, now + 5 * MINUTE);
+    expect(due).toEqual([{ ...reminder, fireAt: now + 5 * MINUTE }]);
+    expect(markFired(snoozed, due, now + 5 * MINUTE).snoozed).toEqual([]);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyCalendarEventEdit,
+  calendarEventFieldsFromIcal,
+  calendarEventFromApi,
+  calendarFromApi,
+  planCalendarEventSync,
+} from '../../src/utils/calendar-sync-helpers.ts';
+
+const ACCOUNT = 'alice@example.com';
+
+const serverCopy = (id, fields = {}) =>
+  calendarEventFromApi(
+    {
+      id,
+      summary: 'Standup',
+      start: '2025-02-10T09:00:00Z',
+      end: '2025-02-10T09:15:00Z',
+      calendar_id: 'work',
+      ical: `BEGIN:VCALENDAR\r\nUID:${id}\r\nEND:VCALENDAR`,
+      ...fields,
+    },
+    ACCOUNT,
+  );
+
+describe('mapping API records', () => {
+  it('reads events, with the calendar they were listed under', () => {
+    const event = calendarEventFromApi(
+      { Result: { uid: 7, title: 'Review', dtstart: '2025-02-10T09:00:00+01:00', reminder: '15' } },
+      ACCOUNT,
+      'home',
+    );
+    expect(event).toMatchObject({
+      account: ACCOUNT,
+      id: '7',
+      title: 'Review',
+      start: '2025-02-10T08:00:00.000Z',
+      calendarId: 'home',
+      notify: 15,
+      pending: null,
+    });
+    expect(calendarEventFromApi({ summary: 'No id' }, ACCOUNT)).toBeNull();
+    expect(calendarFromApi({ calendar_id: 'work', name: 'Work' }, ACCOUNT)).toMatchObject({
+      account: ACCOUNT,
+      id: 'work',
+      name: 'Work',
+    });
+  });
+
+  it('reads the fields of an imported event from its iCalendar text', () => {
+    const ical = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'UID:import-1',
+      'DTSTART:20250210T150000Z',
+      'DTEND:20250210T160000Z',
+      'SUMMARY:Planning',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+    expect(calendarEventFieldsFromIcal(ical)).toMatchObject({
+      title: 'Planning',
+      start: '2025-02-10T15:00:00.000Z',
+      end: '2025-02-10T16:00:00.000Z',
+      ical,
+    });
+    expect(calendarEventFieldsFromIcal('BEGIN:VCALENDAR\r\nEND:VCALENDAR')).toEqual({
+      ical: 'BEGIN:VCALENDAR\r\nEND:VCALENDAR',
+    });
+  });
+});
+
+describe('applyCalendarEventEdit', () => {
+  const options = { account: ACCOUNT, localId: 'local_1', now: 100 };
+
+  it('creates new events under a local id', () => {
+    expect(applyCalendarEventEdit(null, { title: 'Lunch', notify: '10' }, options)).toMatchObject({
+      id: 'local_1',
+      title: 'Lunch',
+      notify: 10,
+      pending: 'create',
+      updatedAt: 100,
+    });
+  });
+
+  it('keeps the pending change of an event edited again', () => {
+    const edited = applyCalendarEventEdit(serverCopy('1'), { title: 'Later' }, options);
+    expect(edited).toMatchObject({
+      id: '1',
+      title: 'Later',
+      calendarId: 'work',
+      pending: 'update',
+    });
+    const created = applyCalendarEventEdit(null, { title: 'Lunch' }, options);
+    expect(applyCalendarEventEdit(created, { title: 'Dinner' }, options).pending).toBe('create');
+  });
+});
+
+describe('planCalendarEventSync', () => {
+  it('stores changed events and removes ones the server no longer has', () => {
+    const local = [serverCopy('1'), serverCopy('2'), serverCopy('3')];
+    const plan = planCalendarEventSync(local, [
+      serverCopy('1'),
+      serverCopy('2', { summary: 'Moved' }),
+    ]);
+    expect(plan.put.map((event) => event.id)).toEqual(['2']);
+    expect(plan.remove).toEqual(['3']);
+  });
+
+  it('keeps pending local changes', () => {
+    const local = [
+      { ...serverCopy('1'), title: 'Mine', pending: 'update' },
+      { ...serverCopy('local_1'), pending: 'create' },
+      { ...serverCopy('2'), pending: 'delete' },
+    ];
+    const plan = planCalendarEventSync(local, [serverCopy('1', { summary: 'Theirs' })]);
+    expect(plan).toEqual({ put: [], remove: [] });
+  });
+
+  it('only removes events of the synced calendar', () => {
+    const local = [serverCopy('1'), serverCopy('2', { calendar_id: 'home' })];
+    expect(planCalendarEventSync(local, [], { calendarId: 'home' }).remove).toEqual(['2']);
+    expect(planCalendarEventSync(local, [], { complete: false }).remove).toEqual([]);
+  });
+});
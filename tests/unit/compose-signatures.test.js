@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeSignature,
+  normalizeSignatureSettings,
+  signatureHtmlToText,
+  signaturesForAlias,
+  defaultSignature,
+  signatureAliases,
+  removeSignature,
+  findSignatureId,
+  applySignatureHtml,
+  applySignatureText,
+} from '../../src/utils/compose-signatures.ts';
+import { processQuotedContent } from '../../src/utils/quote-collapse.js';
+
+const work = normalizeSignature({
+  id: 'work',
+  name: 'Work',
+  alias: 'Me <Me@Example.com>',
+  html: '<p>Jane Doe<br>Example &amp; Co</p>',
+});
+const short = normalizeSignature({
+  id: 'short',
+  name: 'Short',
+  html: '<p>J.</p>',
+  text: 'J.',
+  placement: 'below',
+});
+const settings = normalizeSignatureSettings({
+  signatures: [work, short],
+  defaults: {
+    'me@example.com': { newMessage: 'work', reply: 'short' },
+    'other@example.com': { newMessage: 'work', reply: 'missing' },
+  },
+});
+
+describe('normalizeSignature', () => {
+  it('derives the plain-text version from the HTML', () => {
+    expect(signatureHtmlToText('<p>Jane Doe<br>Example &amp; Co</p>')).toBe(
+      'Jane Doe\nExample & Co',
+    );
+    expect(work).toMatchObject({ alias: 'me@example.com', text: 'Jane Doe\nExample & Co' });
+    expect(work.placement).toBe('above');
+  });
+
+  it('requires a name', () => {
+    expect(normalizeSignature({ name: '  ', html: '<p>x</p>' })).toBeNull();
+  });
+});
+
+describe('defaults', () => {
+  it('picks the default for an address and kind of message', () => {
+    expect(defaultSignature(settings, 'ME@example.com', 'newMessage')?.id).toBe('work');
+    expect(defaultSignature(settings, 'me@example.com', 'reply')?.id).toBe('short');
+  });
+
+  it('ignores signatures that belong to another address', () => {
+    expect(defaultSignature(settings, 'other@example.com', 'newMessage')).toBeNull();
+    expect(settings.defaults['other@example.com']).toEqual({ newMessage: 'work', reply: '' });
+  });
+
+  it('offers signatures for any address alongside the address own', () => {
+    expect(signaturesForAlias(settings.signatures, 'me@example.com').map((s) => s.id)).toEqual([
+      'short',
+      'work',
+    ]);
+    expect(signaturesForAlias(settings.signatures, 'x@example.com').map((s) => s.id)).toEqual([
+      'short',
+    ]);
+  });
+
+  it('lists the account address first', () => {
+    expect(signatureAliases(settings, 'Account@example.com')).toEqual([
+      'account@example.com',
+      'me@example.com',
+      'other@example.com',
+    ]);
+  });
+
+  it('drops defaults with the signature', () => {
+    expect(removeSignature(settings, 'short').defaults).toEqual({
+      'me@example.com': { newMessage: 'work', reply: '' },
+      'other@example.com': { newMessage: 'work', reply: '' },
+    });
+  });
+});
+
+describe('applySignatureHtml', () => {
+  const reply =
+    '<p><br></p><p class="fe-reply-attribution">On Mon, Bob wrote:</p><blockquote class="fe-reply-quote"><p>Hi</p></blockquote>';
+
+  it('adds a new message signature after an empty line', () => {
+    expect(applySignatureHtml('', work)).toBe(
+      '<p></p><div class="fe-signature" data-signature-id="work"><p>Jane Doe<br>Example &amp; Co</p></div>',
+    );
+  });
+
+  it('goes above or below the quoted message', () => {
+    const above = applySignatureHtml(reply, work);
+    expect(above.indexOf('fe-signature')).toBeLessThan(above.indexOf('fe-reply-attribution'));
+    const below = applySignatureHtml(reply, short);
+    expect(below.indexOf('fe-signature')).toBeGreaterThan(below.indexOf('</blockquote>'));
+  });
+
+  it('finds the quote once the editor has dropped our classes', () => {
+    const edited = '<p>Thanks</p><p>On Mon, Bob wrote:</p><blockquote><p>Hi</p></blockquote>';
+    expect(applySignatureHtml(edited, work)).toMatch(
+      /^<p>Thanks<\/p><div class="fe-signature"[^>]*>.*<\/div><p>On Mon, Bob wrote:<\/p>/,
+    );
+  });
+
+  it('swaps or removes the current signature', () => {
+    const swapped = applySignatureHtml(applySignatureHtml(reply, work), short);
+    expect(findSignatureId(swapped)).toBe('short');
+    expect(swapped.match(/fe-signature/g)).toHaveLength(1);
+    expect(applySignatureHtml(swapped, null)).toBe(reply);
+  });
+});
+
+describe('applySignatureText', () => {
+  it('adds the signature under a delimiter line', () => {
+    expect(applySignatureText('', short)).toBe('\n\n-- \nJ.');
+    expect(applySignatureText('Hi\n\n> quoted', work)).toBe(
+      'Hi\n\n-- \nJane Doe\nExample & Co\n\n> quoted',
+    );
+  });
+
+  it('replaces the previous signature', () => {
+    const body = applySignatureText('Hi\n\n> quoted', work);
+    expect(applySignatureText(body, short, work)).toBe('Hi\n\n> quoted\n\n-- \nJ.');
+    expect(applySignatureText(body, null, work)).toBe('Hi\n\n> quoted');
+  });
+});
+
+describe('signatures in the reader', () => {
+  it('collapses signature blocks with their own label', () => {
+    const html = processQuotedContent(
+      '<p>Hello</p><div class="fe-signature" data-signature-id="work"><p>Jane</p></div>',
+    );
+    expect(html).toContain('fe-quote-wrapper fe-quote-collapsed');
+    expect(html).toContain('Show signature');
+  });
+
+  it('collapses text after a "-- " line', () => {
+    const html = processQuotedContent('<p>Hello</p><p>-- </p><p>Jane</p><p>Example</p>');
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const content = doc.querySelector('.fe-quote-content');
+    expect(content?.textContent).toBe('-- JaneExample');
+    expect(doc.body.firstElementChild?.textContent).toBe('Hello');
+  });
+
+  it('splits plain-text signatures from the quote that follows', () => {
+    const html = processQuotedContent('<pre>Hello\n-- \nJane\n> quoted</pre>');
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const labels = [...doc.querySelectorAll('.fe-quote-label')].map((el) => el.textContent);
+    expect(labels).toEqual(['Show signature', 'Show quoted text']);
+  });
+});
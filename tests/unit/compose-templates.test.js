@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeTemplates,
+  mergeTemplates,
+  visibleTemplates,
+  templateValues,
+  fillTemplate,
+  exportTemplatesJson,
+  parseTemplatesJson,
+  addImportedTemplates,
+} from '../../src/utils/compose-templates.ts';
+
+const template = (overrides = {}) => ({
+  id: 't1',
+  name: 'Thanks',
+  subject: '',
+  body: '<p>Hi {{sender.firstName}},</p>',
+  isPlainText: false,
+  createdAt: 1000,
+  updatedAt: 1000,
+  ...overrides,
+});
+
+describe('normalizeTemplates', () => {
+  it('drops entries without a name and fills defaults', () => {
+    const list = normalizeTemplates([{ name: '  Refund ', body: 'x' }, { body: 'no name' }, null]);
+    expect(list).toHaveLength(1);
+    expect(list[0]).toMatchObject({ name: 'Refund', subject: '', body: 'x', isPlainText: false });
+    expect(list[0].id).toMatch(/^tpl_/);
+  });
+});
+
+describe('mergeTemplates', () => {
+  const now = 10 * 24 * 60 * 60 * 1000;
+
+  it('keeps the most recently updated copy', () => {
+    const local = [template({ name: 'Old', updatedAt: 1000 })];
+    const remote = [template({ name: 'New', updatedAt: 2000 })];
+    expect(mergeTemplates(local, remote, now).map((t) => t.name)).toEqual(['New']);
+  });
+
+  it('lets a newer deletion win over an older copy', () => {
+    const local = [template({ updatedAt: 1000 })];
+    const remote = [template({ deleted: true, updatedAt: 2000 })];
+    const merged = mergeTemplates(local, remote, now);
+    expect(merged[0].deleted).toBe(true);
+    expect(visibleTemplates(merged)).toEqual([]);
+  });
+
+  it('forgets old tombstones', () => {
+    const remote = [template({ deleted: true, updatedAt: 1000 })];
+    expect(mergeTemplates([], remote, 1000 + 91 * 24 * 60 * 60 * 1000)).toEqual([]);
+  });
+});
+
+describe('placeholders', () => {
+  const values = templateValues(
+    { sender: '"Jane Doe" <jane@example.com>', subject: 'Order #42', date: '2026-03-05T10:00:00' },
+    { locale: 'en-US' },
+  );
+
+  it('reads the sender and original message', () => {
+    expect(values).toMatchObject({
+      'sender.firstName': 'Jane',
+      'sender.lastName': 'Doe',
+      'sender.name': 'Jane Doe',
+      'sender.email': 'jane@example.com',
+      subject: 'Order #42',
+      date: 'March 5, 2026',
+    });
+  });
+
+  it('uses the address when there is no display name', () => {
+    expect(templateValues({ sender: 'bob@example.com' })['sender.firstName']).toBe('bob');
+  });
+
+  it('handles "Last, First" names', () => {
+    const parsed = templateValues({ sender: { name: 'Doe, Jane', address: 'jane@example.com' } });
+    expect(parsed['sender.firstName']).toBe('Jane');
+    expect(parsed['sender.lastName']).toBe('Doe');
+  });
+
+  it('fills known placeholders and leaves others alone', () => {
+    expect(fillTemplate('Hi {{ sender.firstName }}, re {{subject}} {{unknown}}', values)).toBe(
+      'Hi Jane, re Order #42 {{unknown}}',
+    );
+  });
+
+  it('escapes values in HTML templates', () => {
+    const html = fillTemplate(
+      '<p>{{sender.name}}</p>',
+      { 'sender.name': '<b>x</b>' },
+      { html: true },
+    );
+    expect(html).toBe('<p>&lt;b&gt;x&lt;/b&gt;</p>');
+  });
+});
+
+describe('import and export', () => {
+  it('round-trips templates and skips ones already present', () => {
+    const existing = [template()];
+    const json = exportTemplatesJson([
+      ...existing,
+      template({ id: 't2', name: 'Gone', deleted: true }),
+    ]);
+    const parsed = parseTemplatesJson(json);
+    expect(parsed.map((t) => t.name)).toEqual(['Thanks']);
+
+    const { added } = addImportedTemplates(existing, parsed);
+    expect(added).toBe(0);
+
+    const other = parseTemplatesJson(JSON.stringify([{ name: 'Refund', body: 'Sorry' }]));
+    const result = addImportedTemplates(existing, other);
+    expect(result.added).toBe(1);
+    expect(result.templates).toHaveLength(2);
+  });
+
+  it('rejects files that are not template exports', () => {
+    expect(() => parseTemplatesJson('not json')).toThrow(/not a templates export/);
+    expect(() => parseTemplatesJson('{"templates": []}')).toThrow(/No templates/);
+  });
+});
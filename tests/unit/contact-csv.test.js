@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  contactsToCsv,
+  csvRowToContact,
+  guessCsvMapping,
+  parseCsv,
+} from '../../src/utils/contact-csv.ts';
+
+const ann = {
+  name: 'Ann Marie Lee',
+  email: 'ann@example.com',
+  phone: '555 123 4567',
+  company: 'Acme, Inc.',
+  jobTitle: 'CTO',
+  website: '',
+  birthday: '1990-04-05',
+  notes: 'Met at "the" conference',
+};
+
+describe('parseCsv', () => {
+  it('reads quoted cells with commas, quotes and line breaks', () => {
+    expect(parseCsv('\uFEFFName,Notes\r\n"Lee, Ann","Line one\nsaid ""hi"""\r\n\r\n')).toEqual([
+      ['Name', 'Notes'],
+      ['Lee, Ann', 'Line one\nsaid "hi"'],
+    ]);
+  });
+
+  it('detects semicolon separated files', () => {
+    expect(parseCsv('First Name;E-mail Address\nAnn;ann@example.com')).toEqual([
+      ['First Name', 'E-mail Address'],
+      ['Ann', 'ann@example.com'],
+    ]);
+  });
+});
+
+describe('contactsToCsv', () => {
+  it('writes the Google layout and reads it back', () => {
+    const [headers, row, ...rest] = parseCsv(
+      contactsToCsv([ann, { name: 'Team', kind: 'group' }], 'google'),
+    );
+    expect(rest).toEqual([]);
+    expect(headers).toContain('E-mail 1 - Value');
+    expect(csvRowToContact(row, guessCsvMapping(headers))).toMatchObject({ ...ann, photo: '' });
+  });
+
+  it('writes Outlook dates as M/D/YYYY', () => {
+    const [headers, row] = parseCsv(contactsToCsv([ann], 'outlook'));
+    expect(row[headers.indexOf('Birthday')]).toBe('4/5/1990');
+    expect(row[headers.indexOf('Last Name')]).toBe('Lee');
+    expect(csvRowToContact(row, guessCsvMapping(headers)).birthday).toBe('1990-04-05');
+  });
+});
+
+describe('guessCsvMapping', () => {
+  it('maps common headers and only the first column for each field', () => {
+    expect(
+      guessCsvMapping([
+        'Title',
+        'First Name',
+        'E-mail Address',
+        'E-mail 2 Address',
+        'Mobile Phone',
+      ]),
+    ).toEqual(['', 'firstName', 'email', '', 'phone']);
+  });
+});
+
+describe('csvRowToContact', () => {
+  it('prefers a full name column and ignores empty Outlook birthdays', () => {
+    const mapping = ['name', 'firstName', 'birthday'];
+    expect(csvRowToContact(['Ann Lee', 'Ann', '0/0/00'], mapping)).toMatchObject({
+      name: 'Ann Lee',
+      birthday: '',
+    });
+  });
+});
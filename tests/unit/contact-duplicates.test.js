@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  defaultMergeChoices,
+  findDuplicateClusters,
+  mergeContactFields,
+  normalizeName,
+  normalizePhone,
+} from '../../src/utils/contact-duplicates.ts';
+
+describe('normalizePhone', () => {
+  it('keeps the digits without a country prefix', () => {
+    expect(normalizePhone('+1 (555) 123-4567')).toBe('5551234567');
+    expect(normalizePhone('555.123.4567')).toBe('5551234567');
+    expect(normalizePhone('123')).toBe('');
+  });
+});
+
+describe('normalizeName', () => {
+  it('ignores case, accents, punctuation and word order', () => {
+    expect(normalizeName('Smith, José')).toBe('jose smith');
+    expect(normalizeName('jose SMITH')).toBe('jose smith');
+  });
+});
+
+describe('findDuplicateClusters', () => {
+  it('clusters by email, phone and similar names', () => {
+    const clusters = findDuplicateClusters([
+      { id: '1', name: 'Ann Lee', email: 'Ann@Example.com' },
+      { id: '2', name: 'Annie', email: 'ann@example.com', phone: '555 123 4567', company: 'Acme' },
+      { id: '3', name: 'A. Lee', phone: '+1 555-123-4567' },
+      { id: '4', name: 'Jonathan Smith' },
+      { id: '5', name: 'Smith, Jonathon' },
+      { id: '6', name: 'Someone Else', email: 'else@example.com' },
+    ]);
+    expect(clusters).toEqual([
+      { ids: ['2', '1', '3'], reasons: ['email', 'phone'] },
+      { ids: ['4', '5'], reasons: ['name'] },
+    ]);
+  });
+
+  it('leaves out groups and contacts waiting to be deleted', () => {
+    expect(
+      findDuplicateClusters([
+        { id: '1', name: 'Team', kind: 'group' },
+        { id: '2', name: 'Team', kind: 'group' },
+        { id: '3', email: 'bob@example.com' },
+        { id: '4', email: 'bob@example.com', pending: 'delete' },
+      ]),
+    ).toEqual([]);
+  });
+});
+
+describe('merging duplicates', () => {
+  const contacts = [
+    { id: '1', name: 'Ann Lee', email: 'ann@example.com', phone: '' },
+    { id: '2', name: 'Annie', email: 'ann@work.example', phone: '555 123 4567' },
+  ];
+
+  it('defaults each field to the first contact that has a value', () => {
+    expect(defaultMergeChoices(contacts)).toMatchObject({ name: '1', email: '1', phone: '2' });
+  });
+
+  it('takes each field from the chosen contact', () => {
+    const merged = mergeContactFields(contacts, {
+      ...defaultMergeChoices(contacts),
+      email: '2',
+    });
+    expect(merged).toMatchObject({
+      name: 'Ann Lee',
+      email: 'ann@work.example',
+      phone: '555 123 4567',
+      company: '',
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { expandContactGroup, normalizeGroupMembers } from '../../src/utils/contact-groups.ts';
+import { applyContactEdit, contactFromApi } from '../../src/utils/contact-sync-helpers.ts';
+import { generateVCard, parseVCard } from '../../src/utils/vcard.ts';
+
+const contacts = [
+  { id: 'c1', email: 'ann@example.com', name: 'Ann' },
+  { id: 'c2', email: 'ben@example.com', name: 'Ben' },
+  { id: 'g2', email: '', name: 'Leads', kind: 'group', members: ['urn:uuid:c2', 'urn:uuid:g1'] },
+];
+
+describe('contact group vCards', () => {
+  it('writes KIND:group with MEMBER entries and reads them back', () => {
+    const card = generateVCard({
+      kind: 'group',
+      name: 'Design team',
+      members: ['ann@example.com', 'urn:uuid:c2'],
+    });
+    expect(card).toContain('VERSION:4.0');
+    expect(card).toContain('KIND:group');
+    expect(card).toContain('MEMBER:mailto:ann@example.com');
+    expect(card).toContain('MEMBER:urn:uuid:c2');
+
+    const parsed = parseVCard(card);
+    expect(parsed).toMatchObject({
+      kind: 'group',
+      name: 'Design team',
+      members: ['ann@example.com', 'urn:uuid:c2'],
+    });
+  });
+
+  it('reads Apple address book groups', () => {
+    const parsed = parseVCard(
+      'BEGIN:VCARD\r\nVERSION:3.0\r\nFN:Team\r\nX-ADDRESSBOOKSERVER-KIND:group\r\nX-ADDRESSBOOKSERVER-MEMBER:urn:uuid:c1\r\nEND:VCARD',
+    );
+    expect(parsed).toMatchObject({ kind: 'group', members: ['urn:uuid:c1'] });
+  });
+
+  it('maps group cards from the API and keeps members through edits', () => {
+    const content = generateVCard({ kind: 'group', name: 'Team', members: ['ann@example.com'] });
+    const group = contactFromApi({ id: 'g1', full_name: 'Team', content }, 'me@example.com');
+    expect(group).toMatchObject({ kind: 'group', members: ['ann@example.com'], email: '' });
+
+    const edited = applyContactEdit(
+      group,
+      { name: 'Team', members: ['ann@example.com', 'ben@example.com'] },
+      { account: 'me@example.com', localId: 'unused' },
+    );
+    expect(parseVCard(edited.content).members).toEqual(['ann@example.com', 'ben@example.com']);
+  });
+});
+
+describe('normalizeGroupMembers', () => {
+  it('trims and drops empty and repeated members', () => {
+    expect(normalizeGroupMembers([' ann@example.com ', 'ANN@example.com', '', 5])).toEqual([
+      'ann@example.com',
+    ]);
+  });
+});
+
+describe('expandContactGroup', () => {
+  it('resolves references and plain addresses in member order', () => {
+    const group = {
+      id: 'g1',
+      name: 'Team',
+      kind: 'group',
+      members: ['urn:uuid:c2', 'ann@example.com', 'new@example.com', 'urn:uuid:missing'],
+    };
+    expect(expandContactGroup(group, contacts)).toEqual([
+      { email: 'ben@example.com', name: 'Ben' },
+      { email: 'ann@example.com', name: 'Ann' },
+      { email: 'new@example.com', name: '' },
+    ]);
+  });
+
+  it('expands nested groups once, without repeats', () => {
+    const team = {
+      id: 'g1',
+      name: 'Team',
+      kind: 'group',
+      members: ['urn:uuid:g2', 'ben@example.com'],
+    };
+    expect(expandContactGroup(team, [...contacts, team])).toEqual([
+      { email: 'ben@example.com', name: 'Ben' },
+    ]);
+  });
+});
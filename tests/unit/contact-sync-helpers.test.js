@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  contactFromApi,
+  applyContactEdit,
+  reconcileContact,
+  planContactSync,
+  resolveContactConflict,
+  changedContactFields,
+} from '../../src/utils/contact-sync-helpers.ts';
+import { generateVCard, vCardFields } from '../../src/utils/vcard.ts';
+
+const ACCOUNT = 'alice@example.com';
+const edit = (localId) => ({ account: ACCOUNT, localId });
+
+const serverCopy = (id, etag, fields = {}) => ({
+  ...applyContactEdit(null, { name: 'Bob', email: 'bob@example.com', ...fields }, edit(id)),
+  etag,
+  pending: null,
+});
+
+describe('contactFromApi', () => {
+  it('reads API fields and falls back to the vCard', () => {
+    const content = generateVCard({ name: 'Bob Smith', email: 'bob@example.com', company: 'Acme' });
+    const contact = contactFromApi(
+      { Result: { id: 42, content, etag: '"v1"', phone_numbers: [{ value: '555' }] } },
+      ACCOUNT,
+    );
+    expect(contact).toMatchObject({
+      account: ACCOUNT,
+      id: '42',
+      name: 'Bob Smith',
+      email: 'bob@example.com',
+      phone: '555',
+      company: 'Acme',
+      etag: '"v1"',
+      pending: null,
+    });
+  });
+
+  it('ignores records without an id', () => {
+    expect(contactFromApi({ full_name: 'Nobody' }, ACCOUNT)).toBeNull();
+  });
+});
+
+describe('applyContactEdit', () => {
+  it('marks new contacts as pending creates under the local id', () => {
+    const record = applyContactEdit(
+      null,
+      { name: ' Bob ', email: 'bob@example.com' },
+      edit('local-1'),
+    );
+    expect(record).toMatchObject({ id: 'local-1', name: 'Bob', pending: 'create', baseEtag: '' });
+    expect(vCardFields(record.content).email).toBe('bob@example.com');
+  });
+
+  it('keeps the original base etag across repeated offline edits', () => {
+    const first = applyContactEdit(serverCopy('1', 'v1'), { name: 'Bobby' }, edit('unused'));
+    const second = applyContactEdit({ ...first, etag: 'v1' }, { name: 'Robert' }, edit('unused'));
+    expect(first).toMatchObject({ id: '1', pending: 'update', baseEtag: 'v1' });
+    expect(second).toMatchObject({ name: 'Robert', pending: 'update', baseEtag: 'v1' });
+  });
+});
+
+describe('reconcileContact', () => {
+  const pending = { ...serverCopy('1', 'v1'), pending: 'update', baseEtag: 'v1' };
+
+  it('stores new or changed server copies of unchanged contacts', () => {
+    expect(reconcileContact(null, serverCopy('1', 'v1'))).toBe('put');
+    expect(reconcileContact(serverCopy('1', 'v1'), serverCopy('1', 'v2'))).toBe('put');
+    expect(reconcileContact(serverCopy('1', 'v1'), serverCopy('1', 'v1'))).toBe('skip');
+  });
+
+  it('flags a conflict only when the server moved past the base etag', () => {
+    expect(reconcileContact(pending, serverCopy('1', 'v1'))).toBe('skip');
+    expect(reconcileContact(pending, serverCopy('1', 'v2'))).toBe('conflict');
+  });
+});
+
+describe('planContactSync', () => {
+  it('turns a server change to a pending contact into a conflict with both versions', () => {
+    const local = { ...serverCopy('1', 'v1', { name: 'Mine' }), pending: 'update', baseEtag: 'v1' };
+    const server = serverCopy('1', 'v2', { name: 'Theirs' });
+    const { put } = planContactSync([local], [server], { now: 5 });
+    expect(put).toHaveLength(1);
+    expect(put[0]).toMatchObject({ name: 'Mine', conflict: { contact: server, detectedAt: 5 } });
+    expect(changedContactFields(put[0], put[0].conflict.contact)).toEqual([
+      { key: 'name', label: 'Name' },
+    ]);
+  });
+
+  it('removes contacts deleted on the server unless they have local changes', () => {
+    const clean = serverCopy('1', 'v1');
+    const edited = { ...serverCopy('2', 'v1'), pending: 'update', baseEtag: 'v1' };
+    const created = { ...serverCopy('local-3', ''), pending: 'create' };
+    const { put, remove } = planContactSync([clean, edited, created], [], { now: 7 });
+    expect(remove).toEqual(['1']);
+    expect(put).toEqual([{ ...edited, conflict: { contact: null, detectedAt: 7 } }]);
+  });
+
+  it('leaves contacts missing from a single event alone', () => {
+    expect(planContactSync([serverCopy('1', 'v1')], [], { complete: false })).toEqual({
+      put: [],
+      remove: [],
+    });
+  });
+});
+
+describe('resolveContactConflict', () => {
+  const server = serverCopy('1', 'v2', { name: 'Theirs' });
+  const local = {
+    ...serverCopy('1', 'v1', { name: 'Mine' }),
+    pending: 'update',
+    baseEtag: 'v1',
+    conflict: { contact: server, detectedAt: 1 },
+  };
+
+  it('re-bases the local version on the server copy', () => {
+    expect(resolveContactConflict(local, 'mine')).toMatchObject({
+      name: 'Mine',
+      pending: 'update',
+      baseEtag: 'v2',
+      conflict: null,
+    });
+    expect(resolveContactConflict(local, 'server')).toBe(server);
+  });
+
+  it('re-creates or drops a contact deleted on the server', () => {
+    const deleted = { ...local, conflict: { contact: null, detectedAt: 1 } };
+    expect(resolveContactConflict(deleted, 'mine')).toMatchObject({ pending: 'create', etag: '' });
+    expect(resolveContactConflict(deleted, 'server')).toBeNull();
+  });
+});
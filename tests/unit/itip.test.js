@@ -0,0 +1,253 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyCancellation,
+  applyInvitation,
+  applyReply,
+  buildInvitationReply,
+  findConflicts,
+  invitationState,
+  keepParticipation,
+  parseInvitation,
+  repliedBy,
+  setAttendeeStatus,
+  storedResponse,
+  summarizeAttendees,
+} from '../../src/utils/itip.ts';
+
+const calendar = (method, ...events) =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    ...(method ? [`METHOD:${method}`] : []),
+    ...events,
+    'END:VCALENDAR',
+  ].join('\r\n');
+
+const vevent = (...lines) =>
+  [
+    'BEGIN:VEVENT',
+    'UID:meeting-1@example.com',
+    'ORGANIZER;CN=Olga:mailto:olga@example.com',
+    'ATTENDEE;CN=Me;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:Me@Example.com',
+    'ATTENDEE;PARTSTAT=ACCEPTED:mailto:sam@example.com',
+    ...lines,
+    'END:VEVENT',
+  ].join('\r\n');
+
+const invite = (...lines) =>
+  calendar(
+    'REQUEST',
+    vevent(
+      'DTSTART:20250210T150000Z',
+      'DTEND:20250210T160000Z',
+      'SUMMARY:Planning\\, Q2',
+      'SEQUENCE:1',
+      ...lines,
+    ),
+  );
+
+const me = ['me@example.com'];
+
+describe('parseInvitation', () => {
+  it('reads the method, times and participants', () => {
+    const invitation = parseInvitation(invite('LOCATION:Room 4'));
+    expect(invitation).toMatchObject({
+      method: 'REQUEST',
+      uid: 'meeting-1@example.com',
+      sequence: 1,
+      recurrenceId: null,
+      summary: 'Planning, Q2',
+      location: 'Room 4',
+      cancelled: false,
+      organizer: { email: 'olga@example.com', name: 'Olga' },
+    });
+    expect(invitation.start.toISOString()).toBe('2025-02-10T15:00:00.000Z');
+    expect(invitation.attendees).toEqual([
+      { email: 'me@example.com', name: 'Me', partstat: 'NEEDS-ACTION', rsvp: true },
+      { email: 'sam@example.com', name: '', partstat: 'ACCEPTED', rsvp: false },
+    ]);
+  });
+
+  it('marks cancellations', () => {
+    const cancel = invite().replace('METHOD:REQUEST', 'METHOD:CANCEL');
+    expect(parseInvitation(cancel)).toMatchObject({ method: 'CANCEL', cancelled: true });
+    expect(parseInvitation('BEGIN:VCALENDAR\r\nEND:VCALENDAR')).toBeNull();
+  });
+});
+
+describe('comparing with the stored event', () => {
+  const stored = invite().replace('METHOD:REQUEST\r\n', '');
+
+  it('compares SEQUENCE', () => {
+    expect(invitationState(parseInvitation(invite()), null)).toBe('new');
+    expect(invitationState(parseInvitation(invite()), stored)).toBe('current');
+    expect(
+      invitationState(parseInvitation(invite().replace('SEQUENCE:1', 'SEQUENCE:2')), stored),
+    ).toBe('updated');
+    expect(
+      invitationState(parseInvitation(invite().replace('SEQUENCE:1', 'SEQUENCE:0')), stored),
+    ).toBe('outdated');
+  });
+
+  it('finds overlapping events, including recurring ones', () => {
+    const events = [
+      { id: 'same', start: '2025-02-10T15:00:00Z', end: '2025-02-10T16:00:00Z', ical: stored },
+      { id: 'overlap', start: '2025-02-10T15:30:00Z', end: '2025-02-10T17:00:00Z' },
+      { id: 'before', start: '2025-02-10T14:00:00Z', end: '2025-02-10T15:00:00Z' },
+      {
+        id: 'weekly',
+        start: '2025-02-03T15:45:00Z',
+        end: '2025-02-03T16:15:00Z',
+        ical: calendar(
+          '',
+          'BEGIN:VEVENT\r\nUID:weekly\r\nDTSTART:20250203T154500Z\r\nDTEND:20250203T161500Z\r\nRRULE:FREQ=WEEKLY\r\nEND:VEVENT',
+        ),
+      },
+    ];
+    expect(findConflicts(parseInvitation(invite()), events).map((e) => e.id)).toEqual([
+      'overlap',
+      'weekly',
+    ]);
+  });
+});
+
+describe('answering', () => {
+  it('builds a reply with only the replying attendee', () => {
+    const reply = buildInvitationReply(
+      parseInvitation(invite('DESCRIPTION:Agenda')),
+      'me@example.com',
+      'TENTATIVE',
+      new Date('2025-02-01T00:00:00Z'),
+    );
+    expect(reply).toContain('METHOD:REPLY');
+    expect(reply).toContain('DTSTAMP:20250201T000000Z');
+    expect(reply).toContain('SEQUENCE:1');
+    expect(reply).toContain('ORGANIZER;CN=Olga:mailto:olga@example.com');
+    expect(reply).toContain('ATTENDEE;CN=Me;PARTSTAT=TENTATIVE:mailto:Me@Example.com');
+    expect(reply).not.toContain('sam@example.com');
+    expect(reply).not.toContain('DESCRIPTION');
+  });
+
+  it('sets the PARTSTAT of the stored event', () => {
+    const accepted = setAttendeeStatus(invite(), me, 'ACCEPTED');
+    expect(storedResponse(accepted, me)).toBe('ACCEPTED');
+    expect(storedResponse(accepted, ['sam@example.com'])).toBe('ACCEPTED');
+    expect(accepted).not.toContain('RSVP');
+  });
+
+  it('saves the event without METHOD, or as an override of a stored series', () => {
+    const invitation = parseInvitation(invite());
+    const saved = applyInvitation(null, invitation, me, 'DECLINED');
+    expect(saved).not.toContain('METHOD');
+    expect(storedResponse(saved, me)).toBe('DECLINED');
+
+    const series = calendar(
+      '',
+      vevent('DTSTART:20250203T150000Z', 'DTEND:20250203T160000Z', 'RRULE:FREQ=WEEKLY'),
+    );
+    const occurrence = parseInvitation(invite('RECURRENCE-ID:20250210T150000Z'));
+    const updated = applyInvitation(series, occurrence, me, 'ACCEPTED');
+    expect(updated.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+    expect(updated).toContain('RRULE:FREQ=WEEKLY');
+  });
+});
+
+describe('applyCancellation', () => {
+  it('removes a cancelled occurrence, or the whole event', () => {
+    const series = calendar(
+      '',
+      vevent('DTSTART:20250203T150000Z', 'DTEND:20250203T160000Z', 'RRULE:FREQ=WEEKLY'),
+    );
+    const cancel = (...lines) =>
+      parseInvitation(invite(...lines).replace('METHOD:REQUEST', 'METHOD:CANCEL'));
+    expect(applyCancellation(series, cancel('RECURRENCE-ID:20250210T150000Z'))).toContain(
+      'EXDATE:20250210T150000Z',
+    );
+    expect(applyCancellation(series, cancel())).toBeNull();
+  });
+});
+
+describe('replies to events we organize', () => {
+  const olga = ['olga@example.com'];
+  const stored = invite().replace('METHOD:REQUEST\r\n', '');
+  const reply = (partstat, ...lines) =>
+    parseInvitation(
+      buildInvitationReply(parseInvitation(invite(...lines)), 'sam@example.com', partstat),
+    );
+  const replyAt = (partstat, iso) =>
+    parseInvitation(
+      buildInvitationReply(parseInvitation(invite()), 'sam@example.com', partstat, new Date(iso)),
+    );
+
+  it("sets the attendee's PARTSTAT, only for the organizer", () => {
+    const updated = applyReply(stored, reply('DECLINED'), olga);
+    expect(storedResponse(updated, ['sam@example.com'])).toBe('DECLINED');
+    expect(storedResponse(updated, me)).toBe('NEEDS-ACTION');
+    expect(applyReply(stored, reply('DECLINED'), me)).toBeNull();
+    const accepted = reply('ACCEPTED');
+    expect(applyReply(applyReply(stored, accepted, olga), accepted, olga)).toBeNull();
+  });
+
+  it('names the attendee who answers', () => {
+    expect(repliedBy(reply('DECLINED'))).toMatchObject({
+      email: 'sam@example.com',
+      partstat: 'DECLINED',
+    });
+  });
+
+  it('ignores someone who was not invited', () => {
+    const forwarded = parseInvitation(
+      buildInvitationReply(parseInvitation(invite()), 'kim@example.com', 'ACCEPTED'),
+    );
+    expect(applyReply(stored, forwarded, olga)).toBeNull();
+  });
+
+  it('ignores a reply to an older version of the event', () => {
+    const rescheduled = stored.replace('SEQUENCE:1', 'SEQUENCE:2');
+    expect(applyReply(rescheduled, reply('DECLINED'), olga)).toBeNull();
+  });
+
+  it('keeps a newer reply when an older one arrives late', () => {
+    const declined = applyReply(stored, replyAt('DECLINED', '2025-02-05T10:00:00Z'), olga);
+    expect(declined).toContain('X-CALENDARSERVER-DTSTAMP=20250205T100000Z');
+    expect(applyReply(declined, replyAt('ACCEPTED', '2025-02-04T10:00:00Z'), olga)).toBeNull();
+    const accepted = applyReply(declined, replyAt('ACCEPTED', '2025-02-06T10:00:00Z'), olga);
+    expect(storedResponse(accepted, ['sam@example.com'])).toBe('ACCEPTED');
+  });
+
+  it('updates the override of a replied occurrence', () => {
+    const series = calendar(
+      '',
+      vevent('DTSTART:20250203T150000Z', 'DTEND:20250203T160000Z', 'RRULE:FREQ=WEEKLY'),
+      vevent('RECURRENCE-ID:20250210T150000Z', 'DTSTART:20250210T170000Z'),
+    );
+    const updated = applyReply(series, reply('DECLINED', 'RECURRENCE-ID:20250210T150000Z'), olga);
+    expect(storedResponse(updated, ['sam@example.com'])).toBe('ACCEPTED');
+    expect(updated.match(/PARTSTAT=DECLINED/g)).toHaveLength(1);
+  });
+
+  it('counts responses without the organizer', () => {
+    expect(
+      summarizeAttendees(
+        calendar('', vevent('ATTENDEE;PARTSTAT=ACCEPTED:mailto:olga@example.com')),
+      ),
+    ).toMatchObject({ accepted: 1, tentative: 0, declined: 0, pending: 1 });
+  });
+
+  it('keeps responses and the organizer when the event is edited', () => {
+    const edited = calendar(
+      '',
+      [
+        'BEGIN:VEVENT',
+        'UID:meeting-1@example.com',
+        'DTSTART:20250210T160000Z',
+        'ATTENDEE;CN=sam@example.com:mailto:sam@example.com',
+        'ATTENDEE;CN=new@example.com:mailto:new@example.com',
+        'END:VEVENT',
+      ].join('\r\n'),
+    );
+    const kept = keepParticipation(stored, edited);
+    expect(kept).toContain('ORGANIZER;CN=Olga:mailto:olga@example.com');
+    expect(summarizeAttendees(kept)).toMatchObject({ accepted: 1, pending: 1 });
+  });
+});
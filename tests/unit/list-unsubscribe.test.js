@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseListId,
+  parseMailingList,
+  unsubscribeMethod,
+  groupSubscriptions,
+  listQuery,
+} from '../../src/utils/list-unsubscribe.ts';
+import { normalizeMessageForCache } from '../../src/utils/sync-helpers.ts';
+import { buildQueryAst, matchesQuery } from '../../src/utils/search-query.js';
+import { normalizeRule, buildSieveScript } from '../../src/utils/mail-rules-helpers.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('parseMailingList', () => {
+  it('reads plain header maps', () => {
+    const list = parseMailingList({
+      headers: {
+        'List-Id': '"Weekly News" <News.Example.com>',
+        'List-Unsubscribe': '<mailto:leave@example.com?subject=stop>, <https://example.com/u/1>',
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      },
+    });
+    expect(list).toEqual({
+      id: 'news.example.com',
+      name: 'Weekly News',
+      unsubscribeUrl: 'https://example.com/u/1',
+      unsubscribeMailto: 'mailto:leave@example.com?subject=stop',
+      oneClick: true,
+    });
+    expect(unsubscribeMethod(list)).toBe('one-click');
+  });
+
+  it("reads mailparser's structured list header under nodemailer", () => {
+    const list = parseMailingList({
+      nodemailer: {
+        headers: {
+          list: {
+            id: { id: 'deals.shop.example', name: 'Deals' },
+            unsubscribe: { url: 'http://shop.example/leave', mail: 'leave@shop.example' },
+          },
+        },
+      },
+    });
+    expect(list).toMatchObject({
+      id: 'deals.shop.example',
+      name: 'Deals',
+      unsubscribeMailto: 'mailto:leave@shop.example',
+      oneClick: false,
+    });
+    expect(unsubscribeMethod(list)).toBe('mailto');
+  });
+
+  it('reads folded raw headers and header lines', () => {
+    expect(
+      parseMailingList({
+        headers: 'Subject: Hi\r\nList-Unsubscribe:\r\n <https://example.com/leave>\r\n',
+      }),
+    ).toMatchObject({ id: '', unsubscribeUrl: 'https://example.com/leave' });
+    expect(
+      parseMailingList({ headerLines: [{ key: 'list-id', line: 'List-Id: dev.example.org' }] }),
+    ).toMatchObject({ id: 'dev.example.org', name: '' });
+  });
+
+  it('only allows one-click over HTTPS', () => {
+    const list = parseMailingList({
+      headers: {
+        'list-unsubscribe': '<http://example.com/u>',
+        'list-unsubscribe-post': 'List-Unsubscribe=One-Click',
+      },
+    });
+    expect(list.oneClick).toBe(false);
+    expect(unsubscribeMethod(list)).toBe('link');
+  });
+
+  it('returns null without list headers', () => {
+    expect(parseMailingList({ headers: { subject: 'Hi' } })).toBeNull();
+    expect(parseListId('plain.example.com')).toEqual({ id: 'plain.example.com', name: '' });
+  });
+
+  it('is stored on cached messages', () => {
+    const message = normalizeMessageForCache(
+      { id: 'm1', nodemailer: { headers: { 'list-id': '<news.example.com>' } } },
+      'INBOX',
+      'me@example.com',
+    );
+    expect(message.list?.id).toBe('news.example.com');
+  });
+});
+
+describe('groupSubscriptions', () => {
+  const now = Date.UTC(2026, 5, 1);
+  const news = (overrides) => ({
+    list: { id: 'news.example.com', name: '', unsubscribeUrl: null, unsubscribeMailto: null },
+    from: 'News <news@example.com>',
+    is_unread: false,
+    ...overrides,
+  });
+
+  it('counts messages per list with the latest unsubscribe details', () => {
+    const latest = { id: 'news.example.com', name: 'News', unsubscribeUrl: 'https://x.test/u' };
+    const [group, other] = groupSubscriptions(
+      [
+        news({ dateMs: now - 60 * DAY, is_unread: true }),
+        news({ dateMs: now - DAY, list: latest }),
+        news({ dateMs: now - 30 * DAY }),
+        { list: { id: 'other.example.com' }, dateMs: now },
+        { list: null, dateMs: now },
+      ],
+      now,
+    );
+    expect(group).toMatchObject({
+      id: 'news.example.com',
+      name: 'News',
+      count: 3,
+      unread: 1,
+      firstReceived: now - 60 * DAY,
+      lastReceived: now - DAY,
+      perMonth: 1.5,
+    });
+    expect(group.list).toBe(latest);
+    expect(other).toMatchObject({ id: 'other.example.com', count: 1, perMonth: 1 });
+  });
+});
+
+describe('list rules', () => {
+  it('matches list:<id> against the cached List-Id', () => {
+    const ast = buildQueryAst(listQuery('news.example.com'));
+    expect(matchesQuery({ list: { id: 'news.example.com' } }, ast)).toBe(true);
+    expect(matchesQuery({ list: null }, ast)).toBe(false);
+  });
+
+  it('exports list rules to Sieve', () => {
+    const script = buildSieveScript([
+      normalizeRule({ query: 'list:news.example.com', actions: [{ type: 'delete' }] }),
+    ]);
+    expect(script).toContain('header :contains "list-id" "news.example.com"');
+  });
+});
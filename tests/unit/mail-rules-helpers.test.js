@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  rulesMetaKey,
+  normalizeRule,
+  evaluateRules,
+  buildSieveScript,
+} from '../../src/utils/mail-rules-helpers.js';
+
+const makeRule = (overrides = {}) =>
+  normalizeRule({
+    query: 'from:billing@example.com',
+    actions: [{ type: 'move', value: 'Receipts' }],
+    ...overrides,
+  });
+
+const invoice = {
+  id: '1',
+  from: 'Billing <billing@example.com>',
+  subject: 'Your invoice',
+  flags: [],
+  labels: [],
+  is_unread: true,
+  has_attachment: true,
+  size: 2 * 1024 * 1024,
+};
+
+describe('rulesMetaKey', () => {
+  it('is scoped per account', () => {
+    expect(rulesMetaKey('a@example.com')).toBe('mail_rules_a@example.com');
+    expect(rulesMetaKey()).toBe('mail_rules_default');
+  });
+});
+
+describe('normalizeRule', () => {
+  it('fills in defaults', () => {
+    const rule = makeRule();
+    expect(rule.id).toMatch(/^rule_/);
+    expect(rule.name).toBe('from:billing@example.com');
+    expect(rule.enabled).toBe(true);
+    expect(rule.stop).toBe(false);
+  });
+
+  it('rejects missing conditions, actions and values', () => {
+    expect(() => makeRule({ query: ' ' })).toThrow('condition');
+    expect(() => makeRule({ actions: [] })).toThrow('action');
+    expect(() => makeRule({ actions: [{ type: 'archive' }] })).toThrow('Unknown');
+    expect(() => makeRule({ actions: [{ type: 'label' }] })).toThrow('value');
+    expect(() => makeRule({ actions: [{ type: 'forward', value: 'nobody' }] })).toThrow(
+      'forwarding',
+    );
+  });
+});
+
+describe('evaluateRules', () => {
+  it('combines the actions of every matching rule in order', () => {
+    const rules = [
+      makeRule({
+        query: 'subject:invoice has:attachment',
+        actions: [{ type: 'label', value: 'bills' }],
+      }),
+      makeRule({ actions: [{ type: 'move', value: 'Receipts' }, { type: 'markRead' }] }),
+      makeRule({
+        query: 'size:>1mb',
+        actions: [{ type: 'move', value: 'Large' }, { type: 'star' }],
+      }),
+      makeRule({ query: 'from:someone-else', actions: [{ type: 'delete' }] }),
+    ];
+    const plan = evaluateRules(rules, invoice);
+    expect(plan.ruleIds).toEqual([rules[0].id, rules[1].id, rules[2].id]);
+    expect(plan.labels).toEqual(['bills']);
+    expect(plan.moveTo).toBe('Receipts');
+    expect(plan.markRead).toBe(true);
+    expect(plan.star).toBe(true);
+    expect(plan.delete).toBe(false);
+  });
+
+  it('honours stop, disabled rules and negated clauses', () => {
+    const rules = [
+      makeRule({ enabled: false, actions: [{ type: 'delete' }] }),
+      makeRule({ query: 'from:billing -label:paid', stop: true }),
+      makeRule({ actions: [{ type: 'star' }] }),
+    ];
+    const plan = evaluateRules(rules, invoice);
+    expect(plan.ruleIds).toEqual([rules[1].id]);
+    expect(plan.star).toBe(false);
+    expect(evaluateRules(rules, { ...invoice, labels: ['paid'] })?.ruleIds).toEqual([rules[2].id]);
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(evaluateRules([makeRule({ query: 'subject:receipt' })], invoice)).toBeNull();
+  });
+});
+
+describe('buildSieveScript', () => {
+  it('renders conditions and actions', () => {
+    const script = buildSieveScript([
+      makeRule({
+        name: 'Bills',
+        query: '(from:billing OR subject:"your invoice") size:>=1kb',
+        actions: [
+          { type: 'label', value: 'bills' },
+          { type: 'markRead' },
+          { type: 'forward', value: 'me@example.org' },
+          { type: 'move', value: 'Receipts' },
+        ],
+      }),
+    ]);
+    expect(script).toContain('require ["copy", "fileinto", "imap4flags"];');
+    expect(script).toContain(
+      'if allof (anyof (header :contains "from" "billing", header :contains "subject" "your invoice"), size :over 1023) {',
+    );
+    expect(script).toContain('  addflag ["bills", "\\\\Seen"];');
+    expect(script).toContain('  redirect :copy "me@example.org";');
+    expect(script).toContain('  fileinto "Receipts";\n  stop;');
+  });
+
+  it('files deleted mail into Trash and skips rules Sieve cannot express', () => {
+    const script = buildSieveScript([
+      makeRule({ query: `NOT from:'say "hi"'`, actions: [{ type: 'delete' }] }),
+      makeRule({ name: 'Old', query: 'before:2020-01-01' }),
+      makeRule({ name: 'Off', enabled: false }),
+    ]);
+    expect(script).toContain('if not header :contains "from" "say \\"hi\\"" {');
+    expect(script).toContain('fileinto "Trash";');
+    expect(script).toContain('# Skipped "Old"');
+    expect(script).not.toContain('Off');
+  });
+});
@@ -4,6 +4,8 @@ import {
   getSignedBy,
   getSecurityInfo,
   formatSecurityStatus,
+  getPgpSignatureInfo,
+  getSmimeInfo,
 } from '../../../../src/svelte/mailbox/utils/security-helpers';
 
 describe('security-helpers', () => {
@@ -278,4 +280,92 @@ describe('security-helpers', () => {
       expect(result).toBe('SPF: Pass · DKIM: Pass');
     });
   });
+
+  describe('getPgpSignatureInfo', () => {
+    it('returns null for unsigned messages', () => {
+      expect(getPgpSignatureInfo(null)).toBeNull();
+      expect(getPgpSignatureInfo({ status: 'unsigned' })).toBeNull();
+    });
+
+    it('marks signatures from verified keys as good', () => {
+      const result = getPgpSignatureInfo({
+        status: 'signed',
+        signer: 'Alice <alice@example.com>',
+        trust: 'verified',
+        senderMatch: true,
+      });
+
+      expect(result.tone).toBe('good');
+      expect(result.label).toBe('Verified signature');
+      expect(result.detail).toContain('Alice <alice@example.com>');
+    });
+
+    it('keeps valid signatures from unverified keys neutral', () => {
+      const result = getPgpSignatureInfo({ status: 'signed', signer: 'Bob', trust: 'unknown' });
+
+      expect(result.tone).toBe('neutral');
+      expect(result.label).toBe('Signed');
+    });
+
+    it('warns when the signing key does not belong to the sender', () => {
+      const result = getPgpSignatureInfo({
+        status: 'signed',
+        signer: 'Mallory',
+        trust: 'verified',
+        senderMatch: false,
+      });
+
+      expect(result.tone).toBe('warning');
+    });
+
+    it('reports unknown keys with their key ID', () => {
+      const result = getPgpSignatureInfo({ status: 'unknown-key', keyId: 'abcdef0123456789' });
+
+      expect(result.label).toBe('Signed (unknown key)');
+      expect(result.detail).toContain('ABCDEF0123456789');
+    });
+
+    it('flags bad signatures', () => {
+      expect(getPgpSignatureInfo({ status: 'bad' }).tone).toBe('bad');
+    });
+  });
+
+  describe('getSmimeInfo', () => {
+    it('returns null for messages without S/MIME', () => {
+      expect(getSmimeInfo(null)).toBeNull();
+      expect(getSmimeInfo({ encrypted: false, signature: 'unsigned' })).toBeNull();
+    });
+
+    it('marks trusted signatures as good', () => {
+      const result = getSmimeInfo({
+        encrypted: true,
+        signature: 'signed',
+        signer: 'alice@example.com',
+        issuer: 'Example CA',
+        chainValid: true,
+        trusted: true,
+      });
+
+      expect(result.tone).toBe('good');
+      expect(result.label).toBe('Encrypted, S/MIME signed');
+      expect(result.detail).toContain('Example CA');
+    });
+
+    it('warns about expired certificates and sender mismatches', () => {
+      expect(
+        getSmimeInfo({ encrypted: false, signature: 'signed', chainValid: true, expired: true })
+          .tone,
+      ).toBe('warning');
+      expect(getSmimeInfo({ encrypted: false, signature: 'signed', senderMatch: false }).tone).toBe(
+        'warning',
+      );
+    });
+
+    it('reports locked and badly signed messages', () => {
+      expect(getSmimeInfo({ encrypted: true, locked: true, signature: 'unsigned' }).label).toBe(
+        'S/MIME encrypted',
+      );
+      expect(getSmimeInfo({ encrypted: false, signature: 'bad' }).tone).toBe('bad');
+    });
+  });
 });
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { renderMarkdown } from '../../src/utils/markdown-compose.js';
+
+const parse = (html) => new DOMParser().parseFromString(html, 'text/html');
+
+describe('renderMarkdown', () => {
+  it('returns nothing for an empty message', () => {
+    expect(renderMarkdown('')).toBe('');
+    expect(renderMarkdown('  \n')).toBe('');
+  });
+
+  it('renders GitHub-flavoured Markdown', () => {
+    const html = renderMarkdown('# Hi\n\nSome **bold** and ~~old~~ text.\n\n- one\n- two');
+    expect(html).toContain('<h1>Hi</h1>');
+    expect(html).toContain('<strong>bold</strong>');
+    expect(html).toContain('<del>old</del>');
+    expect(html).toContain('<li>one</li>');
+  });
+
+  it('styles fenced code blocks inline and escapes their content', () => {
+    const doc = parse(renderMarkdown('```js\nif (a < b) run();\n```'));
+    const pre = doc.querySelector('pre');
+    expect(pre.getAttribute('style')).toContain('background-color: #f6f8fa');
+    expect(pre.getAttribute('style')).toContain('white-space: pre');
+    expect(pre.querySelector('code').className).toBe('language-js');
+    expect(pre.textContent).toBe('if (a < b) run();');
+  });
+
+  it('styles tables inline, keeping column alignment', () => {
+    const doc = parse(renderMarkdown('| Name | Qty |\n| :--- | ---: |\n| Tea | 2 |'));
+    expect(doc.querySelector('table').getAttribute('style')).toContain('border-collapse: collapse');
+    expect(doc.querySelector('th').getAttribute('style')).toContain('font-weight: 600');
+    const cells = doc.querySelectorAll('td');
+    expect(cells[0].getAttribute('style')).toContain('text-align: left');
+    expect(cells[1].getAttribute('style')).toContain('text-align: right');
+  });
+
+  it('sanitizes raw HTML', () => {
+    const html = renderMarkdown('Hello <img src=x onerror="alert(1)"><script>alert(1)</script>');
+    expect(html).not.toContain('onerror');
+    expect(html).not.toContain('<script');
+  });
+
+  it('keeps a signature as written, before the quoted message', () => {
+    const doc = parse(renderMarkdown('Thanks\n\n-- \nJane *Doe*\nExample\n\n> quoted'));
+    const signature = doc.querySelector('.fe-signature');
+    expect(signature.innerHTML).toBe('<p>-- <br>Jane *Doe*<br>Example</p>');
+    expect(doc.querySelector('blockquote').textContent.trim()).toBe('quoted');
+  });
+});
@@ -95,6 +95,12 @@ describe('sortMessages', () => {
     expect(sorted[2].id).toBe(2);
   });
 
+  it('sorts a message woken from a snooze by when it woke', () => {
+    const woken = { id: 4, date: '2023-12-01', wokenAt: Date.parse('2024-01-04') };
+    const sorted = sortMessages([...msgs, woken]);
+    expect(sorted.map((msg) => msg.id)).toEqual([4, 1, 3, 2]);
+  });
+
   it('sorts oldest first', () => {
     const sorted = sortMessages([...msgs], 'oldest');
     expect(sorted[0].id).toBe(2);
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const meta = new Map();
+
+vi.mock('../../src/utils/db', () => ({
+  db: {
+    meta: {
+      get: vi.fn(async (key) => meta.get(key)),
+      put: vi.fn(async (record) => {
+        meta.set(record.key, structuredClone(record));
+      }),
+    },
+  },
+}));
+
+vi.mock('../../src/utils/storage', () => ({
+  Local: { get: vi.fn(() => 'me@example.com') },
+  Accounts: { getAll: vi.fn(() => []) },
+}));
+
+vi.mock('../../src/utils/remote', () => ({
+  Remote: { request: vi.fn() },
+}));
+
+vi.mock('../../src/utils/auth', () => ({
+  getAuthHeader: vi.fn(() => 'Basic abc'),
+  getAccountAuthHeader: vi.fn(() => 'Basic abc'),
+}));
+
+vi.mock('../../src/utils/platform.js', () => ({
+  canUseBackgroundSync: vi.fn(() => false),
+}));
+
+import { queueMutation, processMutationQueue } from '../../src/utils/mutation-queue.js';
+import { mergeProcessedQueue } from '../../src/utils/mutation-queue-helpers.js';
+import { Remote } from '../../src/utils/remote';
+
+const QUEUE_KEY = 'mutation_queue_me@example.com';
+const storedQueue = () => meta.get(QUEUE_KEY)?.value || [];
+
+beforeEach(() => {
+  meta.clear();
+  vi.mocked(Remote.request).mockReset();
+});
+
+describe('mergeProcessedQueue', () => {
+  const done = (mutation) => mutation.status === 'completed';
+
+  it('keeps mutations queued during the run and drops finished ones', () => {
+    const snapshot = [
+      { id: 'a', status: 'completed' },
+      { id: 'b', status: 'pending', retryCount: 1 },
+    ];
+    const stored = [
+      { id: 'a', status: 'pending' },
+      { id: 'b', status: 'pending' },
+      { id: 'c', status: 'pending' },
+    ];
+    expect(mergeProcessedQueue(stored, snapshot, done)).toEqual([
+      { id: 'b', status: 'pending', retryCount: 1 },
+      { id: 'c', status: 'pending' },
+    ]);
+  });
+
+  it('leaves out mutations removed during the run', () => {
+    expect(mergeProcessedQueue([], [{ id: 'a', status: 'pending' }], done)).toEqual([]);
+  });
+});
+
+describe('processMutationQueue', () => {
+  it('keeps a mutation queued while the queue is being processed and runs it next', async () => {
+    // Offline while queueing, so nothing runs yet
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    await queueMutation('move', { messageId: '1', targetFolder: 'Archive' });
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(true);
+
+    let release;
+    vi.mocked(Remote.request)
+      .mockImplementationOnce(async () => {
+        await queueMutation('move', { messageId: '2', targetFolder: 'Archive' });
+      })
+      .mockImplementationOnce(
+        () =>
+          new Promise((resolve) => {
+            release = resolve;
+          }),
+      );
+    await processMutationQueue();
+
+    const queue = storedQueue();
+    expect(queue).toHaveLength(1);
+    expect(queue[0].payload.messageId).toBe('2');
+    expect(queue[0].status).toBe('pending');
+
+    // The second mutation is sent by a follow-up run
+    await vi.waitFor(() => expect(release).toBeTypeOf('function'));
+    expect(vi.mocked(Remote.request).mock.calls[1][2].pathOverride).toBe('/v1/messages/2');
+    release({});
+    await vi.waitFor(() => expect(storedQueue()).toEqual([]));
+  });
+
+  it('runs only once when called twice', async () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    await queueMutation('move', { messageId: '1', targetFolder: 'Archive' });
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(true);
+
+    vi.mocked(Remote.request).mockResolvedValue({});
+    await Promise.all([processMutationQueue(), processMutationQueue()]);
+
+    expect(Remote.request).toHaveBeenCalledTimes(1);
+    expect(storedQueue()).toEqual([]);
+  });
+});
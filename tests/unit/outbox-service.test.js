@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const outbox = new Map();
+const hooks = { afterList: null };
+const keyOf = ([account, id]) => `${account}|${id}`;
+
+// The outbox table as db-worker-client exposes it
+vi.mock('../../src/utils/db', () => {
+  const matches = (index, value) => (item) =>
+    index === '[account+id+status]'
+      ? item.account === value[0] && item.id === value[1] && item.status === value[2]
+      : keyOf([item.account, item.id]) === keyOf(value);
+  return {
+    db: {
+      outbox: {
+        get: vi.fn(async (key) => structuredClone(outbox.get(keyOf(key)))),
+        put: vi.fn(async (record) => {
+          outbox.set(keyOf([record.account, record.id]), structuredClone(record));
+        }),
+        delete: vi.fn(async (key) => {
+          outbox.delete(keyOf(key));
+        }),
+        update: vi.fn(async (key, changes) => {
+          const item = outbox.get(keyOf(key));
+          if (item) Object.assign(item, changes);
+        }),
+        where: vi.fn((index) => ({
+          between: () => ({
+            toArray: async () => {
+              const items = structuredClone([...outbox.values()]);
+              const hook = hooks.afterList;
+              hooks.afterList = null;
+              if (hook) hook();
+              return items;
+            },
+          }),
+          equals: (value) => ({
+            modify: async (changes) => {
+              const found = [...outbox.values()].filter(matches(index, value));
+              found.forEach((item) => Object.assign(item, changes));
+              return found.length;
+            },
+            delete: async () => {
+              const found = [...outbox.values()].filter(matches(index, value));
+              found.forEach((item) => outbox.delete(keyOf([item.account, item.id])));
+              return found.length;
+            },
+          }),
+        })),
+      },
+    },
+  };
+});
+
+vi.mock('../../src/utils/storage', () => ({
+  Local: { get: vi.fn(() => 'me@example.com') },
+}));
+
+vi.mock('../../src/utils/remote', () => ({
+  Remote: { request: vi.fn() },
+}));
+
+vi.mock('../../src/utils/sent-copy.js', () => ({
+  saveSentCopy: vi.fn(async () => {}),
+}));
+
+vi.mock('../../src/utils/demo-mode', () => ({
+  isDemoMode: vi.fn(() => false),
+  showDemoBlockedToast: vi.fn(),
+}));
+
+import { queueEmail, undoSend, processOutbox } from '../../src/utils/outbox-service.js';
+import { Remote } from '../../src/utils/remote';
+
+const email = { from: 'me@example.com', to: ['you@example.com'], subject: 'Hello' };
+const stored = (id) => outbox.get(keyOf(['me@example.com', id]));
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  outbox.clear();
+  hooks.afterList = null;
+  vi.mocked(Remote.request).mockReset();
+  vi.mocked(Remote.request).mockResolvedValue({});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('undo send', () => {
+  it('holds the message for the undo delay, then sends it', async () => {
+    const { id } = await queueEmail(email, { undoDelayMs: 5000 });
+
+    await vi.advanceTimersByTimeAsync(4900);
+    expect(Remote.request).not.toHaveBeenCalled();
+    expect(stored(id).status).toBe('pending');
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(Remote.request).toHaveBeenCalledWith('Emails', email, {
+      method: 'POST',
+      account: null,
+    });
+    expect(stored(id).status).toBe('sent');
+  });
+
+  it('takes the message back during the delay', async () => {
+    const { id } = await queueEmail(email, { undoDelayMs: 5000, compose: { body: 'Hi' } });
+
+    const result = await undoSend(id);
+    expect(result).toMatchObject({ success: true, item: { compose: { body: 'Hi' } } });
+    expect(stored(id)).toBeUndefined();
+
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(Remote.request).not.toHaveBeenCalled();
+  });
+
+  it('does not send a message undone after the outbox was read', async () => {
+    const { id } = await queueEmail(email, { skipProcess: true });
+    hooks.afterList = () => outbox.delete(keyOf(['me@example.com', id]));
+
+    const run = processOutbox();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await run).toMatchObject({ processed: 0, sent: 0 });
+    expect(Remote.request).not.toHaveBeenCalled();
+  });
+
+  it('cannot undo a message that is being sent', async () => {
+    let finish;
+    vi.mocked(Remote.request).mockImplementationOnce(
+      () =>
+        new Promise((resolve) => {
+          finish = resolve;
+        }),
+    );
+    const { id } = await queueEmail(email, { undoDelayMs: 5000 });
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(stored(id).status).toBe('sending');
+
+    expect(await undoSend(id)).toMatchObject({ success: false });
+    finish({});
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(stored(id).status).toBe('sent');
+  });
+});
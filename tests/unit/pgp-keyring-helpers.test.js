@@ -0,0 +1,235 @@
+import { describe, it, expect } from 'vitest';
+import {
+  keyringMetaKey,
+  mergeKeyRecord,
+  mergeDiscoveredKey,
+  isUsableKey,
+  isAuthenticatedSender,
+  selectKeyForEmail,
+  parseAutocryptHeader,
+  isPublicKeyAttachment,
+} from '../../src/utils/pgp-keyring-helpers.js';
+
+const NOW = 1_700_000_000_000;
+
+const makeKey = (overrides = {}) => ({
+  fingerprint: 'aaaa1111',
+  armored: 'ARMORED-A',
+  emails: ['alice@example.com'],
+  userIds: ['Alice <alice@example.com>'],
+  expiresAt: null,
+  revoked: false,
+  sources: ['manual'],
+  ...overrides,
+});
+
+describe('keyringMetaKey', () => {
+  it('is scoped per account', () => {
+    expect(keyringMetaKey('a@example.com')).toBe('pgp_keyring_a@example.com');
+    expect(keyringMetaKey()).toBe('pgp_keyring_default');
+  });
+});
+
+describe('mergeKeyRecord', () => {
+  it('adds a new key with default trust', () => {
+    const { keys, record, changed } = mergeKeyRecord([], makeKey({ fingerprint: 'AAAA1111' }), NOW);
+    expect(changed).toBe(true);
+    expect(keys).toHaveLength(1);
+    expect(record.fingerprint).toBe('aaaa1111');
+    expect(record.trust).toBe('unknown');
+    expect(record.addedAt).toBe(NOW);
+  });
+
+  it('unions sources and emails and keeps user trust', () => {
+    const existing = { ...makeKey(), trust: 'verified', addedAt: 1, updatedAt: 1 };
+    const { record, changed } = mergeKeyRecord(
+      [existing],
+      makeKey({ emails: ['ALICE@example.com', 'a2@example.com'], sources: ['autocrypt'] }),
+      NOW,
+    );
+    expect(changed).toBe(true);
+    expect(record.trust).toBe('verified');
+    expect(record.sources).toEqual(['manual', 'autocrypt']);
+    expect(record.emails).toEqual(['alice@example.com', 'a2@example.com']);
+    expect(record.addedAt).toBe(1);
+  });
+
+  it('never un-revokes a key', () => {
+    const existing = { ...makeKey(), revoked: true, revokedAt: 5, updatedAt: 5 };
+    const { record } = mergeKeyRecord([existing], makeKey(), NOW);
+    expect(record.revoked).toBe(true);
+    expect(record.revokedAt).toBe(5);
+  });
+
+  it('reports no change for an identical key', () => {
+    const first = mergeKeyRecord([], makeKey(), NOW);
+    const second = mergeKeyRecord(first.keys, makeKey(), NOW + 1000);
+    expect(second.changed).toBe(false);
+    expect(second.record.updatedAt).toBe(NOW);
+  });
+
+  it('folds the legacy source field into sources', () => {
+    const legacy = { ...makeKey(), sources: undefined, source: 'manual', isPrivate: false };
+    const { record } = mergeKeyRecord([legacy], makeKey({ sources: ['wkd'] }), NOW);
+    expect(record.sources).toEqual(['manual', 'wkd']);
+    expect(record).not.toHaveProperty('source');
+    expect(record).not.toHaveProperty('isPrivate');
+  });
+
+  it('rejects records without a fingerprint or key material', () => {
+    expect(() => mergeKeyRecord([], { armored: 'x' })).toThrow();
+    expect(() => mergeKeyRecord([], { fingerprint: 'abc' })).toThrow();
+  });
+});
+
+describe('mergeDiscoveredKey', () => {
+  const alice = { ...makeKey(), trust: 'unknown', addedAt: 1, updatedAt: 1 };
+
+  it('adds a key for a new address', () => {
+    const { record } = mergeDiscoveredKey(
+      [alice],
+      makeKey({ fingerprint: 'b', emails: ['bob@example.com'] }),
+      NOW,
+    );
+    expect(record).not.toHaveProperty('pendingConfirmation');
+    expect(isUsableKey(record, NOW)).toBe(true);
+  });
+
+  it('holds a different key for a known address until confirmed', () => {
+    const { keys, record } = mergeDiscoveredKey(
+      [alice],
+      makeKey({ fingerprint: 'evil', armored: 'ARMORED-E', sources: ['attachment'] }),
+      NOW,
+    );
+    expect(record.pendingConfirmation).toBe(true);
+    expect(selectKeyForEmail(keys, 'alice@example.com', NOW).fingerprint).toBe('aaaa1111');
+    // Importing it by hand confirms it
+    const imported = mergeKeyRecord(keys, { ...record, pendingConfirmation: false }, NOW);
+    expect(imported.changed).toBe(true);
+    expect(imported.record).not.toHaveProperty('pendingConfirmation');
+  });
+
+  it("updates a known key without taking another key's address", () => {
+    const bob = makeKey({ fingerprint: 'b', armored: 'ARMORED-B', emails: ['bob@example.com'] });
+    const { record } = mergeDiscoveredKey(
+      [alice, bob],
+      makeKey({ emails: ['alice@example.com', 'bob@example.com'], lastSeenAt: NOW }),
+      NOW,
+    );
+    expect(record.emails).toEqual(['alice@example.com']);
+    expect(record.lastSeenAt).toBe(NOW);
+    expect(record).not.toHaveProperty('pendingConfirmation');
+  });
+});
+
+describe('isUsableKey', () => {
+  it('excludes revoked, expired, never-trusted and unconfirmed keys', () => {
+    expect(isUsableKey(makeKey(), NOW)).toBe(true);
+    expect(isUsableKey(makeKey({ revoked: true }), NOW)).toBe(false);
+    expect(isUsableKey(makeKey({ expiresAt: NOW - 1 }), NOW)).toBe(false);
+    expect(isUsableKey(makeKey({ trust: 'never' }), NOW)).toBe(false);
+    expect(isUsableKey(makeKey({ pendingConfirmation: true }), NOW)).toBe(false);
+  });
+});
+
+describe('isAuthenticatedSender', () => {
+  const from = 'alice@mail.example.com';
+
+  it('accepts DMARC or aligned DKIM passes', () => {
+    expect(
+      isAuthenticatedSender(
+        'mx.example.net; dmarc=pass (p=reject) header.from=mail.example.com',
+        from,
+      ),
+    ).toBe(true);
+    expect(isAuthenticatedSender('mx.example.net; dkim=pass header.d=example.com', from)).toBe(
+      true,
+    );
+    expect(
+      isAuthenticatedSender(
+        'mx.example.net;\r\n dkim=pass header.i=@mail.example.com; spf=fail',
+        from,
+      ),
+    ).toBe(true);
+  });
+
+  it('rejects failures and signatures of other domains', () => {
+    expect(isAuthenticatedSender('mx.example.net; dkim=fail header.d=example.com', from)).toBe(
+      false,
+    );
+    expect(isAuthenticatedSender('mx.example.net; dkim=pass header.d=evil.com', from)).toBe(false);
+    expect(isAuthenticatedSender('mx.example.net; dkim=pass header.d=ample.com', from)).toBe(false);
+    expect(isAuthenticatedSender('mx.example.net; dmarc=pass header.from=evil.com', from)).toBe(
+      false,
+    );
+    expect(isAuthenticatedSender('mx.example.net; spf=pass smtp.mailfrom=example.com', from)).toBe(
+      false,
+    );
+    expect(isAuthenticatedSender('', from)).toBe(false);
+  });
+
+  it('ignores results mentioned in comments', () => {
+    expect(
+      isAuthenticatedSender('mx.example.net; dkim=fail (dkim=pass header.d=example.com)', from),
+    ).toBe(false);
+  });
+});
+
+describe('selectKeyForEmail', () => {
+  it('prefers higher trust, then the most recently seen key', () => {
+    const records = [
+      makeKey({ fingerprint: 'old', trust: 'unknown', lastSeenAt: 10 }),
+      makeKey({ fingerprint: 'new', trust: 'unknown', lastSeenAt: 20 }),
+      makeKey({ fingerprint: 'verified', trust: 'verified', lastSeenAt: 1 }),
+      makeKey({ fingerprint: 'blocked', trust: 'never', lastSeenAt: 30 }),
+    ];
+    expect(selectKeyForEmail(records, 'Alice@Example.com', NOW).fingerprint).toBe('verified');
+    expect(selectKeyForEmail(records.slice(0, 2), 'alice@example.com', NOW).fingerprint).toBe(
+      'new',
+    );
+  });
+
+  it('returns null when no usable key matches', () => {
+    expect(selectKeyForEmail([makeKey({ revoked: true })], 'alice@example.com', NOW)).toBeNull();
+    expect(selectKeyForEmail([makeKey()], 'bob@example.com', NOW)).toBeNull();
+  });
+});
+
+describe('parseAutocryptHeader', () => {
+  it('parses addr, prefer-encrypt and folded keydata', () => {
+    const parsed = parseAutocryptHeader(
+      'addr=Alice@Example.com; prefer-encrypt=mutual; keydata=\r\n mQENBF\r\n xyz+/==',
+    );
+    expect(parsed).toEqual({
+      addr: 'alice@example.com',
+      preferEncrypt: 'mutual',
+      keydata: 'mQENBFxyz+/==',
+    });
+  });
+
+  it('ignores non-critical attributes', () => {
+    const parsed = parseAutocryptHeader('addr=a@example.com; _extra=1; keydata=AAAA');
+    expect(parsed?.preferEncrypt).toBe('nopreference');
+  });
+
+  it('rejects unknown critical attributes and missing fields', () => {
+    expect(parseAutocryptHeader('addr=a@example.com; future=1; keydata=AAAA')).toBeNull();
+    expect(parseAutocryptHeader('addr=a@example.com')).toBeNull();
+    expect(parseAutocryptHeader('keydata=AAAA')).toBeNull();
+    expect(parseAutocryptHeader('')).toBeNull();
+  });
+});
+
+describe('isPublicKeyAttachment', () => {
+  it('detects application/pgp-keys parts', () => {
+    expect(isPublicKeyAttachment({ mimeType: 'application/pgp-keys', filename: 'x.bin' })).toBe(
+      true,
+    );
+  });
+
+  it('detects armored key files by name', () => {
+    expect(isPublicKeyAttachment({ mimeType: 'text/plain', filename: 'pubkey.asc' })).toBe(true);
+    expect(isPublicKeyAttachment({ mimeType: 'text/plain', filename: 'notes.asc' })).toBe(false);
+    expect(isPublicKeyAttachment({ mimeType: 'image/png', filename: 'key.png' })).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const meta = new Map();
+
+vi.mock('../../src/utils/db', () => ({
+  db: {
+    meta: {
+      get: vi.fn(async (key) => meta.get(key)),
+      put: vi.fn(async (record) => {
+        meta.set(record.key, structuredClone(record));
+      }),
+    },
+  },
+}));
+
+vi.mock('../../src/utils/storage', () => ({
+  Local: { get: vi.fn(() => 'me@example.com') },
+}));
+
+vi.mock('../../src/utils/remote', () => ({
+  Remote: { request: vi.fn() },
+}));
+
+vi.mock('../../src/utils/sync-worker-client.js', () => ({
+  inspectPgpKey: vi.fn(),
+}));
+
+import { lookupWkdKey, listRecipientKeys } from '../../src/utils/pgp-keyring.js';
+import { Remote } from '../../src/utils/remote';
+import { inspectPgpKey } from '../../src/utils/sync-worker-client.js';
+
+const inspected = (overrides = {}) => ({
+  fingerprint: 'aaaa1111',
+  keyId: '1111',
+  userIds: ['Joe <joe.doe@example.org>', 'Joe <joe@other.example>'],
+  emails: ['joe.doe@example.org', 'joe@other.example'],
+  createdAt: 1,
+  expiresAt: null,
+  revoked: false,
+  armored: 'ARMORED',
+  ...overrides,
+});
+
+beforeEach(() => {
+  meta.clear();
+  vi.mocked(Remote.request).mockReset();
+  vi.mocked(inspectPgpKey).mockReset();
+});
+
+describe('lookupWkdKey', () => {
+  it('asks the API for the address and saves the key for that address only', async () => {
+    vi.mocked(Remote.request).mockResolvedValue({ publicKey: 'ARMORED' });
+    vi.mocked(inspectPgpKey).mockResolvedValue([inspected()]);
+
+    const saved = await lookupWkdKey('Joe.Doe@Example.ORG');
+
+    expect(Remote.request).toHaveBeenCalledWith('WkdLookup', { email: 'joe.doe@example.org' });
+    expect(inspectPgpKey).toHaveBeenCalledWith({ armoredKey: 'ARMORED' });
+    expect(saved).toHaveLength(1);
+    const keys = await listRecipientKeys();
+    expect(keys[0].emails).toEqual(['joe.doe@example.org']);
+    expect(keys[0].sources).toEqual(['wkd']);
+  });
+
+  it('returns nothing when no key is published', async () => {
+    vi.mocked(Remote.request).mockRejectedValue(
+      Object.assign(new Error('Not Found'), { status: 404 }),
+    );
+
+    await expect(lookupWkdKey('joe.doe@example.org')).resolves.toEqual([]);
+    expect(inspectPgpKey).not.toHaveBeenCalled();
+  });
+
+  it('reports other API failures', async () => {
+    vi.mocked(Remote.request).mockRejectedValue(Object.assign(new Error('Busy'), { status: 503 }));
+
+    await expect(lookupWkdKey('joe.doe@example.org')).rejects.toThrow('Busy');
+  });
+
+  it('skips addresses without a domain', async () => {
+    await expect(lookupWkdKey('joe')).resolves.toEqual([]);
+    expect(Remote.request).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canonicalizeLineEndings,
+  encodeHeaderValue,
+  buildMimeEntity,
+  buildMessageHeaders,
+  buildSignedBody,
+  buildEncryptedBody,
+  buildRawMessage,
+  splitMultipartSigned,
+  splitSignedMessage,
+  extractClearsignedBlock,
+} from '../../src/utils/pgp-mime.js';
+
+const decodeBase64Part = (entity, contentType) => {
+  const start = entity.indexOf(`Content-Type: ${contentType}`);
+  const bodyStart = entity.indexOf('\r\n\r\n', start) + 4;
+  const bodyEnd = entity.indexOf('\r\n--', bodyStart);
+  const b64 = entity.slice(bodyStart, bodyEnd === -1 ? undefined : bodyEnd).replace(/\s+/g, '');
+  return new TextDecoder().decode(Uint8Array.from(atob(b64), (c) => c.charCodeAt(0)));
+};
+
+describe('canonicalizeLineEndings', () => {
+  it('converts LF and CR to CRLF', () => {
+    expect(canonicalizeLineEndings('a\nb\rc\r\nd')).toBe('a\r\nb\r\nc\r\nd');
+  });
+});
+
+describe('encodeHeaderValue', () => {
+  it('leaves ASCII untouched', () => {
+    expect(encodeHeaderValue('Hello world')).toBe('Hello world');
+  });
+
+  it('encodes non-ASCII as an RFC 2047 encoded-word', () => {
+    const encoded = encodeHeaderValue('Grüße');
+    expect(encoded).toMatch(/^=\?UTF-8\?B\?.+\?=$/);
+  });
+});
+
+describe('buildMimeEntity', () => {
+  it('builds a single text/plain part for plain text mail', () => {
+    const entity = buildMimeEntity({ text: 'Hi there\nBye' });
+    expect(entity.startsWith('Content-Type: text/plain; charset=utf-8')).toBe(true);
+    expect(decodeBase64Part(entity, 'text/plain')).toBe('Hi there\nBye');
+  });
+
+  it('builds multipart/alternative when html is present', () => {
+    const entity = buildMimeEntity({ text: 'Hi', html: '<p>Hi</p>' });
+    expect(entity).toMatch(/^Content-Type: multipart\/alternative; boundary="/);
+    expect(decodeBase64Part(entity, 'text/html')).toBe('<p>Hi</p>');
+  });
+
+  it('wraps attachments in multipart/mixed', () => {
+    const entity = buildMimeEntity({
+      text: 'See attached',
+      attachments: [
+        { filename: 'a.txt', contentType: 'text/plain', content: btoa('abc'), encoding: 'base64' },
+      ],
+    });
+    expect(entity).toMatch(/^Content-Type: multipart\/mixed/);
+    expect(entity).toContain('Content-Disposition: attachment; filename="a.txt"');
+    expect(entity).toContain(btoa('abc'));
+  });
+
+  it('uses CRLF line endings only and no trailing line break', () => {
+    const entity = buildMimeEntity({ text: 'x', html: '<b>x</b>' });
+    expect(entity.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+    expect(entity.endsWith('\r\n')).toBe(false);
+  });
+});
+
+describe('buildMessageHeaders', () => {
+  it('includes envelope and threading headers', () => {
+    const headers = buildMessageHeaders({
+      from: '"Jane Doe" <jane@example.com>',
+      to: ['a@example.com', 'b@example.com'],
+      cc: ['c@example.com'],
+      subject: 'Hello',
+      in_reply_to: '<orig@example.com>',
+    });
+    expect(headers).toContain('From: "Jane Doe" <jane@example.com>');
+    expect(headers).toContain('To: a@example.com, b@example.com');
+    expect(headers).toContain('Cc: c@example.com');
+    expect(headers).toContain('In-Reply-To: <orig@example.com>');
+    expect(headers).toMatch(/Message-ID: <[^>]+@example\.com>/);
+    expect(headers).toContain('MIME-Version: 1.0');
+  });
+
+  it('never emits a Bcc header', () => {
+    const headers = buildMessageHeaders({ from: 'a@example.com', bcc: ['hidden@example.com'] });
+    expect(headers).not.toContain('hidden@example.com');
+  });
+
+  it('encodes a non-ASCII display name but keeps the address', () => {
+    const headers = buildMessageHeaders({ from: '"Zoë" <zoe@example.com>' });
+    expect(headers).toMatch(/From: =\?UTF-8\?B\?[^?]+\?= <zoe@example\.com>/);
+  });
+});
+
+describe('buildSignedBody', () => {
+  it('places the entity verbatim before the signature part', () => {
+    const entity = buildMimeEntity({ text: 'signed text' });
+    const body = buildSignedBody(
+      entity,
+      '-----BEGIN PGP SIGNATURE-----\nabc\n-----END PGP SIGNATURE-----\n',
+      'pgp-sha512',
+    );
+    const boundary = body.match(/boundary="([^"]+)"/)[1];
+    expect(body).toContain('protocol="application/pgp-signature"; micalg=pgp-sha512');
+    expect(body).toContain(`--${boundary}\r\n${entity}\r\n--${boundary}\r\n`);
+    expect(body).toContain('Content-Type: application/pgp-signature');
+    expect(body.trimEnd().endsWith(`--${boundary}--`)).toBe(true);
+  });
+});
+
+describe('buildEncryptedBody', () => {
+  it('produces the two RFC 3156 parts', () => {
+    const body = buildEncryptedBody('-----BEGIN PGP MESSAGE-----\nxyz\n-----END PGP MESSAGE-----');
+    expect(body).toMatch(
+      /^Content-Type: multipart\/encrypted; boundary="[^"]+"; protocol="application\/pgp-encrypted"/,
+    );
+    expect(body).toContain(
+      'Content-Type: application/pgp-encrypted\r\nContent-Description: PGP/MIME version identification\r\n\r\nVersion: 1',
+    );
+    expect(body).toContain('Content-Type: application/octet-stream; name="encrypted.asc"');
+    expect(body).toContain('-----BEGIN PGP MESSAGE-----\r\nxyz\r\n-----END PGP MESSAGE-----');
+  });
+});
+
+describe('buildRawMessage', () => {
+  it('joins headers and body with the body content type as last header', () => {
+    const raw = buildRawMessage(
+      { from: 'a@example.com', to: ['b@example.com'], subject: 'S' },
+      buildEncryptedBody('x'),
+    );
+    const [head] = raw.split('\r\n\r\n');
+    expect(head).toContain('Subject: S');
+    expect(head).toContain('Content-Type: multipart/encrypted');
+  });
+});
+
+describe('splitMultipartSigned', () => {
+  it('returns the protocol, signed entity and raw signature part', () => {
+    const raw = [
+      'Content-Type: multipart/signed; protocol="application/pkcs7-signature"; boundary=b',
+      '',
+      '--b',
+      'Content-Type: text/plain',
+      '',
+      'hello',
+      '--b',
+      'Content-Type: application/pkcs7-signature',
+      '',
+      'MIAGCSqG',
+      '--b--',
+      '',
+    ].join('\r\n');
+    expect(splitMultipartSigned(raw)).toEqual({
+      protocol: 'application/pkcs7-signature',
+      signedContent: 'Content-Type: text/plain\r\n\r\nhello',
+      signaturePart: 'Content-Type: application/pkcs7-signature\r\n\r\nMIAGCSqG',
+    });
+  });
+});
+
+describe('splitSignedMessage', () => {
+  const signature = '-----BEGIN PGP SIGNATURE-----\nabc\n-----END PGP SIGNATURE-----';
+
+  it('returns the exact signed entity and the signature', () => {
+    const entity = buildMimeEntity({ text: 'signed text', html: '<p>signed</p>' });
+    const raw = buildRawMessage(
+      { from: 'a@example.com', to: ['b@example.com'], subject: 'S' },
+      buildSignedBody(entity, signature, 'pgp-sha256'),
+    );
+    const parts = splitSignedMessage(raw);
+    expect(parts.signedContent).toBe(entity);
+    expect(parts.signature).toBe(signature.replace(/\n/g, '\r\n'));
+  });
+
+  it('canonicalizes LF-only messages before splitting', () => {
+    const raw = [
+      'Content-Type: multipart/signed; micalg=pgp-sha256;',
+      ' protocol="application/pgp-signature"; boundary=XYZ',
+      '',
+      'preamble',
+      '--XYZ',
+      'Content-Type: text/plain',
+      '',
+      'hello',
+      '--XYZ',
+      'Content-Type: application/pgp-signature',
+      '',
+      signature,
+      '--XYZ--',
+      '',
+    ].join('\n');
+    const parts = splitSignedMessage(raw);
+    expect(parts.signedContent).toBe('Content-Type: text/plain\r\n\r\nhello');
+  });
+
+  it('ignores unsigned and S/MIME signed messages', () => {
+    expect(splitSignedMessage('Content-Type: text/plain\r\n\r\nhi')).toBeNull();
+    expect(
+      splitSignedMessage(
+        'Content-Type: multipart/signed; protocol="application/pkcs7-signature"; boundary=a\r\n\r\n--a\r\n',
+      ),
+    ).toBeNull();
+  });
+});
+
+describe('extractClearsignedBlock', () => {
+  const block = [
+    '-----BEGIN PGP SIGNED MESSAGE-----',
+    'Hash: SHA256',
+    '',
+    'hello',
+    '-----BEGIN PGP SIGNATURE-----',
+    'abc',
+    '-----END PGP SIGNATURE-----',
+  ].join('\n');
+
+  it('finds a signed block in a text body', () => {
+    expect(extractClearsignedBlock(`Intro\n${block}\nFooter`)).toBe(block);
+  });
+
+  it('skips quoted signed blocks', () => {
+    const quoted = block
+      .split('\n')
+      .map((line) => `> ${line}`)
+      .join('\n');
+    expect(extractClearsignedBlock(`Reply\n${quoted}`)).toBeNull();
+  });
+});
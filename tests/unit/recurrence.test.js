@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countOccurrencesBefore,
+  endSeriesBefore,
+  excludeOccurrence,
+  expandSeries,
+  extractVEvents,
+  formatRRule,
+  overrideOccurrence,
+  parseRRule,
+  readRecurringSeries,
+  recurrenceFormFromRule,
+  recurrenceIdProperty,
+  replaceSeriesMaster,
+  ruleFromRecurrenceForm,
+} from '../../src/utils/recurrence.ts';
+
+const calendar = (...events) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events, 'END:VCALENDAR'].join('\r\n');
+
+const vevent = (...lines) => ['BEGIN:VEVENT', 'UID:series-1', ...lines, 'END:VEVENT'].join('\r\n');
+
+// Floating times are local, so these read the same in any test time zone
+const local = (y, m, d, h = 0, min = 0) => new Date(y, m - 1, d, h, min);
+const localDates = (occurrences) =>
+  occurrences.map(({ start }) => `${start.getMonth() + 1}/${start.getDate()} ${start.getHours()}`);
+
+const expand = (ical, from = local(2025, 1, 1), to = local(2025, 12, 31)) =>
+  expandSeries(readRecurringSeries(ical), from, to);
+
+describe('parseRRule / formatRRule', () => {
+  it('reads and writes the rule parts', () => {
+    const rule = parseRRule('FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR;COUNT=5');
+    expect(rule).toMatchObject({ freq: 'MONTHLY', interval: 2, byDay: ['-1FR'], count: 5 });
+    expect(formatRRule(rule)).toBe('FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR;COUNT=5');
+    expect(parseRRule('FREQ=HOURLY')).toBeNull();
+  });
+});
+
+describe('expandSeries', () => {
+  it('expands weekly by-day rules with a count', () => {
+    const ical = calendar(
+      vevent(
+        'DTSTART:20250106T090000',
+        'DTEND:20250106T100000',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4',
+      ),
+    );
+    expect(localDates(expand(ical))).toEqual(['1/6 9', '1/8 9', '1/13 9', '1/15 9']);
+  });
+
+  it('expands monthly nth weekday rules until a date', () => {
+    const ical = calendar(
+      vevent(
+        'DTSTART:20250128T090000',
+        'DURATION:PT30M',
+        'RRULE:FREQ=MONTHLY;BYDAY=-1TU;UNTIL=20250430',
+      ),
+    );
+    const occurrences = expand(ical);
+    expect(localDates(occurrences)).toEqual(['1/28 9', '2/25 9', '3/25 9', '4/29 9']);
+    expect(occurrences[0].end.getTime() - occurrences[0].start.getTime()).toBe(30 * 60 * 1000);
+  });
+
+  it('skips months without the start day', () => {
+    const ical = calendar(vevent('DTSTART;VALUE=DATE:20250131', 'RRULE:FREQ=MONTHLY;COUNT=3'));
+    expect(localDates(expand(ical))).toEqual(['1/31 0', '3/31 0', '5/31 0']);
+  });
+
+  it('applies excluded dates and changed or cancelled occurrences', () => {
+    const ical = calendar(
+      vevent(
+        'DTSTART:20250101T090000',
+        'DTEND:20250101T100000',
+        'RRULE:FREQ=DAILY;COUNT=4',
+        'EXDATE:20250102T090000',
+      ),
+      vevent(
+        'RECURRENCE-ID:20250103T090000',
+        'DTSTART:20250103T150000',
+        'DTEND:20250103T160000',
+        'SUMMARY:Moved',
+      ),
+      vevent('RECURRENCE-ID:20250104T090000', 'DTSTART:20250104T090000', 'STATUS:CANCELLED'),
+    );
+    const occurrences = expand(ical);
+    expect(localDates(occurrences)).toEqual(['1/1 9', '1/3 15']);
+    expect(occurrences[1]).toMatchObject({
+      recurrenceId: local(2025, 1, 3, 9).getTime(),
+      override: { summary: 'Moved' },
+    });
+  });
+
+  it('keeps the wall-clock time of a TZID across daylight saving', () => {
+    const ical = calendar(
+      vevent(
+        'DTSTART;TZID=America/New_York:20250303T090000',
+        'DTEND;TZID=America/New_York:20250303T100000',
+        'RRULE:FREQ=WEEKLY;COUNT=2',
+      ),
+    );
+    const [before, after] = expand(
+      ical,
+      new Date('2025-03-01T00:00:00Z'),
+      new Date('2025-03-31T00:00:00Z'),
+    );
+    expect(before.start.toISOString()).toBe('2025-03-03T14:00:00.000Z');
+    expect(after.start.toISOString()).toBe('2025-03-10T13:00:00.000Z');
+  });
+
+  it('only returns occurrences in the range, counting earlier ones', () => {
+    const series = readRecurringSeries(
+      calendar(vevent('DTSTART:20250101T090000', 'RRULE:FREQ=DAILY;COUNT=10')),
+    );
+    expect(localDates(expandSeries(series, local(2025, 1, 9), local(2025, 2, 1)))).toEqual([
+      '1/9 9',
+      '1/10 9',
+    ]);
+    expect(countOccurrencesBefore(series, local(2025, 1, 5, 9).getTime())).toBe(4);
+  });
+});
+
+describe('editing a series', () => {
+  const ical = calendar(
+    vevent(
+      'DTSTART:20250101T090000',
+      'DTEND:20250101T100000',
+      'RRULE:FREQ=DAILY',
+      'SUMMARY:Standup',
+    ),
+  );
+  const jan = (day) => local(2025, 1, day, 9).getTime();
+
+  it('changes one occurrence with an override', () => {
+    const series = readRecurringSeries(ical);
+    const override = vevent(
+      recurrenceIdProperty(series, jan(2)),
+      'DTSTART:20250102T110000',
+      'DTEND:20250102T120000',
+      'SUMMARY:Later standup',
+    );
+    const once = overrideOccurrence(ical, override);
+    const twice = overrideOccurrence(once, override.replace('Later', 'Even later'));
+    expect(extractVEvents(twice)).toHaveLength(2);
+    expect(readRecurringSeries(twice).overrides).toMatchObject([
+      { recurrenceId: jan(2), summary: 'Even later standup' },
+    ]);
+  });
+
+  it('removes one occurrence', () => {
+    const next = excludeOccurrence(ical, jan(3));
+    expect(next).toContain('EXDATE:20250103T090000');
+    expect(localDates(expand(next, local(2025, 1, 1), local(2025, 1, 4, 12)))).toEqual([
+      '1/1 9',
+      '1/2 9',
+      '1/4 9',
+    ]);
+  });
+
+  it('ends the series before an occurrence', () => {
+    const next = endSeriesBefore(ical, jan(4));
+    expect(localDates(expand(next))).toEqual(['1/1 9', '1/2 9', '1/3 9']);
+  });
+
+  it('moves excluded dates and overrides with the series', () => {
+    const series = readRecurringSeries(ical);
+    const edited = overrideOccurrence(
+      excludeOccurrence(ical, jan(2)),
+      vevent(recurrenceIdProperty(series, jan(3)), 'DTSTART:20250103T120000', 'SUMMARY:Moved'),
+    );
+    const master = vevent('DTSTART:20250101T100000', 'DTEND:20250101T110000', 'RRULE:FREQ=DAILY');
+    const shifted = readRecurringSeries(replaceSeriesMaster(edited, master, 60 * 60 * 1000));
+    expect(shifted.exdates).toEqual([local(2025, 1, 2, 10).getTime()]);
+    expect(shifted.overrides[0].recurrenceId).toBe(local(2025, 1, 3, 10).getTime());
+  });
+});
+
+describe('recurrence picker', () => {
+  it('builds weekly and monthly weekday rules from the start date', () => {
+    // The fifth Thursday of the month repeats on the last one
+    const start = local(2025, 1, 30, 9);
+    const form = { ...recurrenceFormFromRule(null), freq: 'WEEKLY' };
+    expect(ruleFromRecurrenceForm(form, start).byDay).toEqual(['TH']);
+    expect(
+      ruleFromRecurrenceForm(
+        { ...form, freq: 'MONTHLY', monthly: 'weekday', ends: 'count', count: 3 },
+        start,
+      ),
+    ).toMatchObject({ byDay: ['-1TH'], count: 3 });
+  });
+
+  it('reads a rule back into the picker', () => {
+    expect(
+      recurrenceFormFromRule(
+        parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;UNTIL=20251231T235959Z'),
+      ),
+    ).toMatchObject({
+      freq: 'WEEKLY',
+      interval: 2,
+      byDay: ['MO', 'FR'],
+      ends: 'until',
+    });
+  });
+});
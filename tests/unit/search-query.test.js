@@ -1,5 +1,13 @@
 import { describe, it, expect } from 'vitest';
-import { parseSearchQuery, applySearchFilters } from '../../src/utils/search-query.js';
+import {
+  parseSearchQuery,
+  applySearchFilters,
+  buildServerSearchParams,
+  mergeSearchResults,
+  mergeAccountSearchResults,
+  buildQueryAst,
+  matchesQuery,
+} from '../../src/utils/search-query.js';
 
 describe('search-query', () => {
   it('parses operators and builds filters', () => {
@@ -55,3 +63,86 @@ describe('search-query', () => {
     expect(results.map((m) => m.id)).toEqual([1]);
   });
 });
+
+describe('buildServerSearchParams', () => {
+  it('maps text and single-valued filters to API parameters', () => {
+    const params = buildServerSearchParams(
+      parseSearchQuery('invoice from:alice is:unread has:attachment after:2024-01-01'),
+    );
+
+    expect(params).toEqual({
+      search: 'invoice',
+      from: 'alice',
+      is_unread: true,
+      has_attachments: true,
+      since: new Date(Date.parse('2024-01-01')).toISOString(),
+    });
+  });
+
+  it('leaves multi-valued filters to local filtering', () => {
+    const params = buildServerSearchParams(parseSearchQuery('report from:alice from:bob'));
+    expect(params).toEqual({ search: 'report' });
+  });
+
+  it('returns null for boolean queries and label-only queries', () => {
+    expect(buildServerSearchParams(parseSearchQuery('from:alice OR from:bob'))).toBeNull();
+    expect(buildServerSearchParams(parseSearchQuery('label:work'))).toBeNull();
+  });
+});
+
+describe('mergeSearchResults', () => {
+  it('keeps local hits first and tags new server hits', () => {
+    const local = [{ id: 'a' }, { id: 'b', header_message_id: '<b@x>' }];
+    const remote = [{ id: 'a' }, { id: 'b2', header_message_id: '<b@x>' }, { id: 'c' }];
+
+    const merged = mergeSearchResults(local, remote);
+    expect(merged.map((m) => m.id)).toEqual(['a', 'b', 'c']);
+    expect(merged[0].fromServer).toBeUndefined();
+    expect(merged[2].fromServer).toBe(true);
+  });
+
+  it('applies the limit after merging', () => {
+    expect(mergeSearchResults([{ id: 'a' }], [{ id: 'b' }, { id: 'c' }], 2)).toHaveLength(2);
+  });
+});
+
+describe('mergeAccountSearchResults', () => {
+  const alice = [
+    { id: 'a1', account: 'alice@example.com', dateMs: 100 },
+    { id: 'x', account: 'alice@example.com', dateMs: 300 },
+  ];
+  const bob = [
+    { id: 'x', account: 'bob@example.com', date: '1970-01-01T00:00:00.200Z' },
+    { id: 'x', account: 'bob@example.com', dateMs: 200 },
+  ];
+
+  it('interleaves accounts newest first and keeps shared ids per account', () => {
+    const merged = mergeAccountSearchResults([alice, bob]);
+    expect(merged.map((m) => `${m.account}:${m.id}`)).toEqual([
+      'alice@example.com:x',
+      'bob@example.com:x',
+      'alice@example.com:a1',
+    ]);
+  });
+
+  it('ranks scored hits first and applies the limit', () => {
+    const scored = [{ id: 's', account: 'bob@example.com', score: 2, dateMs: 1 }];
+    expect(mergeAccountSearchResults([alice, scored], 2).map((m) => m.id)).toEqual(['s', 'x']);
+  });
+});
+
+describe('buildQueryAst', () => {
+  it('joins adjacent terms with AND', () => {
+    const ast = buildQueryAst('from:alice (subject:invoice OR subject:receipt) -is:read');
+    const msg = { from: 'Alice <a@example.com>', subject: 'Receipt #4', is_unread: true };
+    expect(ast.type).toBe('AND');
+    expect(matchesQuery(msg, ast)).toBe(true);
+    expect(matchesQuery({ ...msg, is_unread: false }, ast)).toBe(false);
+    expect(matchesQuery({ ...msg, subject: 'Hello' }, ast)).toBe(false);
+  });
+
+  it('matches everything for an empty query', () => {
+    expect(buildQueryAst('  ')).toBeNull();
+    expect(matchesQuery({ subject: 'x' }, null)).toBe(true);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseSieve,
+  serializeSieve,
+  validateSieve,
+  rulesToSieve,
+  sieveToRules,
+} from '../../src/utils/sieve.js';
+
+const SCRIPT = `require ["fileinto", "imap4flags", "vacation"];
+# Sort newsletters
+if anyof (address :is "from" "news@example.com", header :contains "subject" ["[list]", "digest"]) {
+  fileinto "News";
+  addflag "\\\\Seen";
+  stop;
+} elsif size :over 10M {
+  discard;
+} else {
+  vacation :days 7 :subject "Away" text:
+Back next week.
+..
+.
+;
+}
+`;
+
+describe('parseSieve', () => {
+  it('parses commands, tests, lists, numbers and multi-line strings', () => {
+    const { commands } = parseSieve(SCRIPT);
+    expect(commands.map((c) => c.name)).toEqual(['require', 'if', 'elsif', 'else']);
+
+    const [ifCommand] = commands.slice(1);
+    expect(ifCommand.line).toBe(3);
+    expect(ifCommand.tests[0].name).toBe('anyof');
+    expect(ifCommand.tests[0].tests[1].args[2]).toEqual({
+      type: 'stringList',
+      values: ['[list]', 'digest'],
+    });
+    expect(ifCommand.block[1].args[0].value).toBe('\\Seen');
+
+    expect(commands[2].tests[0].args[1]).toEqual({ type: 'number', value: 10, unit: 'M' });
+    const vacation = commands[3].block[0];
+    expect(vacation.args.at(-1)).toMatchObject({ value: 'Back next week.\n.', multiline: true });
+  });
+
+  it('accepts CRLF line endings', () => {
+    const { commands } = parseSieve('vacation text:\r\nAway\r\n.\r\n;\r\nkeep;');
+    expect(commands[0].args[0].value).toBe('Away');
+    expect(commands[1]).toMatchObject({ name: 'keep', line: 5 });
+  });
+
+  it('reports syntax errors with a line number', () => {
+    expect(() => parseSieve('keep;\nif true {\n  stop;\n')).toThrow('Missing "}"');
+    expect(() => parseSieve('keep;\n"unterminated')).toThrow(
+      expect.objectContaining({ line: 2, sieveMessage: 'Unterminated string' }),
+    );
+  });
+});
+
+describe('serializeSieve', () => {
+  it('round-trips parsed scripts', () => {
+    const text = serializeSieve(parseSieve(SCRIPT));
+    expect(text).toContain('} elsif size :over 10M {');
+    expect(text).toContain('text:\nBack next week.\n..\n.\n;');
+    expect(parseSieve(text)).toEqual(parseSieve(serializeSieve(parseSieve(text))));
+  });
+});
+
+describe('validateSieve', () => {
+  it('accepts a valid script', () => {
+    expect(validateSieve(SCRIPT)).toMatchObject({ valid: true, errors: [] });
+  });
+
+  it('reports semantic errors by line', () => {
+    const { valid, errors } = validateSieve(
+      [
+        'keep;',
+        'require "fileinto";',
+        'fileinto "A";',
+        'else { stop; }',
+        'if header :is :contains "subject" "x" { frobnicate; }',
+        'if size 100 { keep; }',
+        'redirect :copy "a@example.com";',
+        'vacation "Away";',
+      ].join('\n'),
+    );
+    expect(valid).toBe(false);
+    expect(errors).toEqual(
+      expect.arrayContaining([
+        { line: 2, message: '"require" must come before other commands' },
+        { line: 4, message: '"else" must follow "if" or "elsif"' },
+        { line: 5, message: 'Only one match type is allowed in "header"' },
+        { line: 5, message: 'Unknown command "frobnicate"' },
+        { line: 7, message: 'Tag ":copy" requires the "copy" extension' },
+        { line: 8, message: '"vacation" requires the "vacation" extension' },
+      ]),
+    );
+    expect(errors.some((e) => e.line === 6)).toBe(true);
+  });
+
+  it('returns parse errors instead of throwing', () => {
+    const { valid, errors, script } = validateSieve('if true {');
+    expect(valid).toBe(false);
+    expect(script).toBeNull();
+    expect(errors).toHaveLength(1);
+  });
+});
+
+describe('visual builder', () => {
+  const rules = [
+    {
+      match: 'anyof',
+      conditions: [
+        { field: 'from', header: '', op: 'contains', value: 'billing@', negate: false },
+        { field: 'header', header: 'X-Invoice', op: 'is', value: 'yes', negate: true },
+      ],
+      actions: [
+        { type: 'fileinto', value: 'Receipts' },
+        { type: 'redirect', value: 'me@example.org', copy: true },
+      ],
+    },
+    {
+      match: 'allof',
+      conditions: [{ field: 'size', header: '', op: 'under', value: '5K', negate: false }],
+      actions: [{ type: 'vacation', value: 'Out of office', days: 3, subject: 'Away' }],
+    },
+  ];
+
+  it('renders rules as a valid script with the required extensions', () => {
+    const text = rulesToSieve(rules);
+    expect(text).toContain('require ["fileinto", "copy", "vacation"];');
+    expect(text).toContain(
+      'if anyof (address :contains "from" "billing@", not header :is "X-Invoice" "yes") {',
+    );
+    expect(validateSieve(text).valid).toBe(true);
+  });
+
+  it('round-trips rules through script text', () => {
+    expect(sieveToRules(rulesToSieve(rules))).toEqual({ supported: true, rules });
+  });
+
+  it('flags scripts the builder cannot represent', () => {
+    expect(sieveToRules(SCRIPT).supported).toBe(false);
+    expect(() =>
+      rulesToSieve([{ match: 'allof', conditions: [], actions: [{ type: 'x' }] }]),
+    ).toThrow('Unknown action');
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import forge from 'node-forge';
+import {
+  getSmimeType,
+  parsePkcs12,
+  decryptEnvelopedData,
+  verifySignedData,
+  unwrapSmimeMessage,
+  getCertificateEmails,
+} from '../../src/utils/smime.js';
+
+const { pki, asn1 } = forge;
+
+const INNER = 'Content-Type: text/plain; charset=utf-8\r\n\r\nHello from S/MIME ✓\r\n';
+
+let identity;
+let cert;
+let key;
+
+function createIdentity(email) {
+  const keys = pki.rsa.generateKeyPair({ bits: 1024, e: 0x10001 });
+  const certificate = pki.createCertificate();
+  certificate.publicKey = keys.publicKey;
+  certificate.serialNumber = '01';
+  certificate.validity.notBefore = new Date(Date.now() - 86_400_000);
+  certificate.validity.notAfter = new Date(Date.now() + 365 * 86_400_000);
+  const attrs = [
+    { name: 'commonName', value: 'Alice Example' },
+    { name: 'emailAddress', value: email },
+  ];
+  certificate.setSubject(attrs);
+  certificate.setIssuer(attrs);
+  certificate.setExtensions([{ name: 'subjectAltName', altNames: [{ type: 1, value: email }] }]);
+  certificate.sign(keys.privateKey, forge.md.sha256.create());
+  return { cert: certificate, key: keys.privateKey };
+}
+
+const toBase64Der = (msg) => forge.util.encode64(asn1.toDer(msg.toAsn1()).getBytes());
+
+function signData(content, { detached }) {
+  const p7 = forge.pkcs7.createSignedData();
+  p7.content = forge.util.createBuffer(forge.util.encodeUtf8(content));
+  p7.addCertificate(cert);
+  p7.addSigner({
+    key,
+    certificate: cert,
+    digestAlgorithm: pki.oids.sha256,
+    authenticatedAttributes: [
+      { type: pki.oids.contentType, value: pki.oids.data },
+      { type: pki.oids.messageDigest },
+      { type: pki.oids.signingTime, value: new Date() },
+    ],
+  });
+  p7.sign({ detached });
+  return toBase64Der(p7);
+}
+
+function detachedMessage(content, signature) {
+  return [
+    'From: Alice Example <alice@example.com>',
+    'Content-Type: multipart/signed; protocol="application/pkcs7-signature"; micalg=sha-256; boundary="b1"',
+    '',
+    '--b1',
+    content,
+    '--b1',
+    'Content-Type: application/pkcs7-signature; name="smime.p7s"',
+    'Content-Transfer-Encoding: base64',
+    '',
+    signature,
+    '--b1--',
+    '',
+  ].join('\r\n');
+}
+
+function pkcs7Message(smimeType, der) {
+  return [
+    'From: alice@example.com',
+    `Content-Type: application/pkcs7-mime; smime-type=${smimeType}; name="smime.p7m"`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    der,
+    '',
+  ].join('\r\n');
+}
+
+beforeAll(() => {
+  ({ cert, key } = createIdentity('alice@example.com'));
+  const p12 = forge.pkcs12.toPkcs12Asn1(key, [cert], 'secret', { algorithm: '3des' });
+  identity = parsePkcs12(asn1.toDer(p12).getBytes(), 'secret');
+});
+
+describe('getSmimeType', () => {
+  it('classifies S/MIME content types', () => {
+    expect(getSmimeType(pkcs7Message('enveloped-data', 'AA=='))).toBe('enveloped');
+    expect(getSmimeType(pkcs7Message('signed-data', 'AA=='))).toBe('signed-opaque');
+    expect(getSmimeType(detachedMessage(INNER, 'AA=='))).toBe('signed-detached');
+  });
+
+  it('ignores other messages', () => {
+    expect(getSmimeType('Content-Type: text/plain\r\n\r\nhi')).toBeNull();
+    expect(
+      getSmimeType(
+        'Content-Type: multipart/signed; protocol="application/pgp-signature"; boundary=x\r\n\r\n',
+      ),
+    ).toBeNull();
+    expect(getSmimeType('')).toBeNull();
+  });
+});
+
+describe('parsePkcs12', () => {
+  it('extracts the certificate, key and addresses', () => {
+    expect(identity.name).toBe('Alice Example');
+    expect(identity.emails).toEqual(['alice@example.com']);
+    expect(identity.certificate).toContain('BEGIN CERTIFICATE');
+    expect(identity.privateKey).toContain('PRIVATE KEY');
+    expect(identity.id).toMatch(/^[0-9a-f]{64}$/);
+    expect(getCertificateEmails(cert)).toEqual(['alice@example.com']);
+  });
+
+  it('rejects a wrong password', () => {
+    const p12 = forge.pkcs12.toPkcs12Asn1(key, [cert], 'secret', { algorithm: '3des' });
+    expect(() => parsePkcs12(asn1.toDer(p12).getBytes(), 'wrong')).toThrow();
+  });
+});
+
+describe('decryptEnvelopedData', () => {
+  it('decrypts content encrypted to an imported certificate', () => {
+    const p7 = forge.pkcs7.createEnvelopedData();
+    p7.addRecipient(cert);
+    p7.content = forge.util.createBuffer('secret body');
+    p7.encrypt();
+    const der = asn1.toDer(p7.toAsn1()).getBytes();
+    expect(decryptEnvelopedData(der, [identity])).toBe('secret body');
+    expect(decryptEnvelopedData(der, [])).toBeNull();
+  });
+});
+
+describe('verifySignedData', () => {
+  it('verifies a detached signature and rejects tampered content', () => {
+    const der = forge.util.decode64(signData(INNER, { detached: true }));
+    const good = verifySignedData(der, { content: INNER, from: 'alice@example.com' });
+    expect(good.status.signature).toBe('signed');
+    expect(good.status.signer).toBe('alice@example.com');
+    expect(good.status.chainValid).toBe(true);
+    expect(good.status.senderMatch).toBe(true);
+    expect(good.status.signedAt).toBeGreaterThan(0);
+
+    const bad = verifySignedData(der, { content: INNER.replace('Hello', 'Jello') });
+    expect(bad.status.signature).toBe('bad');
+  });
+
+  it('flags a signer that does not match the sender', () => {
+    const der = forge.util.decode64(signData(INNER, { detached: true }));
+    const result = verifySignedData(der, { content: INNER, from: 'mallory@example.com' });
+    expect(result.status.senderMatch).toBe(false);
+  });
+});
+
+describe('unwrapSmimeMessage', () => {
+  it('passes through messages without S/MIME', () => {
+    const raw = 'Content-Type: text/plain\r\n\r\nhi';
+    expect(unwrapSmimeMessage(raw)).toEqual({ content: raw, status: null, locked: false });
+  });
+
+  it('verifies multipart/signed and keeps the original message', () => {
+    // The CRLF before the boundary is not part of the signed entity
+    const entity = INNER.replace(/\r\n$/, '');
+    const raw = detachedMessage(entity, signData(entity, { detached: true }));
+    const result = unwrapSmimeMessage(raw, { identities: [identity] });
+    expect(result.content).toBe(raw);
+    expect(result.status).toMatchObject({
+      encrypted: false,
+      signature: 'signed',
+      trusted: true,
+      senderMatch: true,
+    });
+  });
+
+  it('unwraps opaque signed data', () => {
+    const raw = pkcs7Message('signed-data', signData(INNER, { detached: false }));
+    const result = unwrapSmimeMessage(raw);
+    expect(result.content).toBe(INNER);
+    expect(result.status.signature).toBe('signed');
+    expect(result.status.trusted).toBe(false);
+  });
+
+  it('decrypts enveloped data, or reports it locked without a matching identity', () => {
+    const p7 = forge.pkcs7.createEnvelopedData();
+    p7.addRecipient(cert);
+    p7.content = forge.util.createBuffer(forge.util.encodeUtf8(INNER));
+    p7.encrypt();
+    const raw = pkcs7Message('enveloped-data', toBase64Der(p7));
+
+    const unlocked = unwrapSmimeMessage(raw, { identities: [identity] });
+    expect(unlocked.locked).toBe(false);
+    expect(unlocked.content).toBe(INNER);
+    expect(unlocked.status).toMatchObject({ encrypted: true, signature: 'unsigned' });
+
+    const locked = unwrapSmimeMessage(raw);
+    expect(locked.locked).toBe(true);
+    expect(locked.status).toMatchObject({ encrypted: true, locked: true });
+  });
+});
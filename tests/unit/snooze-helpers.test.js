@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  snoozeMetaAccount,
+  snoozeMetaKey,
+  snoozePresets,
+  resolveSnoozeUntil,
+  createSnoozeRecord,
+  splitDueSnoozes,
+  wakeMessage,
+  wakeMutations,
+} from '../../src/utils/snooze-helpers.js';
+
+const presetTimes = (now) =>
+  Object.fromEntries(snoozePresets(now).map((preset) => [preset.id, new Date(preset.until)]));
+
+describe('snoozeMetaKey', () => {
+  it('is per account', () => {
+    expect(snoozeMetaKey('me@example.com')).toBe('snoozed_me@example.com');
+    expect(snoozeMetaKey()).toBe('snoozed_default');
+  });
+
+  it('gives back the account', () => {
+    expect(snoozeMetaAccount('snoozed_me@example.com')).toBe('me@example.com');
+    expect(snoozeMetaAccount('mutation_queue_me@example.com')).toBeNull();
+  });
+});
+
+describe('snoozePresets', () => {
+  it('offers later today, tomorrow morning and next Monday', () => {
+    // Wednesday 10:15
+    const times = presetTimes(new Date(2026, 6, 15, 10, 15));
+    expect(times['later-today']).toEqual(new Date(2026, 6, 15, 13, 0));
+    expect(times.tomorrow).toEqual(new Date(2026, 6, 16, 8, 0));
+    expect(times['next-week']).toEqual(new Date(2026, 6, 20, 8, 0));
+  });
+
+  it('drops later today in the evening', () => {
+    const times = presetTimes(new Date(2026, 6, 15, 19, 0));
+    expect(times['later-today']).toBeUndefined();
+  });
+
+  it('skips to the following Monday on a Monday', () => {
+    const times = presetTimes(new Date(2026, 6, 13, 9, 0));
+    expect(times['next-week']).toEqual(new Date(2026, 6, 20, 8, 0));
+  });
+});
+
+describe('resolveSnoozeUntil', () => {
+  const now = new Date(2026, 6, 15, 10, 0);
+
+  it('accepts datetime-local strings and timestamps in the future', () => {
+    expect(resolveSnoozeUntil('2026-07-15T12:30', now)).toBe(
+      new Date(2026, 6, 15, 12, 30).getTime(),
+    );
+    expect(resolveSnoozeUntil(now.getTime() + 1000, now)).toBe(now.getTime() + 1000);
+  });
+
+  it('rejects past and invalid times', () => {
+    expect(() => resolveSnoozeUntil('2026-07-15T09:00', now)).toThrow(/future/);
+    expect(() => resolveSnoozeUntil('', now)).toThrow(/Choose/);
+  });
+});
+
+describe('splitDueSnoozes', () => {
+  it('separates due records from waiting ones', () => {
+    const records = [
+      { id: 'a', until: 100 },
+      { id: 'b', until: 200 },
+      { id: 'c', until: 300 },
+    ];
+    const { due, pending } = splitDueSnoozes(records, 200);
+    expect(due.map((r) => r.id)).toEqual(['a', 'b']);
+    expect(pending.map((r) => r.id)).toEqual(['c']);
+  });
+});
+
+describe('waking', () => {
+  const message = {
+    id: 'm1',
+    folder: 'Snoozed',
+    subject: 'Invoice',
+    flags: ['\\Seen', '\\Flagged'],
+    is_unread: false,
+    is_unread_index: 0,
+    date: 1000,
+    dateMs: 1000,
+  };
+  const record = createSnoozeRecord(
+    { ...message, folder: 'INBOX' },
+    { apiId: 'api-1', until: 5000, apiBase: 'https://api.example.com', authHeader: 'Basic x' },
+  );
+
+  it('remembers where the message came from', () => {
+    expect(record).toMatchObject({
+      messageId: 'm1',
+      apiId: 'api-1',
+      folder: 'INBOX',
+      until: 5000,
+      authHeader: 'Basic x',
+    });
+  });
+
+  it('returns the message unread and woken now, keeping its date', () => {
+    expect(wakeMessage(message, record, 9000)).toMatchObject({
+      folder: 'INBOX',
+      flags: ['\\Flagged'],
+      is_unread: true,
+      is_unread_index: 1,
+      date: 1000,
+      dateMs: 1000,
+      wokenAt: 9000,
+    });
+  });
+
+  it('moves back before marking unread, keeping other flags', () => {
+    expect(wakeMutations(record, ['\\Flagged'])).toEqual([
+      { type: 'move', payload: { messageId: 'api-1', targetFolder: 'INBOX' } },
+      {
+        type: 'toggleRead',
+        payload: { messageId: 'api-1', isUnread: true, flags: ['\\Flagged'], folder: 'INBOX' },
+      },
+    ]);
+  });
+
+  it('only moves when the flags are unknown', () => {
+    expect(wakeMutations(record).map((m) => m.type)).toEqual(['move']);
+  });
+});
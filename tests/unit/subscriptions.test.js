@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const meta = new Map();
+
+vi.mock('../../src/utils/db', () => ({
+  db: {
+    meta: {
+      get: vi.fn(async (key) => meta.get(key)),
+      put: vi.fn(async (record) => {
+        meta.set(record.key, structuredClone(record));
+      }),
+    },
+  },
+}));
+
+vi.mock('../../src/utils/storage', () => ({
+  Local: { get: vi.fn(() => 'me@example.com') },
+}));
+
+vi.mock('../../src/utils/remote', () => ({
+  Remote: { request: vi.fn() },
+}));
+
+vi.mock('../../src/utils/outbox-service.js', () => ({
+  queueEmail: vi.fn(),
+}));
+
+vi.mock('../../src/utils/mail-rules.js', () => ({
+  listMailRules: vi.fn(async () => []),
+  saveMailRules: vi.fn(),
+  applyRuleMatches: vi.fn(),
+}));
+
+import { unsubscribeFromList } from '../../src/utils/subscriptions.js';
+import { Remote } from '../../src/utils/remote';
+import { queueEmail } from '../../src/utils/outbox-service.js';
+
+const UNSUBSCRIBED_KEY = 'unsubscribed_lists_me@example.com';
+
+const oneClickList = (overrides = {}) => ({
+  id: 'news.example.com',
+  name: 'News',
+  oneClick: true,
+  unsubscribeUrl: 'https://example.com/unsub?u=1',
+  ...overrides,
+});
+
+beforeEach(() => {
+  meta.clear();
+  vi.mocked(Remote.request).mockReset();
+  vi.mocked(queueEmail).mockReset();
+});
+
+describe('unsubscribeFromList', () => {
+  it('sends the one-click POST through the API and remembers the list', async () => {
+    vi.mocked(Remote.request).mockResolvedValue({});
+
+    await expect(unsubscribeFromList(oneClickList())).resolves.toBe('one-click');
+
+    expect(Remote.request).toHaveBeenCalledWith('ListUnsubscribe', {
+      url: 'https://example.com/unsub?u=1',
+    });
+    expect(queueEmail).not.toHaveBeenCalled();
+    expect(meta.get(UNSUBSCRIBED_KEY).value['news.example.com'].method).toBe('one-click');
+  });
+
+  it('falls back to the unsubscribe address when the POST fails', async () => {
+    vi.mocked(Remote.request).mockRejectedValue(new Error('Bad Gateway'));
+
+    const list = oneClickList({ unsubscribeMailto: 'mailto:leave@example.com?subject=stop' });
+    await expect(unsubscribeFromList(list)).resolves.toBe('mailto');
+
+    expect(queueEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ to: ['leave@example.com'], subject: 'stop' }),
+    );
+    expect(meta.get(UNSUBSCRIBED_KEY).value['news.example.com'].method).toBe('mailto');
+  });
+
+  it('reports a failed POST when there is no address to fall back to', async () => {
+    vi.mocked(Remote.request).mockRejectedValue(new Error('Bad Gateway'));
+
+    await expect(unsubscribeFromList(oneClickList())).rejects.toThrow('Bad Gateway');
+    expect(meta.has(UNSUBSCRIBED_KEY)).toBe(false);
+  });
+});
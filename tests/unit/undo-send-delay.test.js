@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeUndoSendDelay,
+  SETTINGS_REGISTRY,
+  DEFAULT_UNDO_SEND_DELAY,
+} from '../../src/stores/settingsRegistry.ts';
+
+describe('normalizeUndoSendDelay', () => {
+  it('keeps the offered choices', () => {
+    expect([0, 5, 10, 20, 30].map(normalizeUndoSendDelay)).toEqual([0, 5, 10, 20, 30]);
+    expect(normalizeUndoSendDelay('20')).toBe(20);
+  });
+
+  it('clamps to the 5–30 second window', () => {
+    expect(normalizeUndoSendDelay(2)).toBe(5);
+    expect(normalizeUndoSendDelay(120)).toBe(30);
+  });
+
+  it('treats zero and negative values as off', () => {
+    expect(normalizeUndoSendDelay(-3)).toBe(0);
+    expect(normalizeUndoSendDelay('0')).toBe(0);
+  });
+
+  it('falls back to the default for missing or invalid values', () => {
+    expect(normalizeUndoSendDelay(null)).toBe(DEFAULT_UNDO_SEND_DELAY);
+    expect(normalizeUndoSendDelay('soon')).toBe(DEFAULT_UNDO_SEND_DELAY);
+  });
+});
+
+describe('undo_send_delay setting', () => {
+  it('round-trips through local storage', () => {
+    const def = SETTINGS_REGISTRY.undo_send_delay;
+    expect(def.localParse(def.localSerialize(10))).toBe(10);
+    expect(def.localParse(null)).toBe(DEFAULT_UNDO_SEND_DELAY);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  UNIFIED_FOLDER,
+  isUnifiedFolder,
+  resolveSourceFolder,
+  mergeUnifiedPages,
+  unifiedSourceLabel,
+} from '../../src/utils/unified-inbox-helpers.ts';
+
+describe('resolveSourceFolder', () => {
+  const folders = [
+    { path: 'INBOX' },
+    { path: 'Sent Items', specialUse: '\\Sent' },
+    { path: 'Old Mail', flags: ['\\Archive'] },
+    { path: 'Deleted' },
+  ];
+
+  it('always uses INBOX for the inbox', () => {
+    expect(resolveSourceFolder([], 'INBOX')).toBe('INBOX');
+  });
+
+  it('prefers special-use flags, then well-known names', () => {
+    expect(resolveSourceFolder(folders, '\\Sent')).toBe('Sent Items');
+    expect(resolveSourceFolder(folders, '\\Archive')).toBe('Old Mail');
+    expect(resolveSourceFolder(folders, '\\Trash')).toBe('Deleted');
+  });
+
+  it('returns null when the account has no such folder', () => {
+    expect(resolveSourceFolder(folders, '\\Junk')).toBeNull();
+  });
+});
+
+describe('mergeUnifiedPages', () => {
+  const alice = [
+    { id: 'a1', account: 'alice@example.com', dateMs: 500 },
+    { id: 'a2', account: 'alice@example.com', dateMs: 300 },
+  ];
+  const bob = [
+    { id: 'b1', account: 'bob@example.com', dateMs: 400 },
+    { id: 'b2', account: 'bob@example.com', dateMs: 100 },
+  ];
+
+  it('interleaves accounts by date and slices the page', () => {
+    const ids = (list) => list.map((msg) => msg.id);
+    expect(ids(mergeUnifiedPages([alice, bob], { limit: 2 }))).toEqual(['a1', 'b1']);
+    expect(ids(mergeUnifiedPages([alice, bob], { offset: 2, limit: 2 }))).toEqual(['a2', 'b2']);
+    expect(ids(mergeUnifiedPages([alice, bob], { sort: 'oldest', limit: 1 }))).toEqual(['b2']);
+  });
+
+  it('keeps messages with the same id from different accounts', () => {
+    const shared = [{ id: 'x', account: 'bob@example.com', dateMs: 1 }];
+    const merged = mergeUnifiedPages([
+      [{ id: 'x', account: 'alice@example.com', dateMs: 2 }],
+      shared,
+      shared,
+    ]);
+    expect(merged.map((msg) => msg.account)).toEqual(['alice@example.com', 'bob@example.com']);
+  });
+});
+
+describe('unified folder', () => {
+  it('is recognised by its virtual path', () => {
+    expect(isUnifiedFolder(UNIFIED_FOLDER)).toBe(true);
+    expect(isUnifiedFolder('INBOX')).toBe(false);
+    expect(unifiedSourceLabel('\\Sent')).toBe('Sent');
+    expect(unifiedSourceLabel('unknown')).toBe('Inboxes');
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_VACATION_RESPONDER,
+  normalizeVacationResponder,
+  serializeVacationResponder,
+  validateVacationResponder,
+  isVacationResponderActive,
+} from '../../src/utils/vacation-responder.ts';
+
+const responder = (overrides = {}) => ({
+  enabled: true,
+  startDate: '2026-07-01',
+  endDate: '2026-07-14',
+  subject: 'Out of office',
+  message: '<p>Back on the 15th.</p>',
+  onlyContacts: false,
+  replyIntervalDays: 4,
+  ...overrides,
+});
+
+describe('normalizeVacationResponder', () => {
+  it('fills in defaults for missing values', () => {
+    expect(normalizeVacationResponder(null)).toEqual(DEFAULT_VACATION_RESPONDER);
+    expect(normalizeVacationResponder({ subject: 'Away' })).toEqual({
+      ...DEFAULT_VACATION_RESPONDER,
+      subject: 'Away',
+    });
+  });
+
+  it('reads the API payload and trims timestamps to days', () => {
+    expect(
+      normalizeVacationResponder({
+        is_enabled: true,
+        start_date: '2026-07-01T00:00:00.000Z',
+        end_date: '2026-07-14',
+        subject: 'Away',
+        message: '<p>Hi</p>',
+        only_contacts: true,
+        reply_interval_days: '7',
+      }),
+    ).toEqual({
+      enabled: true,
+      startDate: '2026-07-01',
+      endDate: '2026-07-14',
+      subject: 'Away',
+      message: '<p>Hi</p>',
+      onlyContacts: true,
+      replyIntervalDays: 7,
+    });
+  });
+
+  it('clamps the reply interval', () => {
+    expect(normalizeVacationResponder({ replyIntervalDays: 0 }).replyIntervalDays).toBe(1);
+    expect(normalizeVacationResponder({ replyIntervalDays: 9999 }).replyIntervalDays).toBe(365);
+  });
+});
+
+describe('serializeVacationResponder', () => {
+  it('round-trips through the API shape', () => {
+    const payload = serializeVacationResponder(responder({ onlyContacts: true }));
+    expect(payload).toMatchObject({
+      is_enabled: true,
+      only_contacts: true,
+      reply_interval_days: 4,
+    });
+    expect(normalizeVacationResponder(payload)).toEqual(responder({ onlyContacts: true }));
+  });
+});
+
+describe('validateVacationResponder', () => {
+  it('requires a subject and message when enabled', () => {
+    expect(validateVacationResponder(responder({ subject: '  ' })).error).toMatch(/Subject/);
+    expect(validateVacationResponder(responder({ message: '<p> </p>' })).error).toMatch(/Message/);
+    expect(validateVacationResponder(responder({ enabled: false, subject: '' })).ok).toBe(true);
+  });
+
+  it('rejects an end date before the start date', () => {
+    const result = validateVacationResponder(responder({ endDate: '2026-06-30' }));
+    expect(result.ok).toBe(false);
+    expect(result.error).toMatch(/End date/);
+  });
+
+  it('returns the cleaned value', () => {
+    expect(validateVacationResponder(responder({ subject: ' Away ' })).value.subject).toBe('Away');
+  });
+});
+
+describe('isVacationResponderActive', () => {
+  it('is active only inside the inclusive date range', () => {
+    const value = responder();
+    expect(isVacationResponderActive(value, new Date(2026, 5, 30, 23, 59))).toBe(false);
+    expect(isVacationResponderActive(value, new Date(2026, 6, 1, 0, 0))).toBe(true);
+    expect(isVacationResponderActive(value, new Date(2026, 6, 14, 23, 59))).toBe(true);
+    expect(isVacationResponderActive(value, new Date(2026, 6, 15, 0, 0))).toBe(false);
+  });
+
+  it('treats missing dates as open-ended and respects the switch', () => {
+    const now = new Date(2030, 0, 1);
+    expect(isVacationResponderActive(responder({ startDate: null, endDate: null }), now)).toBe(
+      true,
+    );
+    expect(isVacationResponderActive(responder({ enabled: false, startDate: null }), now)).toBe(
+      false,
+    );
+  });
+});